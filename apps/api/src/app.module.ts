@@ -9,13 +9,18 @@ import { PassportModule } from '@nestjs/passport';
 import { databaseConfig } from '@packages/config';
 import { jwtConfig } from '@packages/config';
 import { redisConfig } from '@packages/config';
+import { securityConfig } from '@packages/config';
 
 // 모듈들
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { CoursesModule } from './courses/courses.module';
+import { SectionsModule } from './sections/sections.module';
+import { CourseRevisionsModule } from './course-revisions/course-revisions.module';
 import { TransactionsModule } from './transactions/transactions.module';
 import { UserCourseProgressModule } from './user-course-progress/user-course-progress.module';
+import { QuizzesModule } from './quizzes/quizzes.module';
+import { CommentsModule } from './comments/comments.module';
 import { DebugModule } from './debug/debug.module'; // 🔧 개발 환경 전용
 import { PerformanceModule } from './performance/performance.module'; // 📊 성능 모니터링
 import { PrismaModule, RedisModule } from '@packages/database';
@@ -34,7 +39,7 @@ import { JwtStrategy } from './auth/strategies/jwt.strategy';
     // 설정 모듈
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [databaseConfig, jwtConfig, redisConfig],
+      load: [databaseConfig, jwtConfig, redisConfig, securityConfig],
       envFilePath: ['.env', '.env.development'],
     }),
 
@@ -78,6 +83,10 @@ import { JwtStrategy } from './auth/strategies/jwt.strategy';
     CoursesModule,
     TransactionsModule,
     UserCourseProgressModule,
+    SectionsModule,
+    CourseRevisionsModule,
+    QuizzesModule,
+    CommentsModule,
     
     // 📊 성능 모니터링 모듈
     PerformanceModule,
@@ -35,3 +35,15 @@ export const CurrentUser = createParamDecorator(
     return user;
   },
 );
+
+/**
+ * 선택적으로 인증된 사용자 정보를 가져오는 데코레이터
+ * 
+ * @OptionalAuth() 엔드포인트에서 사용하며, 익명 요청이면 undefined를 반환합니다.
+ */
+export const OptionalCurrentUser = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest();
+    return request.user ?? undefined;
+  },
+);
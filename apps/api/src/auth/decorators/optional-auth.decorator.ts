@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * 선택적 인증 엔드포인트 데코레이터
+ * 
+ * 토큰이 없거나 유효하지 않아도 요청을 허용하고,
+ * 유효한 토큰이 있으면 사용자 정보를 요청에 담습니다.
+ */
+export const IS_OPTIONAL_AUTH_KEY = 'isOptionalAuth';
+export const OptionalAuth = () => SetMetadata(IS_OPTIONAL_AUTH_KEY, true);
@@ -0,0 +1,22 @@
+import { SetMetadata, UseGuards, applyDecorators } from '@nestjs/common';
+import { VerifiedEmailGuard } from '../guards/verified-email.guard';
+
+/**
+ * 이메일 인증 정책이 적용되는 작업
+ * security.emailVerification.requiredFor (EMAIL_VERIFICATION_REQUIRED_FOR)에 나열된 작업만 차단됩니다.
+ */
+export type VerifiedEmailAction = 'checkout' | 'course_creation';
+
+export const VERIFIED_EMAIL_ACTION_KEY = 'verifiedEmailAction';
+
+/**
+ * 이메일 인증 필요 엔드포인트 데코레이터
+ * 
+ * 정책에서 해당 작업을 요구하면 이메일 인증을 마친 사용자만 요청할 수 있습니다.
+ * 인증 가드(ApiJwtAuthGuard) 이후에 실행되어야 합니다.
+ */
+export const RequireVerifiedEmail = (action: VerifiedEmailAction) =>
+  applyDecorators(
+    SetMetadata(VERIFIED_EMAIL_ACTION_KEY, action),
+    UseGuards(VerifiedEmailGuard)
+  );
@@ -2,6 +2,7 @@ import { Injectable, ExecutionContext, UnauthorizedException, Logger } from '@ne
 import { AuthGuard } from '@nestjs/passport';
 import { Reflector } from '@nestjs/core';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { IS_OPTIONAL_AUTH_KEY } from '../decorators/optional-auth.decorator';
 
 /**
  * 🔒 API 서비스용 JWT 인증 가드
@@ -42,6 +43,16 @@ export class ApiJwtAuthGuard extends AuthGuard('jwt') {
         return true;
       }
 
+      // @OptionalAuth() 데코레이터 확인 - 토큰이 있을 때만 인증 시도
+      const isOptionalAuth = this.reflector.getAllAndOverride<boolean>(IS_OPTIONAL_AUTH_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]);
+
+      if (isOptionalAuth) {
+        return this.tryAuthenticate(context);
+      }
+
       // 부모 클래스의 canActivate 호출
       const result = super.canActivate(context);
       
@@ -57,6 +68,25 @@ export class ApiJwtAuthGuard extends AuthGuard('jwt') {
     }
   }
 
+  /**
+   * 선택적 인증 처리
+   * 인증에 실패해도 익명 사용자로 요청을 허용합니다
+   */
+  private async tryAuthenticate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    if (!this.extractTokenFromRequest(request)) {
+      return true;
+    }
+
+    try {
+      await super.canActivate(context);
+    } catch {
+      this.logger.debug('🌐 선택적 인증 실패 - 익명 사용자로 처리');
+      request.user = undefined;
+    }
+    return true;
+  }
+
   /**
    * 인증 결과 처리
    * 토큰 만료 시 클라이언트에게 갱신 안내 헤더 추가
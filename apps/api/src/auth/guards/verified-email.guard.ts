@@ -0,0 +1,65 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { PrismaService } from '@packages/database';
+import {
+  VERIFIED_EMAIL_ACTION_KEY,
+  type VerifiedEmailAction,
+} from '../decorators/require-verified-email.decorator';
+
+/**
+ * 📧 이메일 인증 정책 가드
+ * 
+ * JWT 전략은 인증 여부를 담지 않으므로 DB에서 최신 상태를 확인합니다.
+ * 정책에 포함되지 않은 작업이면 그대로 통과합니다.
+ */
+@Injectable()
+export class VerifiedEmailGuard implements CanActivate {
+  private readonly logger = new Logger(VerifiedEmailGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+    private readonly prismaService: PrismaService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const action = this.reflector.getAllAndOverride<VerifiedEmailAction>(
+      VERIFIED_EMAIL_ACTION_KEY,
+      [context.getHandler(), context.getClass()]
+    );
+    const requiredFor =
+      this.configService.get<string[]>('security.emailVerification.requiredFor') ?? [];
+
+    if (!action || !requiredFor.includes(action)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const userId: string | undefined = request.user?.id;
+    if (!userId) {
+      return true; // 인증 여부는 JWT 가드가 판단
+    }
+
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: { isVerified: true },
+    });
+
+    if (!user?.isVerified) {
+      this.logger.warn(`이메일 미인증 사용자 차단 - 사용자: ${userId}, 작업: ${action}`);
+      throw new ForbiddenException({
+        code: 'EMAIL_NOT_VERIFIED',
+        message: '이메일 인증을 완료한 후 이용할 수 있습니다',
+      });
+    }
+
+    return true;
+  }
+}
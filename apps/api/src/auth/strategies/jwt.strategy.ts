@@ -2,19 +2,27 @@ import { Injectable, UnauthorizedException, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import type { Request } from 'express';
 import type { JwtPayload } from '@packages/common';
+import { PrismaService, RedisService } from '@packages/database';
 
 /**
  * 🔐 JWT 인증 전략
  * 
  * JWT 토큰을 검증하고 사용자 정보를 반환합니다.
- * API 서비스에서는 토큰 검증만 수행하고, 사용자 데이터는 토큰 페이로드에서 가져옵니다.
+ * 토큰 페이로드의 역할을 그대로 믿지 않고, 매 요청마다 세션(session:{sub}:{sid})과
+ * 현재 사용자 상태(활성 여부, 역할, 비밀번호 변경 시각)를 확인하므로
+ * 역할 변경/비활성화/세션 종료가 액세스 토큰 만료를 기다리지 않고 즉시 반영됩니다.
  */
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   private readonly logger = new Logger(JwtStrategy.name);
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prismaService: PrismaService,
+    private readonly redisService: RedisService,
+  ) {
     const jwtSecret = configService.get<string>('jwt.secret');
     
     if (!jwtSecret) {
@@ -25,8 +33,8 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
       secretOrKey: jwtSecret,
-      // 추가 보안 옵션
-      passReqToCallback: false,
+      // 추가 보안 옵션 (블랙리스트 확인을 위해 요청 객체 전달)
+      passReqToCallback: true,
     });
 
     this.logger.log('🔑 JWT 전략 초기화 완료');
@@ -35,10 +43,11 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   /**
    * JWT 페이로드 검증 및 사용자 정보 반환
    * 
+   * @param req HTTP 요청 객체
    * @param payload JWT 페이로드
    * @returns 검증된 사용자 정보
    */
-  async validate(payload: JwtPayload) {
+  async validate(req: Request, payload: JwtPayload) {
     try {
       this.logger.debug('JWT 페이로드 검증 시작:', { 
         sub: payload.sub,
@@ -80,20 +89,58 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         throw new UnauthorizedException('유효하지 않은 토큰 발급 시간입니다');
       }
 
+      // 로그아웃으로 무효화된 토큰 거부
+      const token = ExtractJwt.fromAuthHeaderAsBearerToken()(req);
+      if (token && await this.redisService.isBlacklisted(token)) {
+        this.logger.warn(`블랙리스트된 토큰 사용 시도 - 사용자: ${userId}`);
+        throw new UnauthorizedException('토큰이 무효화되었습니다');
+      }
+
+      // 종료된 세션의 토큰 거부 (로그아웃, 세션 종료, 역할 변경/비활성화 시 세션이 삭제됨)
+      if (payload.sid && !(await this.redisService.getSession(userId, payload.sid))) {
+        this.logger.warn(`종료된 세션의 토큰 사용 시도 - 사용자: ${userId}`);
+        throw new UnauthorizedException('세션이 종료되었습니다. 다시 로그인해주세요');
+      }
+
+      // 현재 사용자 상태 확인 (역할은 토큰이 아닌 DB 값을 사용)
+      const account = await this.prismaService.user.findUnique({
+        where: { id: userId },
+        select: { role: true, isActive: true, isVerified: true, passwordChangedAt: true },
+      });
+
+      if (!account || !account.isActive) {
+        this.logger.warn(`존재하지 않거나 비활성화된 계정 접근 시도 - 사용자: ${userId}`);
+        throw new UnauthorizedException('사용자를 찾을 수 없거나 비활성화되었습니다');
+      }
+
+      // 비밀번호 변경 이전에 발급된 토큰 거부
+      if (
+        account.passwordChangedAt &&
+        payload.iat &&
+        payload.iat < Math.floor(account.passwordChangedAt.getTime() / 1000)
+      ) {
+        this.logger.warn(`비밀번호 변경 이전 토큰 사용 시도 - 사용자: ${userId}`);
+        throw new UnauthorizedException('비밀번호가 변경되어 다시 로그인해야 합니다');
+      }
+
+      if (role && role !== account.role) {
+        this.logger.warn(`토큰 역할과 현재 역할 불일치 - 사용자: ${userId} (${role} -> ${account.role})`);
+      }
+
       // 사용자 객체 구성 (JwtUser 인터페이스와 호환)
       const user = {
         id: userId,
         email,
         username: username || email.split('@')[0], // username이 없으면 이메일에서 생성
-        role: role || 'user', // 기본값은 user (student -> user로 변경)
+        role: account.role,
         
         // 추가 메타데이터
         tokenIssuedAt: payload.iat,
         tokenExpiresAt: payload.exp,
+        sessionId: payload.sid,
         
-        // 기본값 설정
-        isVerified: true, // API에서는 검증된 토큰만 받으므로 true
-        isActive: true,   // API에서는 활성 사용자만 접근 가능하므로 true
+        isVerified: account.isVerified,
+        isActive: account.isActive,
       };
 
       this.logger.debug(`✅ JWT 토큰 검증 성공 - 사용자: ${userId} (${email})`);
@@ -0,0 +1,193 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Logger,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+
+import { CommentsService } from './comments.service';
+import { ZodValidationPipe } from '@packages/common';
+import type { User } from '@packages/common';
+import {
+  commentQuerySchema,
+  createCommentSchema,
+  markCommentAnsweredSchema,
+  updateCommentSchema,
+} from '@packages/schemas';
+import type {
+  CommentQueryDto,
+  CreateCommentDto,
+  MarkCommentAnsweredDto,
+  UpdateCommentDto,
+} from '@packages/schemas';
+
+// 로컬 가드와 데코레이터 사용
+import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * 💬 챕터 댓글/Q&A 컨트롤러
+ *
+ * 엔드포인트:
+ * - GET /courses/:courseId/chapters/:chapterId/comments - 댓글 목록 조회 (커서 페이지네이션)
+ * - POST /courses/:courseId/chapters/:chapterId/comments - 댓글/답글 작성 (수강생/강사)
+ * - PATCH /courses/:courseId/chapters/:chapterId/comments/:commentId - 댓글 수정 (작성자)
+ * - DELETE /courses/:courseId/chapters/:chapterId/comments/:commentId - 댓글 삭제 (작성자/강사/관리자)
+ * - PATCH /courses/:courseId/chapters/:chapterId/comments/:commentId/answered - 답변 완료 표시 (강사/관리자)
+ */
+@ApiTags('댓글')
+@Controller('courses/:courseId/chapters/:chapterId/comments')
+@UseGuards(ApiJwtAuthGuard)
+@ApiBearerAuth()
+export class CommentsController {
+  private readonly logger = new Logger(CommentsController.name);
+
+  constructor(private readonly commentsService: CommentsService) {}
+
+  /**
+   * 📋 댓글 목록 조회 (인증 필요)
+   */
+  @Get()
+  @ApiOperation({
+    summary: '댓글 목록 조회',
+    description:
+      '챕터의 최상위 댓글을 최신순으로 조회합니다. 각 댓글의 답글이 함께 반환됩니다.',
+  })
+  @ApiQuery({ name: 'cursor', required: false, description: '이전 페이지의 nextCursor' })
+  @ApiQuery({ name: 'limit', required: false, description: '페이지 크기 (기본 20, 최대 50)' })
+  @ApiQuery({ name: 'answered', required: false, enum: ['true', 'false'] })
+  @ApiResponse({ status: 200, description: '댓글 목록 조회 성공' })
+  @ApiResponse({ status: 401, description: '인증 필요' })
+  @ApiResponse({ status: 403, description: '수강 등록 필요' })
+  @ApiResponse({ status: 404, description: '챕터를 찾을 수 없음' })
+  @Throttle({ default: { limit: 60, ttl: 60000 } }) // 분당 60회 제한
+  async getComments(
+    @Param('courseId') courseId: string,
+    @Param('chapterId') chapterId: string,
+    @Query(new ZodValidationPipe(commentQuerySchema)) query: CommentQueryDto,
+    @CurrentUser() user: User
+  ) {
+    return this.commentsService.getComments(courseId, chapterId, query, user);
+  }
+
+  /**
+   * ✍️ 댓글/답글 작성 (수강생/강사)
+   */
+  @Post()
+  @ApiOperation({
+    summary: '댓글 작성',
+    description:
+      '챕터에 댓글을 작성합니다. parentId를 지정하면 답글이 되며, videoTimestamp로 영상 위치를 함께 남길 수 있습니다.',
+  })
+  @ApiResponse({ status: 201, description: '댓글 작성 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
+  @ApiResponse({ status: 401, description: '인증 필요' })
+  @ApiResponse({ status: 403, description: '수강 등록 필요' })
+  @HttpCode(HttpStatus.CREATED)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한 (스팸 방지)
+  async createComment(
+    @Param('courseId') courseId: string,
+    @Param('chapterId') chapterId: string,
+    @Body(new ZodValidationPipe(createCommentSchema)) createCommentDto: CreateCommentDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`댓글 작성 요청 - 챕터: ${chapterId}, 작성자: ${user.id}`);
+
+    return this.commentsService.createComment(courseId, chapterId, createCommentDto, user);
+  }
+
+  /**
+   * ✏️ 댓글 수정 (작성자 본인)
+   */
+  @Patch(':commentId')
+  @ApiOperation({
+    summary: '댓글 수정',
+    description: '본인이 작성한 댓글의 내용을 수정합니다.',
+  })
+  @ApiResponse({ status: 200, description: '댓글 수정 성공' })
+  @ApiResponse({ status: 403, description: '권한 없음' })
+  @ApiResponse({ status: 404, description: '댓글을 찾을 수 없음' })
+  @Throttle({ default: { limit: 20, ttl: 60000 } }) // 분당 20회 제한
+  async updateComment(
+    @Param('courseId') courseId: string,
+    @Param('chapterId') chapterId: string,
+    @Param('commentId') commentId: string,
+    @Body(new ZodValidationPipe(updateCommentSchema)) updateCommentDto: UpdateCommentDto,
+    @CurrentUser() user: User
+  ) {
+    return this.commentsService.updateComment(
+      courseId,
+      chapterId,
+      commentId,
+      updateCommentDto,
+      user
+    );
+  }
+
+  /**
+   * 🗑️ 댓글 삭제 (작성자/강사/관리자)
+   */
+  @Delete(':commentId')
+  @ApiOperation({
+    summary: '댓글 삭제',
+    description: '작성자 본인, 강의 강사 또는 관리자가 댓글을 삭제합니다. 답글도 함께 삭제됩니다.',
+  })
+  @ApiResponse({ status: 200, description: '댓글 삭제 성공' })
+  @ApiResponse({ status: 403, description: '권한 없음' })
+  @ApiResponse({ status: 404, description: '댓글을 찾을 수 없음' })
+  @Throttle({ default: { limit: 20, ttl: 60000 } }) // 분당 20회 제한
+  async deleteComment(
+    @Param('courseId') courseId: string,
+    @Param('chapterId') chapterId: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`댓글 삭제 요청 - 댓글: ${commentId}, 요청자: ${user.id}`);
+
+    return this.commentsService.deleteComment(courseId, chapterId, commentId, user);
+  }
+
+  /**
+   * ✅ 답변 완료 표시 (강사/관리자)
+   */
+  @Patch(':commentId/answered')
+  @ApiOperation({
+    summary: '답변 완료 표시',
+    description: '강의 강사가 질문을 답변 완료 상태로 표시하거나 해제합니다.',
+  })
+  @ApiResponse({ status: 200, description: '답변 완료 상태 변경 성공' })
+  @ApiResponse({ status: 403, description: '권한 없음' })
+  @ApiResponse({ status: 404, description: '댓글을 찾을 수 없음' })
+  @Throttle({ default: { limit: 30, ttl: 60000 } }) // 분당 30회 제한
+  async markAnswered(
+    @Param('courseId') courseId: string,
+    @Param('chapterId') chapterId: string,
+    @Param('commentId') commentId: string,
+    @Body(new ZodValidationPipe(markCommentAnsweredSchema)) markAnsweredDto: MarkCommentAnsweredDto,
+    @CurrentUser() user: User
+  ) {
+    return this.commentsService.markAnswered(
+      courseId,
+      chapterId,
+      commentId,
+      markAnsweredDto,
+      user
+    );
+  }
+}
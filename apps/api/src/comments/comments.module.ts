@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { CommentsController } from './comments.controller';
+import { CommentsService } from './comments.service';
+import { PrismaModule } from '@packages/database';
+import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
+
+/**
+ * 💬 챕터 댓글/Q&A 모듈
+ *
+ * 기능:
+ * - 챕터별 댓글 및 1단계 답글 (스레드)
+ * - 영상 재생 위치를 가리키는 질문
+ * - 강사의 답변 완료 표시
+ * - 커서 기반 페이지네이션
+ * - 작성자/강사/관리자 모더레이션
+ * - JWT 인증 보호
+ */
+@Module({
+  imports: [PrismaModule],
+  controllers: [CommentsController],
+  providers: [
+    CommentsService,
+    ApiJwtAuthGuard, // 로컬 JWT 가드 제공
+  ],
+  exports: [CommentsService],
+})
+export class CommentsModule {}
@@ -0,0 +1,375 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+import { PrismaService } from '@packages/database';
+import { generateId, RoleUtils } from '@packages/common';
+import type { User } from '@packages/common';
+import type {
+  CommentQueryDto,
+  CreateCommentDto,
+  MarkCommentAnsweredDto,
+  UpdateCommentDto,
+} from '@packages/schemas';
+
+// 👤 댓글 작성자 공개 필드
+const COMMENT_AUTHOR_SELECT = {
+  id: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  avatar: true,
+} satisfies Prisma.UserSelect;
+
+// 💬 댓글 조회 시 포함할 관계 (답글은 작성 순)
+const COMMENT_INCLUDE = {
+  user: { select: COMMENT_AUTHOR_SELECT },
+  replies: {
+    orderBy: { createdAt: 'asc' },
+    include: { user: { select: COMMENT_AUTHOR_SELECT } },
+  },
+} satisfies Prisma.CommentInclude;
+
+// 🏗️ 타입 정의 - 댓글이 달린 챕터 조회 결과
+type CommentChapter = Prisma.ChapterGetPayload<{
+  include: {
+    section: { select: { courseId: true; course: { select: { teacherId: true } } } };
+  };
+}>;
+
+/**
+ * 💬 챕터 댓글/Q&A 서비스
+ *
+ * 주요 기능:
+ * - 커서 기반 댓글 목록 조회 (답글 포함)
+ * - 수강생/강사 댓글 및 1단계 답글 작성
+ * - 작성자 본인 수정, 작성자/강사/관리자 삭제
+ * - 강사의 질문 답변 완료 표시
+ */
+@Injectable()
+export class CommentsService {
+  private readonly logger = new Logger(CommentsService.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * 📋 챕터 댓글 목록 조회 (커서 페이지네이션)
+   * 최상위 댓글을 최신순으로 반환하고, 각 댓글의 답글은 작성 순으로 포함합니다.
+   */
+  async getComments(courseId: string, chapterId: string, query: CommentQueryDto, user: User) {
+    try {
+      const chapter = await this.findChapter(courseId, chapterId);
+      await this.validateAccess(chapter, courseId, user);
+
+      const { cursor, limit, answered } = query;
+
+      const comments = await this.prismaService.comment.findMany({
+        where: {
+          chapterId,
+          parentId: null,
+          ...(answered !== undefined && { isAnswered: answered }),
+        },
+        include: COMMENT_INCLUDE,
+        orderBy: [{ createdAt: 'desc' }, { commentId: 'desc' }],
+        take: limit + 1, // 다음 페이지 존재 여부 확인용
+        ...(cursor && { cursor: { commentId: cursor }, skip: 1 }),
+      });
+
+      const hasMore = comments.length > limit;
+      const items = hasMore ? comments.slice(0, limit) : comments;
+
+      return {
+        message: '댓글 목록 조회 성공',
+        data: {
+          items,
+          nextCursor: hasMore ? items[items.length - 1].commentId : null,
+          hasMore,
+        },
+        count: items.length,
+      };
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        throw new BadRequestException('유효하지 않은 커서입니다');
+      }
+
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+
+      this.logger.error(`댓글 목록 조회 중 오류 발생 - 챕터: ${chapterId}`, error);
+      throw new BadRequestException('댓글 목록을 조회하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * ✍️ 댓글 작성
+   * 답글은 1단계까지만 허용되며, 상위 댓글과 같은 챕터여야 합니다.
+   */
+  async createComment(
+    courseId: string,
+    chapterId: string,
+    createCommentDto: CreateCommentDto,
+    user: User
+  ) {
+    try {
+      const chapter = await this.findChapter(courseId, chapterId);
+      await this.validateAccess(chapter, courseId, user);
+
+      if (createCommentDto.parentId) {
+        const parent = await this.prismaService.comment.findUnique({
+          where: { commentId: createCommentDto.parentId },
+          select: { chapterId: true, parentId: true },
+        });
+
+        if (!parent || parent.chapterId !== chapterId) {
+          throw new NotFoundException('답글을 달 댓글을 찾을 수 없습니다');
+        }
+
+        if (parent.parentId) {
+          throw new BadRequestException('답글에는 다시 답글을 달 수 없습니다');
+        }
+      }
+
+      const comment = await this.prismaService.comment.create({
+        data: {
+          commentId: generateId(),
+          userId: user.id,
+          chapterId,
+          text: createCommentDto.text,
+          parentId: createCommentDto.parentId,
+          videoTimestamp: createCommentDto.videoTimestamp,
+        },
+        include: COMMENT_INCLUDE,
+      });
+
+      this.logger.log(
+        `댓글 작성 완료 - 댓글: ${comment.commentId}, 챕터: ${chapterId}, 작성자: ${user.id}`
+      );
+
+      return {
+        message: '댓글 작성 성공',
+        data: comment,
+      };
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+
+      this.logger.error(`댓글 작성 중 오류 발생 - 챕터: ${chapterId}, 사용자: ${user.id}`, error);
+      throw new BadRequestException('댓글을 작성하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * ✏️ 댓글 수정 (작성자 본인 전용)
+   */
+  async updateComment(
+    courseId: string,
+    chapterId: string,
+    commentId: string,
+    updateCommentDto: UpdateCommentDto,
+    user: User
+  ) {
+    try {
+      await this.findChapter(courseId, chapterId);
+      const comment = await this.findComment(chapterId, commentId);
+
+      if (comment.userId !== user.id) {
+        this.logger.warn(`댓글 수정 권한 없음 - 댓글: ${commentId}, 사용자: ${user.id}`);
+        throw new ForbiddenException('본인이 작성한 댓글만 수정할 수 있습니다');
+      }
+
+      const updatedComment = await this.prismaService.comment.update({
+        where: { commentId },
+        data: { text: updateCommentDto.text },
+        include: COMMENT_INCLUDE,
+      });
+
+      return {
+        message: '댓글 수정 성공',
+        data: updatedComment,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+
+      this.logger.error(`댓글 수정 중 오류 발생 - 댓글: ${commentId}`, error);
+      throw new BadRequestException('댓글을 수정하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 🗑️ 댓글 삭제 (작성자, 강의 소유자, 관리자)
+   * 최상위 댓글을 삭제하면 답글도 함께 삭제됩니다.
+   */
+  async deleteComment(courseId: string, chapterId: string, commentId: string, user: User) {
+    try {
+      const chapter = await this.findChapter(courseId, chapterId);
+      const comment = await this.findComment(chapterId, commentId);
+
+      if (comment.userId !== user.id && !this.canModerate(chapter, user)) {
+        this.logger.warn(`댓글 삭제 권한 없음 - 댓글: ${commentId}, 사용자: ${user.id}`);
+        throw new ForbiddenException('이 댓글을 삭제할 권한이 없습니다');
+      }
+
+      await this.prismaService.comment.delete({ where: { commentId } });
+
+      this.logger.log(`댓글 삭제 완료 - 댓글: ${commentId}, 요청자: ${user.id}`);
+
+      return {
+        message: '댓글 삭제 성공',
+        data: { commentId },
+      };
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        throw new NotFoundException('댓글을 찾을 수 없습니다');
+      }
+
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+
+      this.logger.error(`댓글 삭제 중 오류 발생 - 댓글: ${commentId}`, error);
+      throw new BadRequestException('댓글을 삭제하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * ✅ 질문 답변 완료 표시 (강의 소유자, 관리자)
+   */
+  async markAnswered(
+    courseId: string,
+    chapterId: string,
+    commentId: string,
+    markAnsweredDto: MarkCommentAnsweredDto,
+    user: User
+  ) {
+    try {
+      const chapter = await this.findChapter(courseId, chapterId);
+      const comment = await this.findComment(chapterId, commentId);
+
+      if (!this.canModerate(chapter, user)) {
+        this.logger.warn(`답변 완료 표시 권한 없음 - 댓글: ${commentId}, 사용자: ${user.id}`);
+        throw new ForbiddenException('강의 강사만 답변 완료를 표시할 수 있습니다');
+      }
+
+      if (comment.parentId) {
+        throw new BadRequestException('답글이 아닌 질문에만 답변 완료를 표시할 수 있습니다');
+      }
+
+      const updatedComment = await this.prismaService.comment.update({
+        where: { commentId },
+        data: markAnsweredDto.answered
+          ? { isAnswered: true, answeredAt: new Date(), answeredBy: user.id }
+          : { isAnswered: false, answeredAt: null, answeredBy: null },
+        include: COMMENT_INCLUDE,
+      });
+
+      this.logger.log(
+        `답변 완료 표시 변경 - 댓글: ${commentId}, 상태: ${markAnsweredDto.answered}, 요청자: ${user.id}`
+      );
+
+      return {
+        message: markAnsweredDto.answered ? '답변 완료로 표시했습니다' : '답변 완료 표시를 해제했습니다',
+        data: updatedComment,
+      };
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+
+      this.logger.error(`답변 완료 표시 중 오류 발생 - 댓글: ${commentId}`, error);
+      throw new BadRequestException('답변 완료 상태를 변경하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 🔍 강의에 속한 챕터 조회
+   */
+  private async findChapter(courseId: string, chapterId: string): Promise<CommentChapter> {
+    const chapter = await this.prismaService.chapter.findUnique({
+      where: { chapterId },
+      include: {
+        section: {
+          select: {
+            courseId: true,
+            course: { select: { teacherId: true } },
+          },
+        },
+      },
+    });
+
+    if (!chapter || chapter.section.courseId !== courseId) {
+      this.logger.warn(`챕터를 찾을 수 없음 - 강의: ${courseId}, 챕터: ${chapterId}`);
+      throw new NotFoundException('챕터를 찾을 수 없습니다');
+    }
+
+    return chapter;
+  }
+
+  /**
+   * 🔍 챕터에 속한 댓글 조회
+   */
+  private async findComment(chapterId: string, commentId: string) {
+    const comment = await this.prismaService.comment.findUnique({
+      where: { commentId },
+      select: { commentId: true, chapterId: true, userId: true, parentId: true },
+    });
+
+    if (!comment || comment.chapterId !== chapterId) {
+      throw new NotFoundException('댓글을 찾을 수 없습니다');
+    }
+
+    return comment;
+  }
+
+  /**
+   * 🔒 댓글 관리 권한 (강의 소유자 또는 관리자)
+   */
+  private canModerate(chapter: CommentChapter, user: User): boolean {
+    return chapter.section.course.teacherId === user.id || RoleUtils.isAdmin(user.role);
+  }
+
+  /**
+   * 🔒 댓글 접근 권한 검증 (수강생, 강의 소유자, 관리자)
+   */
+  private async validateAccess(
+    chapter: CommentChapter,
+    courseId: string,
+    user: User
+  ): Promise<void> {
+    if (this.canModerate(chapter, user)) {
+      return;
+    }
+
+    const enrollment = await this.prismaService.enrollment.findUnique({
+      where: { userId_courseId: { userId: user.id, courseId } },
+      select: { userId: true },
+    });
+
+    if (!enrollment) {
+      this.logger.warn(`수강 등록되지 않은 사용자 - 강의: ${courseId}, 사용자: ${user.id}`);
+      throw new ForbiddenException('수강 중인 강의에서만 댓글을 이용할 수 있습니다');
+    }
+  }
+}
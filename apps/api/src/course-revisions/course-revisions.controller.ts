@@ -0,0 +1,120 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  UseGuards,
+  Logger,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+
+import { CourseRevisionsService } from './course-revisions.service';
+import type { User } from '@packages/schemas';
+
+// 로컬 가드와 데코레이터 사용
+import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * 🗂️ 강의 개정판 컨트롤러 (강의 소유자/관리자)
+ *
+ * 게시된 강의의 섹션/챕터/강의 정보 수정은 초안에 저장되며,
+ * 게시 전까지 수강생에게는 기존 게시본이 제공됩니다.
+ *
+ * 엔드포인트:
+ * - GET /courses/:courseId/revisions/draft - 편집 중인 콘텐츠 조회
+ * - GET /courses/:courseId/revisions/draft/diff - 초안과 게시본의 변경 사항
+ * - POST /courses/:courseId/revisions/draft/publish - 초안 게시
+ * - DELETE /courses/:courseId/revisions/draft - 초안 폐기
+ */
+@ApiTags('강의 개정판')
+@Controller('courses/:courseId/revisions')
+@UseGuards(ApiJwtAuthGuard)
+@ApiBearerAuth()
+export class CourseRevisionsController {
+  private readonly logger = new Logger(CourseRevisionsController.name);
+
+  constructor(private readonly courseRevisionsService: CourseRevisionsService) {}
+
+  /**
+   * 📋 편집 중인 콘텐츠 조회
+   */
+  @Get('draft')
+  @ApiOperation({
+    summary: '강의 초안 조회',
+    description:
+      '편집 중인 강의 정보와 섹션/챕터/퀴즈를 조회합니다. 저장된 초안이 없으면 현재 게시본을 반환합니다.',
+  })
+  @ApiResponse({ status: 200, description: '강의 초안 조회 성공' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의를 찾을 수 없음' })
+  async getDraft(@Param('courseId') courseId: string, @CurrentUser() user: User) {
+    this.logger.log(`강의 초안 조회 요청 - 강의: ${courseId}, 요청자: ${user.id}`);
+
+    return this.courseRevisionsService.getDraft(courseId, user);
+  }
+
+  /**
+   * 🔍 변경 사항 조회
+   */
+  @Get('draft/diff')
+  @ApiOperation({
+    summary: '강의 변경 사항 조회',
+    description: '초안과 게시본을 비교해 강의 정보, 섹션, 챕터별 변경 사항을 반환합니다.',
+  })
+  @ApiResponse({ status: 200, description: '강의 변경 사항 조회 성공' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의를 찾을 수 없음' })
+  async getDraftDiff(@Param('courseId') courseId: string, @CurrentUser() user: User) {
+    this.logger.log(`강의 변경 사항 조회 요청 - 강의: ${courseId}, 요청자: ${user.id}`);
+
+    return this.courseRevisionsService.getDraftDiff(courseId, user);
+  }
+
+  /**
+   * 🚀 초안 게시
+   */
+  @Post('draft/publish')
+  @ApiOperation({
+    summary: '강의 개정판 게시',
+    description:
+      '초안을 게시본에 반영합니다. 삭제되거나 이동된 챕터에 맞춰 수강생 진도를 재구성합니다.',
+  })
+  @ApiResponse({ status: 200, description: '강의 개정판 게시 성공' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의 또는 초안을 찾을 수 없음' })
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 분당 5회 제한
+  async publishDraft(@Param('courseId') courseId: string, @CurrentUser() user: User) {
+    this.logger.log(`강의 개정판 게시 요청 - 강의: ${courseId}, 요청자: ${user.id}`);
+
+    return this.courseRevisionsService.publishDraft(courseId, user);
+  }
+
+  /**
+   * 🗑️ 초안 폐기
+   */
+  @Delete('draft')
+  @ApiOperation({
+    summary: '강의 초안 폐기',
+    description: '저장된 초안을 삭제합니다. 게시본은 변경되지 않습니다.',
+  })
+  @ApiResponse({ status: 200, description: '강의 초안 폐기 성공' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의 또는 초안을 찾을 수 없음' })
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한
+  async discardDraft(@Param('courseId') courseId: string, @CurrentUser() user: User) {
+    this.logger.log(`강의 초안 폐기 요청 - 강의: ${courseId}, 요청자: ${user.id}`);
+
+    return this.courseRevisionsService.discardDraft(courseId, user);
+  }
+}
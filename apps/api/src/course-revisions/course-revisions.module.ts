@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { CourseRevisionsController } from './course-revisions.controller';
+import { CourseRevisionsService } from './course-revisions.service';
+import { PrismaModule } from '@packages/database';
+import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
+import { UserCourseProgressModule } from '../user-course-progress/user-course-progress.module';
+
+/**
+ * 🗂️ 강의 개정판 모듈
+ *
+ * 기능:
+ * - 게시된 강의의 편집 내용을 초안에 저장
+ * - 초안과 게시본의 변경 사항 비교
+ * - 초안 게시 시 수강생 진도 재구성
+ * - 강의 소유자/관리자 권한 검증
+ * - JWT 인증 보호
+ */
+@Module({
+  imports: [PrismaModule, UserCourseProgressModule],
+  controllers: [CourseRevisionsController],
+  providers: [
+    CourseRevisionsService,
+    ApiJwtAuthGuard, // 로컬 JWT 가드 제공
+  ],
+  exports: [CourseRevisionsService],
+})
+export class CourseRevisionsModule {}
@@ -0,0 +1,516 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+import { PrismaService } from '@packages/database';
+import { generateId, RoleUtils } from '@packages/common';
+import type { User } from '@packages/common';
+import { diffCourseSnapshots, isSameSnapshotValue } from '@packages/schemas';
+import type {
+  CourseSnapshot,
+  CourseRevisionDraft,
+  CourseRevisionPublishResult,
+  QuizOptionDto,
+  UpsertQuizDto,
+} from '@packages/schemas';
+
+import { UserCourseProgressService } from '../user-course-progress/user-course-progress.service';
+
+// 📊 섹션/챕터/문항 정렬 설정 (같은 순서 값은 생성순으로 고정)
+const SECTION_ORDER_BY: Prisma.SectionOrderByWithRelationInput[] = [
+  { orderIndex: 'asc' },
+  { createdAt: 'asc' },
+];
+const CHAPTER_ORDER_BY: Prisma.ChapterOrderByWithRelationInput[] = [
+  { orderIndex: 'asc' },
+  { createdAt: 'asc' },
+];
+const QUESTION_ORDER_BY: Prisma.QuizQuestionOrderByWithRelationInput = {
+  orderIndex: 'asc',
+};
+
+// 개정판 상태 값
+const DRAFT_STATUS = 'draft';
+const PUBLISHED_STATUS = 'published';
+
+// 게시 트랜잭션 제한 시간 (섹션/챕터 수와 수강생 수에 비례)
+const PUBLISH_TRANSACTION_TIMEOUT = 30000;
+
+// 🏗️ 타입 정의 - 강의 편집자 (섹션/퀴즈/강의 서비스에서 공통으로 호출하므로 필요한 필드만 사용)
+type CourseEditor = Pick<User, 'id' | 'role'>;
+
+// 🏗️ 타입 정의 - 퀴즈 조회 결과 (문항 포함)
+type QuizWithQuestions = Prisma.QuizGetPayload<{ include: { questions: true } }>;
+
+// 🔧 유틸리티 함수: 저장된 퀴즈를 스냅샷 형태로 변환 (퀴즈 저장 스키마와 같은 키 구성)
+function toSnapshotQuiz(quiz: QuizWithQuestions): UpsertQuizDto {
+  return {
+    passThreshold: quiz.passThreshold,
+    maxAttempts: quiz.maxAttempts,
+    questions: quiz.questions.map((question) => ({
+      questionId: question.questionId,
+      type: question.type,
+      prompt: question.prompt,
+      options: question.options as unknown as QuizOptionDto[],
+      correctOptionIds: question.correctOptionIds,
+      acceptedAnswers: question.acceptedAnswers,
+      ...(question.explanation !== null && { explanation: question.explanation }),
+      points: question.points,
+    })),
+  };
+}
+
+/**
+ * 🗂️ 강의 개정판 서비스
+ *
+ * 주요 기능:
+ * - 게시된 강의의 편집 내용을 초안(개정판)에 저장해 수강생 화면과 분리
+ * - 초안과 게시본의 변경 사항 비교
+ * - 초안 게시 (라이브 섹션/챕터/퀴즈 반영 + 수강생 진도 재구성)
+ * - 초안 폐기
+ */
+@Injectable()
+export class CourseRevisionsService {
+  private readonly logger = new Logger(CourseRevisionsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly userCourseProgressService: UserCourseProgressService,
+  ) {}
+
+  /**
+   * 🔍 편집 내용을 초안에 저장해야 하는지 여부
+   * 게시된 강의이거나 이미 편집 중인 초안이 있으면 true
+   */
+  async isEditingDraft(courseId: string): Promise<boolean> {
+    const course = await this.prismaService.course.findUnique({
+      where: { courseId },
+      select: {
+        status: true,
+        revisions: { where: { status: DRAFT_STATUS }, select: { revisionId: true }, take: 1 },
+      },
+    });
+
+    return !!course && (course.status === 'Published' || course.revisions.length > 0);
+  }
+
+  /**
+   * ✏️ 초안 수정 (초안이 없으면 현재 게시본으로 초안 생성)
+   *
+   * 강의 행을 잠근 트랜잭션에서 초안을 불러와 mutate로 수정한 뒤 저장합니다.
+   * mutate는 초안 내용을 직접 수정하고 응답에 필요한 값을 반환합니다.
+   */
+  async updateDraft<T>(
+    courseId: string,
+    user: CourseEditor,
+    mutate: (content: CourseSnapshot) => T
+  ): Promise<T> {
+    return this.prismaService.$transaction(async (tx) => {
+      await this.lockCourse(tx, courseId);
+      await this.assertCanEditCourse(tx, courseId, user);
+
+      const draft = await this.findDraft(tx, courseId);
+      const content = draft
+        ? (draft.content as unknown as CourseSnapshot)
+        : await this.buildLiveSnapshot(tx, courseId);
+      const original = JSON.stringify(content);
+
+      const result = mutate(content);
+
+      // 변경이 없으면 초안을 만들거나 갱신하지 않음
+      if (JSON.stringify(content) === original) {
+        return result;
+      }
+
+      if (draft) {
+        await tx.courseRevision.update({
+          where: { revisionId: draft.revisionId },
+          data: { content: content as unknown as Prisma.InputJsonValue },
+        });
+      } else {
+        await tx.courseRevision.create({
+          data: {
+            revisionId: generateId(),
+            courseId,
+            status: DRAFT_STATUS,
+            content: content as unknown as Prisma.InputJsonValue,
+            createdBy: user.id,
+          },
+        });
+        this.logger.log(`강의 초안 생성 - 강의: ${courseId}, 사용자: ${user.id}`);
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * 📋 편집 중인 강의 콘텐츠 조회 (초안이 없으면 게시본)
+   */
+  async getDraft(courseId: string, user: CourseEditor) {
+    try {
+      await this.assertCanEditCourse(this.prismaService, courseId, user);
+
+      const draft = await this.findDraft(this.prismaService, courseId);
+      const data: CourseRevisionDraft = {
+        courseId,
+        editingDraft: await this.isEditingDraft(courseId),
+        revisionId: draft?.revisionId ?? null,
+        updatedAt: draft?.updatedAt.toISOString() ?? null,
+        content: draft
+          ? (draft.content as unknown as CourseSnapshot)
+          : await this.buildLiveSnapshot(this.prismaService, courseId),
+      };
+
+      return {
+        message: '강의 초안 조회 성공',
+        data,
+      };
+    } catch (error) {
+      this.rethrowKnownError(error);
+      this.logger.error(`강의 초안 조회 중 오류 발생 - 강의: ${courseId}`, error);
+      throw new BadRequestException('강의 초안을 조회하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 🔍 초안과 게시본의 변경 사항 조회
+   */
+  async getDraftDiff(courseId: string, user: CourseEditor) {
+    try {
+      await this.assertCanEditCourse(this.prismaService, courseId, user);
+
+      const live = await this.buildLiveSnapshot(this.prismaService, courseId);
+      const draft = await this.findDraft(this.prismaService, courseId);
+
+      return {
+        message: '강의 변경 사항 조회 성공',
+        data: diffCourseSnapshots(live, draft ? (draft.content as unknown as CourseSnapshot) : live),
+      };
+    } catch (error) {
+      this.rethrowKnownError(error);
+      this.logger.error(`강의 변경 사항 조회 중 오류 발생 - 강의: ${courseId}`, error);
+      throw new BadRequestException('강의 변경 사항을 조회하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 🗑️ 초안 폐기 (게시본은 그대로 유지)
+   */
+  async discardDraft(courseId: string, user: CourseEditor) {
+    try {
+      await this.assertCanEditCourse(this.prismaService, courseId, user);
+
+      const { count } = await this.prismaService.courseRevision.deleteMany({
+        where: { courseId, status: DRAFT_STATUS },
+      });
+
+      if (count === 0) {
+        throw new NotFoundException('편집 중인 초안이 없습니다');
+      }
+
+      this.logger.log(`강의 초안 폐기 - 강의: ${courseId}, 사용자: ${user.id}`);
+
+      return {
+        message: '강의 초안 폐기 성공',
+        data: { courseId },
+      };
+    } catch (error) {
+      this.rethrowKnownError(error);
+      this.logger.error(`강의 초안 폐기 중 오류 발생 - 강의: ${courseId}`, error);
+      throw new BadRequestException('강의 초안을 폐기하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 🚀 초안 게시
+   *
+   * 한 트랜잭션에서 처리:
+   * 1. 강의 정보 반영
+   * 2. 초안에서 삭제된 챕터 삭제
+   * 3. 섹션/챕터 생성·수정 (순서, 소속 섹션 포함) 및 변경된 퀴즈 교체
+   * 4. 초안에서 삭제된 섹션 삭제 (이동된 챕터를 옮긴 뒤)
+   * 5. 수강생 진도를 새 구조에 맞춰 재구성
+   */
+  async publishDraft(courseId: string, user: CourseEditor) {
+    try {
+      const result = await this.prismaService.$transaction(
+        async (tx): Promise<CourseRevisionPublishResult> => {
+          await this.lockCourse(tx, courseId);
+          await this.assertCanEditCourse(tx, courseId, user);
+
+          const draft = await this.findDraft(tx, courseId);
+          if (!draft) {
+            throw new NotFoundException('게시할 초안이 없습니다');
+          }
+
+          const content = draft.content as unknown as CourseSnapshot;
+          const live = await this.buildLiveSnapshot(tx, courseId);
+
+          const liveSectionIds = new Set(live.sections.map((section) => section.sectionId));
+          const liveChapters = new Map(
+            live.sections.flatMap((section) =>
+              section.chapters.map((chapter) => [chapter.chapterId, chapter] as const)
+            )
+          );
+          const draftSectionIds = new Set(content.sections.map((section) => section.sectionId));
+          const draftChapterIds = new Set(
+            content.sections.flatMap((section) => section.chapters.map((chapter) => chapter.chapterId))
+          );
+          const removedChapterIds = [...liveChapters.keys()].filter(
+            (chapterId) => !draftChapterIds.has(chapterId)
+          );
+
+          // 1️⃣ 강의 정보
+          await tx.course.update({
+            where: { courseId },
+            data: {
+              title: content.title,
+              description: content.description,
+              category: content.category,
+              price: content.price,
+              level: content.level,
+            },
+          });
+
+          // 2️⃣ 삭제된 챕터
+          if (removedChapterIds.length > 0) {
+            await tx.chapter.deleteMany({ where: { chapterId: { in: removedChapterIds } } });
+          }
+
+          // 3️⃣ 섹션/챕터 생성·수정
+          for (const [sectionIndex, section] of content.sections.entries()) {
+            const sectionData = {
+              sectionTitle: section.sectionTitle,
+              sectionDescription: section.sectionDescription,
+              orderIndex: sectionIndex,
+            };
+
+            if (liveSectionIds.has(section.sectionId)) {
+              await tx.section.update({ where: { sectionId: section.sectionId }, data: sectionData });
+            } else {
+              await tx.section.create({
+                data: { sectionId: section.sectionId, courseId, ...sectionData },
+              });
+            }
+
+            for (const [chapterIndex, chapter] of section.chapters.entries()) {
+              const chapterData = {
+                sectionId: section.sectionId,
+                type: chapter.type,
+                title: chapter.title,
+                content: chapter.content,
+                video: chapter.video,
+                freePreview: chapter.freePreview,
+                orderIndex: chapterIndex,
+              };
+              const liveChapter = liveChapters.get(chapter.chapterId);
+
+              if (liveChapter) {
+                await tx.chapter.update({ where: { chapterId: chapter.chapterId }, data: chapterData });
+              } else {
+                await tx.chapter.create({ data: { chapterId: chapter.chapterId, ...chapterData } });
+              }
+
+              if (!isSameSnapshotValue(liveChapter?.quiz ?? null, chapter.quiz)) {
+                await this.replaceQuiz(tx, chapter.chapterId, chapter.quiz);
+              }
+            }
+          }
+
+          // 4️⃣ 삭제된 섹션 (남아 있던 챕터는 2️⃣에서 삭제되었거나 3️⃣에서 이동됨)
+          await tx.section.deleteMany({
+            where: { courseId, sectionId: { notIn: [...draftSectionIds] } },
+          });
+
+          // 5️⃣ 수강생 진도 재구성
+          const migratedProgressCount = await this.userCourseProgressService.remapCourseProgress(
+            tx,
+            courseId,
+            content
+          );
+
+          const publishedAt = new Date();
+          await tx.courseRevision.update({
+            where: { revisionId: draft.revisionId },
+            data: { status: PUBLISHED_STATUS, publishedBy: user.id, publishedAt },
+          });
+
+          return {
+            courseId,
+            revisionId: draft.revisionId,
+            publishedAt: publishedAt.toISOString(),
+            migratedProgressCount,
+            removedChapterIds,
+          };
+        },
+        { timeout: PUBLISH_TRANSACTION_TIMEOUT }
+      );
+
+      this.logger.log(
+        `강의 개정판 게시 완료 - 강의: ${courseId}, 개정판: ${result.revisionId}, 삭제 챕터: ${result.removedChapterIds.length}개, 진도 재구성: ${result.migratedProgressCount}명`
+      );
+
+      return {
+        message: '강의 개정판 게시 성공',
+        data: result,
+      };
+    } catch (error) {
+      this.rethrowKnownError(error);
+      this.logger.error(`강의 개정판 게시 중 오류 발생 - 강의: ${courseId}`, error);
+      throw new BadRequestException('강의 개정판을 게시하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 📸 현재 게시본(라이브 테이블)의 콘텐츠 스냅샷
+   */
+  async buildLiveSnapshot(
+    client: Prisma.TransactionClient,
+    courseId: string
+  ): Promise<CourseSnapshot> {
+    const course = await client.course.findUnique({
+      where: { courseId },
+      include: {
+        sections: {
+          orderBy: SECTION_ORDER_BY,
+          include: {
+            chapters: {
+              orderBy: CHAPTER_ORDER_BY,
+              include: { quiz: { include: { questions: { orderBy: QUESTION_ORDER_BY } } } },
+            },
+          },
+        },
+      },
+    });
+
+    if (!course) {
+      throw new NotFoundException('강의를 찾을 수 없습니다');
+    }
+
+    return {
+      title: course.title,
+      description: course.description,
+      category: course.category,
+      price: course.price,
+      level: course.level,
+      sections: course.sections.map((section) => ({
+        sectionId: section.sectionId,
+        sectionTitle: section.sectionTitle,
+        sectionDescription: section.sectionDescription,
+        chapters: section.chapters.map((chapter) => ({
+          chapterId: chapter.chapterId,
+          type: chapter.type,
+          title: chapter.title,
+          content: chapter.content,
+          video: chapter.video,
+          freePreview: chapter.freePreview,
+          quiz: chapter.quiz ? toSnapshotQuiz(chapter.quiz) : null,
+        })),
+      })),
+    };
+  }
+
+  /**
+   * 🔒 강의 편집 권한 확인 (강의 소유자 또는 관리자)
+   */
+  private async assertCanEditCourse(
+    client: Prisma.TransactionClient,
+    courseId: string,
+    user: CourseEditor
+  ): Promise<void> {
+    const course = await client.course.findUnique({
+      where: { courseId },
+      select: { teacherId: true },
+    });
+
+    if (!course) {
+      throw new NotFoundException('강의를 찾을 수 없습니다');
+    }
+
+    if (course.teacherId !== user.id && !RoleUtils.isAdmin(user.role)) {
+      this.logger.warn(`강의 개정판 접근 권한 없음 - 강의: ${courseId}, 사용자: ${user.id}`);
+      throw new ForbiddenException('이 강의를 수정할 권한이 없습니다');
+    }
+  }
+
+  /**
+   * 🔐 강의 행 잠금 - 초안 수정과 게시를 트랜잭션 단위로 직렬화
+   */
+  private async lockCourse(tx: Prisma.TransactionClient, courseId: string): Promise<void> {
+    await tx.$queryRaw(
+      Prisma.sql`SELECT "courseId" FROM courses WHERE "courseId" = ${courseId} FOR UPDATE`
+    );
+  }
+
+  /**
+   * 🔍 편집 중인 초안 조회
+   */
+  private async findDraft(client: Prisma.TransactionClient, courseId: string) {
+    return client.courseRevision.findFirst({
+      where: { courseId, status: DRAFT_STATUS },
+    });
+  }
+
+  /**
+   * 📝 챕터 퀴즈 교체 (초안 퀴즈가 없으면 삭제, 문항은 전체 교체)
+   */
+  private async replaceQuiz(
+    tx: Prisma.TransactionClient,
+    chapterId: string,
+    quiz: UpsertQuizDto | null
+  ): Promise<void> {
+    if (!quiz) {
+      await tx.quiz.deleteMany({ where: { chapterId } });
+      return;
+    }
+
+    const savedQuiz = await tx.quiz.upsert({
+      where: { chapterId },
+      create: {
+        quizId: generateId(),
+        chapterId,
+        passThreshold: quiz.passThreshold,
+        maxAttempts: quiz.maxAttempts,
+      },
+      update: {
+        passThreshold: quiz.passThreshold,
+        maxAttempts: quiz.maxAttempts,
+      },
+    });
+
+    await tx.quizQuestion.deleteMany({ where: { quizId: savedQuiz.quizId } });
+    await tx.quizQuestion.createMany({
+      data: quiz.questions.map((question, index) => ({
+        questionId: question.questionId,
+        quizId: savedQuiz.quizId,
+        type: question.type,
+        prompt: question.prompt,
+        options: question.options,
+        correctOptionIds: question.correctOptionIds,
+        acceptedAnswers: question.acceptedAnswers,
+        explanation: question.explanation,
+        points: question.points,
+        orderIndex: index,
+      })),
+    });
+  }
+
+  /**
+   * ⚠️ 처리된 예외는 그대로 전달
+   */
+  private rethrowKnownError(error: unknown): void {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ForbiddenException ||
+      error instanceof BadRequestException
+    ) {
+      throw error;
+    }
+  }
+}
@@ -23,6 +23,7 @@ import {
   ApiResponse,
   ApiConsumes,
   ApiBearerAuth,
+  ApiQuery,
 } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
 
@@ -32,7 +33,9 @@ import { ZodValidationPipe, RoleUtils } from '@packages/common';
 // 로컬 가드와 데코레이터 사용
 import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
 import { Public } from '../auth/decorators/public.decorator';
-import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { OptionalAuth } from '../auth/decorators/optional-auth.decorator';
+import { CurrentUser, OptionalCurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequireVerifiedEmail } from '../auth/decorators/require-verified-email.decorator';
 
 // import {
 //   CreateCourseSchema,
@@ -50,18 +53,41 @@ import { CurrentUser } from '../auth/decorators/current-user.decorator';
 // } from './dto/course.dto.ts.backup';
 
 // import type { User } from '@packages/common';
-import { createCourseSchema as CreateCourseSchema } from '@packages/schemas';
-import type { CreateCourseDto, User } from '@packages/schemas';
+import {
+  createCourseSchema as CreateCourseSchema,
+  courseQuerySchema,
+  courseContentSearchSchema,
+  courseAccessRulesSchema,
+  coursePreviewChaptersSchema,
+  courseExportSchema,
+  COURSE_IMPORT_MAX_FILE_SIZE,
+} from '@packages/schemas';
+import type {
+  CourseQueryDto,
+  CourseContentSearchDto,
+  CourseAccessRulesDto,
+  CoursePreviewChaptersDto,
+  CreateCourseDto,
+  CourseExport,
+  User,
+} from '@packages/schemas';
 
 /**
  * 📚 강의 관리 컨트롤러
  *
  * 엔드포인트:
- * - GET /courses - 강의 목록 조회 (공개)
+ * - GET /courses - 강의 목록 검색 (공개, 필터/정렬/페이지네이션)
+ * - GET /courses/search - 강의/섹션/챕터 전체 텍스트 검색 (공개)
  * - POST /courses - 강의 생성 (인증 필요)
- * - GET /courses/:courseId - 특정 강의 조회 (공개)
+ * - POST /courses/import - 내보내기 JSON 파일로 강의 생성 (강사)
+ * - GET /courses/:courseId - 특정 강의 조회 (공개, 비수강생은 미리보기 챕터만 본문 포함)
+ * - GET /courses/:courseId/chapters/:chapterId/preview - 미리보기 챕터 조회 (공개)
+ * - GET /courses/:courseId/export - 강의 트리 JSON 내보내기 (강사)
+ * - POST /courses/:courseId/duplicate - 강의 복제 (강사)
  * - PUT /courses/:courseId - 강의 수정 (인증 필요)
  * - DELETE /courses/:courseId - 강의 삭제 (인증 필요)
+ * - PUT /courses/:courseId/access-rules - 순차 학습/선수 과목 설정 (강사)
+ * - PUT /courses/:courseId/preview-chapters - 미리보기 챕터 지정 (강사)
  * - POST /courses/:courseId/sections/:sectionId/chapters/:chapterId/get-upload-url - 비디오 업로드 URL (인증 필요)
  */
 @ApiTags('강의 관리')
@@ -74,34 +100,63 @@ export class CoursesController {
 
   /**
    * 📋 강의 목록 조회 (공개 접근)
-   * 카테고리별 필터링 지원
+   * 검색어, 카테고리, 난이도, 가격 범위 필터와 정렬, 페이지네이션 지원
    */
   @Public()
   @Get()
   @ApiOperation({
     summary: '강의 목록 조회',
     description:
-      '등록된 모든 강의를 조회합니다. 카테고리별 필터링이 가능합니다.',
+      '공개된 강의를 검색합니다. search, category, level, minPrice, maxPrice, sortBy, sortOrder, page, limit 파라미터를 지원하며 전체 개수를 함께 반환합니다.',
   })
   @ApiResponse({ status: 200, description: '강의 목록 조회 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 검색 조건' })
   @ApiResponse({ status: 500, description: '서버 오류' })
   @Throttle({ default: { limit: 20, ttl: 60000 } }) // 분당 20회 제한
-  async listCourses(@Query() query: any) {
-    // 수동으로 카테고리 값 추출 및 검증
-    const category = query?.category || undefined;
-
-    this.logger.log(`강의 목록 조회 요청 - 카테고리: ${category || '전체'}`);
+  async listCourses(
+    @Query(new ZodValidationPipe(courseQuerySchema)) query: CourseQueryDto
+  ) {
+    this.logger.log(
+      `강의 목록 조회 요청 - 검색어: ${query.search || '없음'}, 카테고리: ${query.category || '전체'}, 페이지: ${query.page}`
+    );
 
-    const result = await this.coursesService.findAllCourses(category);
+    const result = await this.coursesService.findAllCourses(query);
 
-    this.logger.log(`강의 목록 조회 완료 - ${result.data.length}개 강의 반환`);
+    this.logger.log(
+      `강의 목록 조회 완료 - ${result.data.length}개 강의 반환 (전체: ${result.pagination.total}개)`
+    );
     return result;
   }
 
+  /**
+   * 🔍 강의 내용 전체 텍스트 검색 (공개 접근)
+   * 강의 제목/설명, 섹션 제목, 챕터 제목/내용에서 검색해 강의별로 묶어 반환
+   */
+  @Public()
+  @Get('search')
+  @ApiOperation({
+    summary: '강의 내용 전체 텍스트 검색',
+    description:
+      '공개된 강의의 제목/설명, 섹션 제목, 챕터 제목/내용을 검색합니다. 결과는 점수순으로 강의별로 묶이며, 하이라이트 스니펫과 챕터 딥링크(/user/courses/:courseId/chapters/:chapterId)를 포함합니다.',
+  })
+  @ApiQuery({ name: 'q', required: true, description: '검색어 (2~100자)' })
+  @ApiQuery({ name: 'limit', required: false, description: '최대 강의 수 (기본 10, 최대 30)' })
+  @ApiResponse({ status: 200, description: '강의 내용 검색 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 검색어' })
+  @Throttle({ default: { limit: 30, ttl: 60000 } }) // 분당 30회 제한
+  async searchCourseContent(
+    @Query(new ZodValidationPipe(courseContentSearchSchema)) query: CourseContentSearchDto
+  ) {
+    this.logger.log(`강의 내용 검색 요청 - 검색어: ${query.q}`);
+
+    return this.coursesService.searchCourseContent(query);
+  }
+
   /**
    * 📝 새 강의 생성 (인증 필요)
    */
   @Post()
+  @RequireVerifiedEmail('course_creation')
   @ApiOperation({
     summary: '강의 생성',
     description: '새로운 강의를 생성합니다.',
@@ -109,7 +164,7 @@ export class CoursesController {
   @ApiResponse({ status: 201, description: '강의 생성 성공' })
   @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
   @ApiResponse({ status: 401, description: '인증 필요' })
-  @ApiResponse({ status: 403, description: '권한 없음' })
+  @ApiResponse({ status: 403, description: '권한 없음 또는 이메일 미인증' })
   @ApiBearerAuth()
   @HttpCode(HttpStatus.CREATED)
   async createCourse(
@@ -148,22 +203,71 @@ export class CoursesController {
     return result;
   }
 
+  /**
+   * 📥 강의 가져오기 (인증 필요, JSON 파일 업로드)
+   * 내보내기 파일을 검증한 뒤 모든 ID를 새로 발급해 Draft 강의로 생성
+   */
+  @Post('import')
+  @RequireVerifiedEmail('course_creation')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: COURSE_IMPORT_MAX_FILE_SIZE } }))
+  @ApiOperation({
+    summary: '강의 가져오기',
+    description:
+      '강의 내보내기 JSON 파일(file 필드)로 새 강의를 생성합니다. 모든 ID는 새로 발급되며 강의는 Draft 상태로 생성됩니다.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiResponse({ status: 201, description: '강의 가져오기 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 파일 형식 또는 지원하지 않는 버전' })
+  @ApiResponse({ status: 403, description: '권한 없음 또는 이메일 미인증' })
+  @ApiResponse({ status: 413, description: '파일 크기 초과' })
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한
+  async importCourse(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`강의 가져오기 요청 - 요청자: ${user.id}, 파일 크기: ${file?.size ?? 0}`);
+
+    if (!file) {
+      throw new BadRequestException('가져올 강의 파일이 필요합니다');
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(file.buffer.toString('utf8'));
+    } catch {
+      throw new BadRequestException('강의 파일이 올바른 JSON 형식이 아닙니다');
+    }
+
+    const courseExport = new ZodValidationPipe(courseExportSchema).transform(parsed, {
+      type: 'body',
+    }) as CourseExport;
+
+    return this.coursesService.importCourse(courseExport, user);
+  }
+
   /**
    * 🔍 특정 강의 조회 (공개 접근)
+   * 수강생/강사/관리자가 아니면 미리보기 챕터만 본문과 영상을 포함
    */
-  @Public()
+  @OptionalAuth()
   @Get(':courseId')
   @ApiOperation({
     summary: '강의 상세 조회',
-    description: '특정 강의의 상세 정보를 조회합니다.',
+    description:
+      '특정 강의의 상세 정보를 조회합니다. 수강하지 않은 사용자에게는 미리보기 챕터를 제외한 챕터의 본문과 영상이 비어 있습니다.',
   })
   @ApiResponse({ status: 200, description: '강의 조회 성공' })
   @ApiResponse({ status: 404, description: '강의를 찾을 수 없음' })
   @Throttle({ default: { limit: 30, ttl: 60000 } }) // 분당 30회 제한
-  async getCourse(@Param('courseId') courseId: string) {
-    this.logger.log(`강의 상세 조회 요청 - ID: ${courseId}`);
+  async getCourse(
+    @Param('courseId') courseId: string,
+    @OptionalCurrentUser() user?: User
+  ) {
+    this.logger.log(`강의 상세 조회 요청 - ID: ${courseId}, 요청자: ${user?.id ?? '익명'}`);
 
-    const result = await this.coursesService.findCourseById(courseId);
+    const result = await this.coursesService.findCourseById(courseId, false, user);
 
     if (result.data) {
       this.logger.log(`강의 조회 완료 - 제목: ${result.data.title}`);
@@ -172,6 +276,70 @@ export class CoursesController {
     return result;
   }
 
+  /**
+   * 🎬 미리보기 챕터 조회 (공개 접근)
+   */
+  @Public()
+  @Get(':courseId/chapters/:chapterId/preview')
+  @ApiOperation({
+    summary: '미리보기 챕터 조회',
+    description: '게시된 강의에서 미리보기로 지정된 챕터의 본문과 영상을 조회합니다.',
+  })
+  @ApiResponse({ status: 200, description: '미리보기 챕터 조회 성공' })
+  @ApiResponse({ status: 403, description: '미리보기가 허용되지 않은 챕터' })
+  @ApiResponse({ status: 404, description: '챕터를 찾을 수 없음' })
+  @Throttle({ default: { limit: 30, ttl: 60000 } }) // 분당 30회 제한
+  async getChapterPreview(
+    @Param('courseId') courseId: string,
+    @Param('chapterId') chapterId: string
+  ) {
+    this.logger.log(`미리보기 챕터 조회 요청 - 강의: ${courseId}, 챕터: ${chapterId}`);
+
+    return this.coursesService.getChapterPreview(courseId, chapterId);
+  }
+
+  /**
+   * 📦 강의 내보내기 (강의 소유자/관리자)
+   */
+  @Get(':courseId/export')
+  @ApiOperation({
+    summary: '강의 내보내기',
+    description:
+      '강의 정보, 섹션, 챕터, 퀴즈(정답 포함), 영상 URL을 버전이 지정된 JSON 형식으로 반환합니다. 게시본 기준입니다.',
+  })
+  @ApiResponse({ status: 200, description: '강의 내보내기 성공' })
+  @ApiResponse({ status: 403, description: '내보내기 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의를 찾을 수 없음' })
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한
+  async exportCourse(@Param('courseId') courseId: string, @CurrentUser() user: User) {
+    this.logger.log(`강의 내보내기 요청 - 강의: ${courseId}, 요청자: ${user.id}`);
+
+    return this.coursesService.exportCourse(courseId, user);
+  }
+
+  /**
+   * 📑 강의 복제 (강의 소유자/관리자)
+   */
+  @Post(':courseId/duplicate')
+  @RequireVerifiedEmail('course_creation')
+  @ApiOperation({
+    summary: '강의 복제',
+    description:
+      '게시본 기준으로 섹션/챕터/퀴즈를 새 ID로 복사한 Draft 강의를 생성합니다. 수강생과 진도는 복사되지 않습니다.',
+  })
+  @ApiResponse({ status: 201, description: '강의 복제 성공' })
+  @ApiResponse({ status: 403, description: '복제 권한 없음 또는 이메일 미인증' })
+  @ApiResponse({ status: 404, description: '강의를 찾을 수 없음' })
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한
+  async duplicateCourse(@Param('courseId') courseId: string, @CurrentUser() user: User) {
+    this.logger.log(`강의 복제 요청 - 강의: ${courseId}, 요청자: ${user.id}`);
+
+    return this.coursesService.duplicateCourse(courseId, user);
+  }
+
   /**
    * ✏️ 강의 수정 (인증 필요, 파일 업로드 지원)
    */
@@ -253,7 +421,7 @@ export class CoursesController {
       const result = await this.coursesService.updateCourse(
         courseId,
         safeData,
-        user.id,
+        user,
         file
       );
 
@@ -308,6 +476,57 @@ export class CoursesController {
     return result;
   }
 
+  /**
+   * 🔒 학습 순서 규칙 설정 (강사/관리자)
+   */
+  @Put(':courseId/access-rules')
+  @ApiOperation({
+    summary: '학습 순서 규칙 설정',
+    description:
+      '강의 또는 섹션을 순차 학습으로 지정하고(이전 챕터 완료/퀴즈 통과 시 다음 챕터 잠금 해제), 수강 전 완료해야 하는 선수 과목을 설정합니다.',
+  })
+  @ApiResponse({ status: 200, description: '학습 순서 규칙 수정 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청 데이터 또는 순환 선수 과목' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의를 찾을 수 없음' })
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 20, ttl: 60000 } }) // 분당 20회 제한
+  async updateAccessRules(
+    @Param('courseId') courseId: string,
+    @Body(new ZodValidationPipe(courseAccessRulesSchema)) accessRulesDto: CourseAccessRulesDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`학습 순서 규칙 수정 요청 - 강의: ${courseId}, 요청자: ${user.id}`);
+
+    return this.coursesService.updateAccessRules(courseId, accessRulesDto, user);
+  }
+
+  /**
+   * 🎬 미리보기 챕터 지정 (강사/관리자)
+   */
+  @Put(':courseId/preview-chapters')
+  @ApiOperation({
+    summary: '미리보기 챕터 지정',
+    description:
+      '수강하지 않은 사용자도 볼 수 있는 미리보기 챕터를 지정합니다. 목록에 없는 챕터는 미리보기가 해제됩니다.',
+  })
+  @ApiResponse({ status: 200, description: '미리보기 챕터 수정 성공' })
+  @ApiResponse({ status: 400, description: '이 강의에 속하지 않은 챕터 포함' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의를 찾을 수 없음' })
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 20, ttl: 60000 } }) // 분당 20회 제한
+  async updatePreviewChapters(
+    @Param('courseId') courseId: string,
+    @Body(new ZodValidationPipe(coursePreviewChaptersSchema))
+    previewChaptersDto: CoursePreviewChaptersDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`미리보기 챕터 수정 요청 - 강의: ${courseId}, 요청자: ${user.id}`);
+
+    return this.coursesService.updatePreviewChapters(courseId, previewChaptersDto, user);
+  }
+
   /**
    * 📹 비디오 업로드 URL 생성 (인증 필요)
    */
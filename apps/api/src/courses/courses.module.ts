@@ -3,6 +3,8 @@ import { CoursesController } from './courses.controller';
 import { CoursesService } from './courses.service';
 import { PrismaModule } from '@packages/database';
 import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
+import { CourseRevisionsModule } from '../course-revisions/course-revisions.module';
+import { UserCourseProgressModule } from '../user-course-progress/user-course-progress.module';
 
 /**
  * 📚 강의 관리 모듈
@@ -15,7 +17,7 @@ import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
  * - JWT 인증 보호
  */
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, CourseRevisionsModule, UserCourseProgressModule],
   controllers: [CoursesController],
   providers: [
     CoursesService,
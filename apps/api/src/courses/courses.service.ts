@@ -10,8 +10,32 @@ import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { Prisma } from '@prisma/client';
 
 import { PrismaService } from '@packages/database';
-import { generateId } from '@packages/common'; // 🆔 CUID2 생성자 사용
-import { CreateCourseDto } from '@packages/schemas';
+import { generateId, RoleUtils } from '@packages/common'; // 🆔 CUID2 생성자 사용
+import {
+  CreateCourseDto,
+  createCourseFilter,
+  createCourseOrderBy,
+  buildChapterDeepLink,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  COURSE_EXPORT_FORMAT,
+  COURSE_EXPORT_VERSION,
+} from '@packages/schemas';
+import type {
+  CourseQueryDto,
+  CourseContentSearchDto,
+  CourseSearchHit,
+  CourseAccessRulesDto,
+  CoursePreviewChaptersDto,
+  ChapterPreview,
+  CourseExport,
+  CourseExportContent,
+  UpsertQuizDto,
+  User,
+} from '@packages/schemas';
+
+import { CourseRevisionsService } from '../course-revisions/course-revisions.service';
+import { UserCourseProgressService } from '../user-course-progress/user-course-progress.service';
 // 임시로 비활성화: UploadVideoUrlDto, UpdateCourseDto, UpdateCourseFormDataDto
 
 // 🔧 타입 안전한 정렬 상수 정의
@@ -26,6 +50,23 @@ const CHAPTER_ORDER_BY: Prisma.ChapterOrderByWithRelationInput = {
   orderIndex: ORDER_BY_INDEX_ASC,
 };
 
+// 🔍 전체 텍스트 검색 설정
+const SEARCH_HEADLINE_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+const SEARCH_MAX_ROWS = 200; // 강의별 그룹핑 전 최대 매치 수
+const SEARCH_MATCHES_PER_COURSE = 5;
+
+// 전체 텍스트 검색 원시 결과 행
+interface ContentSearchRow {
+  type: 'course' | 'section' | 'chapter';
+  courseId: string;
+  sectionId: string | null;
+  sectionTitle: string | null;
+  chapterId: string | null;
+  chapterTitle: string | null;
+  snippet: string;
+  rank: number;
+}
+
 // 🔧 유틸리티 함수: undefined 값 제거
 function removeUndefinedFields<T extends Record<string, any>>(
   obj: T
@@ -39,6 +80,44 @@ function removeUndefinedFields<T extends Record<string, any>>(
   return result;
 }
 
+// 복제한 강의 제목에 붙는 접미사
+const COPY_TITLE_SUFFIX = ' (사본)';
+const COURSE_TITLE_MAX_LENGTH = 200;
+
+// 🔧 유틸리티 함수: 퀴즈를 새 ID로 생성하는 입력값 (선택지 ID도 새로 발급하고 정답 ID를 함께 변환)
+function toQuizCreateInput(quiz: UpsertQuizDto): Prisma.QuizCreateWithoutChapterInput {
+  return {
+    quizId: generateId(),
+    passThreshold: quiz.passThreshold,
+    maxAttempts: quiz.maxAttempts,
+    questions: {
+      create: quiz.questions.map((question, index) => {
+        const isShortAnswer = question.type === 'ShortAnswer';
+        const optionIds = new Map(question.options.map((option) => [option.optionId, generateId()]));
+
+        return {
+          questionId: generateId(),
+          type: question.type,
+          prompt: question.prompt,
+          options: isShortAnswer
+            ? []
+            : question.options.map((option) => ({
+                optionId: optionIds.get(option.optionId) as string,
+                text: option.text,
+              })),
+          correctOptionIds: isShortAnswer
+            ? []
+            : question.correctOptionIds.map((optionId) => optionIds.get(optionId) as string),
+          acceptedAnswers: isShortAnswer ? question.acceptedAnswers : [],
+          explanation: question.explanation,
+          points: question.points,
+          orderIndex: index,
+        };
+      }),
+    },
+  };
+}
+
 // 🏗️ 타입 정의 - Prisma 타입 추론을 위한 타입
 type CourseWithSections = Prisma.CourseGetPayload<{
   include: {
@@ -86,6 +165,13 @@ type CourseWithDetails = Prisma.CourseGetPayload<{
         };
       };
     };
+    prerequisites: {
+      select: {
+        prerequisiteCourse: {
+          select: { courseId: true; title: true };
+        };
+      };
+    };
     _count: {
       select: {
         enrollments: true;
@@ -110,7 +196,11 @@ export class CoursesService {
   private readonly logger = new Logger(CoursesService.name);
   private readonly s3Client: S3Client;
 
-  constructor(private readonly prismaService: PrismaService) {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly courseRevisionsService: CourseRevisionsService,
+    private readonly userCourseProgressService: UserCourseProgressService,
+  ) {
     // S3 클라이언트 초기화
     this.s3Client = new S3Client({
       region: process.env.AWS_REGION || 'ap-northeast-2',
@@ -118,27 +208,27 @@ export class CoursesService {
   }
 
   /**
-   * 📋 강의 목록 조회 (카테고리별 필터링 지원)
+   * 📋 공개 강의 목록 검색 (필터, 정렬, 페이지네이션)
    *
-   * 성능 최적화:
-   * - N+1 쿼리 문제 해결
-   * - 단일 쿼리로 모든 데이터 로드
-   * - 선택적 필드 로드로 네트워크 비용 절약
+   * 🚀 성능 최적화:
+   * - 목록과 전체 개수를 병렬 조회
+   * - 필요 시 섹션/챕터 상세 제외 가능
    */
-  async findAllCourses(category?: string, includeDetails: boolean = true) {
+  async findAllCourses(query: CourseQueryDto, includeDetails: boolean = true) {
     try {
       this.logger.log(
-        `강의 목록 조회 시작 - 카테고리: ${category || '전체'}, 상세: ${includeDetails}`
+        `강의 목록 조회 시작 - 검색어: ${query.search || '없음'}, 카테고리: ${query.category || '전체'}, 상세: ${includeDetails}`
       );
 
-      // 카테고리 필터 조건 구성
+      // 'all'은 카테고리 미지정으로 취급 (기존 클라이언트 호환)
+      const category =
+        query.category && query.category !== 'all' && query.category.trim() !== ''
+          ? query.category.trim()
+          : undefined;
+
       const whereClause: Prisma.CourseWhereInput = {
+        ...createCourseFilter({ ...query, category }),
         status: 'Published' as const, // 공개된 강의만
-        ...(category &&
-          category !== 'all' &&
-          category.trim() !== '' && {
-            category: String(category).trim(),
-          }),
       };
 
       this.logger.debug(`사용될 WHERE 조건:`, whereClause);
@@ -149,6 +239,7 @@ export class CoursesService {
             sections: {
               include: {
                 chapters: {
+                  omit: { content: true, video: true }, // 🔒 공개 목록에는 챕터 본문/영상 제외
                   orderBy: CHAPTER_ORDER_BY,
                 },
               },
@@ -172,20 +263,37 @@ export class CoursesService {
             },
           };
 
-      const courses = await this.prismaService.course.findMany({
-        where: whereClause,
-        include: includeOptions,
-        orderBy: [
-          { createdAt: ORDER_BY_CREATED_DESC }, // 최신순
-        ],
-      });
+      // 페이지네이션 계산
+      const { page, limit } = query;
+      const offset = (page - 1) * limit;
+
+      const [courses, totalCount] = await Promise.all([
+        this.prismaService.course.findMany({
+          where: whereClause,
+          include: includeOptions,
+          orderBy: createCourseOrderBy(query) as Prisma.CourseOrderByWithRelationInput[],
+          take: limit,
+          skip: offset,
+        }),
+        this.prismaService.course.count({ where: whereClause }),
+      ]);
 
-      this.logger.log(`강의 목록 조회 완료 - ${courses.length}개 강의 반환`);
+      this.logger.log(
+        `강의 목록 조회 완료 - ${courses.length}개 강의 반환 (전체: ${totalCount}개)`
+      );
 
       return {
         message: '강의 목록 조회 성공',
         data: courses,
         count: courses.length,
+        pagination: {
+          total: totalCount,
+          page,
+          limit,
+          offset,
+          hasNext: offset + limit < totalCount,
+          totalPages: Math.ceil(totalCount / limit),
+        },
         optimized: true, // 성능 최적화 적용 표시
       };
     } catch (error) {
@@ -196,6 +304,143 @@ export class CoursesService {
     }
   }
 
+  /**
+   * 🔍 강의 내용 전체 텍스트 검색 (강의/섹션/챕터)
+   *
+   * - searchVector(generated tsvector + GIN 인덱스)로 매칭
+   * - ts_rank로 점수 계산, ts_headline으로 하이라이트 스니펫 생성
+   *   (챕터 본문 스니펫은 무료 미리보기 챕터만, 그 외 챕터는 제목만 사용)
+   * - 결과를 강의별로 묶고 챕터 딥링크를 포함해 반환
+   */
+  async searchCourseContent(query: CourseContentSearchDto) {
+    try {
+      this.logger.log(`강의 내용 검색 시작 - 검색어: ${query.q}, 최대 강의 수: ${query.limit}`);
+
+      const rows = await this.prismaService.$queryRaw<ContentSearchRow[]>(Prisma.sql`
+        WITH search AS (SELECT websearch_to_tsquery('simple', ${query.q}) AS tsq)
+        SELECT * FROM (
+          SELECT
+            'course' AS "type",
+            c."courseId",
+            NULL::text AS "sectionId",
+            NULL::text AS "sectionTitle",
+            NULL::text AS "chapterId",
+            NULL::text AS "chapterTitle",
+            ts_headline('simple', c.title || ' ' || COALESCE(c.description, ''), search.tsq, ${SEARCH_HEADLINE_OPTIONS}) AS "snippet",
+            ts_rank(c."searchVector", search.tsq) AS "rank"
+          FROM courses c, search
+          WHERE c.status = 'Published' AND c."searchVector" @@ search.tsq
+
+          UNION ALL
+
+          SELECT
+            'section' AS "type",
+            s."courseId",
+            s."sectionId",
+            s."sectionTitle",
+            first_chapter."chapterId",
+            first_chapter.title AS "chapterTitle",
+            ts_headline('simple', s."sectionTitle" || ' ' || COALESCE(s."sectionDescription", ''), search.tsq, ${SEARCH_HEADLINE_OPTIONS}) AS "snippet",
+            ts_rank(s."searchVector", search.tsq) AS "rank"
+          FROM sections s
+          JOIN courses c ON c."courseId" = s."courseId"
+          CROSS JOIN search
+          LEFT JOIN LATERAL (
+            SELECT ch."chapterId", ch.title
+            FROM chapters ch
+            WHERE ch."sectionId" = s."sectionId"
+            ORDER BY ch."orderIndex" ASC
+            LIMIT 1
+          ) first_chapter ON true
+          WHERE c.status = 'Published' AND s."searchVector" @@ search.tsq
+
+          UNION ALL
+
+          SELECT
+            'chapter' AS "type",
+            s."courseId",
+            s."sectionId",
+            s."sectionTitle",
+            ch."chapterId",
+            ch.title AS "chapterTitle",
+            -- 유료 챕터 본문은 비수강자에게 노출하지 않도록 무료 미리보기 챕터만 본문으로 스니펫 생성
+            ts_headline('simple', ch.title || CASE WHEN ch."freePreview" THEN ' ' || ch.content ELSE '' END, search.tsq, ${SEARCH_HEADLINE_OPTIONS}) AS "snippet",
+            ts_rank(ch."searchVector", search.tsq) AS "rank"
+          FROM chapters ch
+          JOIN sections s ON s."sectionId" = ch."sectionId"
+          JOIN courses c ON c."courseId" = s."courseId"
+          CROSS JOIN search
+          WHERE c.status = 'Published' AND ch."searchVector" @@ search.tsq
+        ) hits
+        ORDER BY "rank" DESC
+        LIMIT ${SEARCH_MAX_ROWS}
+      `);
+
+      // 강의별 그룹핑 (rows는 점수 내림차순이므로 첫 등장 순서가 곧 강의 순위)
+      const grouped = new Map<string, { rank: number; snippet: string | null; rows: ContentSearchRow[] }>();
+      for (const row of rows) {
+        const rank = Number(row.rank);
+        const group = grouped.get(row.courseId) ?? { rank, snippet: null, rows: [] };
+        group.rank = Math.max(group.rank, rank);
+
+        if (row.type === 'course') {
+          group.snippet = row.snippet;
+        } else if (group.rows.length < SEARCH_MATCHES_PER_COURSE) {
+          group.rows.push(row);
+        }
+        grouped.set(row.courseId, group);
+      }
+
+      const courseIds = [...grouped.keys()].slice(0, query.limit);
+      const courses = await this.prismaService.course.findMany({
+        where: { courseId: { in: courseIds } },
+        select: {
+          courseId: true,
+          title: true,
+          category: true,
+          image: true,
+          teacherName: true,
+        },
+      });
+      const courseMap = new Map(courses.map((course) => [course.courseId, course]));
+
+      const hits: CourseSearchHit[] = courseIds.flatMap((courseId) => {
+        const course = courseMap.get(courseId);
+        const group = grouped.get(courseId);
+        if (!course || !group) return [];
+
+        return [
+          {
+            ...course,
+            rank: group.rank,
+            snippet: group.snippet,
+            matches: group.rows.map((row) => ({
+              type: row.type as 'section' | 'chapter',
+              sectionId: row.sectionId as string,
+              sectionTitle: row.sectionTitle as string,
+              chapterId: row.chapterId,
+              chapterTitle: row.chapterTitle,
+              snippet: row.snippet,
+              rank: Number(row.rank),
+              url: row.chapterId ? buildChapterDeepLink(courseId, row.chapterId) : null,
+            })),
+          },
+        ];
+      });
+
+      this.logger.log(`강의 내용 검색 완료 - ${hits.length}개 강의, ${rows.length}개 매치`);
+
+      return {
+        message: '강의 내용 검색 성공',
+        data: hits,
+        count: hits.length,
+      };
+    } catch (error) {
+      this.logger.error('강의 내용 검색 중 오류 발생', error);
+      throw new BadRequestException('강의 내용을 검색하는 중 오류가 발생했습니다');
+    }
+  }
+
   /**
    * 🚀 여러 강의 일괄 조회 (배치 최적화)
    *
@@ -375,7 +620,11 @@ export class CoursesService {
    * - 점진적 데이터 로딩 지원
    * - 통계 정보 효율적 수집
    */
-  async findCourseById(courseId: string, includeComments: boolean = false) {
+  async findCourseById(
+    courseId: string,
+    includeComments: boolean = false,
+    viewer?: User
+  ) {
     try {
       this.logger.log(
         `강의 상세 조회 시작 - ID: ${courseId}, 댓글 포함: ${includeComments}`
@@ -416,6 +665,13 @@ export class CoursesService {
           },
           orderBy: SECTION_ORDER_BY,
         },
+        prerequisites: {
+          select: {
+            prerequisiteCourse: {
+              select: { courseId: true, title: true },
+            },
+          },
+        },
         _count: {
           select: {
             enrollments: true,
@@ -438,6 +694,17 @@ export class CoursesService {
       // 빈 sections 배열 보장
       course.sections = course.sections || [];
 
+      // 🔒 비수강자는 미리보기 외 챕터, 수강생은 순차 학습으로 잠긴 챕터의 본문과 영상 제외
+      const contentAccess = await this.getContentAccess(course, viewer);
+      if (contentAccess === 'preview') {
+        this.withholdChapterContent(course, () => true);
+      } else if (contentAccess === 'enrolled' && viewer) {
+        const lockedChapterIds = new Set(
+          await this.userCourseProgressService.findLockedChapterIds(viewer.id, courseId)
+        );
+        this.withholdChapterContent(course, (chapterId) => lockedChapterIds.has(chapterId));
+      }
+
       // 📈 통계 정보 계산
       const totalChapters = course.sections.reduce(
         (sum, section) => sum + (section.chapters?.length || 0),
@@ -528,27 +795,51 @@ export class CoursesService {
    * - 권한 확인을 WHERE 조건에 포함하여 별도 조회 제거
    * - 트랜잭션 기반 원자적 처리
    * - 필요한 데이터만 select로 조회
+   *
+   * 📝 게시된 강의(또는 초안이 있는 강의)는 강의 정보를 개정판 초안에 저장하고
+   * 게시 상태만 즉시 반영합니다.
    */
   async updateCourse(
     courseId: string,
     updateCourseDto: any,
-    userId: string,
+    user: User,
     file: Express.Multer.File | undefined
   ) {
+    const userId = user.id;
+
     try {
       this.logger.log(`강의 수정 시작 - ID: ${courseId}, 사용자: ${userId}`);
       this.logger.log(`Update Data:`, JSON.stringify(updateCourseDto, null, 2));
 
+      const editingDraft = await this.courseRevisionsService.isEditingDraft(courseId);
+      if (editingDraft) {
+        await this.courseRevisionsService.updateDraft(courseId, user, (content) => {
+          Object.assign(
+            content,
+            removeUndefinedFields({
+              title: updateCourseDto.title,
+              description: updateCourseDto.description,
+              category: updateCourseDto.category,
+              price:
+                updateCourseDto.price === undefined ? undefined : Math.round(updateCourseDto.price),
+              level: updateCourseDto.level,
+            })
+          );
+        });
+      }
+
       // 🚀 N+1 최적화: 단일 트랜잭션으로 권한 확인과 업데이트를 동시에 처리
       const result = await this.prismaService.$transaction(async (tx) => {
-        // 업데이트 데이터 준비
-        const updateData = {
-          title: updateCourseDto.title,
-          description: updateCourseDto.description,
-          category: updateCourseDto.category,
-          level: updateCourseDto.level,
-          status: updateCourseDto.status,
-        };
+        // 업데이트 데이터 준비 (초안 편집 중이면 게시 상태만 반영)
+        const updateData = editingDraft
+          ? { status: updateCourseDto.status }
+          : {
+              title: updateCourseDto.title,
+              description: updateCourseDto.description,
+              category: updateCourseDto.category,
+              level: updateCourseDto.level,
+              status: updateCourseDto.status,
+            };
 
         // undefined 값 제거 (타입 안전한 방식)
         const cleanedUpdateData = removeUndefinedFields(updateData);
@@ -590,6 +881,7 @@ export class CoursesService {
         message: '강의 수정 성공',
         data: result,
         optimized: true, // 최적화 적용 표시
+        ...(editingDraft && { draft: true }), // 강의 정보는 초안에 저장됨
       };
     } catch (error) {
       // Prisma P2025 에러: 레코드를 찾을 수 없음 (권한 없음 포함)
@@ -636,6 +928,515 @@ export class CoursesService {
     }
   }
 
+  /**
+   * 🔒 학습 순서 규칙 수정 (순차 학습, 선수 과목)
+   *
+   * - 강의/섹션 단위 순차 학습 여부를 설정
+   * - 선수 과목 목록을 전체 교체 (자기 자신 및 순환 지정 불가)
+   */
+  async updateAccessRules(courseId: string, accessRulesDto: CourseAccessRulesDto, user: User) {
+    try {
+      const course = await this.prismaService.course.findUnique({
+        where: { courseId },
+        select: {
+          teacherId: true,
+          sections: { select: { sectionId: true } },
+        },
+      });
+
+      if (!course) {
+        throw new NotFoundException('강의를 찾을 수 없습니다');
+      }
+
+      if (course.teacherId !== user.id && !RoleUtils.isAdmin(user.role)) {
+        this.logger.warn(`학습 순서 규칙 수정 권한 없음 - 강의: ${courseId}, 사용자: ${user.id}`);
+        throw new ForbiddenException('이 강의의 학습 순서를 수정할 권한이 없습니다');
+      }
+
+      const { isSequential, sequentialSectionIds, prerequisiteCourseIds } = accessRulesDto;
+      const sectionIds = course.sections.map((section) => section.sectionId);
+
+      if (sequentialSectionIds.some((sectionId) => !sectionIds.includes(sectionId))) {
+        throw new BadRequestException('이 강의에 속하지 않은 섹션이 포함되어 있습니다');
+      }
+
+      if (prerequisiteCourseIds.includes(courseId)) {
+        throw new BadRequestException('자기 자신을 선수 과목으로 지정할 수 없습니다');
+      }
+
+      const prerequisiteCount = await this.prismaService.course.count({
+        where: { courseId: { in: prerequisiteCourseIds } },
+      });
+      if (prerequisiteCount !== new Set(prerequisiteCourseIds).size) {
+        throw new NotFoundException('선수 과목으로 지정한 강의를 찾을 수 없습니다');
+      }
+
+      if (await this.createsPrerequisiteCycle(courseId, prerequisiteCourseIds)) {
+        throw new BadRequestException('선수 과목이 서로를 요구하도록 지정할 수 없습니다');
+      }
+
+      await this.prismaService.$transaction([
+        this.prismaService.course.update({
+          where: { courseId },
+          data: { isSequential },
+        }),
+        this.prismaService.section.updateMany({
+          where: { courseId },
+          data: { isSequential: false },
+        }),
+        this.prismaService.section.updateMany({
+          where: { courseId, sectionId: { in: sequentialSectionIds } },
+          data: { isSequential: true },
+        }),
+        this.prismaService.coursePrerequisite.deleteMany({ where: { courseId } }),
+        this.prismaService.coursePrerequisite.createMany({
+          data: [...new Set(prerequisiteCourseIds)].map((prerequisiteCourseId) => ({
+            courseId,
+            prerequisiteCourseId,
+          })),
+        }),
+      ]);
+
+      this.logger.log(
+        `학습 순서 규칙 수정 완료 - 강의: ${courseId}, 순차: ${isSequential}, 순차 섹션: ${sequentialSectionIds.length}개, 선수 과목: ${prerequisiteCourseIds.length}개`
+      );
+
+      return {
+        message: '학습 순서 규칙 수정 성공',
+        data: {
+          courseId,
+          isSequential,
+          sequentialSectionIds,
+          prerequisiteCourseIds,
+        },
+      };
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+
+      this.logger.error(`학습 순서 규칙 수정 중 오류 발생 - 강의: ${courseId}`, error);
+      throw new BadRequestException('학습 순서 규칙을 수정하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 🎬 미리보기 챕터 조회 (공개)
+   * 게시된 강의의 미리보기 지정 챕터만 본문과 영상을 반환
+   */
+  async getChapterPreview(courseId: string, chapterId: string) {
+    try {
+      const chapter = await this.prismaService.chapter.findFirst({
+        where: { chapterId, section: { courseId } },
+        select: {
+          chapterId: true,
+          title: true,
+          content: true,
+          video: true,
+          type: true,
+          freePreview: true,
+          section: {
+            select: {
+              sectionTitle: true,
+              course: { select: { status: true } },
+            },
+          },
+        },
+      });
+
+      if (!chapter) {
+        throw new NotFoundException('챕터를 찾을 수 없습니다');
+      }
+
+      if (!chapter.freePreview || chapter.section.course.status !== 'Published') {
+        throw new ForbiddenException({
+          code: 'PREVIEW_NOT_AVAILABLE',
+          message: '미리보기가 허용되지 않은 챕터입니다',
+        });
+      }
+
+      const preview: ChapterPreview = {
+        chapterId: chapter.chapterId,
+        courseId,
+        sectionTitle: chapter.section.sectionTitle,
+        title: chapter.title,
+        content: chapter.content,
+        video: chapter.video,
+        type: chapter.type as ChapterPreview['type'],
+      };
+
+      return {
+        message: '미리보기 챕터 조회 성공',
+        data: preview,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+
+      this.logger.error(`미리보기 챕터 조회 중 오류 발생 - 챕터: ${chapterId}`, error);
+      throw new BadRequestException('미리보기 챕터를 조회하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 🎬 미리보기 챕터 지정 (강사/관리자)
+   * 전달된 챕터만 미리보기로 설정하고 나머지는 해제 (게시된 강의는 초안에 저장)
+   */
+  async updatePreviewChapters(
+    courseId: string,
+    previewChaptersDto: CoursePreviewChaptersDto,
+    user: User
+  ) {
+    try {
+      const course = await this.prismaService.course.findUnique({
+        where: { courseId },
+        select: {
+          teacherId: true,
+          sections: { select: { chapters: { select: { chapterId: true } } } },
+        },
+      });
+
+      if (!course) {
+        throw new NotFoundException('강의를 찾을 수 없습니다');
+      }
+
+      if (course.teacherId !== user.id && !RoleUtils.isAdmin(user.role)) {
+        this.logger.warn(`미리보기 챕터 수정 권한 없음 - 강의: ${courseId}, 사용자: ${user.id}`);
+        throw new ForbiddenException('이 강의의 미리보기 챕터를 수정할 권한이 없습니다');
+      }
+
+      const { chapterIds } = previewChaptersDto;
+
+      // 📝 게시된 강의(또는 초안이 있는 강의)는 초안의 미리보기 설정을 변경
+      if (await this.courseRevisionsService.isEditingDraft(courseId)) {
+        await this.courseRevisionsService.updateDraft(courseId, user, (content) => {
+          const draftChapters = content.sections.flatMap((section) => section.chapters);
+          const draftChapterIds = draftChapters.map((chapter) => chapter.chapterId);
+
+          if (chapterIds.some((chapterId) => !draftChapterIds.includes(chapterId))) {
+            throw new BadRequestException('이 강의에 속하지 않은 챕터가 포함되어 있습니다');
+          }
+
+          draftChapters.forEach((chapter) => {
+            chapter.freePreview = chapterIds.includes(chapter.chapterId);
+          });
+        });
+
+        return {
+          message: '미리보기 챕터 수정 성공',
+          data: { courseId, chapterIds },
+          draft: true,
+        };
+      }
+
+      const courseChapterIds = course.sections.flatMap((section) =>
+        section.chapters.map((chapter) => chapter.chapterId)
+      );
+
+      if (chapterIds.some((chapterId) => !courseChapterIds.includes(chapterId))) {
+        throw new BadRequestException('이 강의에 속하지 않은 챕터가 포함되어 있습니다');
+      }
+
+      await this.prismaService.$transaction([
+        this.prismaService.chapter.updateMany({
+          where: { section: { courseId } },
+          data: { freePreview: false },
+        }),
+        this.prismaService.chapter.updateMany({
+          where: { section: { courseId }, chapterId: { in: chapterIds } },
+          data: { freePreview: true },
+        }),
+      ]);
+
+      this.logger.log(
+        `미리보기 챕터 수정 완료 - 강의: ${courseId}, 미리보기: ${chapterIds.length}개`
+      );
+
+      return {
+        message: '미리보기 챕터 수정 성공',
+        data: { courseId, chapterIds },
+      };
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+
+      this.logger.error(`미리보기 챕터 수정 중 오류 발생 - 강의: ${courseId}`, error);
+      throw new BadRequestException('미리보기 챕터를 수정하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 📦 강의 내보내기 (강사/관리자)
+   * 게시본 기준 강의 트리(강의 정보, 섹션, 챕터, 퀴즈, 영상 URL)를 버전이 지정된 JSON으로 반환
+   */
+  async exportCourse(courseId: string, user: User) {
+    try {
+      const { content } = await this.getExportContent(courseId, user);
+
+      const data: CourseExport = {
+        format: COURSE_EXPORT_FORMAT,
+        version: COURSE_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        course: content,
+      };
+
+      this.logger.log(
+        `강의 내보내기 완료 - 강의: ${courseId}, 섹션: ${content.sections.length}개, 요청자: ${user.id}`
+      );
+
+      return {
+        message: '강의 내보내기 성공',
+        data,
+      };
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+
+      this.logger.error(`강의 내보내기 중 오류 발생 - 강의: ${courseId}`, error);
+      throw new BadRequestException('강의를 내보내는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 📑 강의 복제 (강사/관리자)
+   * 게시본 기준으로 섹션/챕터/퀴즈를 새 ID로 복사한 Draft 강의를 요청자 소유로 생성
+   */
+  async duplicateCourse(courseId: string, user: User) {
+    try {
+      this.assertCanCreateCourse(user);
+
+      const { content, teacherId, teacherName } = await this.getExportContent(courseId, user);
+      const title =
+        content.title.slice(0, COURSE_TITLE_MAX_LENGTH - COPY_TITLE_SUFFIX.length) +
+        COPY_TITLE_SUFFIX;
+
+      const course = await this.createCourseFromExport(
+        { ...content, title },
+        user,
+        teacherId === user.id ? teacherName : ''
+      );
+
+      this.logger.log(`강의 복제 완료 - 원본: ${courseId}, 사본: ${course.courseId}, 요청자: ${user.id}`);
+
+      return {
+        message: '강의 복제 성공',
+        data: course,
+      };
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+
+      this.logger.error(`강의 복제 중 오류 발생 - 원본: ${courseId}`, error);
+      throw new BadRequestException('강의를 복제하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 📥 강의 가져오기 (강사/관리자)
+   * 검증된 내보내기 파일로 새 ID를 발급한 Draft 강의를 요청자 소유로 생성
+   */
+  async importCourse(courseExport: CourseExport, user: User) {
+    try {
+      this.assertCanCreateCourse(user);
+
+      const course = await this.createCourseFromExport(courseExport.course, user, '');
+
+      this.logger.log(
+        `강의 가져오기 완료 - 강의: ${course.courseId}, 버전: ${courseExport.version}, 요청자: ${user.id}`
+      );
+
+      return {
+        message: '강의 가져오기 성공',
+        data: course,
+      };
+    } catch (error) {
+      if (error instanceof ForbiddenException || error instanceof BadRequestException) {
+        throw error;
+      }
+
+      this.logger.error('강의 가져오기 중 오류 발생', error);
+      throw new BadRequestException('강의를 가져오는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 🔒 강의 생성 권한 확인 (강사 또는 관리자)
+   */
+  private assertCanCreateCourse(user: User): void {
+    if (!RoleUtils.canManageCourses(user.role)) {
+      this.logger.warn(`강의 생성 권한 없음 - 사용자: ${user.id}, 역할: ${user.role}`);
+      throw new ForbiddenException('강의 생성 권한이 없습니다. 강사 또는 관리자 권한이 필요합니다.');
+    }
+  }
+
+  /**
+   * 📦 내보내기/복제 대상 강의 트리 조회 (강의 소유자 또는 관리자)
+   */
+  private async getExportContent(courseId: string, user: User) {
+    const course = await this.prismaService.course.findUnique({
+      where: { courseId },
+      select: { teacherId: true, teacherName: true, image: true, isSequential: true },
+    });
+
+    if (!course) {
+      throw new NotFoundException('강의를 찾을 수 없습니다');
+    }
+
+    if (course.teacherId !== user.id && !RoleUtils.isAdmin(user.role)) {
+      this.logger.warn(`강의 내보내기 권한 없음 - 강의: ${courseId}, 사용자: ${user.id}`);
+      throw new ForbiddenException('이 강의를 내보낼 권한이 없습니다');
+    }
+
+    const snapshot = await this.courseRevisionsService.buildLiveSnapshot(
+      this.prismaService,
+      courseId
+    );
+    const content: CourseExportContent = {
+      ...snapshot,
+      image: course.image,
+      isSequential: course.isSequential,
+    };
+
+    return { content, teacherId: course.teacherId, teacherName: course.teacherName };
+  }
+
+  /**
+   * 🏗️ 강의 트리로 새 강의 생성 (모든 ID 새로 발급, Draft 상태)
+   * 중첩 생성으로 강의/섹션/챕터/퀴즈가 한 번에 저장됩니다.
+   */
+  private async createCourseFromExport(
+    content: CourseExportContent,
+    user: User,
+    teacherName: string
+  ) {
+    return this.prismaService.course.create({
+      data: {
+        courseId: generateId(),
+        teacherId: user.id,
+        teacherName,
+        title: content.title,
+        description: content.description,
+        category: content.category,
+        image: content.image,
+        price: content.price,
+        level: content.level,
+        status: 'Draft',
+        isSequential: content.isSequential,
+        sections: {
+          create: content.sections.map((section, sectionIndex) => ({
+            sectionId: generateId(),
+            sectionTitle: section.sectionTitle,
+            sectionDescription: section.sectionDescription,
+            orderIndex: sectionIndex,
+            chapters: {
+              create: section.chapters.map((chapter, chapterIndex) => ({
+                chapterId: generateId(),
+                type: chapter.type,
+                title: chapter.title,
+                content: chapter.content,
+                video: chapter.video,
+                freePreview: chapter.freePreview,
+                orderIndex: chapterIndex,
+                ...(chapter.quiz && { quiz: { create: toQuizCreateInput(chapter.quiz) } }),
+              })),
+            },
+          })),
+        },
+      },
+      include: {
+        sections: {
+          include: { chapters: { orderBy: CHAPTER_ORDER_BY } },
+          orderBy: SECTION_ORDER_BY,
+        },
+      },
+    });
+  }
+
+  /**
+   * 🔒 강의 콘텐츠 열람 범위
+   * - full: 강의 소유자, 관리자
+   * - enrolled: 수강생 (순차 학습으로 잠긴 챕터 제외)
+   * - preview: 그 외 (미리보기 챕터만)
+   */
+  private async getContentAccess(
+    course: { courseId: string; teacherId: string },
+    viewer?: User
+  ): Promise<'full' | 'enrolled' | 'preview'> {
+    if (!viewer) return 'preview';
+    if (course.teacherId === viewer.id || RoleUtils.isAdmin(viewer.role)) return 'full';
+
+    const enrollment = await this.prismaService.enrollment.findUnique({
+      where: { userId_courseId: { userId: viewer.id, courseId: course.courseId } },
+      select: { userId: true },
+    });
+    return enrollment ? 'enrolled' : 'preview';
+  }
+
+  /**
+   * 🔒 챕터 본문과 영상 제거 (미리보기 챕터는 누구에게나 공개되므로 유지)
+   */
+  private withholdChapterContent(
+    course: CourseWithDetails,
+    shouldWithhold: (chapterId: string) => boolean
+  ): void {
+    for (const section of course.sections) {
+      for (const chapter of section.chapters) {
+        if (chapter.freePreview || !shouldWithhold(chapter.chapterId)) continue;
+        chapter.content = '';
+        chapter.video = null;
+      }
+    }
+  }
+
+  /**
+   * 🔄 선수 과목 순환 여부 확인
+   * 지정하려는 선수 과목을 따라가다 현재 강의에 도달하면 순환
+   */
+  private async createsPrerequisiteCycle(
+    courseId: string,
+    prerequisiteCourseIds: string[]
+  ): Promise<boolean> {
+    const visited = new Set<string>();
+    let frontier = [...prerequisiteCourseIds];
+
+    while (frontier.length > 0) {
+      if (frontier.includes(courseId)) {
+        return true;
+      }
+      frontier.forEach((id) => visited.add(id));
+
+      const next = await this.prismaService.coursePrerequisite.findMany({
+        where: { courseId: { in: frontier } },
+        select: { prerequisiteCourseId: true },
+      });
+      frontier = next
+        .map((item) => item.prerequisiteCourseId)
+        .filter((id) => !visited.has(id));
+    }
+
+    return false;
+  }
+
   /**
    * 🗑️ 강의 삭제 (최적화 적용)
    *
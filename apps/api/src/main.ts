@@ -16,7 +16,10 @@ async function bootstrap() {
   const logger = new Logger('API-Bootstrap');
 
   try {
-    const app = await NestFactory.create<NestExpressApplication>(AppModule);
+    // Stripe 웹훅 서명 검증을 위해 원본 요청 본문 보존
+    const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+      rawBody: true,
+    });
     const configService = app.get(ConfigService);
 
     // 정적 파일 서빙 (아이콘 등)
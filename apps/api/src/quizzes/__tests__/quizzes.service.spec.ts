@@ -0,0 +1,248 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { PrismaService } from '@packages/database';
+import type { User } from '@packages/common';
+import { QuizzesService } from '../quizzes.service';
+import { UserCourseProgressService } from '../../user-course-progress/user-course-progress.service';
+import { CourseRevisionsService } from '../../course-revisions/course-revisions.service';
+
+describe('QuizzesService', () => {
+  let quizzesService: QuizzesService;
+  let userCourseProgressService: { assertChapterUnlocked: jest.Mock; markChapterCompleted: jest.Mock };
+
+  const courseId = 'course-id-123';
+  const chapterId = 'chapter-id-123';
+  const student: User = { id: 'student-id-123', email: 'student@example.com', username: 'student', role: 'user' };
+  const teacher: User = { id: 'teacher-id-123', email: 'teacher@example.com', username: 'teacher', role: 'teacher' };
+
+  const questions = [
+    {
+      questionId: 'question-1',
+      type: 'SingleChoice' as const,
+      prompt: '1 + 1 = ?',
+      options: [
+        { optionId: 'option-a', text: '1' },
+        { optionId: 'option-b', text: '2' },
+      ],
+      correctOptionIds: ['option-b'],
+      acceptedAnswers: [],
+      explanation: '1 + 1 = 2',
+      points: 1,
+      orderIndex: 0,
+    },
+    {
+      questionId: 'question-2',
+      type: 'ShortAnswer' as const,
+      prompt: '대한민국의 수도는?',
+      options: [],
+      correctOptionIds: [],
+      acceptedAnswers: ['서울'],
+      explanation: '서울특별시',
+      points: 1,
+      orderIndex: 1,
+    },
+  ];
+
+  const createChapter = (quiz: { maxAttempts: number | null; passThreshold: number }) => ({
+    chapterId,
+    section: { sectionId: 'section-id-123', courseId, course: { teacherId: teacher.id } },
+    quiz: { quizId: 'quiz-id-123', ...quiz, questions },
+  });
+
+  // 1번 정답, 2번 오답 (50점)
+  const halfCorrectAnswers = [
+    { questionId: 'question-1', selectedOptionIds: ['option-b'] },
+    { questionId: 'question-2', selectedOptionIds: [], textAnswer: '부산' },
+  ];
+  const allCorrectAnswers = [
+    { questionId: 'question-1', selectedOptionIds: ['option-b'] },
+    { questionId: 'question-2', selectedOptionIds: [], textAnswer: ' 서울 ' },
+  ];
+
+  const prismaService = {
+    chapter: { findUnique: jest.fn() },
+    enrollment: { findUnique: jest.fn() },
+    quizAttempt: { count: jest.fn(), create: jest.fn(), findMany: jest.fn() },
+  };
+
+  // 정답/해설 필드 포함 여부 확인
+  const hasAnswerFields = (result: object) =>
+    'correctOptionIds' in result || 'acceptedAnswers' in result || 'explanation' in result;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuizzesService,
+        { provide: PrismaService, useValue: prismaService },
+        {
+          provide: UserCourseProgressService,
+          useValue: {
+            assertChapterUnlocked: jest.fn().mockResolvedValue(undefined),
+            markChapterCompleted: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        { provide: CourseRevisionsService, useValue: {} },
+      ],
+    }).compile();
+
+    quizzesService = module.get<QuizzesService>(QuizzesService);
+    userCourseProgressService = module.get(UserCourseProgressService);
+
+    prismaService.enrollment.findUnique.mockResolvedValue({ userId: student.id });
+    prismaService.quizAttempt.create.mockImplementation(({ data }) =>
+      Promise.resolve({ ...data, submittedAt: new Date() })
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('submitAttempt', () => {
+    it('서버에서 채점하고 통과 전에는 문항별 정오와 배점만 반환해야 함', async () => {
+      // Arrange
+      prismaService.chapter.findUnique.mockResolvedValue(createChapter({ maxAttempts: 3, passThreshold: 100 }));
+      prismaService.quizAttempt.count.mockResolvedValueOnce(0).mockResolvedValueOnce(0);
+
+      // Act
+      const { data } = await quizzesService.submitAttempt(courseId, chapterId, { answers: halfCorrectAnswers }, student);
+
+      // Assert
+      expect(data).toEqual(
+        expect.objectContaining({ score: 50, earnedPoints: 1, totalPoints: 2, passed: false, remainingAttempts: 2 })
+      );
+      expect(data.answersRevealed).toBe(false);
+      expect(data.results).toEqual([
+        { questionId: 'question-1', correct: true, earnedPoints: 1, points: 1 },
+        { questionId: 'question-2', correct: false, earnedPoints: 0, points: 1 },
+      ]);
+      expect(userCourseProgressService.markChapterCompleted).not.toHaveBeenCalled();
+
+      // 저장되는 결과에도 정답/해설이 없어야 함
+      const [{ data: saved }] = prismaService.quizAttempt.create.mock.calls[0];
+      expect(saved.results.some(hasAnswerFields)).toBe(false);
+    });
+
+    it('통과하면 정답과 해설을 공개하고 챕터를 완료 처리해야 함', async () => {
+      // Arrange
+      prismaService.chapter.findUnique.mockResolvedValue(createChapter({ maxAttempts: 3, passThreshold: 100 }));
+      prismaService.quizAttempt.count.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      // Act
+      const { data } = await quizzesService.submitAttempt(courseId, chapterId, { answers: allCorrectAnswers }, student);
+
+      // Assert
+      expect(data.passed).toBe(true);
+      expect(data.answersRevealed).toBe(true);
+      expect(data.results[0]).toEqual(
+        expect.objectContaining({ correctOptionIds: ['option-b'], explanation: '1 + 1 = 2' })
+      );
+      expect(data.results[1]).toEqual(expect.objectContaining({ acceptedAnswers: ['서울'] }));
+      expect(userCourseProgressService.markChapterCompleted).toHaveBeenCalledWith(student.id, courseId, chapterId);
+    });
+
+    it('마지막 응시 기회에 통과하지 못하면 정답을 공개해야 함', async () => {
+      // Arrange
+      prismaService.chapter.findUnique.mockResolvedValue(createChapter({ maxAttempts: 2, passThreshold: 100 }));
+      prismaService.quizAttempt.count.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      // Act
+      const { data } = await quizzesService.submitAttempt(courseId, chapterId, { answers: halfCorrectAnswers }, student);
+
+      // Assert
+      expect(data.passed).toBe(false);
+      expect(data.remainingAttempts).toBe(0);
+      expect(data.answersRevealed).toBe(true);
+      expect(data.results.every(hasAnswerFields)).toBe(true);
+    });
+
+    it('응시 횟수를 모두 사용하면 ForbiddenException이 발생해야 함', async () => {
+      // Arrange
+      prismaService.chapter.findUnique.mockResolvedValue(createChapter({ maxAttempts: 2, passThreshold: 100 }));
+      prismaService.quizAttempt.count.mockResolvedValueOnce(2);
+
+      // Act & Assert
+      await expect(
+        quizzesService.submitAttempt(courseId, chapterId, { answers: allCorrectAnswers }, student)
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.quizAttempt.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMyAttempts', () => {
+    // 이전 형식으로 정답/해설이 함께 저장된 응시 기록
+    const storedAttempt = {
+      attemptId: 'attempt-id-1',
+      attemptNumber: 1,
+      score: 50,
+      earnedPoints: 1,
+      totalPoints: 2,
+      passed: false,
+      submittedAt: new Date(),
+      results: [
+        {
+          questionId: 'question-1',
+          correct: true,
+          earnedPoints: 1,
+          points: 1,
+          correctOptionIds: ['option-b'],
+          explanation: '1 + 1 = 2',
+        },
+        {
+          questionId: 'question-2',
+          correct: false,
+          earnedPoints: 0,
+          points: 1,
+          acceptedAnswers: ['서울'],
+          explanation: '서울특별시',
+        },
+      ],
+    };
+
+    it('남은 응시 기회가 있고 통과하지 못했으면 저장된 결과에서도 정답을 제거해야 함', async () => {
+      // Arrange
+      prismaService.chapter.findUnique.mockResolvedValue(createChapter({ maxAttempts: 3, passThreshold: 100 }));
+      prismaService.quizAttempt.findMany.mockResolvedValue([storedAttempt]);
+
+      // Act
+      const result = await quizzesService.getMyAttempts(courseId, chapterId, student);
+
+      // Assert
+      expect(result.answersRevealed).toBe(false);
+      expect(result.data[0].results).toEqual([
+        { questionId: 'question-1', correct: true, earnedPoints: 1, points: 1 },
+        { questionId: 'question-2', correct: false, earnedPoints: 0, points: 1 },
+      ]);
+    });
+
+    it('통과한 기록이 있으면 현재 문항의 정답과 해설을 공개해야 함', async () => {
+      // Arrange
+      prismaService.chapter.findUnique.mockResolvedValue(createChapter({ maxAttempts: 3, passThreshold: 100 }));
+      prismaService.quizAttempt.findMany.mockResolvedValue([
+        { ...storedAttempt, attemptId: 'attempt-id-2', attemptNumber: 2, passed: true },
+        storedAttempt,
+      ]);
+
+      // Act
+      const result = await quizzesService.getMyAttempts(courseId, chapterId, student);
+
+      // Assert
+      expect(result.answersRevealed).toBe(true);
+      expect(result.data[1].results[1]).toEqual(
+        expect.objectContaining({ acceptedAnswers: ['서울'], explanation: '서울특별시' })
+      );
+    });
+
+    it('강의 소유자에게는 정답을 공개해야 함', async () => {
+      // Arrange
+      prismaService.chapter.findUnique.mockResolvedValue(createChapter({ maxAttempts: 3, passThreshold: 100 }));
+      prismaService.quizAttempt.findMany.mockResolvedValue([]);
+
+      // Act
+      const result = await quizzesService.getMyAttempts(courseId, chapterId, teacher);
+
+      // Assert
+      expect(result.answersRevealed).toBe(true);
+    });
+  });
+});
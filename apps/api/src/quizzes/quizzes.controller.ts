@@ -0,0 +1,151 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+  Logger,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+
+import { QuizzesService } from './quizzes.service';
+import { ZodValidationPipe } from '@packages/common';
+import type { User } from '@packages/common';
+import { submitQuizAttemptSchema, upsertQuizSchema } from '@packages/schemas';
+import type { SubmitQuizAttemptDto, UpsertQuizDto } from '@packages/schemas';
+
+// 로컬 가드와 데코레이터 사용
+import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * 📝 퀴즈 챕터 컨트롤러
+ *
+ * 엔드포인트:
+ * - GET /courses/:courseId/chapters/:chapterId/quiz - 퀴즈 조회 (수강생/강사)
+ * - PUT /courses/:courseId/chapters/:chapterId/quiz - 퀴즈 저장 (강의 소유자)
+ * - POST /courses/:courseId/chapters/:chapterId/quiz/attempts - 퀴즈 응시 제출 (수강생)
+ * - GET /courses/:courseId/chapters/:chapterId/quiz/attempts - 내 응시 기록 조회 (수강생)
+ */
+@ApiTags('퀴즈')
+@Controller('courses/:courseId/chapters/:chapterId/quiz')
+@UseGuards(ApiJwtAuthGuard)
+@ApiBearerAuth()
+export class QuizzesController {
+  private readonly logger = new Logger(QuizzesController.name);
+
+  constructor(private readonly quizzesService: QuizzesService) {}
+
+  /**
+   * 📋 퀴즈 조회 (인증 필요)
+   */
+  @Get()
+  @ApiOperation({
+    summary: '퀴즈 조회',
+    description:
+      '챕터의 퀴즈를 조회합니다. 수강생에게는 정답이 제외된 문항이 반환됩니다.',
+  })
+  @ApiResponse({ status: 200, description: '퀴즈 조회 성공' })
+  @ApiResponse({ status: 401, description: '인증 필요' })
+  @ApiResponse({ status: 403, description: '수강 등록 필요' })
+  @ApiResponse({ status: 404, description: '퀴즈를 찾을 수 없음' })
+  @Throttle({ default: { limit: 50, ttl: 60000 } }) // 분당 50회 제한
+  async getQuiz(
+    @Param('courseId') courseId: string,
+    @Param('chapterId') chapterId: string,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`퀴즈 조회 요청 - 챕터: ${chapterId}, 요청자: ${user.id}`);
+
+    return this.quizzesService.getQuiz(courseId, chapterId, user);
+  }
+
+  /**
+   * 💾 퀴즈 저장 (강의 소유자 전용)
+   */
+  @Put()
+  @ApiOperation({
+    summary: '퀴즈 저장',
+    description:
+      '퀴즈 설정(통과 기준, 최대 응시 횟수)과 문항을 저장합니다. 문항은 전체 교체됩니다.',
+  })
+  @ApiResponse({ status: 200, description: '퀴즈 저장 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
+  @ApiResponse({ status: 401, description: '인증 필요' })
+  @ApiResponse({ status: 403, description: '권한 없음' })
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 20, ttl: 60000 } }) // 분당 20회 제한
+  async upsertQuiz(
+    @Param('courseId') courseId: string,
+    @Param('chapterId') chapterId: string,
+    @Body(new ZodValidationPipe(upsertQuizSchema)) upsertQuizDto: UpsertQuizDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(
+      `퀴즈 저장 요청 - 챕터: ${chapterId}, 문항 수: ${upsertQuizDto.questions.length}, 요청자: ${user.id}`
+    );
+
+    return this.quizzesService.upsertQuiz(courseId, chapterId, upsertQuizDto, user);
+  }
+
+  /**
+   * ✍️ 퀴즈 응시 제출 (수강생 전용)
+   */
+  @Post('attempts')
+  @ApiOperation({
+    summary: '퀴즈 응시 제출',
+    description:
+      '답안을 제출하면 서버에서 채점합니다. 통과 기준 이상이면 챕터가 완료 처리됩니다.',
+  })
+  @ApiResponse({ status: 201, description: '채점 완료' })
+  @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
+  @ApiResponse({ status: 401, description: '인증 필요' })
+  @ApiResponse({ status: 403, description: '수강 등록 필요 또는 응시 횟수 초과' })
+  @HttpCode(HttpStatus.CREATED)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한 (무차별 대입 방지)
+  async submitAttempt(
+    @Param('courseId') courseId: string,
+    @Param('chapterId') chapterId: string,
+    @Body(new ZodValidationPipe(submitQuizAttemptSchema)) submitDto: SubmitQuizAttemptDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`퀴즈 응시 요청 - 챕터: ${chapterId}, 요청자: ${user.id}`);
+
+    const result = await this.quizzesService.submitAttempt(courseId, chapterId, submitDto, user);
+
+    this.logger.log(
+      `퀴즈 응시 완료 - 점수: ${result.data.score}, 통과: ${result.data.passed}`
+    );
+    return result;
+  }
+
+  /**
+   * 📜 내 응시 기록 조회 (인증 필요)
+   */
+  @Get('attempts')
+  @ApiOperation({
+    summary: '응시 기록 조회',
+    description: '현재 사용자의 퀴즈 응시 기록을 최신순으로 조회합니다.',
+  })
+  @ApiResponse({ status: 200, description: '응시 기록 조회 성공' })
+  @ApiResponse({ status: 401, description: '인증 필요' })
+  @ApiResponse({ status: 404, description: '퀴즈를 찾을 수 없음' })
+  @Throttle({ default: { limit: 30, ttl: 60000 } }) // 분당 30회 제한
+  async getMyAttempts(
+    @Param('courseId') courseId: string,
+    @Param('chapterId') chapterId: string,
+    @CurrentUser() user: User
+  ) {
+    return this.quizzesService.getMyAttempts(courseId, chapterId, user);
+  }
+}
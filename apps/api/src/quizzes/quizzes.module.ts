@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { QuizzesController } from './quizzes.controller';
+import { QuizzesService } from './quizzes.service';
+import { PrismaModule } from '@packages/database';
+import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
+import { UserCourseProgressModule } from '../user-course-progress/user-course-progress.module';
+import { CourseRevisionsModule } from '../course-revisions/course-revisions.module';
+
+/**
+ * 📝 퀴즈 챕터 모듈
+ *
+ * 기능:
+ * - 퀴즈 문항 작성 (단일/복수 선택, O/X, 주관식)
+ * - 서버 측 자동 채점 및 응시 기록
+ * - 최대 응시 횟수 및 통과 기준 설정
+ * - 통과 시 챕터 진도 완료 처리
+ * - JWT 인증 보호
+ */
+@Module({
+  imports: [PrismaModule, UserCourseProgressModule, CourseRevisionsModule],
+  controllers: [QuizzesController],
+  providers: [
+    QuizzesService,
+    ApiJwtAuthGuard, // 로컬 JWT 가드 제공
+  ],
+  exports: [QuizzesService],
+})
+export class QuizzesModule {}
@@ -0,0 +1,496 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+import { PrismaService } from '@packages/database';
+import { generateId, RoleUtils } from '@packages/common';
+import type { User } from '@packages/common';
+import {
+  canRevealQuizAnswers,
+  gradeQuizAttempt,
+  getRemainingQuizAttempts,
+  revealQuizAnswers,
+  toPublicQuizQuestion,
+  toPublicQuizQuestionResult,
+} from '@packages/schemas';
+import type {
+  CourseSnapshotChapter,
+  QuizQuestionResult,
+  SubmitQuizAttemptDto,
+  UpsertQuizDto,
+} from '@packages/schemas';
+
+import { UserCourseProgressService } from '../user-course-progress/user-course-progress.service';
+import { CourseRevisionsService } from '../course-revisions/course-revisions.service';
+
+// 📊 문항 정렬 설정
+const QUESTION_ORDER_BY: Prisma.QuizQuestionOrderByWithRelationInput = {
+  orderIndex: 'asc',
+};
+
+// 🏗️ 타입 정의 - 퀴즈 챕터 조회 결과
+type QuizChapter = Prisma.ChapterGetPayload<{
+  include: {
+    section: { select: { sectionId: true; courseId: true; course: { select: { teacherId: true } } } };
+    quiz: { include: { questions: true } };
+  };
+}>;
+
+// 🔧 유틸리티 함수: 문항 유형에 맞지 않는 필드 정리 (주관식은 선택지 제외, 객관식은 허용 정답 제외)
+function normalizeQuizQuestions(questions: UpsertQuizDto['questions']): UpsertQuizDto['questions'] {
+  return questions.map((question) => ({
+    ...question,
+    options: question.type === 'ShortAnswer' ? [] : question.options,
+    correctOptionIds: question.type === 'ShortAnswer' ? [] : question.correctOptionIds,
+    acceptedAnswers: question.type === 'ShortAnswer' ? question.acceptedAnswers : [],
+  }));
+}
+
+/**
+ * 📝 퀴즈 챕터 서비스
+ *
+ * 주요 기능:
+ * - 강사용 퀴즈 문항 작성 (전체 교체 방식)
+ * - 학생용 퀴즈 조회 (정답 제외)
+ * - 서버 측 채점 및 응시 기록 저장
+ * - 통과 시 챕터 진도 완료 처리
+ */
+@Injectable()
+export class QuizzesService {
+  private readonly logger = new Logger(QuizzesService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly userCourseProgressService: UserCourseProgressService,
+    private readonly courseRevisionsService: CourseRevisionsService,
+  ) {}
+
+  /**
+   * 📋 퀴즈 조회
+   * 강의 소유자는 정답을 포함한 전체 문항을, 수강생은 정답이 제거된 문항을 받습니다.
+   */
+  async getQuiz(courseId: string, chapterId: string, user: User) {
+    try {
+      const chapter = await this.findQuizChapter(courseId, chapterId);
+      const canManage = this.canManageQuiz(chapter, user);
+
+      if (!canManage) {
+        await this.validateEnrollment(user.id, courseId);
+        await this.userCourseProgressService.assertChapterUnlocked(user.id, courseId, chapterId);
+      }
+
+      if (!chapter.quiz) {
+        throw new NotFoundException('이 챕터에 등록된 퀴즈가 없습니다');
+      }
+
+      const questions = [...chapter.quiz.questions].sort(
+        (a, b) => a.orderIndex - b.orderIndex
+      );
+
+      const attemptSummary = await this.getAttemptSummary(
+        chapter.quiz.quizId,
+        user.id,
+        chapter.quiz.maxAttempts
+      );
+
+      return {
+        message: '퀴즈 조회 성공',
+        data: {
+          quizId: chapter.quiz.quizId,
+          chapterId: chapter.chapterId,
+          passThreshold: chapter.quiz.passThreshold,
+          maxAttempts: chapter.quiz.maxAttempts,
+          questions: canManage
+            ? questions
+            : questions.map((question) => toPublicQuizQuestion(question)),
+          ...attemptSummary,
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+
+      this.logger.error(`퀴즈 조회 중 오류 발생 - 챕터: ${chapterId}`, error);
+      throw new BadRequestException('퀴즈를 조회하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 💾 퀴즈 저장 (강의 소유자 전용)
+   * 설정을 갱신하고 문항은 요청 순서대로 전체 교체합니다.
+   * 게시된 강의(또는 초안이 있는 강의)는 개정판 초안의 퀴즈를 교체합니다.
+   */
+  async upsertQuiz(
+    courseId: string,
+    chapterId: string,
+    upsertQuizDto: UpsertQuizDto,
+    user: User
+  ) {
+    try {
+      if (await this.courseRevisionsService.isEditingDraft(courseId)) {
+        return await this.upsertDraftQuiz(courseId, chapterId, upsertQuizDto, user);
+      }
+
+      const chapter = await this.findQuizChapter(courseId, chapterId);
+
+      if (!this.canManageQuiz(chapter, user)) {
+        this.logger.warn(`퀴즈 수정 권한 없음 - 챕터: ${chapterId}, 사용자: ${user.id}`);
+        throw new ForbiddenException('이 퀴즈를 수정할 권한이 없습니다');
+      }
+
+      const quiz = await this.prismaService.$transaction(async (tx) => {
+        const savedQuiz = await tx.quiz.upsert({
+          where: { chapterId },
+          create: {
+            quizId: generateId(),
+            chapterId,
+            passThreshold: upsertQuizDto.passThreshold,
+            maxAttempts: upsertQuizDto.maxAttempts,
+          },
+          update: {
+            passThreshold: upsertQuizDto.passThreshold,
+            maxAttempts: upsertQuizDto.maxAttempts,
+          },
+        });
+
+        await tx.quizQuestion.deleteMany({ where: { quizId: savedQuiz.quizId } });
+        await tx.quizQuestion.createMany({
+          data: normalizeQuizQuestions(upsertQuizDto.questions).map((question, index) => ({
+            ...question,
+            quizId: savedQuiz.quizId,
+            orderIndex: index,
+          })),
+        });
+
+        // 퀴즈가 등록된 챕터는 Quiz 타입으로 고정
+        if (chapter.type !== 'Quiz') {
+          await tx.chapter.update({
+            where: { chapterId },
+            data: { type: 'Quiz' },
+          });
+        }
+
+        return tx.quiz.findUniqueOrThrow({
+          where: { quizId: savedQuiz.quizId },
+          include: { questions: { orderBy: QUESTION_ORDER_BY } },
+        });
+      });
+
+      this.logger.log(`퀴즈 저장 완료 - 챕터: ${chapterId}, 문항 수: ${quiz.questions.length}`);
+
+      return {
+        message: '퀴즈 저장 성공',
+        data: quiz,
+      };
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new BadRequestException('문항 ID가 중복되었습니다');
+      }
+
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+
+      this.logger.error(`퀴즈 저장 중 오류 발생 - 챕터: ${chapterId}`, error);
+      throw new BadRequestException('퀴즈를 저장하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * ✍️ 퀴즈 응시 제출 (수강생 전용)
+   * 서버에서 채점하며, 통과 시 챕터를 완료 처리합니다.
+   */
+  async submitAttempt(
+    courseId: string,
+    chapterId: string,
+    submitDto: SubmitQuizAttemptDto,
+    user: User
+  ) {
+    try {
+      const chapter = await this.findQuizChapter(courseId, chapterId);
+      await this.validateEnrollment(user.id, courseId);
+      await this.userCourseProgressService.assertChapterUnlocked(user.id, courseId, chapterId);
+
+      if (!chapter.quiz || chapter.quiz.questions.length === 0) {
+        throw new NotFoundException('이 챕터에 등록된 퀴즈가 없습니다');
+      }
+
+      const quiz = chapter.quiz;
+      const questions = [...quiz.questions].sort((a, b) => a.orderIndex - b.orderIndex);
+
+      const usedAttempts = await this.prismaService.quizAttempt.count({
+        where: { quizId: quiz.quizId, userId: user.id },
+      });
+
+      if (quiz.maxAttempts !== null && usedAttempts >= quiz.maxAttempts) {
+        this.logger.warn(`최대 응시 횟수 초과 - 퀴즈: ${quiz.quizId}, 사용자: ${user.id}`);
+        throw new ForbiddenException(
+          `최대 응시 횟수(${quiz.maxAttempts}회)를 모두 사용했습니다`
+        );
+      }
+
+      const passedBefore =
+        (await this.prismaService.quizAttempt.count({
+          where: { quizId: quiz.quizId, userId: user.id, passed: true },
+        })) > 0;
+
+      // 🎯 서버 측 채점 (저장되는 결과에는 정답/해설을 포함하지 않음)
+      const grade = gradeQuizAttempt(questions, submitDto.answers, quiz.passThreshold);
+
+      const attempt = await this.prismaService.quizAttempt.create({
+        data: {
+          attemptId: generateId(),
+          quizId: quiz.quizId,
+          userId: user.id,
+          attemptNumber: usedAttempts + 1,
+          answers: submitDto.answers,
+          results: grade.results as unknown as Prisma.InputJsonValue,
+          score: grade.score,
+          earnedPoints: grade.earnedPoints,
+          totalPoints: grade.totalPoints,
+          passed: grade.passed,
+        },
+      });
+
+      // ✅ 통과 시 챕터 완료 처리
+      if (grade.passed) {
+        await this.userCourseProgressService.markChapterCompleted(user.id, courseId, chapterId);
+      }
+
+      this.logger.log(
+        `퀴즈 응시 완료 - 퀴즈: ${quiz.quizId}, 사용자: ${user.id}, 점수: ${grade.score}, 통과: ${grade.passed}`
+      );
+
+      // 🔒 정답/해설은 통과했거나 응시 횟수를 모두 사용한 경우에만 공개
+      const answersRevealed = canRevealQuizAnswers(
+        passedBefore || grade.passed,
+        quiz.maxAttempts,
+        attempt.attemptNumber
+      );
+
+      return {
+        message: grade.passed ? '퀴즈를 통과했습니다' : '퀴즈 통과 기준에 도달하지 못했습니다',
+        data: {
+          attemptId: attempt.attemptId,
+          attemptNumber: attempt.attemptNumber,
+          submittedAt: attempt.submittedAt,
+          passThreshold: quiz.passThreshold,
+          remainingAttempts: getRemainingQuizAttempts(quiz.maxAttempts, attempt.attemptNumber),
+          ...grade,
+          results: answersRevealed ? revealQuizAnswers(grade.results, questions) : grade.results,
+          answersRevealed,
+        },
+      };
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        // 동시에 제출된 요청이 같은 회차를 차지한 경우
+        throw new BadRequestException('이미 처리 중인 응시가 있습니다. 잠시 후 다시 시도해주세요');
+      }
+
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+
+      this.logger.error(`퀴즈 응시 중 오류 발생 - 챕터: ${chapterId}, 사용자: ${user.id}`, error);
+      throw new BadRequestException('퀴즈를 제출하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 📜 내 응시 기록 조회
+   */
+  async getMyAttempts(courseId: string, chapterId: string, user: User) {
+    try {
+      const chapter = await this.findQuizChapter(courseId, chapterId);
+
+      if (!chapter.quiz) {
+        throw new NotFoundException('이 챕터에 등록된 퀴즈가 없습니다');
+      }
+
+      const attempts = await this.prismaService.quizAttempt.findMany({
+        where: { quizId: chapter.quiz.quizId, userId: user.id },
+        orderBy: { submittedAt: 'desc' },
+        select: {
+          attemptId: true,
+          attemptNumber: true,
+          score: true,
+          earnedPoints: true,
+          totalPoints: true,
+          passed: true,
+          results: true,
+          submittedAt: true,
+        },
+      });
+
+      // 🔒 정답/해설 공개 조건을 충족하지 못하면 저장된 결과에서도 제거
+      const questions = chapter.quiz.questions;
+      const answersRevealed =
+        this.canManageQuiz(chapter, user) ||
+        canRevealQuizAnswers(
+          attempts.some((attempt) => attempt.passed),
+          chapter.quiz.maxAttempts,
+          attempts.length
+        );
+
+      return {
+        message: '응시 기록 조회 성공',
+        data: attempts.map((attempt) => {
+          const results = Array.isArray(attempt.results)
+            ? (attempt.results as unknown as QuizQuestionResult[])
+            : [];
+
+          return {
+            ...attempt,
+            results: answersRevealed
+              ? revealQuizAnswers(results, questions)
+              : results.map(toPublicQuizQuestionResult),
+          };
+        }),
+        count: attempts.length,
+        answersRevealed,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+
+      this.logger.error(`응시 기록 조회 중 오류 발생 - 챕터: ${chapterId}`, error);
+      throw new BadRequestException('응시 기록을 조회하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 💾 초안 챕터의 퀴즈 저장 (게시 시 라이브 퀴즈에 반영)
+   */
+  private async upsertDraftQuiz(
+    courseId: string,
+    chapterId: string,
+    upsertQuizDto: UpsertQuizDto,
+    user: User
+  ) {
+    const chapter = await this.courseRevisionsService.updateDraft(courseId, user, (content) => {
+      const chapter = content.sections
+        .flatMap((section) => section.chapters)
+        .find((chapter) => chapter.chapterId === chapterId);
+
+      if (!chapter) {
+        throw new NotFoundException('챕터를 찾을 수 없습니다');
+      }
+
+      // 라이브 저장 시 문항 ID 유니크 제약과 동일한 검증
+      const questionIds = upsertQuizDto.questions.map((question) => question.questionId);
+      if (new Set(questionIds).size !== questionIds.length) {
+        throw new BadRequestException('문항 ID가 중복되었습니다');
+      }
+
+      // 퀴즈가 등록된 챕터는 Quiz 타입으로 고정
+      chapter.type = 'Quiz';
+      chapter.quiz = {
+        passThreshold: upsertQuizDto.passThreshold,
+        maxAttempts: upsertQuizDto.maxAttempts,
+        questions: normalizeQuizQuestions(upsertQuizDto.questions),
+      };
+      return chapter as CourseSnapshotChapter & { quiz: UpsertQuizDto };
+    });
+
+    this.logger.log(
+      `초안 퀴즈 저장 완료 - 챕터: ${chapterId}, 문항 수: ${chapter.quiz.questions.length}`
+    );
+
+    return {
+      message: '퀴즈 저장 성공',
+      data: { chapterId, ...chapter.quiz },
+      draft: true,
+    };
+  }
+
+  /**
+   * 🔍 강의에 속한 챕터와 퀴즈 조회
+   */
+  private async findQuizChapter(courseId: string, chapterId: string): Promise<QuizChapter> {
+    const chapter = await this.prismaService.chapter.findUnique({
+      where: { chapterId },
+      include: {
+        section: {
+          select: {
+            sectionId: true,
+            courseId: true,
+            course: { select: { teacherId: true } },
+          },
+        },
+        quiz: { include: { questions: true } },
+      },
+    });
+
+    if (!chapter || chapter.section.courseId !== courseId) {
+      this.logger.warn(`챕터를 찾을 수 없음 - 강의: ${courseId}, 챕터: ${chapterId}`);
+      throw new NotFoundException('챕터를 찾을 수 없습니다');
+    }
+
+    return chapter;
+  }
+
+  /**
+   * 🔒 퀴즈 관리 권한 (강의 소유자 또는 관리자)
+   */
+  private canManageQuiz(chapter: QuizChapter, user: User): boolean {
+    return chapter.section.course.teacherId === user.id || RoleUtils.isAdmin(user.role);
+  }
+
+  /**
+   * 🔒 수강 등록 여부 검증
+   */
+  private async validateEnrollment(userId: string, courseId: string): Promise<void> {
+    const enrollment = await this.prismaService.enrollment.findUnique({
+      where: { userId_courseId: { userId, courseId } },
+      select: { userId: true },
+    });
+
+    if (!enrollment) {
+      this.logger.warn(`수강 등록되지 않은 사용자 - 강의: ${courseId}, 사용자: ${userId}`);
+      throw new ForbiddenException('수강 중인 강의의 퀴즈만 응시할 수 있습니다');
+    }
+  }
+
+  /**
+   * 📊 응시 요약 (사용 횟수, 최고 점수, 통과 여부)
+   */
+  private async getAttemptSummary(
+    quizId: string,
+    userId: string,
+    maxAttempts: number | null
+  ) {
+    const summary = await this.prismaService.quizAttempt.aggregate({
+      where: { quizId, userId },
+      _count: { attemptId: true },
+      _max: { score: true },
+    });
+
+    const passedCount = await this.prismaService.quizAttempt.count({
+      where: { quizId, userId, passed: true },
+    });
+
+    return {
+      attemptsUsed: summary._count.attemptId,
+      remainingAttempts: getRemainingQuizAttempts(maxAttempts, summary._count.attemptId),
+      bestScore: summary._max.score,
+      passed: passedCount > 0,
+    };
+  }
+}
@@ -0,0 +1,277 @@
+import {
+  Controller,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Logger,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+
+import { SectionsService } from './sections.service';
+import { ZodValidationPipe } from '@packages/common';
+import {
+  createSectionSchema,
+  updateSectionSchema,
+  createChapterSchema,
+  updateChapterSchema,
+  moveSectionSchema,
+  moveChapterSchema,
+} from '@packages/schemas';
+import type {
+  CreateSectionDto,
+  UpdateSectionDto,
+  CreateChapterDto,
+  UpdateChapterDto,
+  MoveSectionDto,
+  MoveChapterDto,
+  User,
+} from '@packages/schemas';
+
+// 로컬 가드와 데코레이터 사용
+import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * 🧩 섹션/챕터 단위 편집 컨트롤러 (강의 소유자/관리자)
+ *
+ * 엔드포인트:
+ * - POST /courses/:courseId/sections - 섹션 생성
+ * - PATCH /courses/:courseId/sections/:sectionId - 섹션 수정
+ * - DELETE /courses/:courseId/sections/:sectionId - 섹션 삭제
+ * - PUT /courses/:courseId/sections/:sectionId/order - 섹션 순서 이동
+ * - POST /courses/:courseId/sections/:sectionId/chapters - 챕터 생성
+ * - PATCH /courses/:courseId/sections/:sectionId/chapters/:chapterId - 챕터 수정
+ * - DELETE /courses/:courseId/sections/:sectionId/chapters/:chapterId - 챕터 삭제
+ * - PUT /courses/:courseId/sections/:sectionId/chapters/:chapterId/order - 챕터 순서 이동
+ */
+@ApiTags('강의 구성 (섹션/챕터)')
+@Controller('courses/:courseId/sections')
+@UseGuards(ApiJwtAuthGuard)
+@ApiBearerAuth()
+export class SectionsController {
+  private readonly logger = new Logger(SectionsController.name);
+
+  constructor(private readonly sectionsService: SectionsService) {}
+
+  /**
+   * ➕ 섹션 생성
+   */
+  @Post()
+  @ApiOperation({
+    summary: '섹션 생성',
+    description: '강의의 마지막 순서에 새 섹션을 추가합니다.',
+  })
+  @ApiResponse({ status: 201, description: '섹션 생성 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의를 찾을 수 없음' })
+  @HttpCode(HttpStatus.CREATED)
+  @Throttle({ default: { limit: 30, ttl: 60000 } }) // 분당 30회 제한
+  async createSection(
+    @Param('courseId') courseId: string,
+    @Body(new ZodValidationPipe(createSectionSchema)) createSectionDto: CreateSectionDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`섹션 생성 요청 - 강의: ${courseId}, 요청자: ${user.id}`);
+
+    return this.sectionsService.createSection(courseId, createSectionDto, user);
+  }
+
+  /**
+   * ✏️ 섹션 수정
+   */
+  @Patch(':sectionId')
+  @ApiOperation({
+    summary: '섹션 수정',
+    description: '섹션 제목과 설명 중 전달된 항목만 수정합니다.',
+  })
+  @ApiResponse({ status: 200, description: '섹션 수정 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의 또는 섹션을 찾을 수 없음' })
+  @Throttle({ default: { limit: 30, ttl: 60000 } }) // 분당 30회 제한
+  async updateSection(
+    @Param('courseId') courseId: string,
+    @Param('sectionId') sectionId: string,
+    @Body(new ZodValidationPipe(updateSectionSchema)) updateSectionDto: UpdateSectionDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`섹션 수정 요청 - 섹션: ${sectionId}, 요청자: ${user.id}`);
+
+    return this.sectionsService.updateSection(courseId, sectionId, updateSectionDto, user);
+  }
+
+  /**
+   * 🗑️ 섹션 삭제
+   */
+  @Delete(':sectionId')
+  @ApiOperation({
+    summary: '섹션 삭제',
+    description: '섹션과 소속 챕터를 삭제하고 남은 섹션의 순서를 당깁니다.',
+  })
+  @ApiResponse({ status: 200, description: '섹션 삭제 성공' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의 또는 섹션을 찾을 수 없음' })
+  @Throttle({ default: { limit: 30, ttl: 60000 } }) // 분당 30회 제한
+  async deleteSection(
+    @Param('courseId') courseId: string,
+    @Param('sectionId') sectionId: string,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`섹션 삭제 요청 - 섹션: ${sectionId}, 요청자: ${user.id}`);
+
+    return this.sectionsService.deleteSection(courseId, sectionId, user);
+  }
+
+  /**
+   * ↕️ 섹션 순서 이동
+   */
+  @Put(':sectionId/order')
+  @ApiOperation({
+    summary: '섹션 순서 이동',
+    description:
+      '섹션을 orderIndex 위치(0부터)로 옮기고 나머지 섹션의 순서를 한 트랜잭션에서 재정렬합니다.',
+  })
+  @ApiResponse({ status: 200, description: '섹션 순서 변경 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의 또는 섹션을 찾을 수 없음' })
+  @Throttle({ default: { limit: 60, ttl: 60000 } }) // 분당 60회 제한 (드래그 앤 드롭)
+  async moveSection(
+    @Param('courseId') courseId: string,
+    @Param('sectionId') sectionId: string,
+    @Body(new ZodValidationPipe(moveSectionSchema)) moveSectionDto: MoveSectionDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(
+      `섹션 순서 이동 요청 - 섹션: ${sectionId}, 위치: ${moveSectionDto.orderIndex}, 요청자: ${user.id}`
+    );
+
+    return this.sectionsService.moveSection(courseId, sectionId, moveSectionDto, user);
+  }
+
+  /**
+   * ➕ 챕터 생성
+   */
+  @Post(':sectionId/chapters')
+  @ApiOperation({
+    summary: '챕터 생성',
+    description: '섹션의 마지막 순서에 새 챕터를 추가합니다.',
+  })
+  @ApiResponse({ status: 201, description: '챕터 생성 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의 또는 섹션을 찾을 수 없음' })
+  @HttpCode(HttpStatus.CREATED)
+  @Throttle({ default: { limit: 30, ttl: 60000 } }) // 분당 30회 제한
+  async createChapter(
+    @Param('courseId') courseId: string,
+    @Param('sectionId') sectionId: string,
+    @Body(new ZodValidationPipe(createChapterSchema)) createChapterDto: CreateChapterDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`챕터 생성 요청 - 섹션: ${sectionId}, 요청자: ${user.id}`);
+
+    return this.sectionsService.createChapter(courseId, sectionId, createChapterDto, user);
+  }
+
+  /**
+   * ✏️ 챕터 수정
+   */
+  @Patch(':sectionId/chapters/:chapterId')
+  @ApiOperation({
+    summary: '챕터 수정',
+    description: '챕터의 제목, 내용, 타입, 영상, 미리보기 여부 중 전달된 항목만 수정합니다.',
+  })
+  @ApiResponse({ status: 200, description: '챕터 수정 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의, 섹션 또는 챕터를 찾을 수 없음' })
+  @Throttle({ default: { limit: 30, ttl: 60000 } }) // 분당 30회 제한
+  async updateChapter(
+    @Param('courseId') courseId: string,
+    @Param('sectionId') sectionId: string,
+    @Param('chapterId') chapterId: string,
+    @Body(new ZodValidationPipe(updateChapterSchema)) updateChapterDto: UpdateChapterDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`챕터 수정 요청 - 챕터: ${chapterId}, 요청자: ${user.id}`);
+
+    return this.sectionsService.updateChapter(
+      courseId,
+      sectionId,
+      chapterId,
+      updateChapterDto,
+      user
+    );
+  }
+
+  /**
+   * 🗑️ 챕터 삭제
+   */
+  @Delete(':sectionId/chapters/:chapterId')
+  @ApiOperation({
+    summary: '챕터 삭제',
+    description: '챕터를 삭제하고 섹션에 남은 챕터의 순서를 당깁니다.',
+  })
+  @ApiResponse({ status: 200, description: '챕터 삭제 성공' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의, 섹션 또는 챕터를 찾을 수 없음' })
+  @Throttle({ default: { limit: 30, ttl: 60000 } }) // 분당 30회 제한
+  async deleteChapter(
+    @Param('courseId') courseId: string,
+    @Param('sectionId') sectionId: string,
+    @Param('chapterId') chapterId: string,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`챕터 삭제 요청 - 챕터: ${chapterId}, 요청자: ${user.id}`);
+
+    return this.sectionsService.deleteChapter(courseId, sectionId, chapterId, user);
+  }
+
+  /**
+   * ↕️ 챕터 순서 이동
+   */
+  @Put(':sectionId/chapters/:chapterId/order')
+  @ApiOperation({
+    summary: '챕터 순서 이동',
+    description:
+      '챕터를 orderIndex 위치(0부터)로 옮깁니다. targetSectionId를 지정하면 같은 강의의 다른 섹션으로 이동하며, 관련 섹션의 순서는 한 트랜잭션에서 재정렬됩니다.',
+  })
+  @ApiResponse({ status: 200, description: '챕터 순서 변경 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
+  @ApiResponse({ status: 403, description: '수정 권한 없음' })
+  @ApiResponse({ status: 404, description: '강의, 섹션 또는 챕터를 찾을 수 없음' })
+  @Throttle({ default: { limit: 60, ttl: 60000 } }) // 분당 60회 제한 (드래그 앤 드롭)
+  async moveChapter(
+    @Param('courseId') courseId: string,
+    @Param('sectionId') sectionId: string,
+    @Param('chapterId') chapterId: string,
+    @Body(new ZodValidationPipe(moveChapterSchema)) moveChapterDto: MoveChapterDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(
+      `챕터 순서 이동 요청 - 챕터: ${chapterId}, 위치: ${moveChapterDto.orderIndex}, 요청자: ${user.id}`
+    );
+
+    return this.sectionsService.moveChapter(
+      courseId,
+      sectionId,
+      chapterId,
+      moveChapterDto,
+      user
+    );
+  }
+}
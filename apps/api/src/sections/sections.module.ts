@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { SectionsController } from './sections.controller';
+import { SectionsService } from './sections.service';
+import { PrismaModule } from '@packages/database';
+import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
+import { CourseRevisionsModule } from '../course-revisions/course-revisions.module';
+
+/**
+ * 🧩 섹션/챕터 단위 편집 모듈
+ *
+ * 기능:
+ * - 섹션/챕터 개별 생성, 수정, 삭제
+ * - 드래그 앤 드롭 순서 이동 (orderIndex 원자적 재정렬)
+ * - 게시된 강의는 개정판 초안에 저장
+ * - 강의 소유자/관리자 권한 검증
+ * - JWT 인증 보호
+ */
+@Module({
+  imports: [PrismaModule, CourseRevisionsModule],
+  controllers: [SectionsController],
+  providers: [
+    SectionsService,
+    ApiJwtAuthGuard, // 로컬 JWT 가드 제공
+  ],
+  exports: [SectionsService],
+})
+export class SectionsModule {}
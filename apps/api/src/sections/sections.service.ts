@@ -0,0 +1,829 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+import { PrismaService } from '@packages/database';
+import { generateId, RoleUtils } from '@packages/common';
+import type {
+  CreateSectionDto,
+  UpdateSectionDto,
+  CreateChapterDto,
+  UpdateChapterDto,
+  MoveSectionDto,
+  MoveChapterDto,
+  CourseSnapshot,
+  CourseSnapshotSection,
+  CourseSnapshotChapter,
+  User,
+} from '@packages/schemas';
+
+import { CourseRevisionsService } from '../course-revisions/course-revisions.service';
+
+// 📊 섹션/챕터 정렬 설정 (같은 순서 값은 생성순으로 고정)
+const SECTION_ORDER_BY: Prisma.SectionOrderByWithRelationInput[] = [
+  { orderIndex: 'asc' },
+  { createdAt: 'asc' },
+];
+const CHAPTER_ORDER_BY: Prisma.ChapterOrderByWithRelationInput[] = [
+  { orderIndex: 'asc' },
+  { createdAt: 'asc' },
+];
+
+// 순서 재계산 대상 (섹션 또는 챕터의 ID와 현재 순서)
+interface OrderedItem {
+  id: string;
+  orderIndex: number;
+}
+
+// 🔧 유틸리티 함수: 목록에서 항목을 꺼내 목표 위치에 삽입 (범위를 넘으면 마지막)
+function insertAt<T>(items: T[], item: T, index: number): T[] {
+  const result = [...items];
+  result.splice(Math.min(index, result.length), 0, item);
+  return result;
+}
+
+/**
+ * 🧩 섹션/챕터 단위 편집 서비스
+ *
+ * 주요 기능:
+ * - 섹션/챕터 개별 생성, 수정, 삭제
+ * - orderIndex 순서 이동 (같은 강의의 구조 변경은 강의 행 잠금으로 직렬화)
+ * - 삭제/이동 후 남은 항목의 orderIndex를 0부터 연속되게 재정렬
+ * - 게시된 강의(또는 초안이 있는 강의)는 라이브 테이블 대신 개정판 초안을 수정
+ */
+@Injectable()
+export class SectionsService {
+  private readonly logger = new Logger(SectionsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly courseRevisionsService: CourseRevisionsService,
+  ) {}
+
+  /**
+   * ➕ 섹션 생성 (강의의 마지막 순서에 추가)
+   */
+  async createSection(courseId: string, createSectionDto: CreateSectionDto, user: User) {
+    try {
+      await this.assertCanEditCourse(courseId, user);
+
+      if (await this.courseRevisionsService.isEditingDraft(courseId)) {
+        return await this.createSectionInDraft(courseId, createSectionDto, user);
+      }
+
+      const section = await this.prismaService.$transaction(async (tx) => {
+        await this.lockCourse(tx, courseId);
+
+        const { _max } = await tx.section.aggregate({
+          where: { courseId },
+          _max: { orderIndex: true },
+        });
+
+        return tx.section.create({
+          data: {
+            sectionId: generateId(),
+            courseId,
+            sectionTitle: createSectionDto.sectionTitle,
+            sectionDescription: createSectionDto.sectionDescription,
+            orderIndex: (_max.orderIndex ?? -1) + 1,
+          },
+          include: { chapters: true },
+        });
+      });
+
+      this.logger.log(`섹션 생성 완료 - 강의: ${courseId}, 섹션: ${section.sectionId}`);
+
+      return {
+        message: '섹션 생성 성공',
+        data: section,
+      };
+    } catch (error) {
+      this.rethrowKnownError(error);
+      this.logger.error(`섹션 생성 중 오류 발생 - 강의: ${courseId}`, error);
+      throw new BadRequestException('섹션을 생성하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * ✏️ 섹션 수정 (제목, 설명)
+   */
+  async updateSection(
+    courseId: string,
+    sectionId: string,
+    updateSectionDto: UpdateSectionDto,
+    user: User
+  ) {
+    try {
+      await this.assertCanEditCourse(courseId, user);
+
+      if (await this.courseRevisionsService.isEditingDraft(courseId)) {
+        return await this.updateSectionInDraft(courseId, sectionId, updateSectionDto, user);
+      }
+
+      await this.findSection(this.prismaService, courseId, sectionId);
+
+      const section = await this.prismaService.section.update({
+        where: { sectionId },
+        data: {
+          sectionTitle: updateSectionDto.sectionTitle,
+          sectionDescription: updateSectionDto.sectionDescription,
+        },
+        include: { chapters: { orderBy: CHAPTER_ORDER_BY } },
+      });
+
+      this.logger.log(`섹션 수정 완료 - 강의: ${courseId}, 섹션: ${sectionId}`);
+
+      return {
+        message: '섹션 수정 성공',
+        data: section,
+      };
+    } catch (error) {
+      this.rethrowKnownError(error);
+      this.logger.error(`섹션 수정 중 오류 발생 - 섹션: ${sectionId}`, error);
+      throw new BadRequestException('섹션을 수정하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 🗑️ 섹션 삭제 (소속 챕터 포함, 남은 섹션 순서 재정렬)
+   */
+  async deleteSection(courseId: string, sectionId: string, user: User) {
+    try {
+      await this.assertCanEditCourse(courseId, user);
+
+      if (await this.courseRevisionsService.isEditingDraft(courseId)) {
+        return await this.deleteSectionInDraft(courseId, sectionId, user);
+      }
+
+      await this.prismaService.$transaction(async (tx) => {
+        await this.lockCourse(tx, courseId);
+        await this.findSection(tx, courseId, sectionId);
+
+        await tx.section.delete({ where: { sectionId } });
+        await this.writeSectionOrder(tx, await this.getSectionOrder(tx, courseId));
+      });
+
+      this.logger.log(`섹션 삭제 완료 - 강의: ${courseId}, 섹션: ${sectionId}`);
+
+      return {
+        message: '섹션 삭제 성공',
+        data: { courseId, sectionId },
+      };
+    } catch (error) {
+      this.rethrowKnownError(error);
+      this.logger.error(`섹션 삭제 중 오류 발생 - 섹션: ${sectionId}`, error);
+      throw new BadRequestException('섹션을 삭제하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * ↕️ 섹션 순서 이동
+   */
+  async moveSection(
+    courseId: string,
+    sectionId: string,
+    moveSectionDto: MoveSectionDto,
+    user: User
+  ) {
+    try {
+      await this.assertCanEditCourse(courseId, user);
+
+      if (await this.courseRevisionsService.isEditingDraft(courseId)) {
+        return await this.moveSectionInDraft(courseId, sectionId, moveSectionDto, user);
+      }
+
+      const sectionIds = await this.prismaService.$transaction(async (tx) => {
+        await this.lockCourse(tx, courseId);
+        await this.findSection(tx, courseId, sectionId);
+
+        const sections = await this.getSectionOrder(tx, courseId);
+        const moving = sections.find((section) => section.id === sectionId) as OrderedItem;
+        const reordered = insertAt(
+          sections.filter((section) => section.id !== sectionId),
+          moving,
+          moveSectionDto.orderIndex
+        );
+
+        await this.writeSectionOrder(tx, reordered);
+        return reordered.map((section) => section.id);
+      });
+
+      this.logger.log(
+        `섹션 순서 이동 완료 - 강의: ${courseId}, 섹션: ${sectionId}, 위치: ${sectionIds.indexOf(sectionId)}`
+      );
+
+      return {
+        message: '섹션 순서 변경 성공',
+        data: { courseId, sectionIds },
+      };
+    } catch (error) {
+      this.rethrowKnownError(error);
+      this.logger.error(`섹션 순서 이동 중 오류 발생 - 섹션: ${sectionId}`, error);
+      throw new BadRequestException('섹션 순서를 변경하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * ➕ 챕터 생성 (섹션의 마지막 순서에 추가)
+   */
+  async createChapter(
+    courseId: string,
+    sectionId: string,
+    createChapterDto: CreateChapterDto,
+    user: User
+  ) {
+    try {
+      await this.assertCanEditCourse(courseId, user);
+
+      if (await this.courseRevisionsService.isEditingDraft(courseId)) {
+        return await this.createChapterInDraft(courseId, sectionId, createChapterDto, user);
+      }
+
+      const chapter = await this.prismaService.$transaction(async (tx) => {
+        await this.lockCourse(tx, courseId);
+        await this.findSection(tx, courseId, sectionId);
+
+        const { _max } = await tx.chapter.aggregate({
+          where: { sectionId },
+          _max: { orderIndex: true },
+        });
+
+        return tx.chapter.create({
+          data: {
+            chapterId: generateId(),
+            sectionId,
+            type: createChapterDto.type,
+            title: createChapterDto.title,
+            content: createChapterDto.content,
+            video: createChapterDto.video,
+            freePreview: createChapterDto.freePreview,
+            orderIndex: (_max.orderIndex ?? -1) + 1,
+          },
+        });
+      });
+
+      this.logger.log(
+        `챕터 생성 완료 - 강의: ${courseId}, 섹션: ${sectionId}, 챕터: ${chapter.chapterId}`
+      );
+
+      return {
+        message: '챕터 생성 성공',
+        data: chapter,
+      };
+    } catch (error) {
+      this.rethrowKnownError(error);
+      this.logger.error(`챕터 생성 중 오류 발생 - 섹션: ${sectionId}`, error);
+      throw new BadRequestException('챕터를 생성하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * ✏️ 챕터 수정 (제목, 내용, 타입, 영상, 미리보기)
+   */
+  async updateChapter(
+    courseId: string,
+    sectionId: string,
+    chapterId: string,
+    updateChapterDto: UpdateChapterDto,
+    user: User
+  ) {
+    try {
+      await this.assertCanEditCourse(courseId, user);
+
+      if (await this.courseRevisionsService.isEditingDraft(courseId)) {
+        return await this.updateChapterInDraft(
+          courseId,
+          sectionId,
+          chapterId,
+          updateChapterDto,
+          user
+        );
+      }
+
+      await this.findChapter(this.prismaService, courseId, sectionId, chapterId);
+
+      const chapter = await this.prismaService.chapter.update({
+        where: { chapterId },
+        data: {
+          type: updateChapterDto.type,
+          title: updateChapterDto.title,
+          content: updateChapterDto.content,
+          video: updateChapterDto.video,
+          freePreview: updateChapterDto.freePreview,
+        },
+      });
+
+      this.logger.log(`챕터 수정 완료 - 섹션: ${sectionId}, 챕터: ${chapterId}`);
+
+      return {
+        message: '챕터 수정 성공',
+        data: chapter,
+      };
+    } catch (error) {
+      this.rethrowKnownError(error);
+      this.logger.error(`챕터 수정 중 오류 발생 - 챕터: ${chapterId}`, error);
+      throw new BadRequestException('챕터를 수정하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 🗑️ 챕터 삭제 (남은 챕터 순서 재정렬)
+   */
+  async deleteChapter(courseId: string, sectionId: string, chapterId: string, user: User) {
+    try {
+      await this.assertCanEditCourse(courseId, user);
+
+      if (await this.courseRevisionsService.isEditingDraft(courseId)) {
+        return await this.deleteChapterInDraft(courseId, sectionId, chapterId, user);
+      }
+
+      await this.prismaService.$transaction(async (tx) => {
+        await this.lockCourse(tx, courseId);
+        await this.findChapter(tx, courseId, sectionId, chapterId);
+
+        await tx.chapter.delete({ where: { chapterId } });
+        await this.writeChapterOrder(tx, await this.getChapterOrder(tx, sectionId));
+      });
+
+      this.logger.log(`챕터 삭제 완료 - 섹션: ${sectionId}, 챕터: ${chapterId}`);
+
+      return {
+        message: '챕터 삭제 성공',
+        data: { sectionId, chapterId },
+      };
+    } catch (error) {
+      this.rethrowKnownError(error);
+      this.logger.error(`챕터 삭제 중 오류 발생 - 챕터: ${chapterId}`, error);
+      throw new BadRequestException('챕터를 삭제하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * ↕️ 챕터 순서 이동 (targetSectionId 지정 시 다른 섹션으로 이동)
+   */
+  async moveChapter(
+    courseId: string,
+    sectionId: string,
+    chapterId: string,
+    moveChapterDto: MoveChapterDto,
+    user: User
+  ) {
+    const targetSectionId = moveChapterDto.targetSectionId ?? sectionId;
+
+    try {
+      await this.assertCanEditCourse(courseId, user);
+
+      if (await this.courseRevisionsService.isEditingDraft(courseId)) {
+        return await this.moveChapterInDraft(courseId, sectionId, chapterId, moveChapterDto, user);
+      }
+
+      const chapterIds = await this.prismaService.$transaction(async (tx) => {
+        await this.lockCourse(tx, courseId);
+        await this.findChapter(tx, courseId, sectionId, chapterId);
+
+        if (targetSectionId !== sectionId) {
+          await this.findSection(tx, courseId, targetSectionId);
+        }
+
+        const sourceChapters = await this.getChapterOrder(tx, sectionId);
+        const moving = sourceChapters.find((chapter) => chapter.id === chapterId) as OrderedItem;
+        const remaining = sourceChapters.filter((chapter) => chapter.id !== chapterId);
+
+        if (targetSectionId === sectionId) {
+          const reordered = insertAt(remaining, moving, moveChapterDto.orderIndex);
+          await this.writeChapterOrder(tx, reordered);
+          return reordered.map((chapter) => chapter.id);
+        }
+
+        // 다른 섹션으로 이동: 원래 섹션은 빈자리를 채우고 대상 섹션에 삽입
+        const reordered = insertAt(
+          await this.getChapterOrder(tx, targetSectionId),
+          moving,
+          moveChapterDto.orderIndex
+        );
+
+        await tx.chapter.update({
+          where: { chapterId },
+          data: { sectionId: targetSectionId },
+        });
+        await this.writeChapterOrder(tx, remaining);
+        await this.writeChapterOrder(tx, reordered);
+        return reordered.map((chapter) => chapter.id);
+      });
+
+      this.logger.log(
+        `챕터 순서 이동 완료 - 챕터: ${chapterId}, 섹션: ${sectionId} → ${targetSectionId}, 위치: ${chapterIds.indexOf(chapterId)}`
+      );
+
+      return {
+        message: '챕터 순서 변경 성공',
+        data: { sectionId: targetSectionId, chapterIds },
+      };
+    } catch (error) {
+      this.rethrowKnownError(error);
+      this.logger.error(`챕터 순서 이동 중 오류 발생 - 챕터: ${chapterId}`, error);
+      throw new BadRequestException('챕터 순서를 변경하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * ➕ 초안에 섹션 추가
+   */
+  private async createSectionInDraft(
+    courseId: string,
+    createSectionDto: CreateSectionDto,
+    user: User
+  ) {
+    const section = await this.courseRevisionsService.updateDraft(courseId, user, (content) => {
+      const section: CourseSnapshotSection = {
+        sectionId: generateId(),
+        sectionTitle: createSectionDto.sectionTitle,
+        sectionDescription: createSectionDto.sectionDescription ?? null,
+        chapters: [],
+      };
+      content.sections.push(section);
+      return section;
+    });
+
+    this.logger.log(`초안 섹션 생성 완료 - 강의: ${courseId}, 섹션: ${section.sectionId}`);
+
+    return {
+      message: '섹션 생성 성공',
+      data: section,
+      draft: true,
+    };
+  }
+
+  /**
+   * ✏️ 초안의 섹션 수정
+   */
+  private async updateSectionInDraft(
+    courseId: string,
+    sectionId: string,
+    updateSectionDto: UpdateSectionDto,
+    user: User
+  ) {
+    const section = await this.courseRevisionsService.updateDraft(courseId, user, (content) => {
+      const section = this.findDraftSection(content, sectionId);
+      if (updateSectionDto.sectionTitle !== undefined) {
+        section.sectionTitle = updateSectionDto.sectionTitle;
+      }
+      if (updateSectionDto.sectionDescription !== undefined) {
+        section.sectionDescription = updateSectionDto.sectionDescription;
+      }
+      return section;
+    });
+
+    this.logger.log(`초안 섹션 수정 완료 - 강의: ${courseId}, 섹션: ${sectionId}`);
+
+    return {
+      message: '섹션 수정 성공',
+      data: section,
+      draft: true,
+    };
+  }
+
+  /**
+   * 🗑️ 초안에서 섹션 삭제
+   */
+  private async deleteSectionInDraft(courseId: string, sectionId: string, user: User) {
+    await this.courseRevisionsService.updateDraft(courseId, user, (content) => {
+      this.findDraftSection(content, sectionId);
+      content.sections = content.sections.filter((section) => section.sectionId !== sectionId);
+    });
+
+    this.logger.log(`초안 섹션 삭제 완료 - 강의: ${courseId}, 섹션: ${sectionId}`);
+
+    return {
+      message: '섹션 삭제 성공',
+      data: { courseId, sectionId },
+      draft: true,
+    };
+  }
+
+  /**
+   * ↕️ 초안의 섹션 순서 이동
+   */
+  private async moveSectionInDraft(
+    courseId: string,
+    sectionId: string,
+    moveSectionDto: MoveSectionDto,
+    user: User
+  ) {
+    const sectionIds = await this.courseRevisionsService.updateDraft(courseId, user, (content) => {
+      const moving = this.findDraftSection(content, sectionId);
+      content.sections = insertAt(
+        content.sections.filter((section) => section.sectionId !== sectionId),
+        moving,
+        moveSectionDto.orderIndex
+      );
+      return content.sections.map((section) => section.sectionId);
+    });
+
+    this.logger.log(
+      `초안 섹션 순서 이동 완료 - 강의: ${courseId}, 섹션: ${sectionId}, 위치: ${sectionIds.indexOf(sectionId)}`
+    );
+
+    return {
+      message: '섹션 순서 변경 성공',
+      data: { courseId, sectionIds },
+      draft: true,
+    };
+  }
+
+  /**
+   * ➕ 초안 섹션에 챕터 추가
+   */
+  private async createChapterInDraft(
+    courseId: string,
+    sectionId: string,
+    createChapterDto: CreateChapterDto,
+    user: User
+  ) {
+    const chapter = await this.courseRevisionsService.updateDraft(courseId, user, (content) => {
+      const chapter: CourseSnapshotChapter = {
+        chapterId: generateId(),
+        type: createChapterDto.type,
+        title: createChapterDto.title,
+        content: createChapterDto.content,
+        video: createChapterDto.video ?? null,
+        freePreview: createChapterDto.freePreview,
+        quiz: null,
+      };
+      this.findDraftSection(content, sectionId).chapters.push(chapter);
+      return chapter;
+    });
+
+    this.logger.log(
+      `초안 챕터 생성 완료 - 강의: ${courseId}, 섹션: ${sectionId}, 챕터: ${chapter.chapterId}`
+    );
+
+    return {
+      message: '챕터 생성 성공',
+      data: chapter,
+      draft: true,
+    };
+  }
+
+  /**
+   * ✏️ 초안의 챕터 수정
+   */
+  private async updateChapterInDraft(
+    courseId: string,
+    sectionId: string,
+    chapterId: string,
+    updateChapterDto: UpdateChapterDto,
+    user: User
+  ) {
+    const chapter = await this.courseRevisionsService.updateDraft(courseId, user, (content) => {
+      const chapter = this.findDraftChapter(content, sectionId, chapterId);
+      Object.assign(
+        chapter,
+        Object.fromEntries(
+          Object.entries(updateChapterDto).filter(([, value]) => value !== undefined)
+        )
+      );
+      return chapter;
+    });
+
+    this.logger.log(`초안 챕터 수정 완료 - 섹션: ${sectionId}, 챕터: ${chapterId}`);
+
+    return {
+      message: '챕터 수정 성공',
+      data: chapter,
+      draft: true,
+    };
+  }
+
+  /**
+   * 🗑️ 초안에서 챕터 삭제
+   */
+  private async deleteChapterInDraft(
+    courseId: string,
+    sectionId: string,
+    chapterId: string,
+    user: User
+  ) {
+    await this.courseRevisionsService.updateDraft(courseId, user, (content) => {
+      this.findDraftChapter(content, sectionId, chapterId);
+      const section = this.findDraftSection(content, sectionId);
+      section.chapters = section.chapters.filter((chapter) => chapter.chapterId !== chapterId);
+    });
+
+    this.logger.log(`초안 챕터 삭제 완료 - 섹션: ${sectionId}, 챕터: ${chapterId}`);
+
+    return {
+      message: '챕터 삭제 성공',
+      data: { sectionId, chapterId },
+      draft: true,
+    };
+  }
+
+  /**
+   * ↕️ 초안의 챕터 순서 이동 (targetSectionId 지정 시 다른 섹션으로 이동)
+   */
+  private async moveChapterInDraft(
+    courseId: string,
+    sectionId: string,
+    chapterId: string,
+    moveChapterDto: MoveChapterDto,
+    user: User
+  ) {
+    const targetSectionId = moveChapterDto.targetSectionId ?? sectionId;
+
+    const chapterIds = await this.courseRevisionsService.updateDraft(courseId, user, (content) => {
+      const moving = this.findDraftChapter(content, sectionId, chapterId);
+      const source = this.findDraftSection(content, sectionId);
+      const target = this.findDraftSection(content, targetSectionId);
+
+      source.chapters = source.chapters.filter((chapter) => chapter.chapterId !== chapterId);
+      target.chapters = insertAt(target.chapters, moving, moveChapterDto.orderIndex);
+      return target.chapters.map((chapter) => chapter.chapterId);
+    });
+
+    this.logger.log(
+      `초안 챕터 순서 이동 완료 - 챕터: ${chapterId}, 섹션: ${sectionId} → ${targetSectionId}, 위치: ${chapterIds.indexOf(chapterId)}`
+    );
+
+    return {
+      message: '챕터 순서 변경 성공',
+      data: { sectionId: targetSectionId, chapterIds },
+      draft: true,
+    };
+  }
+
+  /**
+   * 🔍 초안에 포함된 섹션 확인
+   */
+  private findDraftSection(content: CourseSnapshot, sectionId: string): CourseSnapshotSection {
+    const section = content.sections.find((section) => section.sectionId === sectionId);
+
+    if (!section) {
+      throw new NotFoundException('섹션을 찾을 수 없습니다');
+    }
+
+    return section;
+  }
+
+  /**
+   * 🔍 초안 섹션에 포함된 챕터 확인
+   */
+  private findDraftChapter(
+    content: CourseSnapshot,
+    sectionId: string,
+    chapterId: string
+  ): CourseSnapshotChapter {
+    const chapter = this.findDraftSection(content, sectionId).chapters.find(
+      (chapter) => chapter.chapterId === chapterId
+    );
+
+    if (!chapter) {
+      throw new NotFoundException('챕터를 찾을 수 없습니다');
+    }
+
+    return chapter;
+  }
+
+  /**
+   * 🔒 강의 편집 권한 확인 (강의 소유자 또는 관리자)
+   */
+  private async assertCanEditCourse(courseId: string, user: User): Promise<void> {
+    const course = await this.prismaService.course.findUnique({
+      where: { courseId },
+      select: { teacherId: true },
+    });
+
+    if (!course) {
+      throw new NotFoundException('강의를 찾을 수 없습니다');
+    }
+
+    if (course.teacherId !== user.id && !RoleUtils.isAdmin(user.role)) {
+      this.logger.warn(`강의 구성 수정 권한 없음 - 강의: ${courseId}, 사용자: ${user.id}`);
+      throw new ForbiddenException('이 강의의 구성을 수정할 권한이 없습니다');
+    }
+  }
+
+  /**
+   * 🔐 강의 행 잠금 - 같은 강의의 섹션/챕터 구조 변경을 트랜잭션 단위로 직렬화
+   */
+  private async lockCourse(tx: Prisma.TransactionClient, courseId: string): Promise<void> {
+    await tx.$queryRaw(
+      Prisma.sql`SELECT "courseId" FROM courses WHERE "courseId" = ${courseId} FOR UPDATE`
+    );
+  }
+
+  /**
+   * 🔍 강의에 속한 섹션 확인
+   */
+  private async findSection(
+    client: Prisma.TransactionClient,
+    courseId: string,
+    sectionId: string
+  ): Promise<void> {
+    const section = await client.section.findFirst({
+      where: { sectionId, courseId },
+      select: { sectionId: true },
+    });
+
+    if (!section) {
+      throw new NotFoundException('섹션을 찾을 수 없습니다');
+    }
+  }
+
+  /**
+   * 🔍 섹션에 속한 챕터 확인
+   */
+  private async findChapter(
+    client: Prisma.TransactionClient,
+    courseId: string,
+    sectionId: string,
+    chapterId: string
+  ): Promise<void> {
+    const chapter = await client.chapter.findFirst({
+      where: { chapterId, sectionId, section: { courseId } },
+      select: { chapterId: true },
+    });
+
+    if (!chapter) {
+      throw new NotFoundException('챕터를 찾을 수 없습니다');
+    }
+  }
+
+  /**
+   * 📋 강의의 현재 섹션 순서
+   */
+  private async getSectionOrder(
+    tx: Prisma.TransactionClient,
+    courseId: string
+  ): Promise<OrderedItem[]> {
+    const sections = await tx.section.findMany({
+      where: { courseId },
+      select: { sectionId: true, orderIndex: true },
+      orderBy: SECTION_ORDER_BY,
+    });
+
+    return sections.map((section) => ({ id: section.sectionId, orderIndex: section.orderIndex }));
+  }
+
+  /**
+   * 📋 섹션의 현재 챕터 순서
+   */
+  private async getChapterOrder(
+    tx: Prisma.TransactionClient,
+    sectionId: string
+  ): Promise<OrderedItem[]> {
+    const chapters = await tx.chapter.findMany({
+      where: { sectionId },
+      select: { chapterId: true, orderIndex: true },
+      orderBy: CHAPTER_ORDER_BY,
+    });
+
+    return chapters.map((chapter) => ({ id: chapter.chapterId, orderIndex: chapter.orderIndex }));
+  }
+
+  /**
+   * 💾 섹션 순서 저장 (목록 순서대로 0부터, 바뀐 항목만 갱신)
+   */
+  private async writeSectionOrder(
+    tx: Prisma.TransactionClient,
+    sections: OrderedItem[]
+  ): Promise<void> {
+    for (const [orderIndex, section] of sections.entries()) {
+      if (section.orderIndex !== orderIndex) {
+        await tx.section.update({ where: { sectionId: section.id }, data: { orderIndex } });
+      }
+    }
+  }
+
+  /**
+   * 💾 챕터 순서 저장 (목록 순서대로 0부터, 바뀐 항목만 갱신)
+   */
+  private async writeChapterOrder(
+    tx: Prisma.TransactionClient,
+    chapters: OrderedItem[]
+  ): Promise<void> {
+    for (const [orderIndex, chapter] of chapters.entries()) {
+      if (chapter.orderIndex !== orderIndex) {
+        await tx.chapter.update({ where: { chapterId: chapter.id }, data: { orderIndex } });
+      }
+    }
+  }
+
+  /**
+   * ⚠️ 처리된 예외는 그대로 전달
+   */
+  private rethrowKnownError(error: unknown): void {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ForbiddenException ||
+      error instanceof BadRequestException
+    ) {
+      throw error;
+    }
+  }
+}
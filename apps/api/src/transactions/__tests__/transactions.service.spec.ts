@@ -0,0 +1,216 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from '@packages/database';
+import type { User } from '@packages/common';
+import { PaymentStatus } from '@packages/schemas';
+import { TransactionsService } from '../transactions.service';
+
+describe('TransactionsService', () => {
+  let transactionsService: TransactionsService;
+
+  const student: User = { id: 'student-id-123', email: 'student@example.com', username: 'student', role: 'user' };
+  const course = {
+    courseId: 'course-id-123',
+    title: '테스트 강의',
+    teacherName: '강사',
+    category: 'programming',
+    price: 30000,
+    sections: [
+      {
+        sectionId: 'section-id-123',
+        sectionTitle: '섹션 1',
+        chapters: [{ chapterId: 'chapter-id-123', title: '챕터 1' }],
+      },
+    ],
+  };
+
+  const stripe = {
+    paymentIntents: { create: jest.fn(), retrieve: jest.fn() },
+    refunds: { create: jest.fn() },
+  };
+
+  // $transaction 콜백에도 같은 모킹 객체를 트랜잭션 클라이언트로 전달
+  const prismaService = {
+    $transaction: jest.fn(),
+    course: { findUnique: jest.fn(), findUniqueOrThrow: jest.fn() },
+    coursePrerequisite: { findMany: jest.fn() },
+    chapterProgress: { groupBy: jest.fn() },
+    transaction: { create: jest.fn(), findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    enrollment: { upsert: jest.fn(), findUnique: jest.fn() },
+    userCourseProgress: { findUnique: jest.fn(), create: jest.fn() },
+  };
+
+  const succeededPaymentIntent = (overrides: { amount?: number; currency?: string } = {}) => ({
+    id: 'pi_123',
+    status: 'succeeded',
+    amount: course.price,
+    currency: 'krw',
+    metadata: { userId: student.id, courseId: course.courseId, originalAmount: String(course.price) },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    process.env.STRIPE_SECRET_KEY = 'sk_test_dummy';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [TransactionsService, { provide: PrismaService, useValue: prismaService }],
+    }).compile();
+
+    transactionsService = module.get<TransactionsService>(TransactionsService);
+    (transactionsService as unknown as { stripe: typeof stripe }).stripe = stripe;
+
+    prismaService.$transaction.mockImplementation((callback) => callback(prismaService));
+    prismaService.coursePrerequisite.findMany.mockResolvedValue([]);
+    prismaService.course.findUniqueOrThrow.mockResolvedValue(course);
+    prismaService.transaction.findUnique.mockResolvedValue({
+      transactionId: 'transaction-id-123',
+      status: PaymentStatus.PENDING,
+      amount: course.price,
+      currency: 'krw',
+    });
+    prismaService.transaction.update.mockImplementation(({ data }) =>
+      Promise.resolve({ transactionId: 'transaction-id-123', ...data })
+    );
+    prismaService.enrollment.findUnique.mockResolvedValue(null);
+    prismaService.enrollment.upsert.mockResolvedValue({ userId: student.id, courseId: course.courseId });
+    prismaService.userCourseProgress.findUnique.mockResolvedValue(null);
+    prismaService.userCourseProgress.create.mockResolvedValue({ userId: student.id, courseId: course.courseId });
+    stripe.refunds.create.mockResolvedValue({ id: 're_123' });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createStripePaymentIntent', () => {
+    it('클라이언트가 보낸 금액 대신 서버의 강의 가격으로 청구해야 함', async () => {
+      // Arrange
+      prismaService.course.findUnique.mockResolvedValue({ courseId: course.courseId, price: course.price });
+      stripe.paymentIntents.create.mockResolvedValue({ id: 'pi_123', client_secret: 'secret', metadata: {} });
+
+      // Act
+      const result = await transactionsService.createStripePaymentIntent(
+        { courseId: course.courseId, amount: 100 },
+        student.id
+      );
+
+      // Assert
+      expect(stripe.paymentIntents.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: course.price, currency: 'krw' })
+      );
+      expect(prismaService.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: course.price, status: PaymentStatus.PENDING }),
+      });
+      expect(result.data.amount).toBe(course.price);
+    });
+
+    it('무료 강의는 결제 의도를 만들지 않아야 함', async () => {
+      // Arrange
+      prismaService.course.findUnique.mockResolvedValue({ courseId: course.courseId, price: 0 });
+
+      // Act & Assert
+      await expect(
+        transactionsService.createStripePaymentIntent({ courseId: course.courseId }, student.id)
+      ).rejects.toThrow(BadRequestException);
+      expect(stripe.paymentIntents.create).not.toHaveBeenCalled();
+    });
+
+    it('이미 수강 중인 강의는 결제 의도를 만들지 않아야 함', async () => {
+      // Arrange
+      prismaService.course.findUnique.mockResolvedValue({ courseId: course.courseId, price: course.price });
+      prismaService.enrollment.findUnique.mockResolvedValue({ userId: student.id });
+
+      // Act & Assert
+      await expect(
+        transactionsService.createStripePaymentIntent({ courseId: course.courseId }, student.id)
+      ).rejects.toThrow(ConflictException);
+      expect(stripe.paymentIntents.create).not.toHaveBeenCalled();
+      expect(prismaService.transaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createTransaction', () => {
+    it('결제 금액이 강의 가격과 같으면 수강 등록해야 함', async () => {
+      // Arrange
+      stripe.paymentIntents.retrieve.mockResolvedValue(succeededPaymentIntent());
+
+      // Act
+      const result = await transactionsService.createTransaction(
+        { paymentIntentId: 'pi_123', courseId: course.courseId },
+        student
+      );
+
+      // Assert
+      expect(result.data.alreadyFulfilled).toBe(false);
+      expect(result.data.transaction.status).toBe(PaymentStatus.COMPLETED);
+      expect(prismaService.enrollment.upsert).toHaveBeenCalled();
+    });
+
+    it('결제 의도 생성 후 강의 가격이 바뀌어도 청구한 금액으로 검증해 등록해야 함', async () => {
+      // Arrange
+      prismaService.course.findUniqueOrThrow.mockResolvedValue({ ...course, price: 50000 });
+      stripe.paymentIntents.retrieve.mockResolvedValue(succeededPaymentIntent());
+
+      // Act
+      const result = await transactionsService.createTransaction(
+        { paymentIntentId: 'pi_123', courseId: course.courseId },
+        student
+      );
+
+      // Assert
+      expect(result.data.transaction.status).toBe(PaymentStatus.COMPLETED);
+      expect(result.data.transaction.amount).toBe(course.price);
+      expect(prismaService.enrollment.upsert).toHaveBeenCalled();
+      expect(stripe.refunds.create).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['금액', { amount: 100 }],
+      ['통화', { currency: 'usd' }],
+    ])('결제 %s 불일치 시 등록하지 않고 청구된 결제를 환불해야 함', async (_label, overrides) => {
+      // Arrange
+      stripe.paymentIntents.retrieve.mockResolvedValue(succeededPaymentIntent(overrides));
+
+      // Act
+      const error = await transactionsService
+        .createTransaction({ paymentIntentId: 'pi_123', courseId: course.courseId }, student)
+        .catch((e: unknown) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toEqual(
+        expect.objectContaining({ code: 'PAYMENT_AMOUNT_MISMATCH' })
+      );
+      expect(prismaService.enrollment.upsert).not.toHaveBeenCalled();
+      expect(prismaService.transaction.update).not.toHaveBeenCalled();
+      expect(stripe.refunds.create).toHaveBeenCalledWith(
+        expect.objectContaining({ payment_intent: 'pi_123' }),
+        { idempotencyKey: 'mismatch_refund_pi_123' }
+      );
+      expect(prismaService.transaction.updateMany).toHaveBeenCalledWith({
+        where: {
+          paymentIntentId: 'pi_123',
+          status: { in: [PaymentStatus.PENDING, PaymentStatus.FAILED] },
+        },
+        data: expect.objectContaining({ status: PaymentStatus.REFUNDED }),
+      });
+    });
+
+    it('금액 불일치 결제의 환불 발행에 실패하면 환불 필요로 기록해야 함', async () => {
+      // Arrange
+      stripe.paymentIntents.retrieve.mockResolvedValue(succeededPaymentIntent({ amount: 100 }));
+      stripe.refunds.create.mockRejectedValue(new Error('Stripe 장애'));
+
+      // Act & Assert
+      await expect(
+        transactionsService.createTransaction({ paymentIntentId: 'pi_123', courseId: course.courseId }, student)
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.enrollment.upsert).not.toHaveBeenCalled();
+      expect(prismaService.transaction.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: PaymentStatus.FAILED, failureReason: '결제 금액 불일치 - 환불 필요' },
+        })
+      );
+    });
+  });
+});
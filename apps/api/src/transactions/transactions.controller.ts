@@ -2,28 +2,49 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Body,
+  Param,
   Query,
+  Req,
+  Headers,
   UseGuards,
   Logger,
   HttpStatus,
   HttpCode,
   BadRequestException, // 새로 추가
 } from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiExcludeEndpoint,
 } from '@nestjs/swagger';
-import { Throttle } from '@nestjs/throttler';
+import { SkipThrottle, Throttle } from '@nestjs/throttler';
+import type { Request } from 'express';
 
 import { TransactionsService } from './transactions.service';
 import { ZodValidationPipe } from '@packages/common';
+import {
+  refundQuerySchema,
+  refundRequestSchema,
+  reviewRefundSchema,
+  transactionQuerySchema,
+} from '@packages/schemas';
+import type {
+  RefundQueryDto,
+  RefundRequestDto,
+  ReviewRefundDto,
+  TransactionQueryDto,
+} from '@packages/schemas';
 
 // 로컬 가드와 데코레이터 사용
 import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import { RequireVerifiedEmail } from '../auth/decorators/require-verified-email.decorator';
 
 // import type {} from // CreateStripePaymentIntentDto, // 임시로 비활성화
 // CreateTransactionDto, // 임시로 비활성화
@@ -45,6 +66,11 @@ import type { User } from '@packages/common';
  * - GET /transactions - 트랜잭션 목록 조회 (인증 필요)
  * - POST /transactions - 새 트랜잭션 생성 (인증 필요)
  * - POST /transactions/stripe/payment-intent - Stripe 결제 의도 생성 (인증 필요)
+ * - POST /transactions/webhooks/stripe - Stripe 웹훅 수신 (서명 검증)
+ * - POST /transactions/refunds - 환불 요청 (구매자)
+ * - GET /transactions/refunds - 환불 요청 목록 조회 (인증 필요)
+ * - PATCH /transactions/refunds/:refundId/approve - 환불 승인 (강사/관리자)
+ * - PATCH /transactions/refunds/:refundId/reject - 환불 거절 (강사/관리자)
  */
 @ApiTags('결제 및 트랜잭션')
 @Controller('transactions')
@@ -57,38 +83,27 @@ export class TransactionsController {
 
   /**
    * 📋 트랜잭션 목록 조회 (인증 필요)
-   * 사용자별, 페이지네이션 지원
+   * 상태·금액·기간 필터, 정렬, 페이지네이션 및 통계 지원
    */
   @Get()
   @ApiOperation({
     summary: '트랜잭션 목록 조회',
     description:
-      '사용자의 결제 내역을 조회합니다. 관리자는 모든 트랜잭션을 조회할 수 있습니다.',
+      '사용자의 결제 내역을 상태, 결제 수단, 금액, 기간으로 필터링해 조회하고 통계를 함께 반환합니다. 관리자는 모든 트랜잭션을 조회할 수 있습니다.',
   })
   @ApiResponse({ status: 200, description: '트랜잭션 목록 조회 성공' })
   @ApiResponse({ status: 401, description: '인증 필요' })
   @ApiResponse({ status: 500, description: '서버 오류' })
   @Throttle({ default: { limit: 20, ttl: 60000 } }) // 분당 20회 제한
-  async listTransactions(@Query() query: any, @CurrentUser() user: User) {
-    // 수동으로 쿼리 파라미터 추출 및 검증
-    const queryParams = {
-      userId: query?.userId || undefined,
-      courseId: query?.courseId || undefined,
-      paymentProvider: query?.paymentProvider || undefined,
-      page: query?.page ? parseInt(query.page) : 1,
-      limit: query?.limit ? parseInt(query.limit) : 10,
-      sortBy: query?.sortBy || 'dateTime',
-      sortOrder: query?.sortOrder || 'desc',
-    };
-
+  async listTransactions(
+    @Query(new ZodValidationPipe(transactionQuerySchema)) query: TransactionQueryDto,
+    @CurrentUser() user: User
+  ) {
     this.logger.log(
-      `트랜잭션 목록 조회 요청 - 사용자: ${user.id}, 조회 대상: ${queryParams.userId || '전체'}`
+      `트랜잭션 목록 조회 요청 - 사용자: ${user.id}, 조회 대상: ${query.userId || '전체'}`
     );
 
-    const result = await this.transactionsService.findAllTransactions(
-      queryParams,
-      user
-    );
+    const result = await this.transactionsService.findAllTransactions(query, user);
 
     this.logger.log(
       `트랜잭션 목록 조회 완료 - ${result.data.length}개 트랜잭션 반환`
@@ -101,40 +116,37 @@ export class TransactionsController {
    * 클라이언트에서 결제를 진행하기 위한 client_secret 반환
    */
   @Post('stripe/payment-intent')
+  @RequireVerifiedEmail('checkout')
   @ApiOperation({
     summary: 'Stripe 결제 의도 생성',
     description:
-      '결제를 위한 Stripe Payment Intent를 생성하고 client_secret을 반환합니다.',
+      '강의 가격으로 Stripe Payment Intent를 생성하고 client_secret을 반환합니다. 요청의 금액은 사용하지 않습니다.',
   })
   @ApiResponse({ status: 201, description: '결제 의도 생성 성공' })
   @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
   @ApiResponse({ status: 401, description: '인증 필요' })
+  @ApiResponse({ status: 403, description: '이메일 미인증' })
   @HttpCode(HttpStatus.CREATED)
   @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한
   async createStripePaymentIntent(
     @Body() createPaymentIntentDto: any, // 임시로 직접 처리
     @CurrentUser() user: User
   ) {
-    // 수동으로 데이터 검증
+    // 수동으로 데이터 검증 (결제 금액은 서버에서 강의 가격으로 결정하므로 받지 않음)
     const processedData = {
-      amount: createPaymentIntentDto?.amount
-        ? Number(createPaymentIntentDto.amount)
-        : 0,
       courseId: createPaymentIntentDto?.courseId || '',
-      currency: createPaymentIntentDto?.currency || 'krw',
-      metadata: createPaymentIntentDto?.metadata || {},
     };
 
-    if (!processedData.amount || processedData.amount <= 0) {
-      throw new BadRequestException('결제 금액이 유효하지 않습니다');
+    if (!processedData.courseId) {
+      throw new BadRequestException('강의 ID가 필요합니다');
     }
 
     this.logger.log(
-      `Stripe 결제 의도 생성 요청 - 사용자: ${user.id}, 금액: ${processedData.amount}`
+      `Stripe 결제 의도 생성 요청 - 사용자: ${user.id}, 강의: ${processedData.courseId}`
     );
 
     const result =
-      await this.transactionsService.createStripePaymentIntent(processedData);
+      await this.transactionsService.createStripePaymentIntent(processedData, user.id);
 
     this.logger.log(`Stripe 결제 의도 생성 완료 - 사용자: ${user.id}`);
     return result;
@@ -143,8 +155,10 @@ export class TransactionsController {
   /**
    * 📝 새 트랜잭션 생성 (인증 필요)
    * 결제 성공 후 트랜잭션 기록, 강의 등록, 학습 진도 초기화
+   * 웹훅이 먼저 처리한 결제라면 기존 결과를 그대로 반환합니다.
    */
   @Post()
+  @RequireVerifiedEmail('checkout')
   @ApiOperation({
     summary: '트랜잭션 생성',
     description: '결제 완료 후 트랜잭션을 기록하고 강의에 등록합니다.',
@@ -152,6 +166,7 @@ export class TransactionsController {
   @ApiResponse({ status: 201, description: '트랜잭션 생성 성공' })
   @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
   @ApiResponse({ status: 401, description: '인증 필요' })
+  @ApiResponse({ status: 403, description: '이메일 미인증' })
   @ApiResponse({ status: 404, description: '강의를 찾을 수 없음' })
   @HttpCode(HttpStatus.CREATED)
   @Throttle({ default: { limit: 5, ttl: 60000 } }) // 분당 5회 제한 (결제는 제한적)
@@ -185,9 +200,117 @@ export class TransactionsController {
     );
 
     const result =
-      await this.transactionsService.createTransaction(processedData);
+      await this.transactionsService.createTransaction(processedData, user);
 
     this.logger.log(`트랜잭션 생성 완료 - ID: ${processedData.transactionId}`);
     return result;
   }
+
+  /**
+   * 🔔 Stripe 웹훅 수신 (공개, 서명 검증)
+   * 결제 성공/실패/환불 이벤트를 받아 결제 의도 ID 기준으로 멱등 처리
+   */
+  @Post('webhooks/stripe')
+  @Public()
+  @SkipThrottle() // Stripe 재전송은 속도 제한 대상에서 제외
+  @ApiExcludeEndpoint()
+  @HttpCode(HttpStatus.OK)
+  async handleStripeWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('stripe-signature') signature: string | undefined
+  ) {
+    return this.transactionsService.handleStripeWebhook(req.rawBody, signature);
+  }
+
+  /**
+   * 💸 환불 요청 (구매자 본인)
+   */
+  @Post('refunds')
+  @ApiOperation({
+    summary: '환불 요청',
+    description:
+      '환불 정책 기간 이내의 결제에 대해 전액 또는 부분 환불을 요청합니다. 금액을 생략하면 남은 금액 전액을 요청합니다.',
+  })
+  @ApiResponse({ status: 201, description: '환불 요청 성공' })
+  @ApiResponse({ status: 400, description: '환불 불가 (기간 경과, 금액 초과 등)' })
+  @ApiResponse({ status: 401, description: '인증 필요' })
+  @ApiResponse({ status: 403, description: '본인 거래가 아님' })
+  @HttpCode(HttpStatus.CREATED)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 분당 5회 제한
+  async requestRefund(
+    @Body(new ZodValidationPipe(refundRequestSchema)) refundRequestDto: RefundRequestDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(
+      `환불 요청 - 거래: ${refundRequestDto.transactionId}, 요청자: ${user.id}`
+    );
+
+    return this.transactionsService.requestRefund(refundRequestDto, user);
+  }
+
+  /**
+   * 📋 환불 요청 목록 조회 (인증 필요)
+   */
+  @Get('refunds')
+  @ApiOperation({
+    summary: '환불 요청 목록 조회',
+    description:
+      '본인 환불 요청과 본인 강의에 대한 환불 요청을 조회합니다. 관리자는 전체를 조회합니다.',
+  })
+  @ApiResponse({ status: 200, description: '환불 요청 목록 조회 성공' })
+  @ApiResponse({ status: 401, description: '인증 필요' })
+  @Throttle({ default: { limit: 20, ttl: 60000 } }) // 분당 20회 제한
+  async listRefunds(
+    @Query(new ZodValidationPipe(refundQuerySchema)) query: RefundQueryDto,
+    @CurrentUser() user: User
+  ) {
+    return this.transactionsService.findRefunds(query, user);
+  }
+
+  /**
+   * ✅ 환불 승인 (강의 강사/관리자)
+   */
+  @Patch('refunds/:refundId/approve')
+  @ApiOperation({
+    summary: '환불 승인',
+    description:
+      'Stripe 환불을 발행합니다. 전액 환불이 되면 수강 등록과 학습 진도가 회수됩니다.',
+  })
+  @ApiResponse({ status: 200, description: '환불 승인 성공' })
+  @ApiResponse({ status: 400, description: '이미 처리된 요청 또는 Stripe 오류' })
+  @ApiResponse({ status: 403, description: '권한 없음' })
+  @ApiResponse({ status: 404, description: '환불 요청을 찾을 수 없음' })
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한
+  async approveRefund(
+    @Param('refundId') refundId: string,
+    @Body(new ZodValidationPipe(reviewRefundSchema)) reviewRefundDto: ReviewRefundDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`환불 승인 요청 - 환불: ${refundId}, 검토자: ${user.id}`);
+
+    return this.transactionsService.approveRefund(refundId, reviewRefundDto, user);
+  }
+
+  /**
+   * ❌ 환불 거절 (강의 강사/관리자)
+   */
+  @Patch('refunds/:refundId/reject')
+  @ApiOperation({
+    summary: '환불 거절',
+    description: '대기 중인 환불 요청을 거절합니다.',
+  })
+  @ApiResponse({ status: 200, description: '환불 거절 성공' })
+  @ApiResponse({ status: 400, description: '이미 처리된 요청' })
+  @ApiResponse({ status: 403, description: '권한 없음' })
+  @ApiResponse({ status: 404, description: '환불 요청을 찾을 수 없음' })
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한
+  async rejectRefund(
+    @Param('refundId') refundId: string,
+    @Body(new ZodValidationPipe(reviewRefundSchema)) reviewRefundDto: ReviewRefundDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`환불 거절 요청 - 환불: ${refundId}, 검토자: ${user.id}`);
+
+    return this.transactionsService.rejectRefund(refundId, reviewRefundDto, user);
+  }
 }
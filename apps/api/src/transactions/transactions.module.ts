@@ -11,6 +11,7 @@ import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
  * - Stripe 결제 처리
  * - 트랜잭션 생성 및 조회
  * - 강의 등록 및 학습 진도 초기화
+ * - Stripe 웹훅 및 환불 승인 워크플로우
  * - Zod 기반 데이터 검증
  * - JWT 인증 보호
  */
@@ -4,14 +4,48 @@ import {
   NotFoundException,
   BadRequestException,
   ForbiddenException,
+  ConflictException,
 } from '@nestjs/common';
 import Stripe from 'stripe';
+import { Prisma } from '@prisma/client';
 
 import { PrismaService } from '@packages/database';
 // import { CreateStripePaymentIntentDto, CreateTransactionDto } from './dto/transaction.dto';
 // 임시로 비활성화: 모든 DTO 타입
 
+import { generateId, RoleUtils } from '@packages/common';
 import type { User } from '@packages/common';
+import {
+  PaymentProvider,
+  PaymentStatus,
+  canRefundTransaction,
+  createTransactionFilter,
+  createTransactionOrderBy,
+  getRefundableAmount,
+  webhookEventSchema,
+} from '@packages/schemas';
+import type {
+  RefundQueryDto,
+  RefundRequestDto,
+  RefundStatus,
+  ReviewRefundDto,
+  TransactionQueryDto,
+  TransactionStats,
+} from '@packages/schemas';
+
+// 💱 결제 통화 (KRW는 센트 단위가 없으므로 원 단위 그대로 사용)
+const PAYMENT_CURRENCY = 'krw';
+
+// 🏗️ 타입 정의 - 결제 완료 처리 입력
+interface FulfillPaymentInput {
+  paymentIntentId: string;
+  userId: string;
+  courseId: string;
+  amount: number;
+  currency: string;
+  paymentProvider: string;
+  expectedAmount?: number; // 결제 의도 생성 시 청구한 금액 (메타데이터 originalAmount)
+}
 
 /**
  * 💳 결제 및 트랜잭션 관리 서비스
@@ -21,11 +55,14 @@ import type { User } from '@packages/common';
  * - 트랜잭션 생성 및 조회
  * - 강의 등록 및 학습 진도 초기화
  * - 결제 후 데이터 일관성 보장 (트랜잭션)
+ * - Stripe 웹훅 서명 검증 및 결제 의도 ID 기반 멱등 처리
+ * - 환불 요청, 강사/관리자 검토, Stripe 환불 및 수강 회수
  */
 @Injectable()
 export class TransactionsService {
   private readonly logger = new Logger(TransactionsService.name);
   private readonly stripe: Stripe;
+  private readonly stripeWebhookSecret?: string;
 
   constructor(private readonly prismaService: PrismaService) {
     // Stripe 초기화
@@ -40,19 +77,26 @@ export class TransactionsService {
     this.stripe = new Stripe(stripeSecretKey, {
       apiVersion: '2025-05-28.basil',
     });
+
+    // 웹훅 시크릿은 웹훅 수신 시점에 검증 (없으면 웹훅만 비활성화)
+    this.stripeWebhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!this.stripeWebhookSecret) {
+      this.logger.warn('STRIPE_WEBHOOK_SECRET 환경변수가 설정되지 않음 - Stripe 웹훅 비활성화');
+    }
   }
 
   /**
-   * 📋 트랜잭션 목록 조회 (사용자별, 페이지네이션)
+   * 📋 트랜잭션 목록 조회 (필터, 정렬, 페이지네이션, 통계)
+   * 통계는 페이지와 무관하게 필터 조건에 맞는 전체 거래를 기준으로 계산합니다.
    */
-  async findAllTransactions(query: any, user: User) {
+  async findAllTransactions(query: TransactionQueryDto, user: User) {
     try {
       this.logger.log(
         `트랜잭션 목록 조회 시작 - 요청자: ${user.id}, 대상: ${query.userId || '전체'}`
       );
 
-      // 권한 검증: 일반 사용자는 자신의 트랜잭션만 조회 가능
-      const isAdmin = user.role === 'admin' || user.role === 'teacher';
+      // 권한 검증: 관리자가 아니면 자신의 트랜잭션만 조회 가능
+      const isAdmin = RoleUtils.isAdmin(user.role);
 
       // 일반 사용자가 다른 사용자의 트랜잭션을 조회하려 하는 경우
       if (!isAdmin && query.userId && query.userId !== user.id) {
@@ -62,15 +106,16 @@ export class TransactionsService {
         throw new ForbiddenException('본인의 트랜잭션만 조회할 수 있습니다');
       }
 
-      const targetUserId = isAdmin ? query.userId : user.id;
-      const whereClause = targetUserId ? { userId: targetUserId } : {};
+      const whereClause: Prisma.TransactionWhereInput = createTransactionFilter({
+        ...query,
+        userId: isAdmin ? query.userId : user.id,
+      });
 
       // 페이지네이션 계산
-      const page = query.page || 1;
-      const limit = query.limit || 10;
+      const { page, limit } = query;
       const offset = (page - 1) * limit;
 
-      const [transactions, totalCount] = await Promise.all([
+      const [transactions, totalCount, stats] = await Promise.all([
         this.prismaService.transaction.findMany({
           where: whereClause,
           include: {
@@ -83,16 +128,18 @@ export class TransactionsService {
                 price: true,
               },
             },
+            refunds: {
+              orderBy: { createdAt: 'desc' },
+            },
           },
-          orderBy: {
-            dateTime: query.sortOrder === 'asc' ? 'asc' : 'desc',
-          },
+          orderBy: createTransactionOrderBy(query),
           take: limit,
           skip: offset,
         }),
         this.prismaService.transaction.count({
           where: whereClause,
         }),
+        this.getTransactionStats(whereClause),
       ]);
 
       this.logger.log(
@@ -110,8 +157,13 @@ export class TransactionsService {
           hasNext: offset + limit < totalCount,
           totalPages: Math.ceil(totalCount / limit),
         },
+        stats,
       };
     } catch (error) {
+      if (error instanceof ForbiddenException) {
+        throw error;
+      }
+
       this.logger.error('트랜잭션 목록 조회 중 오류 발생', error);
       throw new BadRequestException(
         '트랜잭션 목록을 조회하는 중 오류가 발생했습니다'
@@ -119,33 +171,141 @@ export class TransactionsService {
     }
   }
 
+  /**
+   * 📊 필터 조건에 맞는 거래 통계 (DB 집계로 계산)
+   * 상태/결제 수단별 groupBy와 최근 12개월 월별 aggregate만 조회하므로 거래 수와 무관하게 일정한 비용입니다.
+   */
+  private async getTransactionStats(where: Prisma.TransactionWhereInput): Promise<TransactionStats> {
+    const now = new Date();
+    const months = Array.from({ length: 12 }, (_, index) => {
+      const start = new Date(now.getFullYear(), now.getMonth() - 11 + index, 1);
+      const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+      return {
+        month: `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}`,
+        start,
+        end,
+      };
+    });
+
+    const [groups, monthlyAggregates] = await Promise.all([
+      this.prismaService.transaction.groupBy({
+        by: ['status', 'paymentProvider'],
+        where,
+        _count: { _all: true },
+        _sum: { amount: true },
+      }),
+      Promise.all(
+        months.map(({ start, end }) =>
+          this.prismaService.transaction.aggregate({
+            where: {
+              AND: [
+                where,
+                { status: PaymentStatus.COMPLETED, createdAt: { gte: start, lt: end } },
+              ],
+            },
+            _count: { _all: true },
+            _sum: { amount: true },
+          })
+        )
+      ),
+    ]);
+
+    let total = 0;
+    let completedCount = 0;
+    let refundedCount = 0;
+    let totalRevenue = 0;
+    const providerCount: Record<PaymentProvider, number> = {
+      [PaymentProvider.STRIPE]: 0,
+      [PaymentProvider.PAYPAL]: 0,
+      [PaymentProvider.KAKAO_PAY]: 0,
+    };
+
+    groups.forEach((group) => {
+      const count = group._count._all;
+      total += count;
+      providerCount[group.paymentProvider as PaymentProvider] =
+        (providerCount[group.paymentProvider as PaymentProvider] ?? 0) + count;
+
+      if (group.status === PaymentStatus.COMPLETED) {
+        completedCount += count;
+        totalRevenue += group._sum.amount ?? 0;
+      } else if (group.status === PaymentStatus.REFUNDED) {
+        refundedCount += count;
+      }
+    });
+
+    return {
+      totalTransactions: total,
+      completedTransactions: completedCount,
+      totalRevenue,
+      averageTransactionAmount: completedCount > 0 ? Math.round(totalRevenue / completedCount) : 0,
+      refundRate: total > 0 ? Math.round((refundedCount / total) * 100) : 0,
+      popularPaymentMethods: Object.entries(providerCount)
+        .map(([method, count]) => ({
+          method: method as PaymentProvider,
+          count,
+          percentage: total > 0 ? Math.round((count / total) * 100) : 0,
+        }))
+        .sort((a, b) => b.count - a.count),
+      monthlyRevenue: months.map(({ month }, index) => ({
+        month,
+        revenue: monthlyAggregates[index]._sum.amount ?? 0,
+        transactionCount: monthlyAggregates[index]._count._all,
+      })),
+    };
+  }
+
   /**
    * 💳 Stripe 결제 의도 생성
    *
+   * 결제 금액은 클라이언트가 보낸 값이 아닌 서버의 강의 가격으로 결정합니다.
    * 주의: KRW(한국 원화)는 센트 단위가 없으므로 원 단위 그대로 전달
    * USD, EUR 등의 통화는 센트 단위로 변환 필요
    */
-  async createStripePaymentIntent(createPaymentIntentDto: any) {
+  async createStripePaymentIntent(createPaymentIntentDto: any, userId: string) {
+    const { courseId } = createPaymentIntentDto;
+
     try {
-      this.logger.log(
-        `Stripe 결제 의도 생성 시작 - 금액: ${createPaymentIntentDto.amount}`
-      );
+      this.logger.log(`Stripe 결제 의도 생성 시작 - 강의: ${courseId}, 사용자: ${userId}`);
+
+      const course = await this.prismaService.course.findUnique({
+        where: { courseId },
+        select: { courseId: true, price: true },
+      });
+
+      if (!course) {
+        this.logger.warn(`결제 대상 강의를 찾을 수 없음 - ID: ${courseId}`);
+        throw new NotFoundException('강의를 찾을 수 없습니다');
+      }
+
+      if (!course.price || course.price <= 0) {
+        this.logger.warn(`결제 금액이 없는 강의 - ID: ${courseId}, 가격: ${course.price}`);
+        throw new BadRequestException('결제가 필요하지 않은 강의입니다');
+      }
 
-      let { amount } = createPaymentIntentDto;
+      // 🚫 이미 수강 중인 강의는 중복 결제 차단
+      const enrollment = await this.prismaService.enrollment.findUnique({
+        where: { userId_courseId: { userId, courseId } },
+        select: { userId: true },
+      });
 
-      // 최소 금액 검증
-      if (!amount || amount <= 0) {
-        this.logger.warn('잘못된 결제 금액, 기본값으로 설정');
-        amount = 50; // 기본 50원
+      if (enrollment) {
+        this.logger.warn(`이미 수강 중인 강의 결제 시도 - 강의: ${courseId}, 사용자: ${userId}`);
+        throw new ConflictException({
+          code: 'ALREADY_ENROLLED',
+          message: '이미 수강 중인 강의입니다',
+        });
       }
 
-      // 한국 원화(KRW)는 센트 단위가 없으므로 그대로 사용
-      // 다른 통화(USD, EUR 등)의 경우에만 센트 변환 필요
-      const amountForStripe = amount; // KRW는 원 단위 그대로 전달
+      // 🔒 선수 과목 미완료 시 결제 전에 차단
+      await this.validatePrerequisites(userId, courseId);
+
+      // 💰 서버의 강의 가격으로 청구 (KRW는 원 단위 그대로 전달)
+      const amount = course.price;
 
       const paymentIntent = await this.stripe.paymentIntents.create({
-        amount: amountForStripe, // KRW는 원 단위 그대로 사용
-        currency: 'krw', // 한국 원화
+        amount, // KRW는 원 단위 그대로 사용
+        currency: PAYMENT_CURRENCY, // 한국 원화
         automatic_payment_methods: {
           enabled: true,
           allow_redirects: 'never',
@@ -153,6 +313,24 @@ export class TransactionsService {
         metadata: {
           originalAmount: amount.toString(),
           currency: 'KRW',
+          // 웹훅에서 등록 대상을 식별하기 위한 정보
+          userId,
+          courseId,
+        },
+      });
+
+      // ⏳ 결제 대기 상태 기록 (웹훅/클라이언트 확인 시 완료 또는 실패로 전환)
+      await this.prismaService.transaction.create({
+        data: {
+          transactionId: generateId(),
+          userId,
+          courseId,
+          amount,
+          currency: PAYMENT_CURRENCY,
+          paymentProvider: PaymentProvider.STRIPE,
+          paymentIntentId: paymentIntent.id,
+          status: PaymentStatus.PENDING,
+          metadata: paymentIntent.metadata,
         },
       });
 
@@ -170,6 +348,15 @@ export class TransactionsService {
         },
       };
     } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException ||
+        error instanceof ForbiddenException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+
       this.logger.error('Stripe 결제 의도 생성 중 오류 발생', error);
 
       if (error instanceof Stripe.errors.StripeError) {
@@ -183,186 +370,956 @@ export class TransactionsService {
   }
 
   /**
-   * 📝 새 트랜잭션 생성 (결제 완료 후, N+1 최적화 적용)
-   * 원자적 처리로 트랜잭션, 등록, 학습 진도 초기화를 모두 처리
+   * 🔒 선수 과목 완료 여부 검증
+   * 선수 과목으로 지정된 강의의 모든 챕터를 완료해야 수강 신청할 수 있습니다.
+   * 저장된 진도율 대신 챕터 진도 레코드로 판단합니다.
+   */
+  private async validatePrerequisites(userId: string, courseId: string): Promise<void> {
+    const prerequisites = await this.prismaService.coursePrerequisite.findMany({
+      where: { courseId },
+      select: {
+        prerequisiteCourse: {
+          select: {
+            courseId: true,
+            title: true,
+            sections: { select: { _count: { select: { chapters: true } } } },
+          },
+        },
+      },
+    });
+
+    if (prerequisites.length === 0) {
+      return;
+    }
+
+    const completedCounts = await this.prismaService.chapterProgress.groupBy({
+      by: ['courseId'],
+      where: {
+        userId,
+        courseId: { in: prerequisites.map((item) => item.prerequisiteCourse.courseId) },
+        completed: true,
+      },
+      _count: { chapterId: true },
+    });
+    const completedByCourse = new Map(
+      completedCounts.map((item) => [item.courseId, item._count.chapterId])
+    );
+    const missing = prerequisites
+      .map((item) => item.prerequisiteCourse)
+      .filter((course) => {
+        const totalChapters = course.sections.reduce(
+          (sum, section) => sum + section._count.chapters,
+          0
+        );
+        return totalChapters === 0 || (completedByCourse.get(course.courseId) ?? 0) < totalChapters;
+      });
+
+    if (missing.length > 0) {
+      this.logger.warn(`선수 과목 미완료 - 사용자: ${userId}, 강의: ${courseId}, 미완료: ${missing.length}개`);
+      throw new ForbiddenException({
+        code: 'PREREQUISITES_NOT_MET',
+        message: `선수 과목을 먼저 완료해야 합니다: ${missing.map((course) => course.title).join(', ')}`,
+        missingCourseIds: missing.map((course) => course.courseId),
+      });
+    }
+  }
+
+  /**
+   * 📝 새 트랜잭션 생성 (결제 완료 후 클라이언트 호출)
    *
-   * 🚀 성능 최적화:
-   * - 필요한 데이터만 select로 조회
-   * - findUniqueOrThrow로 에러 처리 간소화
-   * - 트랜잭션 내에서 모든 작업 원자적 수행
+   * 클라이언트가 보낸 값은 신뢰하지 않고 Stripe에서 결제 의도를 직접 조회해 검증합니다.
+   * 웹훅과 같은 결제 완료 처리 로직을 사용하므로 어느 쪽이 먼저 도착해도 한 번만 등록됩니다.
    */
-  async createTransaction(createTransactionDto: any) {
+  async createTransaction(createTransactionDto: any, user: User) {
     try {
+      const paymentIntentId =
+        createTransactionDto.paymentIntentId || createTransactionDto.transactionId;
+
       this.logger.log(
-        `트랜잭션 생성 시작 - 사용자: ${createTransactionDto.userId}, 강의: ${createTransactionDto.courseId}`
+        `트랜잭션 생성 시작 - 사용자: ${user.id}, 강의: ${createTransactionDto.courseId}, 결제 의도: ${paymentIntentId}`
       );
 
-      const { userId, courseId, transactionId, amount, paymentProvider } =
-        createTransactionDto;
+      const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
 
-      // 🚀 N+1 최적화: 트랜잭션으로 원자적 처리
-      const result = await this.prismaService.$transaction(async (tx) => {
-        // 🚀 필요한 데이터만 선택적 조회
-        const course = await tx.course.findUniqueOrThrow({
-          where: { courseId },
-          select: {
-            courseId: true,
-            title: true,
-            teacherName: true,
-            category: true,
-            price: true,
-            sections: {
-              select: {
-                sectionId: true,
-                sectionTitle: true,
-                chapters: {
-                  select: {
-                    chapterId: true,
-                    title: true,
-                  },
-                  orderBy: {
-                    createdAt: 'asc',
-                  },
-                },
-              },
-              orderBy: {
-                createdAt: 'asc',
-              },
-            },
-          },
-        });
+      if (paymentIntent.status !== 'succeeded') {
+        this.logger.warn(
+          `완료되지 않은 결제 의도 - ID: ${paymentIntentId}, 상태: ${paymentIntent.status}`
+        );
+        throw new BadRequestException('결제가 완료되지 않았습니다');
+      }
 
-        // 이미 등록된 사용자인지 확인
-        const existingEnrollment = await tx.enrollment.findUnique({
-          where: {
-            userId_courseId: {
-              userId,
-              courseId,
-            },
-          },
-        });
+      if (
+        paymentIntent.metadata.userId !== user.id ||
+        paymentIntent.metadata.courseId !== createTransactionDto.courseId
+      ) {
+        this.logger.warn(
+          `결제 의도 정보 불일치 - ID: ${paymentIntentId}, 요청자: ${user.id}`
+        );
+        throw new ForbiddenException('본인의 결제 내역만 등록할 수 있습니다');
+      }
 
-        if (existingEnrollment) {
-          this.logger.warn(
-            `이미 등록된 강의 - 사용자: ${userId}, 강의: ${courseId}`
-          );
-          throw new BadRequestException('이미 등록된 강의입니다');
-        }
+      const result = await this.fulfillPaymentIntent({
+        paymentIntentId,
+        userId: user.id,
+        courseId: createTransactionDto.courseId,
+        amount: paymentIntent.amount, // KRW는 원 단위 그대로 사용
+        currency: paymentIntent.currency,
+        paymentProvider: createTransactionDto.paymentProvider || PaymentProvider.STRIPE,
+        expectedAmount: this.getOriginalAmount(paymentIntent),
+      });
+
+      this.logger.log(
+        `트랜잭션 생성 완료 - ID: ${result.transaction.transactionId}, 강의: ${result.courseInfo.title}`
+      );
+
+      return {
+        message: result.alreadyFulfilled
+          ? '이미 처리된 결제입니다'
+          : '강의 구매 및 등록 성공',
+        data: result,
+        optimized: true, // 최적화 적용 표시
+      };
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+
+      if (error instanceof Stripe.errors.StripeError) {
+        this.logger.warn(`Stripe 결제 의도 조회 실패 - ${error.message}`);
+        throw new BadRequestException(`Stripe 오류: ${error.message}`);
+      }
+
+      this.logger.error('트랜잭션 생성 중 오류 발생', error);
+      throw new BadRequestException(
+        '트랜잭션을 생성하는 중 오류가 발생했습니다'
+      );
+    }
+  }
+
+  /**
+   * 🔔 Stripe 웹훅 처리
+   *
+   * 원본 요청 본문으로 서명을 검증한 뒤 이벤트 유형별로 처리합니다.
+   * - payment_intent.succeeded: 트랜잭션 기록, 강의 등록, 학습 진도 초기화
+   * - payment_intent.payment_failed: 대기 거래를 실패로 전환하고 사유 기록
+   * - charge.refunded: 전액 환불 시 수강 등록 및 진도 회수
+   */
+  async handleStripeWebhook(rawBody: Buffer | undefined, signature: string | undefined) {
+    if (!this.stripeWebhookSecret) {
+      throw new BadRequestException('Stripe 웹훅이 설정되지 않았습니다');
+    }
+
+    if (!rawBody || !signature) {
+      throw new BadRequestException('Stripe 서명 또는 요청 본문이 없습니다');
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(rawBody, signature, this.stripeWebhookSecret);
+    } catch (error) {
+      this.logger.warn(`Stripe 웹훅 서명 검증 실패 - ${(error as Error).message}`);
+      throw new BadRequestException('Stripe 웹훅 서명이 유효하지 않습니다');
+    }
+
+    const webhookEvent = webhookEventSchema.parse({
+      id: event.id,
+      type: event.type,
+      provider: PaymentProvider.STRIPE,
+      data: event.data.object,
+      created: event.created,
+    });
+
+    this.logger.log(`Stripe 웹훅 수신 - 이벤트: ${webhookEvent.id}, 유형: ${webhookEvent.type}`);
 
-        // 1️⃣ 트랜잭션 기록 생성
-        const newTransaction = await tx.transaction.create({
+    try {
+      switch (event.type) {
+        case 'payment_intent.succeeded':
+          await this.handlePaymentSucceeded(event.data.object);
+          break;
+        case 'payment_intent.payment_failed':
+          await this.handlePaymentFailed(event.data.object);
+          break;
+        case 'charge.refunded':
+          await this.handleChargeRefunded(event.data.object);
+          break;
+        default:
+          this.logger.debug(`처리하지 않는 Stripe 이벤트 - 유형: ${event.type}`);
+      }
+    } catch (error) {
+      // Stripe가 재시도할 수 있도록 오류를 그대로 전달
+      this.logger.error(`Stripe 웹훅 처리 중 오류 발생 - 이벤트: ${event.id}`, error);
+      throw new BadRequestException('Stripe 웹훅을 처리하는 중 오류가 발생했습니다');
+    }
+
+    return {
+      message: 'Stripe 웹훅 처리 성공',
+      data: { received: true, eventId: webhookEvent.id, type: webhookEvent.type },
+    };
+  }
+
+  /**
+   * ✅ 결제 성공 이벤트 처리
+   */
+  private async handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+    const { userId, courseId } = paymentIntent.metadata;
+
+    if (!userId || !courseId) {
+      this.logger.warn(`결제 의도에 등록 정보가 없음 - ID: ${paymentIntent.id}`);
+      return;
+    }
+
+    let result: Awaited<ReturnType<TransactionsService['fulfillPaymentIntent']>>;
+    try {
+      result = await this.fulfillPaymentIntent({
+        paymentIntentId: paymentIntent.id,
+        userId,
+        courseId,
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
+        paymentProvider: PaymentProvider.STRIPE,
+        expectedAmount: this.getOriginalAmount(paymentIntent),
+      });
+    } catch (error) {
+      // 금액 불일치는 재시도해도 달라지지 않으므로 Stripe 재전송 없이 종료 (자동 환불 또는 환불 필요로 기록됨)
+      if (error instanceof BadRequestException) {
+        this.logger.error(`웹훅 결제 완료 처리 거부 - 결제 의도: ${paymentIntent.id}`);
+        return;
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `웹훅 결제 완료 처리 - 결제 의도: ${paymentIntent.id}, 중복: ${result.alreadyFulfilled}`
+    );
+  }
+
+  /**
+   * ❌ 결제 실패 이벤트 처리
+   * 완료되지 않은 거래만 실패로 전환하므로 늦게 도착한 실패 이벤트가 완료 거래를 덮어쓰지 않습니다.
+   */
+  private async handlePaymentFailed(paymentIntent: Stripe.PaymentIntent) {
+    const failureReason = paymentIntent.last_payment_error?.message ?? '알 수 없음';
+
+    const { count } = await this.prismaService.transaction.updateMany({
+      where: {
+        paymentIntentId: paymentIntent.id,
+        status: { in: [PaymentStatus.PENDING, PaymentStatus.FAILED] },
+      },
+      data: {
+        status: PaymentStatus.FAILED,
+        failureReason,
+      },
+    });
+
+    // 대기 기록이 없는 결제 의도는 실패 기록을 새로 남김
+    const { userId, courseId } = paymentIntent.metadata;
+    if (count === 0 && userId && courseId) {
+      const existing = await this.prismaService.transaction.findUnique({
+        where: { paymentIntentId: paymentIntent.id },
+        select: { transactionId: true },
+      });
+
+      if (!existing) {
+        await this.prismaService.transaction.create({
           data: {
-            transactionId,
+            transactionId: generateId(),
             userId,
             courseId,
-            amount,
-            paymentProvider,
-            dateTime: new Date(),
-          },
-          select: {
-            transactionId: true,
-            userId: true,
-            courseId: true,
-            amount: true,
-            paymentProvider: true,
-            dateTime: true,
+            amount: paymentIntent.amount,
+            currency: paymentIntent.currency,
+            paymentProvider: PaymentProvider.STRIPE,
+            paymentIntentId: paymentIntent.id,
+            status: PaymentStatus.FAILED,
+            failureReason,
+            metadata: paymentIntent.metadata,
           },
         });
+      }
+    }
 
-        // 2️⃣ 강의 등록 생성
-        const newEnrollment = await tx.enrollment.create({
-          data: {
-            userId,
-            courseId,
-            enrolledAt: new Date(),
-          },
+    this.logger.warn(
+      `결제 실패 - 결제 의도: ${paymentIntent.id}, 사용자: ${userId}, 사유: ${failureReason}`
+    );
+  }
+
+  /**
+   * 💸 환불 이벤트 처리 (전액 환불 시 수강 등록 및 진도 회수)
+   */
+  private async handleChargeRefunded(charge: Stripe.Charge) {
+    const paymentIntentId =
+      typeof charge.payment_intent === 'string'
+        ? charge.payment_intent
+        : charge.payment_intent?.id;
+
+    if (!paymentIntentId) {
+      this.logger.warn(`환불된 결제에 결제 의도가 없음 - 결제: ${charge.id}`);
+      return;
+    }
+
+    const transaction = await this.prismaService.transaction.findUnique({
+      where: { paymentIntentId },
+      select: { transactionId: true, userId: true, courseId: true, status: true },
+    });
+
+    if (!transaction) {
+      this.logger.warn(`환불 대상 트랜잭션을 찾을 수 없음 - 결제 의도: ${paymentIntentId}`);
+      return;
+    }
+
+    // 완료되지 않은 거래(금액 불일치 자동 환불 등)는 등록한 적이 없으므로 회수하지 않음
+    if (transaction.status !== PaymentStatus.COMPLETED) {
+      this.logger.log(
+        `완료되지 않은 거래의 환불 - 결제 의도: ${paymentIntentId}, 상태: ${transaction.status}`
+      );
+      return;
+    }
+
+    if (!charge.refunded) {
+      this.logger.log(
+        `부분 환불 - 결제 의도: ${paymentIntentId}, 환불 금액: ${charge.amount_refunded}`
+      );
+      return;
+    }
+
+    await this.revokeRefundedPurchase(transaction);
+
+    this.logger.log(
+      `전액 환불로 수강 등록 회수 - 트랜잭션: ${transaction.transactionId}, 사용자: ${transaction.userId}`
+    );
+  }
+
+  /**
+   * 💸 환불 요청 (구매자 본인)
+   * 정책 기간 이내의 완료된 거래만 요청할 수 있으며, 금액을 생략하면 남은 금액 전액을 요청합니다.
+   */
+  async requestRefund(refundRequestDto: RefundRequestDto, user: User) {
+    try {
+      const refund = await this.prismaService.$transaction(async (tx) => {
+        // 🔒 거래 행 잠금 - 동시 요청이 대기 중 환불/환불 가능 금액 검사를 함께 통과하지 않도록 직렬화
+        await this.lockTransaction(tx, refundRequestDto.transactionId);
+
+        const transaction = await tx.transaction.findUnique({
+          where: { transactionId: refundRequestDto.transactionId },
+          include: { refunds: { select: { amount: true, status: true } } },
         });
 
-        // 3️⃣ 학습 진도 초기화 (최적화된 데이터 구조)
-        const sectionsProgress = course.sections.map((section) => ({
-          sectionId: section.sectionId,
-          sectionTitle: section.sectionTitle,
-          completed: false,
-          chapters: section.chapters.map((chapter) => ({
-            chapterId: chapter.chapterId,
-            title: chapter.title,
-            completed: false,
-            watchedDuration: 0,
-          })),
-        }));
+        if (!transaction) {
+          throw new NotFoundException('거래를 찾을 수 없습니다');
+        }
+
+        if (transaction.userId !== user.id) {
+          this.logger.warn(
+            `환불 요청 권한 없음 - 거래: ${transaction.transactionId}, 요청자: ${user.id}`
+          );
+          throw new ForbiddenException('본인의 거래만 환불을 요청할 수 있습니다');
+        }
 
-        const newProgress = await tx.userCourseProgress.create({
+        if (
+          !canRefundTransaction({
+            status: transaction.status as PaymentStatus,
+            createdAt: transaction.dateTime.toISOString(),
+          })
+        ) {
+          throw new BadRequestException('환불 가능 기간이 지났거나 환불할 수 없는 거래입니다');
+        }
+
+        if (transaction.refunds.some((refund) => refund.status === 'pending')) {
+          throw new BadRequestException('이미 처리 대기 중인 환불 요청이 있습니다');
+        }
+
+        const refundableAmount = getRefundableAmount(
+          transaction.amount,
+          transaction.refunds.map((refund) => ({
+            amount: refund.amount,
+            status: refund.status as RefundStatus,
+          }))
+        );
+        const amount = refundRequestDto.amount ?? refundableAmount;
+
+        if (refundableAmount <= 0 || amount > refundableAmount) {
+          throw new BadRequestException(
+            `환불 가능한 금액(${refundableAmount}원)을 초과했습니다`
+          );
+        }
+
+        return tx.refund.create({
           data: {
-            userId,
-            courseId,
-            enrollmentDate: new Date(),
-            overallProgress: 0,
-            lastAccessedTimestamp: new Date(),
-            sections: JSON.stringify(sectionsProgress),
+            refundId: generateId(),
+            transactionId: transaction.transactionId,
+            userId: user.id,
+            amount,
+            reason: refundRequestDto.reason,
           },
         });
-
-        // 📊 완전한 결과 데이터 구성
-        return {
-          transaction: {
-            ...newTransaction,
-            course: {
-              courseId: course.courseId,
-              title: course.title,
-              teacherName: course.teacherName,
-              category: course.category,
-            },
-          },
-          enrollment: newEnrollment,
-          progress: {
-            ...newProgress,
-            sections: sectionsProgress, // 파싱된 데이터
-          },
-          courseInfo: {
-            title: course.title,
-            sectionsCount: course.sections.length,
-            chaptersCount: course.sections.reduce(
-              (acc, section) => acc + section.chapters.length,
-              0
-            ),
-          },
-        };
       });
 
       this.logger.log(
-        `트랜잭션 생성 완료 - ID: ${transactionId}, 강의: ${result.courseInfo.title}`
+        `환불 요청 생성 - 환불: ${refund.refundId}, 거래: ${refund.transactionId}, 금액: ${refund.amount}`
       );
 
       return {
-        message: '강의 구매 및 등록 성공',
-        data: result,
-        optimized: true, // 최적화 적용 표시
+        message: '환불 요청 성공',
+        data: refund,
       };
     } catch (error) {
       if (
         error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
         error instanceof BadRequestException
       ) {
         throw error;
       }
 
-      // Prisma P2025 에러: 강의를 찾을 수 없음
-      if (
-        error &&
-        typeof error === 'object' &&
-        'code' in error &&
-        error.code === 'P2025'
-      ) {
+      this.logger.error('환불 요청 중 오류 발생', error);
+      throw new BadRequestException('환불을 요청하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 📋 환불 요청 목록 조회
+   * 관리자는 전체, 강사는 본인 강의의 요청과 본인 요청, 일반 사용자는 본인 요청만 조회합니다.
+   */
+  async findRefunds(query: RefundQueryDto, user: User) {
+    try {
+      const scope: Prisma.RefundWhereInput = RoleUtils.isAdmin(user.role)
+        ? {}
+        : {
+            OR: [
+              { userId: user.id },
+              { transaction: { course: { teacherId: user.id } } },
+            ],
+          };
+
+      const refunds = await this.prismaService.refund.findMany({
+        where: {
+          ...scope,
+          ...(query.status && { status: query.status }),
+        },
+        include: {
+          transaction: {
+            select: {
+              transactionId: true,
+              amount: true,
+              dateTime: true,
+              status: true,
+              course: { select: { courseId: true, title: true, teacherId: true } },
+            },
+          },
+          user: { select: { id: true, email: true, firstName: true, lastName: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return {
+        message: '환불 요청 목록 조회 성공',
+        data: refunds,
+        count: refunds.length,
+      };
+    } catch (error) {
+      this.logger.error('환불 요청 목록 조회 중 오류 발생', error);
+      throw new BadRequestException('환불 요청 목록을 조회하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * ✅ 환불 승인 (강의 소유자 또는 관리자)
+   * Stripe 환불을 발행하고, 전액 환불이 되면 수강 등록과 학습 진도를 회수합니다.
+   */
+  async approveRefund(refundId: string, reviewRefundDto: ReviewRefundDto, user: User) {
+    const refund = await this.findReviewableRefund(refundId, user);
+
+    if (!refund.transaction.paymentIntentId) {
+      throw new BadRequestException('결제 의도 정보가 없어 환불할 수 없는 거래입니다');
+    }
+
+    // 🔒 잠금 상태에서 환불 가능 금액 재계산 (요청 이후 처리된 환불 반영)
+    await this.prismaService.$transaction(async (tx) => {
+      await this.lockTransaction(tx, refund.transactionId);
+
+      const transaction = await tx.transaction.findUniqueOrThrow({
+        where: { transactionId: refund.transactionId },
+        include: { refunds: { select: { refundId: true, amount: true, status: true } } },
+      });
+
+      if (transaction.refunds.find((item) => item.refundId === refundId)?.status !== 'pending') {
+        throw new BadRequestException('이미 처리된 환불 요청입니다');
+      }
+
+      const refundableAmount = getRefundableAmount(
+        transaction.amount,
+        transaction.refunds
+          .filter((item) => item.refundId !== refundId)
+          .map((item) => ({ amount: item.amount, status: item.status as RefundStatus }))
+      );
+
+      if (transaction.status !== PaymentStatus.COMPLETED || refund.amount > refundableAmount) {
         this.logger.warn(
-          `강의를 찾을 수 없음 - ID: ${createTransactionDto.courseId}`
+          `환불 가능 금액 초과 - 환불: ${refundId}, 요청 금액: ${refund.amount}, 환불 가능: ${refundableAmount}`
+        );
+        throw new BadRequestException(
+          `환불 가능한 금액(${refundableAmount}원)을 초과했습니다`
         );
-        throw new NotFoundException('강의를 찾을 수 없습니다');
       }
+    });
 
-      this.logger.error('트랜잭션 생성 중 오류 발생', error);
-      throw new BadRequestException(
-        '트랜잭션을 생성하는 중 오류가 발생했습니다'
+    let stripeRefund: Stripe.Refund;
+    try {
+      // 환불 ID를 멱등 키로 사용해 재시도 시 중복 환불 방지
+      stripeRefund = await this.stripe.refunds.create(
+        {
+          payment_intent: refund.transaction.paymentIntentId,
+          amount: refund.amount, // KRW는 원 단위 그대로 사용
+          metadata: { refundId: refund.refundId },
+        },
+        { idempotencyKey: `refund_${refund.refundId}` }
       );
+    } catch (error) {
+      this.logger.error(`Stripe 환불 발행 실패 - 환불: ${refundId}`, error);
+
+      await this.prismaService.refund.update({
+        where: { refundId },
+        data: {
+          status: 'failed',
+          reviewedBy: user.id,
+          reviewNote: reviewRefundDto.note,
+          processedAt: new Date(),
+        },
+      });
+
+      if (error instanceof Stripe.errors.StripeError) {
+        throw new BadRequestException(`Stripe 오류: ${error.message}`);
+      }
+      throw new BadRequestException('환불을 처리하는 중 오류가 발생했습니다');
+    }
+
+    try {
+      const completedRefund = await this.prismaService.refund.update({
+        where: { refundId },
+        data: {
+          status: 'completed',
+          stripeRefundId: stripeRefund.id,
+          reviewedBy: user.id,
+          reviewNote: reviewRefundDto.note,
+          processedAt: new Date(),
+        },
+      });
+
+      const refundedTotal = refund.transaction.refunds
+        .filter((item) => item.status === 'completed')
+        .reduce((sum, item) => sum + item.amount, refund.amount);
+      const isFullRefund = refundedTotal >= refund.transaction.amount;
+
+      if (isFullRefund) {
+        await this.revokeRefundedPurchase(refund.transaction);
+      }
+
+      this.logger.log(
+        `환불 승인 완료 - 환불: ${refundId}, Stripe: ${stripeRefund.id}, 전액: ${isFullRefund}, 검토자: ${user.id}`
+      );
+
+      return {
+        message: isFullRefund ? '전액 환불 완료 (수강 등록 해제)' : '부분 환불 완료',
+        data: { ...completedRefund, isFullRefund },
+      };
+    } catch (error) {
+      this.logger.error(`환불 승인 후 처리 중 오류 발생 - 환불: ${refundId}`, error);
+      throw new BadRequestException('환불 결과를 저장하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * ❌ 환불 거절 (강의 소유자 또는 관리자)
+   */
+  async rejectRefund(refundId: string, reviewRefundDto: ReviewRefundDto, user: User) {
+    await this.findReviewableRefund(refundId, user);
+
+    try {
+      const rejectedRefund = await this.prismaService.refund.update({
+        where: { refundId },
+        data: {
+          status: 'rejected',
+          reviewedBy: user.id,
+          reviewNote: reviewRefundDto.note,
+          processedAt: new Date(),
+        },
+      });
+
+      this.logger.log(`환불 거절 - 환불: ${refundId}, 검토자: ${user.id}`);
+
+      return {
+        message: '환불 요청 거절 완료',
+        data: rejectedRefund,
+      };
+    } catch (error) {
+      this.logger.error(`환불 거절 중 오류 발생 - 환불: ${refundId}`, error);
+      throw new BadRequestException('환불 요청을 거절하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 🔍 검토 가능한 환불 요청 조회 (대기 상태 + 검토 권한 확인)
+   */
+  private async findReviewableRefund(refundId: string, user: User) {
+    const refund = await this.prismaService.refund.findUnique({
+      where: { refundId },
+      include: {
+        transaction: {
+          include: {
+            course: { select: { teacherId: true } },
+            refunds: { select: { refundId: true, amount: true, status: true } },
+          },
+        },
+      },
+    });
+
+    if (!refund) {
+      throw new NotFoundException('환불 요청을 찾을 수 없습니다');
+    }
+
+    const canReview =
+      refund.transaction.course.teacherId === user.id || RoleUtils.isAdmin(user.role);
+    if (!canReview) {
+      this.logger.warn(`환불 검토 권한 없음 - 환불: ${refundId}, 요청자: ${user.id}`);
+      throw new ForbiddenException('이 환불 요청을 검토할 권한이 없습니다');
+    }
+
+    if (refund.status !== 'pending') {
+      throw new BadRequestException('이미 처리된 환불 요청입니다');
     }
+
+    return refund;
+  }
+
+  /**
+   * 🔐 거래 행 잠금 - 같은 거래의 환불 요청/승인을 트랜잭션 단위로 직렬화
+   */
+  private async lockTransaction(tx: Prisma.TransactionClient, transactionId: string): Promise<void> {
+    await tx.$queryRaw(
+      Prisma.sql`SELECT "transactionId" FROM transactions WHERE "transactionId" = ${transactionId} FOR UPDATE`
+    );
+  }
+
+  /**
+   * 🔙 전액 환불된 구매 회수 (거래 상태 변경, 수강 등록 및 진도 삭제)
+   * deleteMany로 이미 회수된 경우에도 안전하게 처리합니다.
+   */
+  private async revokeRefundedPurchase(transaction: {
+    transactionId: string;
+    userId: string;
+    courseId: string;
+  }) {
+    await this.prismaService.$transaction([
+      this.prismaService.transaction.update({
+        where: { transactionId: transaction.transactionId },
+        data: { status: PaymentStatus.REFUNDED },
+      }),
+      this.prismaService.userCourseProgress.deleteMany({
+        where: { userId: transaction.userId, courseId: transaction.courseId },
+      }),
+      this.prismaService.enrollment.deleteMany({
+        where: { userId: transaction.userId, courseId: transaction.courseId },
+      }),
+    ]);
+  }
+
+  /**
+   * 🎓 결제 완료 처리 (결제 의도 ID 기준 멱등)
+   *
+   * 웹훅 중복 전달이나 클라이언트 호출과 겹쳐도 트랜잭션, 등록, 진도는 한 번만 생성됩니다.
+   *
+   * 🚀 성능 최적화:
+   * - 필요한 데이터만 select로 조회
+   * - findUniqueOrThrow로 에러 처리 간소화
+   * - 트랜잭션 내에서 모든 작업 원자적 수행
+   */
+  private async fulfillPaymentIntent(input: FulfillPaymentInput) {
+    try {
+      return await this.runPaymentFulfillment(input);
+    } catch (error) {
+      // 결제 금액 불일치 - 등록하지 않고 이미 청구된 결제를 환불
+      if (error instanceof BadRequestException) {
+        await this.refundMismatchedPayment(input.paymentIntentId);
+        throw error;
+      }
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        // 동시에 도착한 웹훅/클라이언트 요청이 먼저 처리한 경우 다시 조회
+        if (error.code === 'P2002') {
+          this.logger.warn(`결제 의도 동시 처리 감지 - ID: ${input.paymentIntentId}, 재조회`);
+          return this.runPaymentFulfillment(input);
+        }
+
+        if (error.code === 'P2025') {
+          this.logger.warn(`강의를 찾을 수 없음 - ID: ${input.courseId}`);
+          throw new NotFoundException('강의를 찾을 수 없습니다');
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * 💸 금액 불일치 결제 자동 환불
+   * 등록하지 않은 결제이므로 전액 환불하고, 환불 발행에 실패하면 환불 필요 사유를 남겨 수동 처리합니다.
+   */
+  private async refundMismatchedPayment(paymentIntentId: string) {
+    const unfulfilled = {
+      paymentIntentId,
+      status: { in: [PaymentStatus.PENDING, PaymentStatus.FAILED] },
+    };
+
+    try {
+      // 결제 의도 ID를 멱등 키로 사용해 웹훅/클라이언트 중복 처리 시에도 한 번만 환불
+      const stripeRefund = await this.stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          metadata: { reason: 'amount_mismatch' },
+        },
+        { idempotencyKey: `mismatch_refund_${paymentIntentId}` }
+      );
+
+      await this.prismaService.transaction.updateMany({
+        where: unfulfilled,
+        data: {
+          status: PaymentStatus.REFUNDED,
+          failureReason: '결제 금액 불일치로 자동 환불되었습니다',
+        },
+      });
+
+      this.logger.warn(
+        `금액 불일치 결제 자동 환불 - 결제 의도: ${paymentIntentId}, Stripe: ${stripeRefund.id}`
+      );
+    } catch (error) {
+      this.logger.error(
+        `금액 불일치 결제 환불 실패 (수동 환불 필요) - 결제 의도: ${paymentIntentId}`,
+        error
+      );
+
+      await this.prismaService.transaction.updateMany({
+        where: unfulfilled,
+        data: {
+          status: PaymentStatus.FAILED,
+          failureReason: '결제 금액 불일치 - 환불 필요',
+        },
+      });
+    }
+  }
+
+  /**
+   * 🧾 결제 의도 생성 시 메타데이터에 기록한 청구 금액
+   */
+  private getOriginalAmount(paymentIntent: Stripe.PaymentIntent): number | undefined {
+    const originalAmount = Number(paymentIntent.metadata.originalAmount);
+    return Number.isInteger(originalAmount) && originalAmount > 0 ? originalAmount : undefined;
+  }
+
+  /**
+   * 🔄 결제 완료 처리 트랜잭션 본문
+   */
+  private async runPaymentFulfillment(input: FulfillPaymentInput) {
+    const { paymentIntentId, userId, courseId, amount, currency, paymentProvider, expectedAmount } =
+      input;
+
+    return this.prismaService.$transaction(async (tx) => {
+      // 🚀 필요한 데이터만 선택적 조회
+      const course = await tx.course.findUniqueOrThrow({
+        where: { courseId },
+        select: {
+          courseId: true,
+          title: true,
+          teacherName: true,
+          category: true,
+          price: true,
+          sections: {
+            select: {
+              sectionId: true,
+              sectionTitle: true,
+              chapters: {
+                select: {
+                  chapterId: true,
+                  title: true,
+                },
+                orderBy: {
+                  createdAt: 'asc',
+                },
+              },
+            },
+            orderBy: {
+              createdAt: 'asc',
+            },
+          },
+        },
+      });
+
+      const courseInfo = {
+        title: course.title,
+        sectionsCount: course.sections.length,
+        chaptersCount: course.sections.reduce(
+          (acc, section) => acc + section.chapters.length,
+          0
+        ),
+      };
+
+      // 이미 처리된 결제 의도인지 확인 (멱등 처리)
+      const existingTransaction = await tx.transaction.findUnique({
+        where: { paymentIntentId },
+        include: {
+          course: {
+            select: {
+              courseId: true,
+              title: true,
+              teacherName: true,
+              category: true,
+            },
+          },
+        },
+      });
+
+      // 완료 또는 환불된 거래는 다시 처리하지 않음
+      if (
+        existingTransaction &&
+        existingTransaction.status !== PaymentStatus.PENDING &&
+        existingTransaction.status !== PaymentStatus.FAILED
+      ) {
+        const [enrollment, progress] = await Promise.all([
+          tx.enrollment.findUnique({
+            where: { userId_courseId: { userId, courseId } },
+          }),
+          tx.userCourseProgress.findUnique({
+            where: { userId_courseId: { userId, courseId } },
+          }),
+        ]);
+
+        return {
+          transaction: existingTransaction,
+          enrollment,
+          progress,
+          courseInfo,
+          alreadyFulfilled: true,
+        };
+      }
+
+      // 💰 실제 결제 금액/통화가 결제 의도 생성 시 청구한 금액과 일치해야 등록
+      // (결제 도중 강의 가격이 바뀌어도 대기 거래에 기록된 금액 기준으로 검증)
+      const chargedAmount = existingTransaction?.amount ?? expectedAmount ?? course.price;
+      const chargedCurrency = (existingTransaction?.currency ?? PAYMENT_CURRENCY).toLowerCase();
+
+      if (amount !== chargedAmount || currency.toLowerCase() !== chargedCurrency) {
+        this.logger.error(
+          `결제 금액 불일치 - 결제 의도: ${paymentIntentId}, 결제: ${amount} ${currency}, 청구 금액: ${chargedAmount} ${chargedCurrency}`
+        );
+        throw new BadRequestException({
+          code: 'PAYMENT_AMOUNT_MISMATCH',
+          message: '결제 금액이 청구 금액과 일치하지 않습니다',
+        });
+      }
+
+      // 1️⃣ 트랜잭션 완료 기록 (대기/실패 기록이 있으면 완료로 전환)
+      const completedAt = new Date();
+      const transactionSelect = {
+        transactionId: true,
+        userId: true,
+        courseId: true,
+        amount: true,
+        currency: true,
+        paymentProvider: true,
+        paymentIntentId: true,
+        status: true,
+        dateTime: true,
+        completedAt: true,
+      } satisfies Prisma.TransactionSelect;
+
+      const newTransaction = existingTransaction
+        ? await tx.transaction.update({
+            where: { transactionId: existingTransaction.transactionId },
+            data: {
+              amount,
+              status: PaymentStatus.COMPLETED,
+              failureReason: null,
+              dateTime: completedAt,
+              completedAt,
+            },
+            select: transactionSelect,
+          })
+        : await tx.transaction.create({
+            data: {
+              transactionId: generateId(),
+              userId,
+              courseId,
+              amount,
+              paymentProvider,
+              paymentIntentId,
+              status: PaymentStatus.COMPLETED,
+              dateTime: completedAt,
+              completedAt,
+            },
+            select: transactionSelect,
+          });
+
+      // 2️⃣ 강의 등록 생성 (이미 등록된 경우 유지)
+      const newEnrollment = await tx.enrollment.upsert({
+        where: { userId_courseId: { userId, courseId } },
+        create: {
+          userId,
+          courseId,
+          enrolledAt: new Date(),
+        },
+        update: {},
+      });
+
+      // 3️⃣ 학습 진도 초기화 (기존 진도가 있으면 유지, 챕터 진도는 학습 시 기록)
+      const sectionsProgress = course.sections.map((section) => ({
+        sectionId: section.sectionId,
+        sectionTitle: section.sectionTitle,
+        completed: false,
+        chapters: section.chapters.map((chapter) => ({
+          chapterId: chapter.chapterId,
+          title: chapter.title,
+          completed: false,
+          timeSpent: 0,
+          lastPosition: 0,
+        })),
+      }));
+
+      const existingProgress = await tx.userCourseProgress.findUnique({
+        where: { userId_courseId: { userId, courseId } },
+      });
+
+      const progress =
+        existingProgress ??
+        (await tx.userCourseProgress.create({
+          data: {
+            userId,
+            courseId,
+            enrollmentDate: new Date(),
+            overallProgress: 0,
+            lastAccessedTimestamp: new Date(),
+          },
+        }));
+
+      // 📊 완전한 결과 데이터 구성
+      return {
+        transaction: {
+          ...newTransaction,
+          course: {
+            courseId: course.courseId,
+            title: course.title,
+            teacherName: course.teacherName,
+            category: course.category,
+          },
+        },
+        enrollment: newEnrollment,
+        progress: existingProgress
+          ? progress
+          : { ...progress, sections: sectionsProgress }, // 초기 섹션별 진도
+        courseInfo,
+        alreadyFulfilled: false,
+      };
+    });
   }
 }
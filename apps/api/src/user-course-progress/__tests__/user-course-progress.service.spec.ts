@@ -0,0 +1,221 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { PrismaService } from '@packages/database';
+import type { User } from '@packages/common';
+import { UserCourseProgressService } from '../user-course-progress.service';
+
+describe('UserCourseProgressService', () => {
+  let userCourseProgressService: UserCourseProgressService;
+
+  const courseId = 'course-id-123';
+  const student: User = { id: 'student-id-123', email: 'student@example.com', username: 'student', role: 'user' };
+  const instructor: User = { id: 'teacher-id-123', email: 'teacher@example.com', username: 'teacher', role: 'INSTRUCTOR' };
+  const admin: User = { id: 'admin-id-123', email: 'admin@example.com', username: 'admin', role: 'ADMIN' };
+
+  // 순차 학습 강의: 강의 → 퀴즈 → 강의
+  const createCourse = (isSequential: boolean) => ({
+    isSequential,
+    sections: [
+      {
+        sectionId: 'section-id-1',
+        isSequential: false,
+        chapters: [
+          { chapterId: 'chapter-1', type: 'Video' },
+          { chapterId: 'chapter-quiz', type: 'Quiz' },
+          { chapterId: 'chapter-3', type: 'Video' },
+        ],
+      },
+    ],
+  });
+
+  const prismaService = {
+    $transaction: jest.fn(),
+    course: { findUnique: jest.fn() },
+    chapterProgress: { findMany: jest.fn() },
+    quizAttempt: { findMany: jest.fn() },
+    userCourseProgress: { findMany: jest.fn() },
+  };
+
+  const completedChapters = (...chapterIds: string[]) => chapterIds.map((chapterId) => ({ chapterId }));
+  const passedQuizzes = (...chapterIds: string[]) => chapterIds.map((chapterId) => ({ quiz: { chapterId } }));
+
+  const expectForbiddenCode = async (promise: Promise<unknown>, code: string) => {
+    const error = await promise.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ForbiddenException);
+    expect((error as ForbiddenException).getResponse()).toEqual(expect.objectContaining({ code }));
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [UserCourseProgressService, { provide: PrismaService, useValue: prismaService }],
+    }).compile();
+
+    userCourseProgressService = module.get<UserCourseProgressService>(UserCourseProgressService);
+
+    prismaService.course.findUnique.mockResolvedValue(createCourse(true));
+    prismaService.chapterProgress.findMany.mockResolvedValue([]);
+    prismaService.quizAttempt.findMany.mockResolvedValue([]);
+    prismaService.$transaction.mockResolvedValue({ userId: student.id, courseId, sections: [] });
+    prismaService.userCourseProgress.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findLockedChapterIds', () => {
+    it('순차 학습 강의에서는 완료하지 않은 챕터 이후를 잠가야 함', async () => {
+      // Act
+      const lockedChapterIds = await userCourseProgressService.findLockedChapterIds(student.id, courseId);
+
+      // Assert
+      expect(lockedChapterIds).toEqual(['chapter-quiz', 'chapter-3']);
+    });
+
+    it('통과한 퀴즈 챕터는 완료로 간주해야 함', async () => {
+      // Arrange
+      prismaService.chapterProgress.findMany.mockResolvedValue(completedChapters('chapter-1'));
+      prismaService.quizAttempt.findMany.mockResolvedValue(passedQuizzes('chapter-quiz'));
+
+      // Act
+      const lockedChapterIds = await userCourseProgressService.findLockedChapterIds(student.id, courseId);
+
+      // Assert
+      expect(lockedChapterIds).toEqual([]);
+    });
+
+    it('순차 학습이 아닌 강의는 잠그지 않아야 함', async () => {
+      // Arrange
+      prismaService.course.findUnique.mockResolvedValue(createCourse(false));
+
+      // Act
+      const lockedChapterIds = await userCourseProgressService.findLockedChapterIds(student.id, courseId);
+
+      // Assert
+      expect(lockedChapterIds).toEqual([]);
+      expect(prismaService.quizAttempt.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertChapterUnlocked', () => {
+    it('잠긴 챕터 접근 시 CHAPTER_LOCKED 예외가 발생해야 함', async () => {
+      await expectForbiddenCode(
+        userCourseProgressService.assertChapterUnlocked(student.id, courseId, 'chapter-3'),
+        'CHAPTER_LOCKED'
+      );
+    });
+
+    it('첫 챕터는 접근할 수 있어야 함', async () => {
+      await expect(
+        userCourseProgressService.assertChapterUnlocked(student.id, courseId, 'chapter-1')
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('updateChapterProgress', () => {
+    it('잠긴 챕터를 완료로 보고하면 저장하지 않고 거부해야 함', async () => {
+      await expectForbiddenCode(
+        userCourseProgressService.updateChapterProgress(
+          student.id,
+          courseId,
+          { chapterId: 'chapter-3', completed: true },
+          student
+        ),
+        'CHAPTER_LOCKED'
+      );
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('통과하지 않은 퀴즈 챕터를 완료로 보고하면 QUIZ_NOT_PASSED 예외가 발생해야 함', async () => {
+      // Arrange
+      prismaService.chapterProgress.findMany.mockResolvedValue(completedChapters('chapter-1'));
+
+      // Act & Assert
+      await expectForbiddenCode(
+        userCourseProgressService.updateChapterProgress(
+          student.id,
+          courseId,
+          { chapterId: 'chapter-quiz', completed: true },
+          student
+        ),
+        'QUIZ_NOT_PASSED'
+      );
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('통과한 퀴즈 챕터는 완료로 저장해야 함', async () => {
+      // Arrange
+      prismaService.chapterProgress.findMany.mockResolvedValue(completedChapters('chapter-1'));
+      prismaService.quizAttempt.findMany.mockResolvedValue(passedQuizzes('chapter-quiz'));
+
+      // Act
+      await userCourseProgressService.updateChapterProgress(
+        student.id,
+        courseId,
+        { chapterId: 'chapter-quiz', completed: true },
+        student
+      );
+
+      // Assert
+      expect(prismaService.$transaction).toHaveBeenCalled();
+    });
+
+    it('완료 보고가 아닌 시청 기록은 잠금 검증 없이 저장해야 함', async () => {
+      // Act
+      await userCourseProgressService.updateChapterProgress(
+        student.id,
+        courseId,
+        { chapterId: 'chapter-1', timeSpent: 30, lastPosition: 30 },
+        student
+      );
+
+      // Assert
+      expect(prismaService.course.findUnique).not.toHaveBeenCalled();
+      expect(prismaService.$transaction).toHaveBeenCalled();
+    });
+  });
+
+  describe('권한 검증', () => {
+    it('DB 역할이 ADMIN인 관리자는 다른 사용자의 등록 강의를 조회할 수 있어야 함', async () => {
+      await expect(userCourseProgressService.getUserEnrolledCourses(student.id, admin)).resolves.toEqual(
+        expect.objectContaining({ count: 0 })
+      );
+    });
+
+    it('강사는 다른 사용자의 전체 등록 강의를 조회할 수 없어야 함', async () => {
+      await expect(userCourseProgressService.getUserEnrolledCourses(student.id, instructor)).rejects.toThrow(
+        ForbiddenException
+      );
+      expect(prismaService.userCourseProgress.findMany).not.toHaveBeenCalled();
+    });
+
+    it('관리자는 강의 지정 없이 일괄 진도를 조회할 수 있어야 함', async () => {
+      // Act
+      await userCourseProgressService.getBatchUserCourseProgress([student.id], undefined, admin);
+
+      // Assert
+      expect(prismaService.userCourseProgress.findMany).toHaveBeenCalled();
+    });
+
+    it('강사는 강의를 지정하지 않으면 일괄 진도를 조회할 수 없어야 함', async () => {
+      await expect(
+        userCourseProgressService.getBatchUserCourseProgress([student.id], undefined, instructor)
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.userCourseProgress.findMany).not.toHaveBeenCalled();
+    });
+
+    it('강사는 본인 강의의 일괄 진도만 조회할 수 있어야 함', async () => {
+      // Arrange
+      prismaService.course.findUnique.mockResolvedValueOnce({ teacherId: 'other-teacher-id' });
+
+      // Act & Assert
+      await expect(
+        userCourseProgressService.getBatchUserCourseProgress([student.id], courseId, instructor)
+      ).rejects.toThrow(ForbiddenException);
+
+      prismaService.course.findUnique.mockResolvedValueOnce({ teacherId: instructor.id });
+      await userCourseProgressService.getBatchUserCourseProgress([student.id], courseId, instructor);
+      expect(prismaService.userCourseProgress.findMany).toHaveBeenCalledTimes(1);
+    });
+  });
+});
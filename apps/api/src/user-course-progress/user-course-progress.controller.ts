@@ -2,13 +2,16 @@ import {
   Controller,
   Get,
   Put,
+  Patch,
   Body,
   Param,
+  Query,
   UseGuards,
   Logger,
   HttpStatus,
   HttpCode,
   BadRequestException,
+  ForbiddenException,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -19,7 +22,7 @@ import {
 import { Throttle } from '@nestjs/throttler';
 
 import { UserCourseProgressService } from './user-course-progress.service';
-import { ZodValidationPipe } from '@packages/common';
+import { ZodValidationPipe, RoleUtils } from '@packages/common';
 import { ApiJwtAuthGuard } from '../auth/guards/api-jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 
@@ -43,6 +46,8 @@ import {
 */
 
 import type { User } from '@packages/common';
+import { updateUserCourseProgressSchema, courseAnalyticsQuerySchema } from '@packages/schemas';
+import type { UpdateUserCourseProgressDto, CourseAnalyticsQueryDto } from '@packages/schemas';
 
 /**
  * 📈 사용자 강의 진도 관리 컨트롤러 (N+1 최적화 적용)
@@ -57,8 +62,10 @@ import type { User } from '@packages/common';
  * - GET /users/course-progress/:userId/enrolled-courses - 등록 강의 목록 조회 (인증 필요)
  * - GET /users/course-progress/:userId/courses/:courseId - 특정 강의 진도 조회 (인증 필요)
  * - PUT /users/course-progress/:userId/courses/:courseId - 강의 진도 업데이트 (인증 필요)
+ * - PATCH /users/course-progress/:userId/courses/:courseId/chapter - 챕터 재생 위치/시청 시간 보고 (인증 필요)
  * - GET /users/course-progress/batch - 다중 사용자 진도 일괄 조회 (관리자용)
- * - GET /users/course-progress/statistics/:courseId - 강의별 진도 통계 (관리자용)
+ * - GET /users/course-progress/statistics/:courseId - 강의별 진도 통계 (강의 소유 강사/관리자)
+ * - GET /users/course-progress/analytics/:courseId - 챕터 퍼널/이탈/수강 추이 분석 (강의 소유 강사/관리자)
  */
 @ApiTags('사용자 강의 진도')
 @Controller('users/course-progress')
@@ -189,10 +196,9 @@ export class UserCourseProgressController {
       throw new BadRequestException('사용자 ID와 강의 ID가 필요합니다');
     }
 
-    // 수동으로 진도 데이터 처리
+    // 수동으로 진도 데이터 처리 (진도율은 서버에서 계산하므로 받지 않음)
     const processedData = {
       sections: updateProgressDto?.sections || [],
-      overallProgress: updateProgressDto?.overallProgress || undefined,
       lastAccessedChapterId:
         updateProgressDto?.lastAccessedChapterId || undefined,
     };
@@ -215,6 +221,36 @@ export class UserCourseProgressController {
     return result;
   }
 
+  /**
+   * 🎬 챕터 재생 위치/시청 시간 보고 (인증 필요)
+   */
+  @Patch(':userId/courses/:courseId/chapter')
+  @ApiOperation({
+    summary: '챕터 진도 보고',
+    description:
+      '영상 재생 중 현재 위치(lastPosition)와 마지막 보고 이후 시청 시간(timeSpent)을 보고합니다. 다른 기기에서 이어보기에 사용됩니다.',
+  })
+  @ApiResponse({ status: 200, description: '챕터 진도 업데이트 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청 데이터' })
+  @ApiResponse({ status: 403, description: '접근 권한 없음' })
+  @ApiResponse({ status: 404, description: '진도 정보 또는 챕터를 찾을 수 없음' })
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 100, ttl: 60000 } }) // 분당 100회 제한 (재생 중 주기적 보고)
+  async updateChapterProgress(
+    @Param('userId') userId: string,
+    @Param('courseId') courseId: string,
+    @Body(new ZodValidationPipe(updateUserCourseProgressSchema))
+    updateChapterProgressDto: UpdateUserCourseProgressDto,
+    @CurrentUser() user: User
+  ) {
+    return this.userCourseProgressService.updateChapterProgress(
+      userId,
+      courseId,
+      updateChapterProgressDto,
+      user
+    );
+  }
+
   /**
    * 🔍 다중 사용자 진도 일괄 조회 (관리자용, Batch 최적화)
    */
@@ -232,9 +268,9 @@ export class UserCourseProgressController {
     @CurrentUser() user: User,
     @Body() body: { userIds: string[]; courseId?: string }
   ) {
-    // 권한 검증: 관리자/강사만 접근 가능
-    if (user.role !== 'admin' && user.role !== 'teacher') {
-      throw new BadRequestException(
+    // 권한 검증: 관리자/강사만 접근 가능 (강사는 서비스에서 강의 소유 여부 확인)
+    if (!RoleUtils.canManageCourses(user.role)) {
+      throw new ForbiddenException(
         '이 기능은 관리자나 강사만 사용할 수 있습니다'
       );
     }
@@ -263,13 +299,13 @@ export class UserCourseProgressController {
   }
 
   /**
-   * 📈 강의별 진도 통계 조회 (관리자용, 집계 최적화)
+   * 📈 강의별 진도 통계 조회 (강의 소유 강사/관리자, 집계 최적화)
    */
   @Get('statistics/:courseId')
   @ApiOperation({
     summary: '강의별 진도 통계 조회',
     description:
-      '특정 강의의 전체 진도 통계를 조회합니다. (관리자/강사용, 집계 함수 최적화)',
+      '특정 강의의 전체 진도 통계를 조회합니다. (강의 소유 강사/관리자용, 집계 함수 최적화)',
   })
   @ApiResponse({ status: 200, description: '진도 통계 조회 성공' })
   @ApiResponse({ status: 401, description: '인증 필요' })
@@ -298,4 +334,28 @@ export class UserCourseProgressController {
     );
     return result;
   }
+
+  /**
+   * 📊 강사용 강의 분석 조회 (강의 소유 강사/관리자)
+   */
+  @Get('analytics/:courseId')
+  @ApiOperation({
+    summary: '강의 분석 조회',
+    description:
+      '챕터별 완료 퍼널, 이탈 지점, 챕터별 평균 소요 시간, 수강 등록 추이, 최근 7일/30일 활동 수강생 수를 조회합니다.',
+  })
+  @ApiResponse({ status: 200, description: '강의 분석 조회 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 조회 기간 또는 집계 단위' })
+  @ApiResponse({ status: 403, description: '강의 소유자 또는 관리자가 아님' })
+  @ApiResponse({ status: 404, description: '강의를 찾을 수 없음' })
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  async getCourseAnalytics(
+    @Param('courseId') courseId: string,
+    @Query(new ZodValidationPipe(courseAnalyticsQuerySchema)) query: CourseAnalyticsQueryDto,
+    @CurrentUser() user: User
+  ) {
+    this.logger.log(`강의 분석 조회 요청 - 강의: ${courseId}, 요청자: ${user.id}`);
+
+    return this.userCourseProgressService.getCourseAnalytics(courseId, user, query);
+  }
 }
@@ -1,11 +1,119 @@
 import { Injectable, Logger, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 
+import { Prisma } from '@prisma/client';
+import type { ChapterProgress as ChapterProgressRecord } from '@prisma/client';
 import { PrismaService } from '@packages/database';
 // import { UpdateUserCourseProgressDto } from './dto/user-course-progress.dto';
 // 임시로 비활성화
 
-import { User } from '@packages/common';
+import { User, RoleUtils } from '@packages/common';
 import { Cacheable, CacheEvict } from '@packages/common';
+import { MAX_TIME_SPENT_PER_REPORT, getCompletedChapterIds, getLockedChapterIds } from '@packages/schemas';
+import type {
+  ChapterProgress,
+  CourseAnalytics,
+  CourseAnalyticsChapter,
+  CourseAnalyticsQueryDto,
+  CourseEnrollmentTrendPoint,
+  SequentialCourseStructure,
+  UpdateUserCourseProgressDto,
+} from '@packages/schemas';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DROP_OFF_POINT_LIMIT = 5; // 분석 결과에 포함할 이탈 지점 수
+
+// 0-100 비율 (분모가 0이면 0)
+function toPercentage(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0;
+}
+
+// 수강 등록 추이 구간 시작 시각 (UTC 자정, 주 단위는 월요일 시작)
+function startOfTrendBucket(date: Date, interval: CourseAnalyticsQueryDto['interval']): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (interval === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+  return start;
+}
+
+// 진도 응답 구성과 재구성의 기준이 되는 강의 구조 (섹션/챕터는 orderIndex 순)
+interface ProgressCourseStructure {
+  sections: Array<{
+    sectionId: string;
+    sectionTitle: string;
+    chapters: Array<{ chapterId: string; title: string }>;
+  }>;
+}
+
+// 순차 학습 검증에 필요한 강의 구조 (퀴즈 챕터 판별용 타입 포함)
+interface SequentialCourseWithChapterTypes extends SequentialCourseStructure {
+  sections: Array<{
+    sectionId: string;
+    isSequential?: boolean;
+    chapters: Array<{ chapterId: string; type?: string }>;
+  }>;
+}
+
+// 🎬 챕터 시청 보고를 저장 형식으로 변환 (PUT/PATCH 공통 규칙)
+// - timeSpent는 마지막 보고 이후 시청 시간으로, 보고 1회당 상한을 적용해 누적값에 더함
+// - lastPosition은 서버 시각(lastWatchedAt)과 함께 기록 (클라이언트가 보낸 시각은 사용하지 않음)
+function toWatchStateUpdate(report: Partial<Pick<ChapterProgress, 'timeSpent' | 'lastPosition'>>, now: Date) {
+  const timeSpent = Math.min(Math.max(report.timeSpent ?? 0, 0), MAX_TIME_SPENT_PER_REPORT);
+  const position =
+    report.lastPosition !== undefined
+      ? { lastPosition: Math.max(report.lastPosition, 0), lastWatchedAt: now }
+      : {};
+
+  return {
+    create: { timeSpent, ...position },
+    update: {
+      // 여러 탭/기기의 보고가 서로 덮어쓰지 않도록 시청 시간은 DB에서 누적
+      ...(timeSpent > 0 && { timeSpent: { increment: timeSpent } }),
+      ...position,
+    },
+  };
+}
+
+// 챕터 진도 레코드를 응답 형식으로 변환
+function toChapterProgress(record: ChapterProgressRecord): ChapterProgress {
+  return {
+    chapterId: record.chapterId,
+    completed: record.completed,
+    ...(record.completedAt && { completedAt: record.completedAt.toISOString() }),
+    timeSpent: record.timeSpent,
+    lastPosition: record.lastPosition,
+    ...(record.lastWatchedAt && { lastWatchedAt: record.lastWatchedAt.toISOString() }),
+  };
+}
+
+// 강의 구조와 챕터 진도 레코드로 섹션별 진도 구성 (기존 JSON 진도와 같은 응답 형식)
+function buildProgressSections(
+  structure: ProgressCourseStructure,
+  records: ChapterProgressRecord[],
+) {
+  const recordsByChapterId = new Map(records.map((record) => [record.chapterId, record]));
+
+  return structure.sections.map((section) => {
+    const chapters = section.chapters.map((chapter) => {
+      const record = recordsByChapterId.get(chapter.chapterId);
+
+      return record
+        ? { ...toChapterProgress(record), title: chapter.title }
+        : { chapterId: chapter.chapterId, title: chapter.title, completed: false, timeSpent: 0, lastPosition: 0 };
+    });
+    const completedChapters = chapters.filter((chapter) => chapter.completed).length;
+
+    return {
+      sectionId: section.sectionId,
+      sectionTitle: section.sectionTitle,
+      completed: chapters.length > 0 && completedChapters === chapters.length,
+      completedChapters,
+      totalChapters: chapters.length,
+      progressPercentage: chapters.length > 0 ? Math.round((completedChapters / chapters.length) * 100) : 0,
+      chapters,
+    };
+  });
+}
 
 /**
  * 📈 사용자 강의 진도 관리 서비스
@@ -35,17 +143,19 @@ export class UserCourseProgressService {
       this.logger.log(`등록 강의 목록 조회 시작 - 대상: ${targetUserId}, 요청자: ${requestUser.id}`);
 
       // 권한 검증: 본인 또는 관리자만 조회 가능
-      this.validateAccess(targetUserId, requestUser);
+      await this.validateAccess(targetUserId, requestUser);
 
       // 🚀 N+1 최적화: 단일 쿼리로 모든 관련 데이터 조회
       const enrolledCourses = await this.prismaService.userCourseProgress.findMany({
         where: { userId: targetUserId },
         include: {
+          chapters: true,
           course: {
             include: {
               sections: {
                 include: {
                   chapters: {
+                    omit: { content: true, video: true }, // 🔒 본문/영상은 강의 상세에서 잠금 규칙을 적용해 제공
                     orderBy: {
                       orderIndex: 'asc', // 챕터 순서 정렬
                     },
@@ -80,7 +190,7 @@ export class UserCourseProgressService {
         progressInfo: {
           overallProgress: enrollment.overallProgress,
           lastAccessedTimestamp: enrollment.lastAccessedTimestamp,
-          sections: this.parseSections(enrollment.sections),
+          sections: buildProgressSections(enrollment.course, enrollment.chapters),
         },
       }));
 
@@ -112,8 +222,8 @@ export class UserCourseProgressService {
     try {
       this.logger.log(`강의 진도 조회 시작 - 사용자: ${targetUserId}, 강의: ${courseId}`);
 
-      // 권한 검증: 본인 또는 관리자만 조회 가능
-      this.validateAccess(targetUserId, requestUser);
+      // 권한 검증: 본인, 관리자 또는 강의 소유 강사만 조회 가능
+      await this.validateAccess(targetUserId, requestUser, courseId);
 
       // 🚀 N+1 최적화: 강의와 섹션/챕터 데이터를 단일 쿼리로 조회
       const progress = await this.prismaService.userCourseProgress.findUnique({
@@ -124,11 +234,13 @@ export class UserCourseProgressService {
           }
         },
         include: {
+          chapters: true,
           course: {
             include: {
               sections: {
                 include: {
                   chapters: {
+                    omit: { content: true, video: true }, // 🔒 본문/영상은 강의 상세에서 잠금 규칙을 적용해 제공
                     orderBy: {
                       orderIndex: 'asc', // 챕터 순서 정렬
                     },
@@ -150,6 +262,14 @@ export class UserCourseProgressService {
 
       this.logger.log(`강의 진도 조회 완료 - 진도율: ${progress.overallProgress}%`);
 
+      const sections = buildProgressSections(progress.course, progress.chapters);
+      const lockedChapterIds = await this.computeLockedChapterIds(
+        targetUserId,
+        courseId,
+        progress.course,
+        getCompletedChapterIds(sections)
+      );
+
       // 📈 상세 진도 데이터 구성
       return {
         message: '강의 진도 조회 성공',
@@ -158,7 +278,8 @@ export class UserCourseProgressService {
           userId: progress.userId,
           overallProgress: progress.overallProgress,
           lastAccessedTimestamp: progress.lastAccessedTimestamp,
-          sections: this.parseSections(progress.sections),
+          sections,
+          lockedChapterIds, // 🔒 순차 학습으로 잠긴 챕터
           course: {
             ...progress.course,
             // 📊 섹션/챕터 통계 정보 추가
@@ -187,6 +308,8 @@ export class UserCourseProgressService {
    * - 업데이트 후 강의 정보를 타 쿼리로 조회하지 않고 첨부
    * - 데이터 정합성 보장
    * - 관련 캐시 자동 무효화
+   *
+   * 챕터의 timeSpent/lastPosition은 PATCH 챕터 보고와 같은 의미입니다 (보고 이후 시청 시간, 서버 시각 기록).
    */
   @CacheEvict([
     'user-enrolled-courses:{userId}',
@@ -210,7 +333,7 @@ export class UserCourseProgressService {
 
       // 🚀 N+1 최적화: 트랜잭션으로 원자적 수행
       const result = await this.prismaService.$transaction(async (prisma) => {
-        // 기존 진도 데이터 조회 (강의 정보 포함)
+        // 기존 진도 데이터 조회 (강의 정보와 챕터 진도 포함)
         const existingProgress = await prisma.userCourseProgress.findUnique({
           where: {
             userId_courseId: {
@@ -219,6 +342,7 @@ export class UserCourseProgressService {
             }
           },
           include: {
+            chapters: true,
             course: {
               include: {
                 sections: {
@@ -243,31 +367,96 @@ export class UserCourseProgressService {
           throw new NotFoundException('이 강의의 진도 데이터를 찾을 수 없습니다');
         }
 
-        // 섹션 데이터 병합 및 진도율 계산
-        const existingSections = this.parseSections(existingProgress.sections);
-        const newSections = updateProgressDto.sections || existingSections;
-        const mergedSections = this.mergeSections(existingSections, newSections);
-        const calculatedProgress = this.calculateOverallProgress(mergedSections);
+        // 보고된 챕터 진도 (이 강의에 속한 챕터만 반영)
+        const courseChapterIds = new Set(
+          existingProgress.course.sections.flatMap((section) =>
+            section.chapters.map((chapter) => chapter.chapterId)
+          )
+        );
+        const existingChapters = new Map(
+          existingProgress.chapters.map((record) => [record.chapterId, toChapterProgress(record)])
+        );
+        // 같은 챕터가 여러 번 보고되면 뒤에 온 값이 우선 (기존 섹션 목록 뒤에 변경분을 붙여 보내는 클라이언트 대응)
+        const reportedChapterMap = new Map<string, Partial<ChapterProgress> & { chapterId: string }>();
+        (updateProgressDto.sections || [])
+          .flatMap((section: { chapters?: Partial<ChapterProgress>[] }) => section.chapters || [])
+          .forEach((chapter: Partial<ChapterProgress>) => {
+            if (!chapter.chapterId || !courseChapterIds.has(chapter.chapterId)) return;
+            reportedChapterMap.set(chapter.chapterId, {
+              ...reportedChapterMap.get(chapter.chapterId),
+              ...chapter,
+              chapterId: chapter.chapterId,
+            });
+          });
+        const reportedChapters = Array.from(reportedChapterMap.values());
+
+        // 🔒 순차 학습 규칙 검증 (새로 완료 처리되는 챕터만)
+        const newlyCompleted = reportedChapters
+          .filter((chapter) => chapter.completed && !existingChapters.get(chapter.chapterId)?.completed)
+          .map((chapter) => chapter.chapterId);
+        if (newlyCompleted.length > 0) {
+          await this.validateManualCompletion(
+            targetUserId,
+            courseId,
+            existingProgress.course,
+            existingProgress.chapters
+              .filter((record) => record.completed)
+              .map((record) => record.chapterId),
+            newlyCompleted
+          );
+        }
 
-        // 진도 데이터 업데이트
-        const updatedProgress = await prisma.userCourseProgress.update({
-          where: {
-            userId_courseId: {
+        // 챕터별 진도 저장 (완료 상태는 보고값 우선, 시청 기록은 PATCH 보고와 같은 규칙으로 누적)
+        const now = new Date();
+        for (const chapter of reportedChapters) {
+          const existing = existingChapters.get(chapter.chapterId);
+          const completed = chapter.completed ?? existing?.completed ?? false;
+          const completedAt =
+            completed && !existing?.completed
+              ? now
+              : existing?.completedAt
+                ? new Date(existing.completedAt)
+                : null;
+          const watchState = toWatchStateUpdate(chapter, now);
+
+          await prisma.chapterProgress.upsert({
+            where: { userId_chapterId: { userId: targetUserId, chapterId: chapter.chapterId } },
+            create: {
               userId: targetUserId,
-              courseId
-            }
-          },
-          data: {
-            sections: JSON.stringify(mergedSections),
-            overallProgress: updateProgressDto.overallProgress ?? calculatedProgress,
-            lastAccessedTimestamp: new Date(),
-          },
-        });
+              courseId,
+              chapterId: chapter.chapterId,
+              completed,
+              completedAt,
+              ...watchState.create,
+            },
+            update: { completed, completedAt, ...watchState.update },
+          });
+        }
 
-        // 📊 완전한 데이터 반환 (추가 쿼리 없이)
+        const calculatedProgress = await this.calculateCourseProgress(prisma, targetUserId, courseId);
+
+        // 진도 데이터 업데이트
+        const [updatedProgress, chapterRecords] = await Promise.all([
+          prisma.userCourseProgress.update({
+            where: {
+              userId_courseId: {
+                userId: targetUserId,
+                courseId
+              }
+            },
+            data: {
+              // 진도율은 항상 서버에서 챕터 진도로 계산 (선수 과목 검증 등에 사용되므로 클라이언트 값은 받지 않음)
+              overallProgress: calculatedProgress,
+              lastAccessedTimestamp: now,
+            },
+          }),
+          prisma.chapterProgress.findMany({ where: { userId: targetUserId, courseId } }),
+        ]);
+
+        // 📊 완전한 데이터 반환 (강의 정보는 추가 쿼리 없이)
         return {
           ...updatedProgress,
-          sections: mergedSections,
+          sections: buildProgressSections(existingProgress.course, chapterRecords),
           course: {
             ...existingProgress.course,
             // 통계 정보 추가
@@ -295,6 +484,301 @@ export class UserCourseProgressService {
     }
   }
 
+  /**
+   * 🎬 단일 챕터 진도 보고 (영상 재생 위치/시청 시간)
+   *
+   * 영상 플레이어가 주기적으로 보고하는 재생 위치와 시청 시간을 기존 진도와 병합합니다.
+   * - timeSpent는 마지막 보고 이후 시청 시간으로, 서버의 누적값에 더해집니다
+   * - lastPosition은 서버 시각(lastWatchedAt)과 함께 기록되어 다른 기기에서 이어보기에 사용됩니다
+   * - completed를 생략하면 기존 완료 상태를 유지합니다
+   */
+  @CacheEvict([
+    'user-enrolled-courses:{userId}',
+    'user-course-progress:{userId}:{courseId}',
+    'course-progress-statistics:{courseId}'
+  ])
+  async updateChapterProgress(
+    targetUserId: string,
+    courseId: string,
+    updateChapterProgressDto: UpdateUserCourseProgressDto,
+    requestUser: User,
+  ) {
+    try {
+      if (targetUserId !== requestUser.id) {
+        this.logger.warn(`챕터 진도 보고 권한 없음 - 대상: ${targetUserId}, 요청자: ${requestUser.id}`);
+        throw new ForbiddenException('본인의 학습 진도만 수정할 수 있습니다');
+      }
+
+      const { chapterId, completed, timeSpent, lastPosition } = updateChapterProgressDto;
+
+      // 🔒 완료 보고는 PUT과 같은 규칙으로 검증 (잠금 + 순차 학습 퀴즈 통과)
+      if (completed) {
+        await this.validateChapterCompletion(targetUserId, courseId, chapterId);
+      }
+
+      const result = await this.prismaService.$transaction(async (prisma) => {
+        const [existingProgress, chapter] = await Promise.all([
+          prisma.userCourseProgress.findUnique({
+            where: {
+              userId_courseId: {
+                userId: targetUserId,
+                courseId
+              }
+            },
+          }),
+          prisma.chapter.findFirst({
+            where: { chapterId, section: { courseId } },
+            select: { sectionId: true },
+          }),
+        ]);
+
+        if (!existingProgress) {
+          this.logger.warn(`기존 진도 데이터 없음 - 사용자: ${targetUserId}, 강의: ${courseId}`);
+          throw new NotFoundException('이 강의의 진도 데이터를 찾을 수 없습니다');
+        }
+
+        if (!chapter) {
+          throw new NotFoundException('이 강의에서 챕터를 찾을 수 없습니다');
+        }
+
+        const existingChapter = await prisma.chapterProgress.findUnique({
+          where: { userId_chapterId: { userId: targetUserId, chapterId } },
+          select: { completed: true },
+        });
+
+        const now = new Date();
+        const watchState = toWatchStateUpdate({ timeSpent, lastPosition }, now);
+        await prisma.chapterProgress.upsert({
+          where: { userId_chapterId: { userId: targetUserId, chapterId } },
+          create: {
+            userId: targetUserId,
+            courseId,
+            chapterId,
+            completed: completed ?? false,
+            ...(completed && { completedAt: now }),
+            ...watchState.create,
+          },
+          update: {
+            ...(completed !== undefined && { completed }),
+            ...(completed && !existingChapter?.completed && { completedAt: now }),
+            ...watchState.update,
+          },
+        });
+
+        const [updatedProgress, sections] = await Promise.all([
+          prisma.userCourseProgress.update({
+            where: {
+              userId_courseId: {
+                userId: targetUserId,
+                courseId
+              }
+            },
+            data: {
+              overallProgress: await this.calculateCourseProgress(prisma, targetUserId, courseId),
+              lastAccessedTimestamp: now,
+            },
+          }),
+          this.findProgressSections(prisma, targetUserId, courseId),
+        ]);
+
+        return {
+          ...updatedProgress,
+          sections,
+        };
+      });
+
+      this.logger.debug(
+        `챕터 진도 보고 - 사용자: ${targetUserId}, 챕터: ${chapterId}, 위치: ${lastPosition ?? '-'}초, 시청: +${timeSpent ?? 0}초`
+      );
+
+      return {
+        message: '챕터 진도 업데이트 성공',
+        data: result,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+
+      this.logger.error(`챕터 진도 보고 중 오류 발생 - 사용자: ${targetUserId}, 강의: ${courseId}`, error);
+      throw new BadRequestException('챕터 진도를 업데이트하는 중 오류가 발생했습니다');
+    }
+  }
+
+  /**
+   * 🔒 챕터 잠금 여부 검증 (챕터 라우트에서 호출)
+   *
+   * 순차 학습 강의/섹션에서 앞선 챕터를 완료하지 않았으면 접근을 거부합니다.
+   */
+  async assertChapterUnlocked(userId: string, courseId: string, chapterId: string): Promise<void> {
+    const lockedChapterIds = await this.findLockedChapterIds(userId, courseId);
+
+    if (lockedChapterIds.includes(chapterId)) {
+      this.logger.warn(`잠긴 챕터 접근 - 사용자: ${userId}, 챕터: ${chapterId}`);
+      throw new ForbiddenException({
+        code: 'CHAPTER_LOCKED',
+        message: '이전 챕터를 먼저 완료해야 이 챕터를 학습할 수 있습니다',
+      });
+    }
+  }
+
+  /**
+   * 🔒 사용자 기준 잠긴 챕터 ID 목록 (강의 상세의 본문/영상 제외에도 사용)
+   */
+  async findLockedChapterIds(userId: string, courseId: string): Promise<string[]> {
+    const [course, completedChapters] = await Promise.all([
+      this.prismaService.course.findUnique({
+        where: { courseId },
+        select: {
+          isSequential: true,
+          sections: {
+            select: {
+              sectionId: true,
+              isSequential: true,
+              chapters: {
+                select: { chapterId: true },
+                orderBy: { orderIndex: 'asc' },
+              },
+            },
+            orderBy: { orderIndex: 'asc' },
+          },
+        },
+      }),
+      this.prismaService.chapterProgress.findMany({
+        where: { userId, courseId, completed: true },
+        select: { chapterId: true },
+      }),
+    ]);
+
+    if (!course) {
+      throw new NotFoundException('강의를 찾을 수 없습니다');
+    }
+
+    return this.computeLockedChapterIds(
+      userId,
+      courseId,
+      course,
+      completedChapters.map((chapter) => chapter.chapterId)
+    );
+  }
+
+  /**
+   * ✅ 챕터 완료 처리 (서버 내부 호출용)
+   *
+   * 퀴즈 통과 등 서버에서 검증된 이벤트로 챕터를 완료 상태로 표시합니다.
+   * 기존 진도 데이터와 병합한 뒤 전체 진도율을 다시 계산합니다.
+   */
+  @CacheEvict([
+    'user-enrolled-courses:{userId}',
+    'user-course-progress:{userId}:{courseId}',
+    'course-progress-statistics:{courseId}'
+  ])
+  async markChapterCompleted(
+    userId: string,
+    courseId: string,
+    chapterId: string,
+  ) {
+    const updatedProgress = await this.prismaService.$transaction(async (prisma) => {
+      const [existingProgress, existingChapter] = await Promise.all([
+        prisma.userCourseProgress.findUnique({
+          where: {
+            userId_courseId: {
+              userId,
+              courseId
+            }
+          },
+          select: { userId: true },
+        }),
+        prisma.chapterProgress.findUnique({
+          where: { userId_chapterId: { userId, chapterId } },
+          select: { completed: true },
+        }),
+      ]);
+
+      if (!existingProgress) {
+        this.logger.warn(`기존 진도 데이터 없음 - 사용자: ${userId}, 강의: ${courseId}`);
+        throw new NotFoundException('이 강의의 진도 데이터를 찾을 수 없습니다');
+      }
+
+      const now = new Date();
+      await prisma.chapterProgress.upsert({
+        where: { userId_chapterId: { userId, chapterId } },
+        create: { userId, courseId, chapterId, completed: true, completedAt: now },
+        update: { completed: true, ...(!existingChapter?.completed && { completedAt: now }) },
+      });
+
+      return prisma.userCourseProgress.update({
+        where: {
+          userId_courseId: {
+            userId,
+            courseId
+          }
+        },
+        data: {
+          overallProgress: await this.calculateCourseProgress(prisma, userId, courseId),
+          lastAccessedTimestamp: now,
+        },
+      });
+    });
+
+    this.logger.log(`챕터 완료 처리 - 사용자: ${userId}, 챕터: ${chapterId}, 진도율: ${updatedProgress.overallProgress}%`);
+
+    return updatedProgress;
+  }
+
+  /**
+   * 🔀 강의 구조 변경에 맞춘 수강생 진도 재구성 (개정판 게시 트랜잭션 내부 호출용)
+   *
+   * 챕터 진도는 챕터 ID 기준으로 저장되므로 유지/이동된 챕터의 완료 여부와 시청 기록은 그대로 보존됩니다.
+   * - 삭제된 챕터: 진도 기록 제거 (챕터 삭제 시 연쇄 삭제되지만 구조에서 빠진 기록도 정리)
+   * - 추가된 챕터: 기록이 없으므로 미완료로 간주
+   * 전체 진도율은 새 구조 기준으로 다시 계산합니다.
+   *
+   * @returns 진도가 재구성된 수강생 수
+   */
+  async remapCourseProgress(
+    tx: Prisma.TransactionClient,
+    courseId: string,
+    structure: ProgressCourseStructure,
+  ): Promise<number> {
+    const chapterIds = structure.sections.flatMap((section) =>
+      section.chapters.map((chapter) => chapter.chapterId)
+    );
+
+    await tx.chapterProgress.deleteMany({
+      where: { courseId, chapterId: { notIn: chapterIds } },
+    });
+
+    const [progresses, completedCounts] = await Promise.all([
+      tx.userCourseProgress.findMany({
+        where: { courseId },
+        select: { userId: true },
+      }),
+      tx.chapterProgress.groupBy({
+        by: ['userId'],
+        where: { courseId, completed: true },
+        _count: { _all: true },
+      }),
+    ]);
+    const completedByUser = new Map(completedCounts.map((item) => [item.userId, item._count._all]));
+
+    for (const progress of progresses) {
+      await tx.userCourseProgress.update({
+        where: { userId_courseId: { userId: progress.userId, courseId } },
+        data: {
+          overallProgress: this.calculateOverallProgress(
+            completedByUser.get(progress.userId) ?? 0,
+            chapterIds.length
+          ),
+        },
+      });
+    }
+
+    this.logger.log(`강의 구조 변경 진도 재구성 완료 - 강의: ${courseId}, 수강생 수: ${progresses.length}`);
+
+    return progresses.length;
+  }
+
   /**
    * 🔍 다중 사용자의 강의 진도 일괄 조회 (Batch 최적화 + 캐싱)
    *
@@ -306,12 +790,22 @@ export class UserCourseProgressService {
   @Cacheable('batch-user-progress:{userIds}:{courseId}', 180)
   async getBatchUserCourseProgress(
     userIds: string[],
-    courseId?: string,
-    requestUser?: User
+    courseId: string | undefined,
+    requestUser: User
   ) {
     try {
       this.logger.log(`일괄 진도 조회 시작 - 사용자 수: ${userIds.length}`);
 
+      // 권한 검증: 관리자는 전체, 강사는 본인 강의의 진도만 조회 가능
+      if (!RoleUtils.isAdmin(requestUser.role)) {
+        if (!courseId) {
+          this.logger.warn(`강의 지정 없는 일괄 진도 조회 - 요청자: ${requestUser.id}, 역할: ${requestUser.role}`);
+          throw new ForbiddenException('강사는 본인 강의의 진도만 조회할 수 있습니다');
+        }
+
+        await this.assertCourseAnalyticsAccess(courseId, requestUser);
+      }
+
       if (userIds.length === 0) {
         return {
           message: '조회할 사용자가 없습니다',
@@ -333,6 +827,7 @@ export class UserCourseProgressService {
       const progressData = await this.prismaService.userCourseProgress.findMany({
         where: whereCondition,
         include: {
+          chapters: true,
           course: {
             include: {
               sections: {
@@ -365,7 +860,7 @@ export class UserCourseProgressService {
           courseId: progress.courseId,
           overallProgress: progress.overallProgress,
           lastAccessedTimestamp: progress.lastAccessedTimestamp,
-          sections: this.parseSections(progress.sections),
+          sections: buildProgressSections(progress.course, progress.chapters),
           course: {
             ...progress.course,
             totalSections: progress.course.sections?.length || 0,
@@ -377,6 +872,10 @@ export class UserCourseProgressService {
         count: progressData.length,
       };
     } catch (error) {
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+
       this.logger.error(`일괄 진도 조회 중 오류 발생`, error);
       throw new BadRequestException('일괄 진도 조회 중 오류가 발생했습니다');
     }
@@ -395,11 +894,8 @@ export class UserCourseProgressService {
     try {
       this.logger.log(`강의 진도 통계 조회 시작 - 강의: ${courseId}`);
 
-      // 권한 검증: 관리자 또는 강사만 접근 가능
-      if (requestUser.role !== 'admin' && requestUser.role !== 'teacher') {
-        this.logger.warn(`통계 조회 권한 없음 - 요청자: ${requestUser.id}, 역할: ${requestUser.role}`);
-        throw new ForbiddenException('이 정보에 접근할 권한이 없습니다');
-      }
+      // 권한 검증: 강의 소유 강사 또는 관리자만 접근 가능
+      await this.assertCourseAnalyticsAccess(courseId, requestUser);
 
       // 🚀 집계 쿼리로 통계 데이터 조회
       const statistics = await this.prismaService.userCourseProgress.aggregate({
@@ -461,7 +957,7 @@ export class UserCourseProgressService {
         },
       };
     } catch (error) {
-      if (error instanceof ForbiddenException) {
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
         throw error;
       }
 
@@ -469,168 +965,434 @@ export class UserCourseProgressService {
       throw new BadRequestException('강의 진도 통계를 조회하는 중 오류가 발생했습니다');
     }
   }
+
   /**
-   * 🔒 접근 권한 검증
-   * 본인 또는 관리자만 접근 가능
+   * 📊 강사용 강의 분석 조회 (강의 소유 강사 또는 관리자)
+   *
+   * - 챕터별 완료 퍼널과 이탈 지점 (첫 미완료 챕터 기준)
+   * - 챕터별 평균 소요 시간 (챕터 진도의 timeSpent)
+   * - 기간별 수강 등록 추이와 최근 7일/30일 활동 수강생 수
    */
-  private validateAccess(targetUserId: string, requestUser: User): void {
-    const isOwner = targetUserId === requestUser.id;
-    const isAdmin = requestUser.role === 'admin' || requestUser.role === 'teacher';
+  async getCourseAnalytics(courseId: string, requestUser: User, query: CourseAnalyticsQueryDto) {
+    try {
+      this.logger.log(
+        `강의 분석 조회 시작 - 강의: ${courseId}, 기간: ${query.days}일, 단위: ${query.interval}`
+      );
+
+      await this.assertCourseAnalyticsAccess(courseId, requestUser);
+
+      const now = new Date();
+      const trendStart = startOfTrendBucket(
+        new Date(now.getTime() - (query.days - 1) * DAY_MS),
+        query.interval
+      );
+
+      const [course, progressRecords, recentEnrollments, earlierEnrollmentCount] =
+        await Promise.all([
+          this.prismaService.course.findUnique({
+            where: { courseId },
+            select: {
+              sections: {
+                orderBy: { orderIndex: 'asc' },
+                select: {
+                  sectionId: true,
+                  sectionTitle: true,
+                  chapters: {
+                    orderBy: { orderIndex: 'asc' },
+                    select: { chapterId: true, title: true, type: true },
+                  },
+                },
+              },
+            },
+          }),
+          this.prismaService.userCourseProgress.findMany({
+            where: { courseId },
+            select: {
+              overallProgress: true,
+              lastAccessedTimestamp: true,
+              chapters: {
+                select: { chapterId: true, completed: true, timeSpent: true, lastPosition: true },
+              },
+            },
+          }),
+          this.prismaService.enrollment.findMany({
+            where: { courseId, enrolledAt: { gte: trendStart } },
+            select: { enrolledAt: true },
+          }),
+          this.prismaService.enrollment.count({
+            where: { courseId, enrolledAt: { lt: trendStart } },
+          }),
+        ]);
+
+      if (!course) {
+        throw new NotFoundException('강의를 찾을 수 없습니다');
+      }
+
+      const orderedChapters = course.sections.flatMap((section) =>
+        section.chapters.map((chapter) => ({ ...chapter, section }))
+      );
+
+      // 챕터별 집계
+      const chapterStats = new Map(
+        orderedChapters.map((chapter) => [
+          chapter.chapterId,
+          { started: 0, completed: 0, stalled: 0, timeSpent: 0, timedLearners: 0 },
+        ])
+      );
+      let completedLearners = 0;
+      let progressSum = 0;
+      let activeLast7Days = 0;
+      let activeLast30Days = 0;
+
+      for (const record of progressRecords) {
+        const completedChapterIds = new Set<string>();
+
+        for (const chapter of record.chapters) {
+          const stats = chapterStats.get(chapter.chapterId);
+          if (!stats) continue;
+
+          if (chapter.completed) {
+            completedChapterIds.add(chapter.chapterId);
+            stats.completed++;
+          }
+          if (chapter.completed || chapter.timeSpent > 0 || chapter.lastPosition > 0) {
+            stats.started++;
+          }
+          if (chapter.timeSpent > 0) {
+            stats.timeSpent += chapter.timeSpent;
+            stats.timedLearners++;
+          }
+        }
+
+        // 이탈 지점: 강의 순서상 첫 번째 미완료 챕터
+        const stalledChapter = orderedChapters.find(
+          (chapter) => !completedChapterIds.has(chapter.chapterId)
+        );
+        if (stalledChapter) {
+          chapterStats.get(stalledChapter.chapterId)!.stalled++;
+        } else if (orderedChapters.length > 0) {
+          completedLearners++;
+        }
+
+        progressSum += record.overallProgress;
+        const inactiveMs = now.getTime() - record.lastAccessedTimestamp.getTime();
+        if (inactiveMs <= 7 * DAY_MS) activeLast7Days++;
+        if (inactiveMs <= 30 * DAY_MS) activeLast30Days++;
+      }
+
+      const totalLearners = progressRecords.length;
+      const chapters: CourseAnalyticsChapter[] = orderedChapters.map((chapter, index) => {
+        const stats = chapterStats.get(chapter.chapterId)!;
+        const previousCompleted =
+          index === 0 ? totalLearners : chapterStats.get(orderedChapters[index - 1].chapterId)!.completed;
+
+        return {
+          chapterId: chapter.chapterId,
+          title: chapter.title,
+          type: chapter.type,
+          sectionId: chapter.section.sectionId,
+          sectionTitle: chapter.section.sectionTitle,
+          startedCount: stats.started,
+          completedCount: stats.completed,
+          completionRate: toPercentage(stats.completed, totalLearners),
+          dropOffRate: toPercentage(Math.max(previousCompleted - stats.completed, 0), previousCompleted),
+          stalledCount: stats.stalled,
+          averageTimeSpent:
+            stats.timedLearners > 0 ? Math.round(stats.timeSpent / stats.timedLearners) : 0,
+        };
+      });
+
+      const unfinishedLearners = totalLearners - completedLearners;
+      const dropOffPoints = chapters
+        .filter((chapter) => chapter.stalledCount > 0)
+        .sort((a, b) => b.stalledCount - a.stalledCount)
+        .slice(0, DROP_OFF_POINT_LIMIT)
+        .map((chapter) => ({
+          chapterId: chapter.chapterId,
+          title: chapter.title,
+          sectionTitle: chapter.sectionTitle,
+          stalledCount: chapter.stalledCount,
+          stalledRate: toPercentage(chapter.stalledCount, unfinishedLearners),
+        }));
+
+      // 수강 등록 추이 (빈 구간도 0으로 포함)
+      const enrollmentCounts = new Map<string, number>();
+      for (const { enrolledAt } of recentEnrollments) {
+        const key = startOfTrendBucket(enrolledAt, query.interval).toISOString().slice(0, 10);
+        enrollmentCounts.set(key, (enrollmentCounts.get(key) ?? 0) + 1);
+      }
 
-    if (!isOwner && !isAdmin) {
-      this.logger.warn(`접근 권한 없음 - 대상: ${targetUserId}, 요청자: ${requestUser.id}, 역할: ${requestUser.role}`);
-      throw new ForbiddenException('이 정보에 접근할 권한이 없습니다');
+      const points: CourseEnrollmentTrendPoint[] = [];
+      const stepDays = query.interval === 'week' ? 7 : 1;
+      let totalEnrollments = earlierEnrollmentCount;
+      for (
+        let bucket = trendStart;
+        bucket.getTime() <= now.getTime();
+        bucket = new Date(bucket.getTime() + stepDays * DAY_MS)
+      ) {
+        const date = bucket.toISOString().slice(0, 10);
+        const enrollments = enrollmentCounts.get(date) ?? 0;
+        totalEnrollments += enrollments;
+        points.push({ date, enrollments, totalEnrollments });
+      }
+
+      const data: CourseAnalytics = {
+        courseId,
+        generatedAt: now.toISOString(),
+        summary: {
+          totalLearners,
+          completedLearners,
+          averageProgress: totalLearners > 0 ? Math.round(progressSum / totalLearners) : 0,
+          activeLearnersLast7Days: activeLast7Days,
+          activeLearnersLast30Days: activeLast30Days,
+        },
+        chapters,
+        dropOffPoints,
+        enrollmentTrend: { interval: query.interval, days: query.days, points },
+      };
+
+      this.logger.log(
+        `강의 분석 조회 완료 - 강의: ${courseId}, 수강생: ${totalLearners}명, 챕터: ${chapters.length}개`
+      );
+
+      return {
+        message: '강의 분석 조회 성공',
+        data,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+
+      this.logger.error(`강의 분석 조회 중 오류 발생 - 강의: ${courseId}`, error);
+      throw new BadRequestException('강의 분석을 조회하는 중 오류가 발생했습니다');
     }
   }
 
   /**
-   * 📊 전체 진도율 계산 (성능 최적화)
-   * 완료된 챕터 수 / 전체 챕터 수 * 100
-   *
-   * 🚀 성능 최적화:
-   * - 단일 루프로 reduce 연산 최소화
-   * - 조기 종료 조건 추가
+   * 🔒 강의 통계/분석 접근 권한 검증
+   * 강의를 소유한 강사 또는 관리자만 접근 가능
    */
-  private calculateOverallProgress(sections: any[]): number {
-    if (!sections || sections.length === 0) {
-      return 0;
-    }
+  private async assertCourseAnalyticsAccess(courseId: string, requestUser: User): Promise<void> {
+    const course = await this.prismaService.course.findUnique({
+      where: { courseId },
+      select: { teacherId: true },
+    });
 
-    let totalChapters = 0;
-    let completedChapters = 0;
+    if (!course) {
+      throw new NotFoundException('강의를 찾을 수 없습니다');
+    }
 
-    for (const section of sections) {
-      if (section.chapters && Array.isArray(section.chapters)) {
-        totalChapters += section.chapters.length;
-        completedChapters += section.chapters.filter((chapter: any) => chapter.completed).length;
-      }
+    if (course.teacherId !== requestUser.id && !RoleUtils.isAdmin(requestUser.role)) {
+      this.logger.warn(
+        `강의 분석 권한 없음 - 강의: ${courseId}, 요청자: ${requestUser.id}, 역할: ${requestUser.role}`
+      );
+      throw new ForbiddenException('이 강의의 통계에 접근할 권한이 없습니다');
+    }
+  }
+  /**
+   * 🔒 접근 권한 검증
+   * 본인 또는 관리자만 접근 가능하며, 강의가 지정된 경우 해당 강의를 소유한 강사도 허용
+   */
+  private async validateAccess(targetUserId: string, requestUser: User, courseId?: string): Promise<void> {
+    if (targetUserId === requestUser.id || RoleUtils.isAdmin(requestUser.role)) {
+      return;
     }
 
-    if (totalChapters === 0) {
-      return 0;
+    if (courseId && RoleUtils.isInstructor(requestUser.role)) {
+      const course = await this.prismaService.course.findUnique({
+        where: { courseId },
+        select: { teacherId: true },
+      });
+
+      if (course?.teacherId === requestUser.id) {
+        return;
+      }
     }
 
-    const progress = Math.round((completedChapters / totalChapters) * 100);
-    return Math.min(progress, 100); // 최대 100%
+    this.logger.warn(`접근 권한 없음 - 대상: ${targetUserId}, 요청자: ${requestUser.id}, 역할: ${requestUser.role}`);
+    throw new ForbiddenException('이 정보에 접근할 권한이 없습니다');
   }
 
   /**
-   * 🔄 섹션 데이터 병합 (성능 최적화)
-   * 기존 데이터와 새 데이터를 병합하여 일관성 유지
-   *
-   * 🚀 성능 최적화:
-   * - Map을 활용한 O(n) 시간 복잡도 병합
-   * - 불필요한 배열 복사 최소화
+   * 🔒 잠긴 챕터 계산
+   * 챕터 진도의 완료 챕터와 통과한 퀴즈 챕터를 완료로 간주합니다.
+   * 순차 학습 설정이 없는 강의는 추가 조회 없이 빈 목록을 반환합니다.
    */
-  private mergeSections(existingSections: any[], newSections: any[]): any[] {
-    if (!existingSections || existingSections.length === 0) {
-      return newSections || [];
-    }
-
-    if (!newSections || newSections.length === 0) {
-      return existingSections;
+  private async computeLockedChapterIds(
+    userId: string,
+    courseId: string,
+    course: SequentialCourseStructure,
+    completedChapterIds: string[],
+  ): Promise<string[]> {
+    if (!course.isSequential && !course.sections.some((section) => section.isSequential)) {
+      return [];
     }
 
-    // Map을 사용한 효율적인 병합
-    const sectionMap = new Map();
+    const passedQuizChapterIds = await this.getPassedQuizChapterIds(userId, courseId);
 
-    // 기존 섹션 Map에 추가
-    existingSections.forEach(section => {
-      sectionMap.set(section.sectionId, section);
-    });
+    return getLockedChapterIds(course, [...completedChapterIds, ...passedQuizChapterIds]);
+  }
 
-    // 새 섹션들로 병합
-    newSections.forEach((newSection) => {
-      const existing = sectionMap.get(newSection.sectionId);
-
-      if (existing) {
-        // 기존 섹션 업데이트
-        sectionMap.set(newSection.sectionId, {
-          ...existing,
-          ...newSection,
-          chapters: this.mergeChapters(
-            existing.chapters || [],
-            newSection.chapters || []
-          ),
-        });
-      } else {
-        // 새 섹션 추가
-        sectionMap.set(newSection.sectionId, newSection);
-      }
+  /**
+   * 🏆 통과한 퀴즈의 챕터 ID 목록
+   */
+  private async getPassedQuizChapterIds(userId: string, courseId: string): Promise<string[]> {
+    const attempts = await this.prismaService.quizAttempt.findMany({
+      where: {
+        userId,
+        passed: true,
+        quiz: { chapter: { section: { courseId } } },
+      },
+      select: { quiz: { select: { chapterId: true } } },
+      distinct: ['quizId'],
     });
 
-    return Array.from(sectionMap.values());
+    return attempts.map((attempt) => attempt.quiz.chapterId);
   }
 
   /**
-   * 🔄 챕터 데이터 병합 (성능 최적화)
+   * 🔒 단일 챕터 완료 보고 검증
    *
-   * 🚀 성능 최적화:
-   * - Map을 활용한 O(n) 시간 복잡도 병합
-   * - 완료 상태 우선 반영
+   * 아직 완료되지 않은 챕터만 validateManualCompletion으로 검증합니다.
    */
-  private mergeChapters(existingChapters: any[], newChapters: any[]): any[] {
-    if (!existingChapters || existingChapters.length === 0) {
-      return newChapters || [];
+  private async validateChapterCompletion(userId: string, courseId: string, chapterId: string): Promise<void> {
+    const [course, completedChapters] = await Promise.all([
+      this.prismaService.course.findUnique({
+        where: { courseId },
+        select: {
+          isSequential: true,
+          sections: {
+            select: {
+              sectionId: true,
+              isSequential: true,
+              chapters: {
+                select: { chapterId: true, type: true },
+                orderBy: { orderIndex: 'asc' },
+              },
+            },
+            orderBy: { orderIndex: 'asc' },
+          },
+        },
+      }),
+      this.prismaService.chapterProgress.findMany({
+        where: { userId, courseId, completed: true },
+        select: { chapterId: true },
+      }),
+    ]);
+
+    if (!course) {
+      throw new NotFoundException('강의를 찾을 수 없습니다');
     }
 
-    if (!newChapters || newChapters.length === 0) {
-      return existingChapters;
+    const completedChapterIds = completedChapters.map((chapter) => chapter.chapterId);
+    if (completedChapterIds.includes(chapterId)) {
+      return;
     }
 
-    // Map을 사용한 효율적인 병합
-    const chapterMap = new Map();
+    await this.validateManualCompletion(userId, courseId, course, completedChapterIds, [chapterId]);
+  }
+
+  /**
+   * 🔒 수동 완료 처리 검증 (순차 학습)
+   * - 잠긴 챕터는 완료 처리할 수 없음
+   * - 순차 학습 범위의 퀴즈 챕터는 퀴즈를 통과해야만 완료됨
+   */
+  private async validateManualCompletion(
+    userId: string,
+    courseId: string,
+    course: SequentialCourseWithChapterTypes,
+    completedChapterIds: string[],
+    newlyCompletedChapterIds: string[],
+  ): Promise<void> {
+    if (!course.isSequential && !course.sections.some((section) => section.isSequential)) {
+      return;
+    }
 
-    // 기존 챕터 Map에 추가
-    existingChapters.forEach(chapter => {
-      chapterMap.set(chapter.chapterId, chapter);
-    });
+    const lockedChapterIds = await this.computeLockedChapterIds(userId, courseId, course, completedChapterIds);
 
-    // 새 챕터들로 병합
-    newChapters.forEach((newChapter) => {
-      const existing = chapterMap.get(newChapter.chapterId);
+    if (newlyCompletedChapterIds.some((chapterId) => lockedChapterIds.includes(chapterId))) {
+      this.logger.warn(`잠긴 챕터 완료 시도 - 사용자: ${userId}, 강의: ${courseId}`);
+      throw new ForbiddenException({
+        code: 'CHAPTER_LOCKED',
+        message: '이전 챕터를 먼저 완료해야 이 챕터를 완료할 수 있습니다',
+      });
+    }
 
-      if (existing) {
-        // 기존 챕터 업데이트 (완료 상태 우선 반영)
-        chapterMap.set(newChapter.chapterId, {
-          ...existing,
-          ...newChapter,
+    const sequentialQuizChapterIds = course.sections
+      .filter((section) => course.isSequential || section.isSequential)
+      .flatMap((section) => section.chapters)
+      .filter((chapter) => chapter.type === 'Quiz')
+      .map((chapter) => chapter.chapterId);
+
+    const unpassedQuizChapterIds = newlyCompletedChapterIds.filter((chapterId) =>
+      sequentialQuizChapterIds.includes(chapterId)
+    );
+    if (unpassedQuizChapterIds.length > 0) {
+      const passedQuizChapterIds = await this.getPassedQuizChapterIds(userId, courseId);
+      if (unpassedQuizChapterIds.some((chapterId) => !passedQuizChapterIds.includes(chapterId))) {
+        throw new ForbiddenException({
+          code: 'QUIZ_NOT_PASSED',
+          message: '퀴즈를 통과해야 이 챕터를 완료할 수 있습니다',
         });
-      } else {
-        // 새 챕터 추가
-        chapterMap.set(newChapter.chapterId, newChapter);
       }
-    });
-
-    return Array.from(chapterMap.values());
+    }
   }
 
   /**
-   * 📄 JSON 섹션 데이터 파싱 (에러 핸들링 강화)
-   *
-   * 🚀 성능 최적화:
-   * - 타입 체크 최소화
-   * - 안전한 JSON 파싱
+   * 📊 전체 진도율 계산
+   * 완료된 챕터 수 / 전체 챕터 수 * 100
    */
-  private parseSections(sections: any): any[] {
-    if (!sections) {
-      return [];
+  private calculateOverallProgress(completedChapters: number, totalChapters: number): number {
+    if (totalChapters === 0) {
+      return 0;
     }
 
-    if (Array.isArray(sections)) {
-      return sections;
-    }
+    const progress = Math.round((completedChapters / totalChapters) * 100);
+    return Math.min(progress, 100); // 최대 100%
+  }
 
-    if (typeof sections === 'string') {
-      try {
-        const parsed = JSON.parse(sections);
-        return Array.isArray(parsed) ? parsed : [];
-      } catch (error) {
-        this.logger.warn('섹션 데이터 JSON 파싱 실패', error);
-        return [];
-      }
-    }
+  /**
+   * 📊 챕터 진도 기준 강의 진도율 계산
+   * 챕터 진도는 이 강의의 챕터에만 기록되고 챕터 삭제 시 함께 삭제되므로 개수 집계로 충분합니다.
+   */
+  private async calculateCourseProgress(
+    client: Prisma.TransactionClient,
+    userId: string,
+    courseId: string,
+  ): Promise<number> {
+    const [totalChapters, completedChapters] = await Promise.all([
+      client.chapter.count({ where: { section: { courseId } } }),
+      client.chapterProgress.count({ where: { userId, courseId, completed: true } }),
+    ]);
+
+    return this.calculateOverallProgress(completedChapters, totalChapters);
+  }
+
+  /**
+   * 📚 섹션별 진도 조회 (응답 구성용)
+   */
+  private async findProgressSections(
+    client: Prisma.TransactionClient,
+    userId: string,
+    courseId: string,
+  ) {
+    const [sections, records] = await Promise.all([
+      client.section.findMany({
+        where: { courseId },
+        orderBy: { orderIndex: 'asc' },
+        select: {
+          sectionId: true,
+          sectionTitle: true,
+          chapters: {
+            orderBy: { orderIndex: 'asc' },
+            select: { chapterId: true, title: true },
+          },
+        },
+      }),
+      client.chapterProgress.findMany({ where: { userId, courseId } }),
+    ]);
 
-    return [];
+    return buildProgressSections({ sections }, records);
   }
 }
@@ -0,0 +1,334 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+  ApiProperty,
+} from '@nestjs/swagger';
+import express from 'express';
+import { AdminService } from './admin.service';
+import {
+  extractClientIp,
+  prepareSecurityLogData,
+  CurrentUser,
+  Roles,
+  RolesGuard,
+  ZodValidationPipe,
+} from '@packages/common';
+import {
+  adminAuditLogQuerySchema,
+  bulkUserActionSchema,
+  changeUserRoleSchema,
+  instructorApplicationQuerySchema,
+  reviewInstructorApplicationSchema,
+  toggleUserStatusSchema,
+  userSearchQuerySchema,
+  type AdminAuditLogQuery,
+  type BulkUserActionDto,
+  type ChangeUserRoleDto,
+  type InstructorApplicationQuery,
+  type ReviewInstructorApplicationDto,
+  type ToggleUserStatusDto,
+  type UserSearchQuery,
+} from '@packages/schemas';
+
+// 스웨거 요청 DTO 클래스들
+class ChangeUserRoleRequestDto {
+  @ApiProperty({ example: 'clh1234567890abcdefghijk', description: '대상 사용자 ID' })
+  userId: string;
+
+  @ApiProperty({ enum: ['USER', 'INSTRUCTOR', 'ADMIN'], example: 'INSTRUCTOR', description: '새 역할' })
+  newRole: string;
+
+  @ApiProperty({ example: '강사 신청 승인', description: '변경 사유 (감사 로그에 기록)' })
+  reason: string;
+}
+
+class ToggleUserStatusRequestDto {
+  @ApiProperty({ example: 'clh1234567890abcdefghijk', description: '대상 사용자 ID' })
+  userId: string;
+
+  @ApiProperty({ example: false, description: '활성화 여부' })
+  isActive: boolean;
+
+  @ApiProperty({ example: '스팸 계정 신고 접수', description: '변경 사유 (감사 로그에 기록)' })
+  reason: string;
+}
+
+class BulkUserActionRequestDto {
+  @ApiProperty({ type: [String], example: ['clh1234567890abcdefghijk'], description: '대상 사용자 ID 목록 (최대 100명)' })
+  userIds: string[];
+
+  @ApiProperty({ enum: ['activate', 'deactivate', 'verify', 'delete'], example: 'deactivate', description: '일괄 작업' })
+  action: string;
+
+  @ApiProperty({ example: '휴면 계정 정리', description: '작업 사유 (감사 로그에 기록)' })
+  reason: string;
+}
+
+class ReviewInstructorApplicationRequestDto {
+  @ApiProperty({ enum: ['approve', 'reject'], example: 'approve', description: '심사 결정' })
+  decision: string;
+
+  @ApiProperty({ example: '샘플 강의 품질 확인', description: '심사 사유 (신청자에게 안내되고 감사 로그에 기록)' })
+  reason: string;
+}
+
+/**
+ * 🛡️ 관리자 사용자 관리 컨트롤러
+ *
+ * 모든 엔드포인트는 ADMIN 역할만 접근할 수 있으며,
+ * 변경 작업은 사유와 함께 감사 로그에 기록됩니다.
+ */
+@ApiTags('🛡️ 관리자 (Admin)')
+@ApiBearerAuth('access-token')
+@Controller('admin')
+@UseGuards(RolesGuard)
+@Roles('ADMIN')
+export class AdminController {
+  private readonly logger = new Logger(AdminController.name);
+
+  constructor(private readonly adminService: AdminService) {}
+
+  /**
+   * 사용자 검색
+   */
+  @Get('users')
+  @ApiOperation({
+    summary: '사용자 검색',
+    description: '검색어, 역할, 활성/인증 상태, 가입·로그인 기간으로 사용자를 검색합니다.',
+  })
+  @ApiResponse({ status: 200, description: '사용자 검색 성공' })
+  @ApiResponse({ status: 403, description: '관리자 권한 없음' })
+  async searchUsers(
+    @Query(new ZodValidationPipe(userSearchQuerySchema)) query: UserSearchQuery
+  ) {
+    const result = await this.adminService.searchUsers(query);
+
+    return {
+      success: true,
+      message: '사용자 검색 성공',
+      data: result,
+    };
+  }
+
+  /**
+   * 사용자 역할 변경
+   */
+  @Patch('users/role')
+  @ApiOperation({
+    summary: '사용자 역할 변경',
+    description: '사용자의 역할을 변경합니다. 변경된 사용자는 모든 기기에서 로그아웃됩니다.',
+  })
+  @ApiBody({ type: ChangeUserRoleRequestDto })
+  @ApiResponse({ status: 200, description: '역할 변경 성공' })
+  @ApiResponse({ status: 400, description: '본인 역할 변경 또는 동일한 역할' })
+  @ApiResponse({ status: 404, description: '사용자를 찾을 수 없음' })
+  async changeUserRole(
+    @CurrentUser('userId') adminId: string,
+    @Body(new ZodValidationPipe(changeUserRoleSchema)) changeUserRoleDto: ChangeUserRoleDto,
+    @Req() req: express.Request
+  ) {
+    const user = await this.adminService.changeUserRole(
+      adminId,
+      changeUserRoleDto,
+      extractClientIp(req)
+    );
+
+    this.logger.log(
+      `관리자 역할 변경: ${changeUserRoleDto.userId}`,
+      prepareSecurityLogData(req, {
+        action: 'admin_change_role',
+        adminId,
+        targetUserId: changeUserRoleDto.userId,
+        newRole: changeUserRoleDto.newRole,
+      })
+    );
+
+    return {
+      success: true,
+      message: '사용자 역할이 변경되었습니다',
+      data: user,
+    };
+  }
+
+  /**
+   * 사용자 활성화/비활성화
+   */
+  @Patch('users/status')
+  @ApiOperation({
+    summary: '사용자 활성화/비활성화',
+    description: '사용자 계정을 활성화하거나 비활성화합니다. 비활성화된 사용자는 모든 기기에서 로그아웃됩니다.',
+  })
+  @ApiBody({ type: ToggleUserStatusRequestDto })
+  @ApiResponse({ status: 200, description: '상태 변경 성공' })
+  @ApiResponse({ status: 400, description: '본인 계정 비활성화 또는 동일한 상태' })
+  @ApiResponse({ status: 404, description: '사용자를 찾을 수 없음' })
+  async updateUserStatus(
+    @CurrentUser('userId') adminId: string,
+    @Body(new ZodValidationPipe(toggleUserStatusSchema)) toggleUserStatusDto: ToggleUserStatusDto,
+    @Req() req: express.Request
+  ) {
+    const user = await this.adminService.updateUserStatus(
+      adminId,
+      toggleUserStatusDto,
+      extractClientIp(req)
+    );
+
+    this.logger.log(
+      `관리자 계정 상태 변경: ${toggleUserStatusDto.userId}`,
+      prepareSecurityLogData(req, {
+        action: toggleUserStatusDto.isActive ? 'admin_activate_user' : 'admin_deactivate_user',
+        adminId,
+        targetUserId: toggleUserStatusDto.userId,
+      })
+    );
+
+    return {
+      success: true,
+      message: toggleUserStatusDto.isActive
+        ? '사용자 계정이 활성화되었습니다'
+        : '사용자 계정이 비활성화되었습니다',
+      data: user,
+    };
+  }
+
+  /**
+   * 사용자 일괄 작업
+   */
+  @Post('users/bulk')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '사용자 일괄 작업',
+    description: '여러 사용자를 한 번에 활성화, 비활성화, 이메일 인증 처리 또는 삭제(소프트 삭제)합니다.',
+  })
+  @ApiBody({ type: BulkUserActionRequestDto })
+  @ApiResponse({ status: 200, description: '일괄 작업 완료 (처리/제외된 사용자 포함)' })
+  async bulkAction(
+    @CurrentUser('userId') adminId: string,
+    @Body(new ZodValidationPipe(bulkUserActionSchema)) bulkUserActionDto: BulkUserActionDto,
+    @Req() req: express.Request
+  ) {
+    const result = await this.adminService.bulkAction(
+      adminId,
+      bulkUserActionDto,
+      extractClientIp(req)
+    );
+
+    this.logger.log(
+      `관리자 일괄 작업: ${bulkUserActionDto.action} (${result.processed.length}명)`,
+      prepareSecurityLogData(req, {
+        action: `admin_bulk_${bulkUserActionDto.action}`,
+        adminId,
+        processedCount: result.processed.length,
+      })
+    );
+
+    return {
+      success: true,
+      message: `${result.processed.length}명의 사용자에 대한 작업이 완료되었습니다`,
+      data: result,
+    };
+  }
+
+  /**
+   * 강사 신청 대기열 조회
+   */
+  @Get('instructor-applications')
+  @ApiOperation({
+    summary: '강사 신청 대기열 조회',
+    description: '강사 신청을 상태별로 조회합니다. 기본값은 심사 대기 중인 신청을 오래된 순으로 조회합니다.',
+  })
+  @ApiResponse({ status: 200, description: '강사 신청 조회 성공' })
+  async getInstructorApplications(
+    @Query(new ZodValidationPipe(instructorApplicationQuerySchema)) query: InstructorApplicationQuery
+  ) {
+    const result = await this.adminService.getInstructorApplications(query);
+
+    return {
+      success: true,
+      message: '강사 신청 조회 성공',
+      data: result,
+    };
+  }
+
+  /**
+   * 강사 신청 심사
+   */
+  @Post('instructor-applications/:applicationId/review')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '강사 신청 심사',
+    description: '강사 신청을 승인하거나 거절합니다. 승인 시 강사 역할이 부여되고 신청자는 모든 기기에서 로그아웃되며, 결과는 메일로 안내됩니다.',
+  })
+  @ApiParam({ name: 'applicationId', description: '강사 신청 ID' })
+  @ApiBody({ type: ReviewInstructorApplicationRequestDto })
+  @ApiResponse({ status: 200, description: '심사 완료' })
+  @ApiResponse({ status: 404, description: '강사 신청을 찾을 수 없음' })
+  @ApiResponse({ status: 409, description: '이미 심사가 완료된 신청' })
+  async reviewInstructorApplication(
+    @CurrentUser('userId') adminId: string,
+    @Param('applicationId') applicationId: string,
+    @Body(new ZodValidationPipe(reviewInstructorApplicationSchema)) reviewDto: ReviewInstructorApplicationDto,
+    @Req() req: express.Request
+  ) {
+    const application = await this.adminService.reviewInstructorApplication(
+      adminId,
+      applicationId,
+      reviewDto,
+      extractClientIp(req)
+    );
+
+    this.logger.log(
+      `강사 신청 심사: ${applicationId}`,
+      prepareSecurityLogData(req, {
+        action: `admin_instructor_application_${reviewDto.decision}`,
+        adminId,
+        applicationId,
+      })
+    );
+
+    return {
+      success: true,
+      message: reviewDto.decision === 'approve' ? '강사 신청을 승인했습니다' : '강사 신청을 거절했습니다',
+      data: application,
+    };
+  }
+
+  /**
+   * 관리자 감사 로그 조회
+   */
+  @Get('audit-logs')
+  @ApiOperation({
+    summary: '관리자 감사 로그 조회',
+    description: '관리자 작업 이력을 사유와 함께 조회합니다. 관리자, 대상 사용자, 작업 유형으로 필터링할 수 있습니다.',
+  })
+  @ApiResponse({ status: 200, description: '감사 로그 조회 성공' })
+  async getAuditLogs(
+    @Query(new ZodValidationPipe(adminAuditLogQuerySchema)) query: AdminAuditLogQuery
+  ) {
+    const result = await this.adminService.getAuditLogs(query);
+
+    return {
+      success: true,
+      message: '감사 로그 조회 성공',
+      data: result,
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AdminController } from './admin.controller';
+import { AdminService } from './admin.service';
+import { UsersModule } from '../users/users.module';
+import { MailModule } from '../mail/mail.module';
+import { PrismaModule, RedisModule } from '@packages/database';
+
+@Module({
+  imports: [PrismaModule, RedisModule, UsersModule, MailModule],
+  controllers: [AdminController],
+  providers: [AdminService],
+})
+export class AdminModule {}
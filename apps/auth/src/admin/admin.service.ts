@@ -0,0 +1,405 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { Prisma, PrismaService, RedisService } from '@packages/database';
+import { generateId } from '@packages/common'; // 🆔 CUID2 생성 유틸리티
+import {
+  createUserFilter,
+  createUserOrderBy,
+  type AdminAuditLogQuery,
+  type BulkUserActionDto,
+  type ChangeUserRoleDto,
+  type InstructorApplicationQuery,
+  type ReviewInstructorApplicationDto,
+  type ToggleUserStatusDto,
+  type UserSearchQuery,
+} from '@packages/schemas';
+import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
+
+type AdminAction = 'change_role' | 'activate' | 'deactivate' | 'verify' | 'delete';
+
+/**
+ * 🛡️ 관리자 사용자 관리 서비스
+ *
+ * 모든 변경 작업은 사유와 함께 감사 로그(AdminAuditLog)에 기록되며,
+ * 사용자 변경과 감사 로그 저장은 하나의 트랜잭션으로 처리합니다.
+ */
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    private prismaService: PrismaService,
+    private redisService: RedisService,
+    private usersService: UsersService,
+    private mailService: MailService
+  ) {}
+
+  /**
+   * 사용자 검색
+   * @param query 검색 조건
+   */
+  async searchUsers(query: UserSearchQuery) {
+    return await this.usersService.findMany({
+      filter: createUserFilter(query),
+      orderBy: createUserOrderBy(query),
+      page: query.page,
+      limit: query.limit,
+    });
+  }
+
+  /**
+   * 사용자 역할 변경
+   * 역할이 토큰에 포함되므로 변경 후 기존 세션을 모두 종료합니다.
+   * @param adminId 관리자 ID
+   * @param dto 역할 변경 정보 (사유 필수)
+   * @param ipAddress 요청 IP
+   */
+  async changeUserRole(adminId: string, dto: ChangeUserRoleDto, ipAddress?: string) {
+    this.assertNotSelf(adminId, dto.userId, '자신의 역할은 변경할 수 없습니다');
+    const target = await this.getTargetUser(dto.userId);
+
+    if (target.role === dto.newRole) {
+      throw new BadRequestException(`이미 ${dto.newRole} 역할입니다`);
+    }
+
+    const [updatedUser] = await this.prismaService.$transaction([
+      this.prismaService.user.update({
+        where: { id: dto.userId },
+        data: { role: dto.newRole },
+        select: { id: true, email: true, role: true, isActive: true },
+      }),
+      this.prismaService.adminAuditLog.create({
+        data: this.buildAuditLog(adminId, dto.userId, 'change_role', dto.reason, ipAddress, {
+          previousRole: target.role,
+          newRole: dto.newRole,
+        }),
+      }),
+    ]);
+
+    await this.redisService.blacklistUserTokens(dto.userId);
+    this.logger.log(`역할 변경: ${dto.userId} ${target.role} → ${dto.newRole} (관리자: ${adminId})`);
+
+    return updatedUser;
+  }
+
+  /**
+   * 사용자 활성화/비활성화
+   * 비활성화 시 기존 세션을 모두 종료합니다.
+   * @param adminId 관리자 ID
+   * @param dto 상태 변경 정보 (사유 필수)
+   * @param ipAddress 요청 IP
+   */
+  async updateUserStatus(adminId: string, dto: ToggleUserStatusDto, ipAddress?: string) {
+    if (!dto.isActive) {
+      this.assertNotSelf(adminId, dto.userId, '자신의 계정은 비활성화할 수 없습니다');
+    }
+    const target = await this.getTargetUser(dto.userId);
+
+    if (target.isActive === dto.isActive) {
+      throw new BadRequestException(
+        dto.isActive ? '이미 활성화된 계정입니다' : '이미 비활성화된 계정입니다'
+      );
+    }
+
+    const [updatedUser] = await this.prismaService.$transaction([
+      this.prismaService.user.update({
+        where: { id: dto.userId },
+        data: { isActive: dto.isActive },
+        select: { id: true, email: true, role: true, isActive: true },
+      }),
+      this.prismaService.adminAuditLog.create({
+        data: this.buildAuditLog(
+          adminId,
+          dto.userId,
+          dto.isActive ? 'activate' : 'deactivate',
+          dto.reason,
+          ipAddress
+        ),
+      }),
+    ]);
+
+    if (!dto.isActive) {
+      await this.redisService.blacklistUserTokens(dto.userId);
+    }
+    this.logger.log(
+      `계정 ${dto.isActive ? '활성화' : '비활성화'}: ${dto.userId} (관리자: ${adminId})`
+    );
+
+    return updatedUser;
+  }
+
+  /**
+   * 사용자 일괄 작업
+   * 존재하지 않는 사용자와 관리자 본인은 건너뛰고 결과에 포함합니다.
+   * 삭제는 소프트 삭제(비활성화)로 처리합니다.
+   * @param adminId 관리자 ID
+   * @param dto 일괄 작업 정보 (사유 필수)
+   * @param ipAddress 요청 IP
+   */
+  async bulkAction(adminId: string, dto: BulkUserActionDto, ipAddress?: string) {
+    const requestedIds = [...new Set(dto.userIds)];
+    const existingUsers = await this.prismaService.user.findMany({
+      where: { id: { in: requestedIds } },
+      select: { id: true },
+    });
+    const existingIds = new Set(existingUsers.map((user) => user.id));
+
+    const targetIds = requestedIds.filter((id) => existingIds.has(id) && id !== adminId);
+    const skipped = requestedIds
+      .filter((id) => !targetIds.includes(id))
+      .map((id) => ({
+        userId: id,
+        reason: id === adminId ? '관리자 본인은 일괄 작업 대상에서 제외됩니다' : '사용자를 찾을 수 없습니다',
+      }));
+
+    if (targetIds.length === 0) {
+      return { action: dto.action, processed: [], skipped };
+    }
+
+    const bulkId = generateId();
+    const data: Prisma.UserUpdateManyMutationInput =
+      dto.action === 'activate'
+        ? { isActive: true }
+        : dto.action === 'verify'
+          ? { isVerified: true }
+          : { isActive: false }; // deactivate, delete(소프트 삭제)
+
+    await this.prismaService.$transaction([
+      this.prismaService.user.updateMany({
+        where: { id: { in: targetIds } },
+        data,
+      }),
+      this.prismaService.adminAuditLog.createMany({
+        data: targetIds.map((userId) =>
+          this.buildAuditLog(adminId, userId, dto.action, dto.reason, ipAddress, { bulkId })
+        ),
+      }),
+    ]);
+
+    if (dto.action === 'deactivate' || dto.action === 'delete') {
+      for (const userId of targetIds) {
+        await this.redisService.blacklistUserTokens(userId);
+      }
+    }
+    this.logger.log(
+      `일괄 작업(${dto.action}): ${targetIds.length}명 처리, ${skipped.length}명 제외 (관리자: ${adminId}, bulkId: ${bulkId})`
+    );
+
+    return { action: dto.action, bulkId, processed: targetIds, skipped };
+  }
+
+  /**
+   * 강사 신청 대기열 조회
+   * @param query 조회 조건 (기본: 심사 대기, 오래된 순)
+   */
+  async getInstructorApplications(query: InstructorApplicationQuery) {
+    const where: Prisma.InstructorApplicationWhereInput = { status: query.status };
+
+    const [totalItems, applications] = await this.prismaService.$transaction([
+      this.prismaService.instructorApplication.count({ where }),
+      this.prismaService.instructorApplication.findMany({
+        where,
+        orderBy: { createdAt: query.sortOrder },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+        include: {
+          user: {
+            select: { id: true, email: true, username: true, firstName: true, lastName: true },
+          },
+        },
+      }),
+    ]);
+
+    const totalPages = Math.ceil(totalItems / query.limit);
+
+    return {
+      applications,
+      pagination: {
+        currentPage: query.page,
+        totalPages,
+        totalItems,
+        itemsPerPage: query.limit,
+        hasNextPage: query.page < totalPages,
+        hasPreviousPage: query.page > 1,
+      },
+    };
+  }
+
+  /**
+   * 강사 신청 심사
+   * 승인 시 UsersService로 역할을 INSTRUCTOR로 바꾸고 감사 로그를 남긴 뒤
+   * 기존 세션을 모두 종료해 새 역할이 담긴 토큰으로 다시 로그인하게 합니다.
+   * 심사 결과는 신청자에게 메일로 안내합니다.
+   * @param adminId 관리자 ID
+   * @param applicationId 신청 ID
+   * @param dto 승인/거절 결정과 사유
+   * @param ipAddress 요청 IP
+   */
+  async reviewInstructorApplication(
+    adminId: string,
+    applicationId: string,
+    dto: ReviewInstructorApplicationDto,
+    ipAddress?: string
+  ) {
+    const application = await this.prismaService.instructorApplication.findUnique({
+      where: { id: applicationId },
+      include: { user: { select: { id: true, email: true, role: true } } },
+    });
+
+    if (!application) {
+      throw new NotFoundException('강사 신청을 찾을 수 없습니다');
+    }
+
+    const approved = dto.decision === 'approve';
+    if (approved && application.user.role !== 'USER') {
+      throw new BadRequestException('신청자가 이미 강사 또는 관리자 권한을 가지고 있습니다');
+    }
+
+    // 대기 중인 신청만 심사 (동시 심사 방지)
+    const claimed = await this.prismaService.instructorApplication.updateMany({
+      where: { id: applicationId, status: 'pending' },
+      data: {
+        status: approved ? 'approved' : 'rejected',
+        reviewedBy: adminId,
+        reviewNote: dto.reason,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictException('이미 심사가 완료된 신청입니다');
+    }
+
+    if (approved) {
+      try {
+        await this.usersService.update(application.userId, { role: 'INSTRUCTOR' });
+      } catch (error) {
+        // 역할 변경 실패 시 다시 심사할 수 있도록 대기 상태로 되돌림
+        await this.prismaService.instructorApplication.update({
+          where: { id: applicationId },
+          data: { status: 'pending', reviewedBy: null, reviewNote: null, reviewedAt: null },
+        });
+        throw error;
+      }
+
+      await this.prismaService.adminAuditLog.create({
+        data: this.buildAuditLog(adminId, application.userId, 'change_role', dto.reason, ipAddress, {
+          previousRole: application.user.role,
+          newRole: 'INSTRUCTOR',
+          applicationId,
+        }),
+      });
+
+      await this.redisService.blacklistUserTokens(application.userId);
+    }
+
+    this.logger.log(
+      `강사 신청 ${approved ? '승인' : '거절'}: ${application.userId} (${applicationId}, 관리자: ${adminId})`
+    );
+
+    try {
+      await this.mailService.sendInstructorApplicationResultMail(
+        application.user.email,
+        approved,
+        dto.reason
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : '메일 발송 실패';
+      this.logger.error(`강사 신청 결과 메일 발송 실패: ${errorMessage}`);
+      // 메일 발송 실패가 심사 결과를 되돌리지 않도록 함
+    }
+
+    return await this.prismaService.instructorApplication.findUnique({
+      where: { id: applicationId },
+    });
+  }
+
+  /**
+   * 관리자 감사 로그 조회
+   * @param query 조회 조건
+   */
+  async getAuditLogs(query: AdminAuditLogQuery) {
+    const where: Prisma.AdminAuditLogWhereInput = {
+      ...(query.adminId && { adminId: query.adminId }),
+      ...(query.targetUserId && { targetUserId: query.targetUserId }),
+      ...(query.action && { action: query.action }),
+    };
+
+    const [totalItems, logs] = await this.prismaService.$transaction([
+      this.prismaService.adminAuditLog.count({ where }),
+      this.prismaService.adminAuditLog.findMany({
+        where,
+        orderBy: { createdAt: query.sortOrder },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+    ]);
+
+    const totalPages = Math.ceil(totalItems / query.limit);
+
+    return {
+      logs,
+      pagination: {
+        currentPage: query.page,
+        totalPages,
+        totalItems,
+        itemsPerPage: query.limit,
+        hasNextPage: query.page < totalPages,
+        hasPreviousPage: query.page > 1,
+      },
+    };
+  }
+
+  /**
+   * 작업 대상 사용자 조회
+   */
+  private async getTargetUser(userId: string) {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true, isActive: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('사용자를 찾을 수 없습니다');
+    }
+
+    return user;
+  }
+
+  /**
+   * 관리자 본인 계정에 대한 작업 차단 (관리자 권한 상실 방지)
+   */
+  private assertNotSelf(adminId: string, userId: string, message: string) {
+    if (adminId === userId) {
+      throw new BadRequestException(message);
+    }
+  }
+
+  /**
+   * 감사 로그 레코드 생성
+   */
+  private buildAuditLog(
+    adminId: string,
+    targetUserId: string,
+    action: AdminAction,
+    reason: string,
+    ipAddress?: string,
+    metadata?: Record<string, string>
+  ): Prisma.AdminAuditLogCreateManyInput {
+    return {
+      id: generateId(), // 🆔 CUID2 ID 직접 지정
+      adminId,
+      targetUserId,
+      action,
+      reason,
+      ipAddress,
+      metadata,
+    };
+  }
+}
@@ -1,5 +1,5 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConditionalModule } from '@nestjs/config';
 import { APP_GUARD, APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
 
@@ -9,12 +9,16 @@ import { jwtConfig } from '@packages/config';
 import { redisConfig } from '@packages/config';
 import { socialConfig } from '@packages/config';
 import { securityConfig } from '@packages/config';
+import { mailConfig } from '@packages/config';
 
 // 모듈들
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
+import { AdminModule } from './admin/admin.module';
+import { InstructorApplicationsModule } from './instructor-applications/instructor-applications.module';
+import { DiagnosticsModule } from './diagnostics/diagnostics.module';
 // import { RedisModule } from './redis/redis.module';
 import { PrismaModule, RedisModule } from '@packages/database';
 
@@ -28,7 +32,7 @@ import { LoggingInterceptor } from '@packages/common';
     // 설정 모듈
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [databaseConfig, jwtConfig, redisConfig, socialConfig, securityConfig],
+      load: [databaseConfig, jwtConfig, redisConfig, socialConfig, securityConfig, mailConfig],
       envFilePath: ['.env', '.env.development'],
     }),
 
@@ -45,6 +49,14 @@ import { LoggingInterceptor } from '@packages/common';
     RedisModule,
     AuthModule,
     UsersModule,
+    AdminModule,
+    InstructorApplicationsModule,
+
+    // 진단 모듈 (ENABLE_DIAGNOSTICS=true 일 때만 등록 - 운영 환경에서는 비활성화)
+    ConditionalModule.registerWhen(
+      DiagnosticsModule,
+      (env: NodeJS.ProcessEnv) => env.ENABLE_DIAGNOSTICS === 'true'
+    ),
   ],
   controllers: [AppController],
   providers: [
@@ -72,7 +72,7 @@ describe('AuthController', () => {
       expect(result).toEqual({
         success: true,
         message: expectedResult.message,
-        data: expectedResult.user,
+        data: { user: expectedResult.user },
       });
       expect(authService.register).toHaveBeenCalledWith(registerDto);
     });
@@ -97,7 +97,9 @@ describe('AuthController', () => {
           id: 'user-id-123',
           email: 'test@example.com',
           username: 'testuser',
-          isVerified: true,
+          isEmailVerified: true,
+          createdAt: '2025-01-01T00:00:00.000Z',
+          updatedAt: '2025-01-01T00:00:00.000Z',
         },
         tokens: {
           accessToken: 'access-token',
@@ -147,7 +149,7 @@ describe('AuthController', () => {
       authService.refreshTokens.mockResolvedValue(expectedResult);
 
       // Act
-      const result = await authController.refreshToken(refreshTokenDto);
+      const result = await authController.refreshToken(refreshTokenDto, mockRequest);
 
       // Assert
       expect(result).toEqual({
@@ -163,7 +165,7 @@ describe('AuthController', () => {
       authService.validateToken.mockResolvedValue(null);
 
       // Act & Assert
-      await expect(authController.refreshToken(refreshTokenDto))
+      await expect(authController.refreshToken(refreshTokenDto, mockRequest))
         .rejects.toThrow(UnauthorizedException);
     });
   });
@@ -185,14 +187,14 @@ describe('AuthController', () => {
       expect(authService.logout).toHaveBeenCalledWith(userId, 'valid-token');
     });
 
-    it('Authorization 헤더가 없으면 UnauthorizedException이 발생해야 함', async () => {
+    it('Authorization 헤더가 없으면 BadRequestException이 발생해야 함', async () => {
       // Arrange
       const userId = 'user-id-123';
       const requestWithoutAuth = { ...mockRequest, headers: {} };
 
       // Act & Assert
       await expect(authController.logout(userId, requestWithoutAuth))
-        .rejects.toThrow(UnauthorizedException);
+        .rejects.toThrow(BadRequestException);
     });
   });
 
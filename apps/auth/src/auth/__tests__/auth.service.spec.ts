@@ -6,6 +6,8 @@ import { AuthService } from '../auth.service';
 import { UsersService } from '../../users/users.service';
 import { RedisService } from '@packages/database';
 import { PrismaService } from '@packages/database';
+import { MailService } from '../../mail/mail.service';
+import { TwoFactorService } from '../two-factor.service';
 import { UserFixture, AuthFixture } from '../../../test/fixtures/user.fixture';
 
 describe('AuthService', () => {
@@ -13,6 +15,7 @@ describe('AuthService', () => {
   let usersService: jest.Mocked<UsersService>;
   let jwtService: jest.Mocked<JwtService>;
   let redisService: jest.Mocked<RedisService>;
+  let prismaService: { securityEvent: { create: jest.Mock } };
 
   const mockUser = {
     id: 'user-id-123',
@@ -92,7 +95,13 @@ describe('AuthService', () => {
             addToBlacklist: jest.fn(),
             isRefreshTokenValid: jest.fn(),
             removeRefreshToken: jest.fn(),
+            consumeRefreshToken: jest.fn(),
             blacklistUserTokens: jest.fn(),
+            storeSession: jest.fn(),
+            getSession: jest.fn(),
+            getUserSessions: jest.fn(),
+            removeSession: jest.fn(),
+            storeEmailVerificationToken: jest.fn(),
           } as any,
         },
         {
@@ -120,6 +129,24 @@ describe('AuthService', () => {
             loginHistory: {
               create: jest.fn().mockResolvedValue({}),
             },
+            securityEvent: {
+              create: jest.fn().mockResolvedValue({}),
+            },
+          } as any,
+        },
+        {
+          provide: MailService,
+          useValue: {
+            sendPasswordResetMail: jest.fn(),
+            sendEmailVerificationMail: jest.fn().mockResolvedValue(undefined),
+          } as any,
+        },
+        {
+          provide: TwoFactorService,
+          useValue: {
+            isEnabled: jest.fn().mockResolvedValue(false),
+            createLoginChallenge: jest.fn(),
+            resolveLoginChallenge: jest.fn(),
           } as any,
         },
       ],
@@ -129,6 +156,7 @@ describe('AuthService', () => {
     usersService = module.get(UsersService);
     jwtService = module.get(JwtService);
     redisService = module.get(RedisService);
+    prismaService = module.get(PrismaService);
   });
 
   afterEach(() => {
@@ -145,7 +173,11 @@ describe('AuthService', () => {
         id: 'user-id-123',
         email: registerDto.email,
         username: registerDto.username,
+        firstName: registerDto.firstName,
+        lastName: registerDto.lastName,
         isVerified: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
       };
 
       usersService.create.mockResolvedValue(mockCreatedUser as any);
@@ -160,7 +192,11 @@ describe('AuthService', () => {
           id: mockCreatedUser.id,
           email: mockCreatedUser.email,
           username: mockCreatedUser.username,
-          isVerified: mockCreatedUser.isVerified,
+          firstName: mockCreatedUser.firstName,
+          lastName: mockCreatedUser.lastName,
+          isEmailVerified: mockCreatedUser.isVerified,
+          createdAt: mockCreatedUser.createdAt.toISOString(),
+          updatedAt: mockCreatedUser.updatedAt.toISOString(),
         },
       });
       expect(usersService.create).toHaveBeenCalledWith(registerDto);
@@ -214,11 +250,17 @@ describe('AuthService', () => {
           id: mockUser.id,
           email: mockUser.email,
           username: mockUser.username,
-          isVerified: mockUser.isVerified,
+          firstName: mockUser.firstName,
+          lastName: mockUser.lastName,
+          isEmailVerified: mockUser.isVerified,
+          createdAt: mockUser.createdAt.toISOString(),
+          updatedAt: mockUser.updatedAt.toISOString(),
         },
         tokens: {
           accessToken: 'access-token',
           refreshToken: 'refresh-token',
+          expiresIn: 900,
+          tokenType: 'Bearer',
         },
       });
       expect(usersService.updateLastLogin).toHaveBeenCalledWith(mockUser.id);
@@ -356,8 +398,93 @@ describe('AuthService', () => {
       expect(result).toEqual({
         accessToken: 'new-access-token',
         refreshToken: 'new-refresh-token',
+        expiresIn: 900,
+        tokenType: 'Bearer',
       });
       expect(redisService.removeRefreshToken).toHaveBeenCalledWith(mockUser.id, tokenId);
     });
+
+    describe('세션(토큰 패밀리) 토큰', () => {
+      const refreshToken = 'session-refresh-token';
+      const tokenId = 'token-id-123';
+      const sessionId = 'session-id-123';
+      const session = {
+        sessionId,
+        tokenId,
+        ipAddress: '127.0.0.1',
+        userAgent: 'test-agent',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        lastUsedAt: '2025-01-01T00:00:00.000Z',
+      };
+
+      beforeEach(() => {
+        jwtService.verify.mockReturnValue({ sub: mockUser.id, tokenId, sid: sessionId });
+      });
+
+      it('현재 토큰이면 같은 세션을 유지한 채 토큰을 교체해야 함', async () => {
+        // Arrange
+        redisService.getSession.mockResolvedValue(session);
+        redisService.consumeRefreshToken.mockResolvedValue(true);
+        usersService.findById.mockResolvedValue(mockUser as any);
+        jwtService.signAsync
+          .mockResolvedValueOnce('new-access-token')
+          .mockResolvedValueOnce('new-refresh-token');
+
+        // Act
+        const result = await authService.refreshTokens(refreshToken, tokenId, '127.0.0.1', 'test-agent');
+
+        // Assert
+        expect(result.refreshToken).toBe('new-refresh-token');
+        expect(redisService.consumeRefreshToken).toHaveBeenCalledWith(mockUser.id, tokenId);
+        expect(jwtService.signAsync).toHaveBeenCalledWith(
+          expect.objectContaining({ sub: mockUser.id, sid: sessionId }),
+          expect.anything()
+        );
+        expect(redisService.storeSession).toHaveBeenCalledWith(
+          mockUser.id,
+          expect.objectContaining({ sessionId, createdAt: session.createdAt }),
+          expect.any(Number)
+        );
+        expect(redisService.removeSession).not.toHaveBeenCalled();
+      });
+
+      it('이미 교체된 토큰을 재사용하면 세션을 폐기하고 보안 이벤트를 기록해야 함', async () => {
+        // Arrange
+        redisService.getSession.mockResolvedValue(session);
+        redisService.consumeRefreshToken.mockResolvedValue(false);
+
+        // Act
+        const error = await authService
+          .refreshTokens(refreshToken, tokenId, '10.0.0.1', 'attacker-agent')
+          .catch((e: unknown) => e);
+
+        // Assert
+        expect(error).toBeInstanceOf(UnauthorizedException);
+        expect((error as UnauthorizedException).getResponse()).toEqual(
+          expect.objectContaining({ code: 'REFRESH_TOKEN_REUSED' })
+        );
+        expect(redisService.removeSession).toHaveBeenCalledWith(mockUser.id, sessionId);
+        expect(prismaService.securityEvent.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            userId: mockUser.id,
+            type: 'refresh_token_reuse',
+            ipAddress: '10.0.0.1',
+            metadata: { sessionId },
+          }),
+        });
+        expect(jwtService.signAsync).not.toHaveBeenCalled();
+      });
+
+      it('종료된 세션의 토큰은 사용 처리 없이 거부해야 함', async () => {
+        // Arrange
+        redisService.getSession.mockResolvedValue(null);
+
+        // Act & Assert
+        await expect(authService.refreshTokens(refreshToken, tokenId))
+          .rejects.toThrow(UnauthorizedException);
+        expect(redisService.consumeRefreshToken).not.toHaveBeenCalled();
+        expect(prismaService.securityEvent.create).not.toHaveBeenCalled();
+      });
+    });
   });
 });
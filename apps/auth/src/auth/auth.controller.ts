@@ -22,6 +22,7 @@ import {
   ApiExtraModels,
   getSchemaPath,
 } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
 import express from 'express';
 import { AuthService } from './auth.service';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
@@ -33,6 +34,7 @@ import {
   CurrentUser,
   ZodBody,
   ZodValidationPipe,
+  type JwtUser,
 } from '@packages/common';
 
 // Zod 스키마 import from unified schemas package
@@ -42,10 +44,20 @@ import {
   refreshTokenSchema,
   passwordStrengthSchema,
   updateProfileSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
+  verifyEmailSchema,
+  resendVerificationSchema,
   type RegisterDto,
   type LoginDto,
   type RefreshTokenDto,
   type UpdateProfileDto,
+  type ForgotPasswordDto,
+  type ResetPasswordDto,
+  type ChangePasswordDto,
+  type VerifyEmailDto,
+  type ResendVerificationDto,
 } from '@packages/schemas';
 
 // 스웨거 응답 DTO 클래스들
@@ -200,6 +212,43 @@ class PasswordStrengthRequestDto {
   password: string;
 }
 
+class ForgotPasswordRequestDto {
+  @ApiProperty({ example: 'student1@example.com', description: '가입한 이메일' })
+  email: string;
+}
+
+class ResetPasswordRequestDto {
+  @ApiProperty({ example: 'Qm9zc2VzLXJlc2V0LXRva2Vu...', description: '메일로 받은 재설정 토큰' })
+  token: string;
+
+  @ApiProperty({ example: 'NewPassword123!', description: '새 비밀번호 (8자 이상, 대소문자, 숫자, 특수문자 포함)' })
+  newPassword: string;
+
+  @ApiProperty({ example: 'NewPassword123!', description: '새 비밀번호 확인' })
+  confirmPassword: string;
+}
+
+class ChangePasswordRequestDto {
+  @ApiProperty({ example: 'Password123!', description: '현재 비밀번호' })
+  currentPassword: string;
+
+  @ApiProperty({ example: 'NewPassword123!', description: '새 비밀번호 (8자 이상, 대소문자, 숫자, 특수문자 포함)' })
+  newPassword: string;
+
+  @ApiProperty({ example: 'NewPassword123!', description: '새 비밀번호 확인' })
+  confirmPassword: string;
+}
+
+class VerifyEmailRequestDto {
+  @ApiProperty({ example: 'Qm9zc2VzLXZlcmlmeS10b2tlbg...', description: '메일로 받은 인증 토큰' })
+  token: string;
+}
+
+class ResendVerificationRequestDto {
+  @ApiProperty({ example: 'user@example.com', description: '가입한 이메일' })
+  email: string;
+}
+
 class UpdateProfileRequestDto {
   @ApiProperty({ example: 'newusername', description: '사용자명 (선택사항)', required: false })
   username?: string;
@@ -235,6 +284,8 @@ class UpdateProfileRequestDto {
   RegisterRequestDto,
   RefreshTokenRequestDto,
   PasswordStrengthRequestDto,
+  ForgotPasswordRequestDto,
+  ResetPasswordRequestDto,
   UpdateProfileRequestDto,
   ErrorResponseDto,
 )
@@ -332,7 +383,7 @@ export class AuthController {
   })
   @ApiResponse({
     status: 200,
-    description: '로그인 성공',
+    description: '로그인 성공 (2단계 인증 사용자는 data에 requiresTwoFactor, challengeToken 반환)',
     type: LoginResponseDto,
   })
   @ApiResponse({
@@ -365,6 +416,15 @@ export class AuthController {
         userAgent
       );
 
+      // 2단계 인증 사용자는 챌린지 반환 (POST /auth/2fa/verify 로 로그인 완료)
+      if ('requiresTwoFactor' in result) {
+        return {
+          success: true,
+          message: '2단계 인증 코드를 입력해주세요',
+          data: result,
+        };
+      }
+
       return {
         success: true,
         message: '로그인이 완료되었습니다',
@@ -420,7 +480,10 @@ export class AuthController {
     description: '유효하지 않은 리프레시 토큰',
     type: ErrorResponseDto,
   })
-  async refreshToken(@Body() refreshTokenDto: RefreshTokenDto) {
+  async refreshToken(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Req() req: express.Request
+  ) {
     try {
       // 리프레시 토큰에서 토큰 ID 추출
       const refreshToken = refreshTokenDto.refreshToken;
@@ -435,7 +498,9 @@ export class AuthController {
 
       const tokens = await this.authService.refreshTokens(
         refreshToken,
-        tokenPayload.tokenId
+        tokenPayload.tokenId,
+        extractClientIp(req),
+        req.get('User-Agent')
       );
 
       return {
@@ -566,6 +631,275 @@ export class AuthController {
     }
   }
 
+  /**
+   * 비밀번호 재설정 요청
+   */
+  @Public()
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @ZodBody(forgotPasswordSchema)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 분당 5회 제한
+  @ApiOperation({ 
+    summary: '비밀번호 재설정 요청',
+    description: '가입한 이메일로 1회용 비밀번호 재설정 링크를 보냅니다. 계정 존재 여부와 관계없이 같은 응답을 반환합니다.' 
+  })
+  @ApiBody({ 
+    type: ForgotPasswordRequestDto,
+    description: '가입한 이메일'
+  })
+  @ApiResponse({
+    status: 200,
+    description: '재설정 안내 발송 (계정 존재 여부와 무관)',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        message: { type: 'string', example: '입력하신 이메일로 비밀번호 재설정 안내를 보냈습니다' }
+      }
+    }
+  })
+  @ApiResponse({
+    status: 400,
+    description: '잘못된 요청 데이터',
+    type: ErrorResponseDto,
+  })
+  async forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+    @Req() req: express.Request
+  ) {
+    const securityLogData = prepareSecurityLogData(req, {
+      action: 'forgot_password',
+      email: forgotPasswordDto.email,
+    });
+    this.logger.log(`비밀번호 재설정 요청: ${forgotPasswordDto.email}`, securityLogData);
+
+    const result = await this.authService.forgotPassword(forgotPasswordDto);
+
+    return {
+      success: true,
+      message: result.message,
+    };
+  }
+
+  /**
+   * 비밀번호 재설정
+   */
+  @Public()
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @ZodBody(resetPasswordSchema)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한
+  @ApiOperation({ 
+    summary: '비밀번호 재설정',
+    description: '메일로 받은 재설정 토큰으로 새 비밀번호를 설정합니다. 토큰은 한 번만 사용할 수 있으며, 재설정 후 모든 기기에서 로그아웃됩니다.' 
+  })
+  @ApiBody({ 
+    type: ResetPasswordRequestDto,
+    description: '재설정 토큰과 새 비밀번호'
+  })
+  @ApiResponse({
+    status: 200,
+    description: '비밀번호 재설정 성공',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        message: { type: 'string', example: '비밀번호가 재설정되었습니다. 새 비밀번호로 다시 로그인해주세요' }
+      }
+    }
+  })
+  @ApiResponse({
+    status: 400,
+    description: '유효하지 않거나 만료된 토큰 또는 잘못된 비밀번호',
+    type: ErrorResponseDto,
+  })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    try {
+      const result = await this.authService.resetPassword(resetPasswordDto);
+
+      return {
+        success: true,
+        message: result.message,
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unknown error occurred';
+      this.logger.error(`비밀번호 재설정 실패: ${errorMessage}`);
+      throw error;
+    }
+  }
+
+  /**
+   * 비밀번호 변경 (로그인 사용자)
+   */
+  @Post('change-password')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 분당 5회 제한
+  @ApiBearerAuth('access-token')
+  @ApiOperation({ 
+    summary: '비밀번호 변경',
+    description: '현재 비밀번호를 확인한 뒤 새 비밀번호로 변경합니다. 최근 사용한 비밀번호는 다시 사용할 수 없으며, 다른 기기의 세션은 종료되고 현재 세션에는 새 토큰이 발급됩니다.' 
+  })
+  @ApiBody({ 
+    type: ChangePasswordRequestDto,
+    description: '현재 비밀번호와 새 비밀번호'
+  })
+  @ApiResponse({
+    status: 200,
+    description: '비밀번호 변경 성공',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        message: { type: 'string', example: '비밀번호가 변경되었습니다. 다른 기기에서는 다시 로그인해야 합니다' },
+        data: {
+          type: 'object',
+          properties: {
+            tokens: {
+              type: 'object',
+              properties: {
+                accessToken: { type: 'string', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' },
+                refreshToken: { type: 'string', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' },
+              }
+            }
+          }
+        }
+      }
+    }
+  })
+  @ApiResponse({
+    status: 400,
+    description: '현재 비밀번호 불일치, 약한 비밀번호 또는 최근 사용한 비밀번호',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: '인증이 필요합니다',
+    type: ErrorResponseDto,
+  })
+  async changePassword(
+    @CurrentUser() user: JwtUser,
+    @Body(new ZodValidationPipe(changePasswordSchema)) changePasswordDto: ChangePasswordDto,
+    @Req() req: express.Request
+  ) {
+    const { userId } = user;
+    const securityLogData = prepareSecurityLogData(req, {
+      action: 'change_password',
+      userId,
+    });
+    this.logger.log(`비밀번호 변경 요청: ${userId}`, securityLogData);
+
+    const result = await this.authService.changePassword(userId, changePasswordDto, {
+      sessionId: user.sessionId,
+      ipAddress: extractClientIp(req),
+      userAgent: req.get('User-Agent'),
+    });
+
+    return {
+      success: true,
+      message: result.message,
+      data: { tokens: result.tokens },
+    };
+  }
+
+  /**
+   * 이메일 인증
+   */
+  @Public()
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ZodBody(verifyEmailSchema)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한
+  @ApiOperation({ 
+    summary: '이메일 인증',
+    description: '회원가입 시 메일로 받은 인증 토큰으로 이메일 주소를 인증합니다. 토큰은 한 번만 사용할 수 있습니다.' 
+  })
+  @ApiBody({ 
+    type: VerifyEmailRequestDto,
+    description: '인증 토큰'
+  })
+  @ApiResponse({
+    status: 200,
+    description: '이메일 인증 성공',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        message: { type: 'string', example: '이메일 인증이 완료되었습니다' }
+      }
+    }
+  })
+  @ApiResponse({
+    status: 400,
+    description: '유효하지 않거나 만료된 토큰',
+    type: ErrorResponseDto,
+  })
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    try {
+      const result = await this.authService.verifyEmail(verifyEmailDto);
+
+      return {
+        success: true,
+        message: result.message,
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unknown error occurred';
+      this.logger.error(`이메일 인증 실패: ${errorMessage}`);
+      throw error;
+    }
+  }
+
+  /**
+   * 이메일 인증 메일 재발송
+   */
+  @Public()
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  @ZodBody(resendVerificationSchema)
+  @Throttle({ default: { limit: 3, ttl: 60000 } }) // 분당 3회 제한
+  @ApiOperation({ 
+    summary: '이메일 인증 메일 재발송',
+    description: '인증되지 않은 계정에 인증 메일을 다시 보냅니다. 계정 존재 여부와 관계없이 같은 응답을 반환합니다.' 
+  })
+  @ApiBody({ 
+    type: ResendVerificationRequestDto,
+    description: '가입한 이메일'
+  })
+  @ApiResponse({
+    status: 200,
+    description: '재발송 안내 (계정 존재 여부와 무관)',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        message: { type: 'string', example: '인증이 필요한 계정이라면 인증 메일을 다시 보냈습니다' }
+      }
+    }
+  })
+  @ApiResponse({
+    status: 400,
+    description: '잘못된 요청 데이터',
+    type: ErrorResponseDto,
+  })
+  async resendVerification(
+    @Body() resendVerificationDto: ResendVerificationDto,
+    @Req() req: express.Request
+  ) {
+    const securityLogData = prepareSecurityLogData(req, {
+      action: 'resend_verification',
+      email: resendVerificationDto.email,
+    });
+    this.logger.log(`인증 메일 재발송 요청: ${resendVerificationDto.email}`, securityLogData);
+
+    const result = await this.authService.resendVerification(resendVerificationDto);
+
+    return {
+      success: true,
+      message: result.message,
+    };
+  }
+
   /**
    * 사용자 프로필 조회 (인증 테스트용)
    */
@@ -727,14 +1061,18 @@ export class AuthController {
     type: ErrorResponseDto,
   })
   async updateProfile(
-    @CurrentUser('userId') userId: string,
+    @CurrentUser() user: JwtUser,
     @Body() updateProfileDto: any // 임시로 일반 any 타입 사용
   ) {
     try {
       // 수동으로 Zod 스키마 검증
       const validatedData = updateProfileSchema.parse(updateProfileDto);
       
-      const result = await this.authService.updateProfile(userId, validatedData);
+      const result = await this.authService.updateProfile(
+        user.userId,
+        validatedData,
+        user.sessionId
+      );
       
       const response: any = {
         success: true,
@@ -852,112 +1190,4 @@ export class AuthController {
       timestamp: new Date().toISOString(),
     };
   }
-
-  // === 디버깅 메서드들 ===
-
-  /**
-   * 사용자 목록 조회 (디버깅용)
-   */
-  @Public()
-  @Get('debug/users')
-  @ApiOperation({ 
-    summary: '[디버깅] 사용자 목록 조회',
-    description: '개발환경에서 전체 사용자 목록을 조회합니다.' 
-  })
-  @ApiResponse({
-    status: 200,
-    description: '사용자 목록',
-    schema: {
-      type: 'object',
-      properties: {
-        success: { type: 'boolean', example: true },
-        data: { 
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              id: { type: 'string', example: 'm3n4o5p6q7r8s9t0u1v2w3x4' },
-              email: { type: 'string', example: 'student1@example.com' },
-              username: { type: 'string', example: 'student_park' },
-              firstName: { type: 'string', example: '박' },
-              lastName: { type: 'string', example: '학생' },
-              isActive: { type: 'boolean', example: true },
-              isEmailVerified: { type: 'boolean', example: true },
-              createdAt: { type: 'string', example: '2025-06-02T11:00:00.000Z' },
-              updatedAt: { type: 'string', example: '2025-06-17T06:38:24.855Z' }
-            }
-          }
-        }
-      }
-    }
-  })
-  async getUsers() {
-    try {
-      const users = await this.authService.getUsers();
-      return {
-        success: true,
-        data: users,
-      };
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'An unknown error occurred';
-      this.logger.error(`사용자 목록 조회 실패: ${errorMessage}`);
-      throw error;
-    }
-  }
-
-  /**
-   * JWT 시크릿 확인 (디버깅용)
-   */
-  @Public()
-  @Get('debug/jwt-config')
-  @ApiOperation({ 
-    summary: '[디버깅] JWT 설정 확인',
-    description: '개발환경에서 JWT 설정 상태를 확인합니다.' 
-  })
-  @ApiResponse({
-    status: 200,
-    description: 'JWT 설정 정보',
-    schema: {
-      type: 'object',
-      properties: {
-        success: { type: 'boolean', example: true },
-        data: {
-          type: 'object',
-          properties: {
-            accessSecret_preview: { type: 'string', example: 'abcd1234...' },
-            refreshSecret_preview: { type: 'string', example: 'efgh5678...' },
-            expiresIn: { type: 'string', example: '15m' },
-            JWT_ACCESS_SECRET_env: { type: 'string', example: 'abcd1234...' },
-            REFRESH_TOKEN_SECRET_env: { type: 'string', example: 'efgh5678...' }
-          }
-        }
-      }
-    }
-  })
-  async getJwtConfig() {
-    const configService = this.authService['configService'];
-    const accessSecret = configService.get<string>('jwt.accessToken.secret');
-    const refreshSecret = configService.get<string>('jwt.refreshToken.secret');
-    const expiresIn = configService.get<string>('jwt.accessToken.expiresIn');
-
-    return {
-      success: true,
-      data: {
-        accessSecret_preview: accessSecret
-          ? accessSecret.substring(0, 8) + '...'
-          : 'NONE',
-        refreshSecret_preview: refreshSecret
-          ? refreshSecret.substring(0, 8) + '...'
-          : 'NONE',
-        expiresIn,
-        JWT_ACCESS_SECRET_env: process.env.JWT_ACCESS_SECRET
-          ? process.env.JWT_ACCESS_SECRET.substring(0, 8) + '...'
-          : 'NONE',
-        REFRESH_TOKEN_SECRET_env: process.env.REFRESH_TOKEN_SECRET
-          ? process.env.REFRESH_TOKEN_SECRET.substring(0, 8) + '...'
-          : 'NONE',
-      },
-    };
-  }
 }
@@ -4,8 +4,14 @@ import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { TwoFactorController } from './two-factor.controller';
+import { SessionsController } from './sessions.controller';
+import { SocialAuthController } from './social-auth.controller';
+import { TwoFactorService } from './two-factor.service';
+import { SocialAuthService } from './social-auth.service';
 import { UsersModule } from '../users/users.module';
 import { PrismaModule, RedisModule } from '@packages/database';
+import { MailModule } from '../mail/mail.module';
 // import { RedisModule } from '../redis/redis.module';
 
 // 전략들
@@ -36,10 +42,18 @@ import { JwtAuthGuard } from './guards/jwt-auth.guard';
     UsersModule,
     RedisModule,
     PrismaModule,
+    MailModule,
+  ],
+  controllers: [
+    AuthController,
+    TwoFactorController,
+    SessionsController,
+    SocialAuthController,
   ],
-  controllers: [AuthController],
   providers: [
     AuthService,
+    TwoFactorService,
+    SocialAuthService,
     JwtStrategy,
     JwtRefreshStrategy,
     GoogleStrategy,
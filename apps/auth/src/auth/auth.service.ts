@@ -3,22 +3,40 @@ import {
   UnauthorizedException,
   BadRequestException,
   ConflictException,
+  NotFoundException,
   Logger,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../users/users.service';
 import { PrismaService, RedisService } from '@packages/database';
-import { generateId, parseTimeString } from '@packages/common'; // 🆔 CUID2 생성 유틸리티
-import { RegisterDto, LoginDto, UpdateProfileDto } from '@packages/schemas';
+import { generateId, parseTimeString, parseUserAgent } from '@packages/common'; // 🆔 CUID2 생성 유틸리티
+import {
+  RegisterDto,
+  LoginDto,
+  UpdateProfileDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  ChangePasswordDto,
+  VerifyEmailDto,
+  ResendVerificationDto,
+  TwoFactorLoginDto,
+  TwoFactorChallenge,
+  SessionInfo,
+  passwordStrengthSchema,
+} from '@packages/schemas';
+import { MailService } from '../mail/mail.service';
+import { TwoFactorService } from './two-factor.service';
 import {
   JwtPayload,
   JwtRefreshPayload,
   SocialUser,
   TokenPair,
   LoginResponse,
+  SessionContext,
 } from './interfaces/auth.interface';
 import { v4 as uuidv4 } from 'uuid';
+import { createHash, randomBytes } from 'crypto';
 
 @Injectable()
 export class AuthService {
@@ -29,13 +47,18 @@ export class AuthService {
   private readonly lockoutDuration: number;
   private readonly maxIpAttempts: number;
   private readonly logAuthAttempts: boolean;
+  private readonly passwordResetTtlMinutes: number;
+  private readonly emailVerificationTtlHours: number;
+  private readonly verificationResendCooldown: number;
 
   constructor(
     private usersService: UsersService,
     private jwtService: JwtService,
     private configService: ConfigService,
     private redisService: RedisService,
-    private prismaService: PrismaService
+    private prismaService: PrismaService,
+    private mailService: MailService,
+    private twoFactorService: TwoFactorService
   ) {
     // 🔐 보안 설정값 초기화
     const securityConfig = this.configService.get('security.bruteForce');
@@ -43,6 +66,13 @@ export class AuthService {
     this.lockoutDuration = (securityConfig?.lockoutDurationMinutes || 15) * 60; // 분 -> 초 변환
     this.maxIpAttempts = securityConfig?.maxIpAttempts || 10;
     this.logAuthAttempts = this.configService.get('security.logging.logAuthAttempts', true);
+    this.passwordResetTtlMinutes = this.configService.get(
+      'security.passwordReset.tokenTtlMinutes',
+      30
+    );
+    const emailVerificationConfig = this.configService.get('security.emailVerification');
+    this.emailVerificationTtlHours = emailVerificationConfig?.tokenTtlHours || 24;
+    this.verificationResendCooldown = emailVerificationConfig?.resendCooldownSeconds || 60;
 
     // 🔍 설정 상태 로깅
     this.logger.log('🔐 보안 설정 로드 완료:');
@@ -83,6 +113,13 @@ export class AuthService {
         provider: 'local',
       });
 
+      // 이메일 인증 메일 발송 (실패해도 회원가입은 유지, 재발송 가능)
+      await this.sendEmailVerification(user.id, user.email).catch((error: unknown) => {
+        const errorMessage =
+          error instanceof Error ? error.message : 'An unknown error occurred';
+        this.logger.error(`이메일 인증 메일 발송 실패: ${errorMessage}`);
+      });
+
       this.logger.log(`새 사용자 회원가입: ${user.email}`);
 
       return {
@@ -119,13 +156,13 @@ export class AuthService {
    * @param loginDto 로그인 데이터
    * @param ipAddress 클라이언트 IP 주소
    * @param userAgent 사용자 에이전트
-   * @returns 로그인 결과
+   * @returns 로그인 결과 (2단계 인증 사용자는 토큰 대신 챌린지)
    */
   async login(
     loginDto: LoginDto,
     ipAddress?: string,
     userAgent?: string
-  ): Promise<LoginResponse> {
+  ): Promise<LoginResponse | TwoFactorChallenge> {
     const { email, password } = loginDto;
 
     // 브루트 포스 공격 방지 체크
@@ -158,11 +195,17 @@ export class AuthService {
         throw new UnauthorizedException('비활성화된 계정입니다');
       }
 
+      // 2단계 인증이 켜져 있으면 토큰 대신 챌린지 발급 (POST /auth/2fa/verify 에서 완료)
+      if (await this.twoFactorService.isEnabled(user.id)) {
+        this.logger.log(`2단계 인증 챌린지 발급: ${email}`);
+        return await this.twoFactorService.createLoginChallenge(user.id);
+      }
+
       // 로그인 성공 처리
       await this.handleSuccessfulLogin(user.id, email, ipAddress, userAgent);
 
       // 토큰 생성
-      const tokens = await this.generateTokenPair(user);
+      const tokens = await this.generateTokenPair(user, { ipAddress, userAgent });
 
       return {
         user: {
@@ -188,84 +231,123 @@ export class AuthService {
   }
 
   /**
-   * 소셜 로그인 처리
-   * @param socialUser 소셜 사용자 정보
+   * 2단계 인증 로그인 완료
+   * @param twoFactorLoginDto 챌린지 토큰과 TOTP 코드 또는 복구 코드
+   * @param ipAddress 클라이언트 IP 주소
+   * @param userAgent 사용자 에이전트
    * @returns 로그인 결과
    */
-  async handleSocialLogin(socialUser: SocialUser): Promise<LoginResponse> {
+  async verifyTwoFactorLogin(
+    twoFactorLoginDto: TwoFactorLoginDto,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<LoginResponse> {
+    const userId = await this.twoFactorService.resolveLoginChallenge(
+      twoFactorLoginDto.challengeToken,
+      twoFactorLoginDto.code
+    );
+
+    const user = await this.usersService.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('사용자를 찾을 수 없거나 비활성화되었습니다');
+    }
+
+    await this.handleSuccessfulLogin(user.id, user.email, ipAddress, userAgent);
+    const tokens = await this.generateTokenPair(user, { ipAddress, userAgent });
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username || '',
+        firstName: user.firstName,
+        lastName: user.lastName,
+        isEmailVerified: user.isVerified, // isVerified -> isEmailVerified 매핑
+        createdAt: user.createdAt.toISOString(),
+        updatedAt: user.updatedAt.toISOString(),
+      },
+      tokens,
+    };
+  }
+
+  /**
+   * 소셜 로그인 사용자 확인 (OAuth 콜백 단계)
+   * 
+   * 비즈니스 로직:
+   * 1. 이미 연결된 소셜 계정이면 해당 사용자
+   * 2. 같은 이메일의 사용자가 있으면, 양쪽 모두 인증된 이메일일 때만 계정 연결
+   * 3. 그 외에는 소셜 계정으로 새 사용자 생성
+   * 
+   * 토큰은 웹에서 1회용 코드를 교환할 때 발급합니다 (completeSocialLogin).
+   * 
+   * @param socialUser 소셜 사용자 정보
+   * @returns 로그인할 사용자 ID
+   */
+  async handleSocialLogin(socialUser: SocialUser): Promise<string> {
     try {
-      let user: any = await this.usersService.findBySocialAccount(
+      const linkedUser = await this.usersService.findBySocialAccount(
         socialUser.provider,
         socialUser.providerId
       );
 
-      if (!user) {
-        // 이메일로 기존 사용자 찾기
-        const existingUser = await this.usersService.findByEmail(
-          socialUser.email
-        );
-
-        if (existingUser) {
-          // 기존 사용자에 소셜 계정 연결
-          await this.usersService.linkSocialAccount(existingUser.id, {
-            provider: socialUser.provider,
-            providerId: socialUser.providerId,
-            providerData: {
-              accessToken: socialUser.accessToken,
-              refreshToken: socialUser.refreshToken,
-            },
-          });
-
-          user = await this.usersService.findById(existingUser.id);
-        } else {
-          // 새 사용자 생성
-          user = await this.usersService.createWithSocialAccount({
-            providerId: socialUser.providerId,
-            provider: socialUser.provider,
-            email: socialUser.email,
-            firstName: socialUser.firstName,
-            lastName: socialUser.lastName,
-            username: socialUser.username,
-            avatar: socialUser.avatar,
-            providerData: {
-              accessToken: socialUser.accessToken,
-              refreshToken: socialUser.refreshToken,
-            },
-          });
+      if (linkedUser) {
+        if (!linkedUser.isActive) {
+          throw new UnauthorizedException('비활성화된 계정입니다');
         }
+        return linkedUser.id;
       }
 
-      // 로그인 히스토리 기록
-      await this.createLoginHistory({
-        userId: user.id,
-        email: user.email,
-        success: true,
-        provider: socialUser.provider,
-      });
+      if (!socialUser.email) {
+        throw new BadRequestException('소셜 계정에서 이메일 정보를 가져올 수 없습니다');
+      }
 
-      // 마지막 로그인 시간 업데이트
-      await this.usersService.updateLastLogin(user.id);
+      // 이메일로 기존 사용자 찾기
+      const existingUser = await this.usersService.findByEmail(socialUser.email);
 
-      // 토큰 생성
-      const tokens = await this.generateTokenPair(user);
+      if (existingUser) {
+        // 인증되지 않은 이메일끼리 연결하면 계정 탈취에 악용될 수 있음
+        if (!existingUser.isVerified || !socialUser.emailVerified) {
+          throw new ConflictException(
+            '이미 가입된 이메일입니다. 기존 방법으로 로그인한 뒤 설정에서 계정을 연결해주세요'
+          );
+        }
 
-      this.logger.log(
-        `소셜 로그인 성공: ${user.email} (${socialUser.provider})`
-      );
+        if (!existingUser.isActive) {
+          throw new UnauthorizedException('비활성화된 계정입니다');
+        }
 
-      return {
-        user: {
-          id: user.id,
-          email: user.email,
-          username: user.username,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          isEmailVerified: user.isVerified, // isVerified -> isEmailVerified 매핑
-          createdAt: user.createdAt.toISOString(),
-          updatedAt: user.updatedAt.toISOString(),
+        // 기존 사용자에 소셜 계정 연결
+        await this.usersService.linkSocialAccount(existingUser.id, {
+          provider: socialUser.provider,
+          providerId: socialUser.providerId,
+          providerData: {
+            accessToken: socialUser.accessToken,
+            refreshToken: socialUser.refreshToken,
+          },
+        });
+
+        this.logger.log(`소셜 계정 자동 연결: ${existingUser.email} (${socialUser.provider})`);
+        return existingUser.id;
+      }
+
+      // 새 사용자 생성
+      const user = await this.usersService.createWithSocialAccount({
+        providerId: socialUser.providerId,
+        provider: socialUser.provider,
+        email: socialUser.email,
+        emailVerified: socialUser.emailVerified,
+        firstName: socialUser.firstName,
+        lastName: socialUser.lastName,
+        username: socialUser.username,
+        avatar: socialUser.avatar,
+        providerData: {
+          accessToken: socialUser.accessToken,
+          refreshToken: socialUser.refreshToken,
         },
-        tokens,
-      };
+      });
+
+      this.logger.log(`소셜 회원가입: ${user.email} (${socialUser.provider})`);
+      return user.id;
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : 'An unknown error occurred';
@@ -275,14 +357,81 @@ export class AuthService {
   }
 
   /**
-   * 토큰 새로고침
+   * 소셜 로그인 완료 (1회용 코드 교환 단계)
+   * @param userId 콜백 단계에서 확인한 사용자 ID
+   * @param provider 소셜 플랫폼
+   * @param ipAddress 클라이언트 IP 주소
+   * @param userAgent 사용자 에이전트
+   * @returns 로그인 결과 (2단계 인증 사용자는 토큰 대신 챌린지)
+   */
+  async completeSocialLogin(
+    userId: string,
+    provider: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<LoginResponse | TwoFactorChallenge> {
+    const user = await this.usersService.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('사용자를 찾을 수 없거나 비활성화되었습니다');
+    }
+
+    // 소셜 로그인도 2단계 인증을 거치도록 챌린지 발급
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      this.logger.log(`2단계 인증 챌린지 발급 (소셜 로그인): ${user.email}`);
+      return await this.twoFactorService.createLoginChallenge(user.id);
+    }
+
+    // 로그인 히스토리 기록
+    await this.createLoginHistory({
+      userId: user.id,
+      email: user.email,
+      success: true,
+      ipAddress,
+      userAgent,
+      provider,
+    });
+
+    // 마지막 로그인 시간 업데이트
+    await this.usersService.updateLastLogin(user.id);
+
+    // 토큰 생성
+    const tokens = await this.generateTokenPair(user, { ipAddress, userAgent });
+
+    this.logger.log(`소셜 로그인 성공: ${user.email} (${provider})`);
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username || '',
+        firstName: user.firstName,
+        lastName: user.lastName,
+        isEmailVerified: user.isVerified, // isVerified -> isEmailVerified 매핑
+        createdAt: user.createdAt.toISOString(),
+        updatedAt: user.updatedAt.toISOString(),
+      },
+      tokens,
+    };
+  }
+
+  /**
+   * 토큰 새로고침 (리프레시 토큰 회전)
+   * 
+   * 세션(sid)이 하나의 토큰 패밀리이며, 새로고침할 때마다 리프레시 토큰을 교체합니다.
+   * 이미 교체된 토큰이 다시 사용되면 탈취로 보고 패밀리(세션) 전체를 폐기한 뒤
+   * 보안 이벤트를 기록하고 재로그인을 요구합니다.
+   * 
    * @param refreshToken 리프레시 토큰
    * @param tokenId 토큰 ID
+   * @param ipAddress 클라이언트 IP 주소
+   * @param userAgent 사용자 에이전트
    * @returns 새로운 토큰 쌍
    */
   async refreshTokens(
     refreshToken: string,
-    tokenId: string
+    tokenId: string,
+    ipAddress?: string,
+    userAgent?: string
   ): Promise<TokenPair> {
     try {
       // 리프레시 토큰 검증
@@ -290,8 +439,23 @@ export class AuthService {
         secret: this.configService.get<string>('jwt.refreshToken.secret'),
       }) as JwtRefreshPayload;
 
-      // Redis에서 토큰 유효성 확인
-      if (
+      if (payload.sid) {
+        // 토큰 패밀리(세션)가 종료되었으면 거부
+        const session = await this.redisService.getSession(payload.sub, payload.sid);
+        if (!session) {
+          throw new UnauthorizedException('세션이 만료되었거나 종료되었습니다');
+        }
+
+        // 현재 토큰만 1회 사용 가능 - 실패하면 이미 교체된 토큰의 재사용
+        if (!(await this.redisService.consumeRefreshToken(payload.sub, tokenId))) {
+          await this.handleRefreshTokenReuse(payload.sub, payload.sid, ipAddress, userAgent);
+          throw new UnauthorizedException({
+            code: 'REFRESH_TOKEN_REUSED',
+            message: '이미 사용된 리프레시 토큰입니다. 보안을 위해 다시 로그인해주세요',
+          });
+        }
+      } else if (
+        // 세션 정보가 없는 (이전 형식) 토큰
         !(await this.redisService.isRefreshTokenValid(payload.sub, tokenId))
       ) {
         throw new UnauthorizedException('리프레시 토큰이 유효하지 않습니다');
@@ -308,8 +472,12 @@ export class AuthService {
       // 기존 리프레시 토큰 무효화
       await this.redisService.removeRefreshToken(payload.sub, tokenId);
 
-      // 새로운 토큰 쌍 생성
-      const tokens = await this.generateTokenPair(user);
+      // 새로운 토큰 쌍 생성 (같은 세션 유지, 마지막 사용 정보 갱신)
+      const tokens = await this.generateTokenPair(user, {
+        sessionId: payload.sid,
+        ipAddress,
+        userAgent,
+      });
 
       this.logger.debug(`토큰 새로고침 완료: ${user.email}`);
 
@@ -318,15 +486,50 @@ export class AuthService {
       const errorMessage =
         error instanceof Error ? error.message : 'An unknown error occurred';
       this.logger.error(`토큰 새로고침 실패: ${errorMessage}`);
+      if (error instanceof UnauthorizedException) {
+        throw error;
+      }
       throw new UnauthorizedException('토큰 새로고침에 실패했습니다');
     }
   }
 
+  /**
+   * 리프레시 토큰 재사용 처리 - 토큰 패밀리(세션) 폐기 및 보안 이벤트 기록
+   * 세션이 삭제되면 같은 세션의 액세스 토큰도 JwtStrategy에서 거부됩니다.
+   * @param userId 사용자 ID
+   * @param sessionId 토큰 패밀리(세션) ID
+   * @param ipAddress 재사용 요청의 IP 주소
+   * @param userAgent 재사용 요청의 사용자 에이전트
+   */
+  private async handleRefreshTokenReuse(
+    userId: string,
+    sessionId: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.redisService.removeSession(userId, sessionId);
+
+    this.logger.warn(
+      `🚨 리프레시 토큰 재사용 감지 - 세션 폐기: ${userId}:${sessionId} (IP: ${ipAddress || '알 수 없음'})`
+    );
+
+    await this.createSecurityEvent({
+      userId,
+      type: 'refresh_token_reuse',
+      ipAddress,
+      userAgent,
+      metadata: { sessionId },
+    });
+  }
+
   /**
    * 로그아웃
    * @param userId 사용자 ID
    * @param accessToken 액세스 토큰
    * @param refreshTokenId 리프레시 토큰 ID (선택적)
+   * 
+   * 리프레시 토큰 ID가 없으면 액세스 토큰의 세션만 종료하고,
+   * 세션 정보가 없는 (이전 형식) 토큰이면 모든 토큰을 무효화합니다.
    */
   async logout(
     userId: string,
@@ -343,9 +546,11 @@ export class AuthService {
         }
       }
 
-      // 특정 리프레시 토큰 무효화 또는 모든 토큰 무효화
+      // 특정 리프레시 토큰, 현재 세션 또는 모든 토큰 무효화
       if (refreshTokenId) {
         await this.redisService.removeRefreshToken(userId, refreshTokenId);
+      } else if (tokenPayload?.sid) {
+        await this.redisService.removeSession(userId, tokenPayload.sid);
       } else {
         await this.redisService.blacklistUserTokens(userId);
       }
@@ -379,6 +584,299 @@ export class AuthService {
     }
   }
 
+  /**
+   * 활성 세션(로그인 디바이스) 목록 조회
+   * @param userId 사용자 ID
+   * @param currentSessionId 요청을 보낸 세션 ID
+   * @returns 최근 사용 순 세션 목록
+   */
+  async getSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+    const sessions = await this.redisService.getUserSessions(userId);
+
+    return sessions
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+      .map((session) => {
+        const { browser, os, device } = parseUserAgent(session.userAgent);
+        return {
+          sessionId: session.sessionId,
+          browser,
+          os,
+          device,
+          ipAddress: session.ipAddress || null,
+          lastUsed: session.lastUsedAt,
+          createdAt: session.createdAt,
+          current: session.sessionId === currentSessionId,
+        };
+      });
+  }
+
+  /**
+   * 특정 세션 종료 - 해당 디바이스의 리프레시 토큰과 이후 요청을 무효화
+   * @param userId 사용자 ID
+   * @param sessionId 종료할 세션 ID
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    if (!(await this.redisService.removeSession(userId, sessionId))) {
+      throw new NotFoundException('세션을 찾을 수 없습니다');
+    }
+
+    this.logger.log(`세션 종료: ${userId}:${sessionId}`);
+  }
+
+  /**
+   * 비밀번호 재설정 요청
+   * 
+   * 비즈니스 로직:
+   * 1. 활성 사용자인 경우에만 1회용 재설정 토큰 생성
+   * 2. 토큰 해시만 Redis에 저장 (원문은 메일로만 전달)
+   * 3. 재설정 링크 메일 발송
+   * 
+   * 계정 존재 여부가 드러나지 않도록 결과와 관계없이 같은 응답을 반환합니다.
+   * 
+   * @param forgotPasswordDto 이메일
+   * @returns 안내 메시지
+   */
+  async forgotPassword(
+    forgotPasswordDto: ForgotPasswordDto
+  ): Promise<{ message: string }> {
+    const message = '입력하신 이메일로 비밀번호 재설정 안내를 보냈습니다';
+
+    try {
+      const user = await this.usersService.findByEmail(forgotPasswordDto.email);
+      if (!user || !user.isActive) {
+        this.logger.warn(`존재하지 않거나 비활성화된 계정의 재설정 요청: ${forgotPasswordDto.email}`);
+        return { message };
+      }
+
+      const token = randomBytes(32).toString('base64url');
+      await this.redisService.storePasswordResetToken(
+        user.id,
+        this.hashSingleUseToken(token),
+        this.passwordResetTtlMinutes * 60
+      );
+
+      await this.mailService.sendPasswordResetMail(
+        user.email,
+        token,
+        this.passwordResetTtlMinutes
+      );
+
+      this.logger.log(`비밀번호 재설정 요청: ${user.email}`);
+      return { message };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unknown error occurred';
+      this.logger.error(`비밀번호 재설정 요청 처리 중 오류: ${errorMessage}`);
+      // 오류 응답으로도 계정 존재 여부가 드러나지 않도록 같은 메시지 반환
+      return { message };
+    }
+  }
+
+  /**
+   * 비밀번호 재설정
+   * 
+   * 비즈니스 로직:
+   * 1. 토큰 해시로 소유 사용자 조회
+   * 2. 최근 비밀번호 재사용 검사 (거부되면 같은 토큰으로 다시 시도 가능)
+   * 3. 토큰을 조회와 동시에 삭제 (1회용)
+   * 4. 새 비밀번호 저장 (passwordChangedAt 갱신)
+   * 5. 모든 기기의 리프레시 토큰 무효화
+   * 
+   * @param resetPasswordDto 재설정 토큰과 새 비밀번호
+   * @returns 완료 메시지
+   */
+  async resetPassword(
+    resetPasswordDto: ResetPasswordDto
+  ): Promise<{ message: string }> {
+    const tokenHash = this.hashSingleUseToken(resetPasswordDto.token);
+    const ownerId = await this.redisService.findPasswordResetTokenOwner(tokenHash);
+
+    if (!ownerId) {
+      throw new BadRequestException('유효하지 않거나 만료된 재설정 토큰입니다');
+    }
+
+    if (await this.usersService.isPasswordReused(ownerId, resetPasswordDto.newPassword)) {
+      throw new BadRequestException('최근에 사용한 비밀번호는 다시 사용할 수 없습니다');
+    }
+
+    // 동시 요청 중 한 번만 사용되도록 검사 후 토큰 소비
+    const userId = await this.redisService.consumePasswordResetToken(tokenHash);
+    if (userId !== ownerId) {
+      throw new BadRequestException('유효하지 않거나 만료된 재설정 토큰입니다');
+    }
+
+    try {
+      const user = await this.usersService.update(userId, {
+        password: resetPasswordDto.newPassword,
+      });
+
+      await this.logoutFromAllDevices(userId);
+      await this.redisService.resetLoginAttempts(user.email);
+
+      this.logger.log(`비밀번호 재설정 완료: ${user.email}`);
+
+      return {
+        message: '비밀번호가 재설정되었습니다. 새 비밀번호로 다시 로그인해주세요',
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unknown error occurred';
+      this.logger.error(`비밀번호 재설정 처리 중 오류: ${errorMessage}`);
+      throw new BadRequestException('비밀번호를 재설정하지 못했습니다');
+    }
+  }
+
+  /**
+   * 비밀번호 변경 (로그인 사용자)
+   * 
+   * 변경 후 다른 기기의 세션은 모두 종료하고,
+   * 현재 세션은 새로 발급한 토큰으로 유지합니다.
+   * 
+   * @param userId 사용자 ID
+   * @param changePasswordDto 현재/새 비밀번호
+   * @param session 현재 세션 정보
+   * @returns 완료 메시지와 현재 세션용 새 토큰
+   */
+  async changePassword(
+    userId: string,
+    changePasswordDto: ChangePasswordDto,
+    session: SessionContext = {}
+  ): Promise<{ message: string; tokens: TokenPair }> {
+    const { currentPassword, newPassword } = changePasswordDto;
+
+    const user = await this.usersService.findById(userId);
+    const account = user && (await this.usersService.findByEmail(user.email));
+    if (!user || !account) {
+      throw new UnauthorizedException('사용자를 찾을 수 없습니다');
+    }
+
+    if (!account.password) {
+      throw new BadRequestException('소셜 로그인 계정은 비밀번호를 변경할 수 없습니다');
+    }
+
+    if (!(await this.usersService.validatePassword(currentPassword, account.password))) {
+      this.logger.warn(`비밀번호 변경 실패 (현재 비밀번호 불일치): ${user.email}`);
+      throw new BadRequestException('현재 비밀번호가 올바르지 않습니다');
+    }
+
+    const strength = passwordStrengthSchema.parse({ password: newPassword });
+    if (strength.strength !== 'strong') {
+      throw new BadRequestException(
+        `비밀번호가 충분히 안전하지 않습니다: ${strength.suggestions.join(', ')}`
+      );
+    }
+
+    if (await this.usersService.isPasswordReused(userId, newPassword)) {
+      throw new BadRequestException('최근에 사용한 비밀번호는 다시 사용할 수 없습니다');
+    }
+
+    await this.usersService.update(userId, { password: newPassword });
+
+    // 현재 세션만 남기고 다른 기기의 세션 종료 (이전 액세스 토큰은 passwordChangedAt 검사로 거부됨)
+    if (session.sessionId) {
+      await this.redisService.removeOtherSessions(userId, session.sessionId);
+    } else {
+      await this.logoutFromAllDevices(userId);
+    }
+
+    // 현재 세션의 리프레시 토큰만 교체 (세션 ID 유지)
+    const tokens = await this.generateTokenPair(user, session);
+
+    this.logger.log(`비밀번호 변경 완료: ${user.email}`);
+
+    return {
+      message: '비밀번호가 변경되었습니다. 다른 기기에서는 다시 로그인해야 합니다',
+      tokens,
+    };
+  }
+
+  /**
+   * 이메일 인증
+   * @param verifyEmailDto 메일로 받은 인증 토큰
+   * @returns 완료 메시지
+   */
+  async verifyEmail(verifyEmailDto: VerifyEmailDto): Promise<{ message: string }> {
+    const userId = await this.redisService.consumeEmailVerificationToken(
+      this.hashSingleUseToken(verifyEmailDto.token)
+    );
+
+    if (!userId) {
+      throw new BadRequestException('유효하지 않거나 만료된 인증 토큰입니다');
+    }
+
+    const user = await this.usersService.markEmailAsVerified(userId);
+    this.logger.log(`이메일 인증 완료: ${user.email}`);
+
+    return { message: '이메일 인증이 완료되었습니다' };
+  }
+
+  /**
+   * 이메일 인증 메일 재발송
+   * 
+   * 계정 존재/인증 여부가 드러나지 않도록 결과와 관계없이 같은 응답을 반환합니다.
+   * 같은 이메일로는 재발송 간격(쿨다운) 안에 한 번만 발송합니다.
+   * 
+   * @param resendVerificationDto 이메일
+   * @returns 안내 메시지
+   */
+  async resendVerification(
+    resendVerificationDto: ResendVerificationDto
+  ): Promise<{ message: string }> {
+    const message = '인증이 필요한 계정이라면 인증 메일을 다시 보냈습니다';
+    const { email } = resendVerificationDto;
+
+    try {
+      const cooldownKey = `email_verification_cooldown:${email}`;
+      if (await this.redisService.get(cooldownKey)) {
+        this.logger.warn(`인증 메일 재발송 쿨다운 중: ${email}`);
+        return { message };
+      }
+      await this.redisService.set(cooldownKey, '1', this.verificationResendCooldown);
+
+      const user = await this.usersService.findByEmail(email);
+      if (!user || !user.isActive || user.isVerified) {
+        return { message };
+      }
+
+      await this.sendEmailVerification(user.id, user.email);
+      return { message };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unknown error occurred';
+      this.logger.error(`인증 메일 재발송 처리 중 오류: ${errorMessage}`);
+      return { message };
+    }
+  }
+
+  /**
+   * 이메일 인증 토큰 발급 및 메일 발송
+   * @param userId 사용자 ID
+   * @param email 이메일
+   */
+  private async sendEmailVerification(userId: string, email: string): Promise<void> {
+    const token = randomBytes(32).toString('base64url');
+    await this.redisService.storeEmailVerificationToken(
+      userId,
+      this.hashSingleUseToken(token),
+      this.emailVerificationTtlHours * 60 * 60
+    );
+
+    await this.mailService.sendEmailVerificationMail(
+      email,
+      token,
+      this.emailVerificationTtlHours
+    );
+  }
+
+  /**
+   * 1회용 토큰 해시 (Redis에는 원문 대신 해시만 저장)
+   * @param token 토큰 원문
+   * @returns SHA-256 해시
+   */
+  private hashSingleUseToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
   /**
    * 토큰 쌍 생성
    * 
@@ -386,19 +884,32 @@ export class AuthService {
    * 1. JWT 페이로드 생성 (sub 클레임 사용)
    * 2. 리프레시 토큰에 고유 ID 추가
    * 3. 비동기로 동시 생성
-   * 4. Redis에 리프레시 토큰 저장
+   * 4. Redis에 리프레시 토큰과 세션(디바이스) 정보 저장
    * 5. 만료 시간 계산 및 반환
    * 
+   * 세션 ID(sid)는 두 토큰에 모두 담기며, 기존 세션을 이어가면
+   * 이전 리프레시 토큰은 폐기하고 생성 시각/디바이스 정보는 유지합니다.
+   * 
    * @param user 사용자 정보
+   * @param context 세션 정보 (기존 세션 ID, IP, 사용자 에이전트)
    * @returns 토큰 쌍 (accessToken, refreshToken, expiresIn, tokenType)
    */
-  private async generateTokenPair(user: any): Promise<TokenPair> {
+  private async generateTokenPair(
+    user: any,
+    context: SessionContext = {}
+  ): Promise<TokenPair> {
+    const existingSession = context.sessionId
+      ? await this.redisService.getSession(user.id, context.sessionId)
+      : null;
+    const sessionId = context.sessionId || uuidv4();
+
     // 표준 JWT 페이로드 (중복 필드 제거)
     const payload: JwtPayload = {
       sub: user.id, // 표준 JWT 'sub' 클레임
       email: user.email,
       username: user.username,
       role: user.role || 'user',
+      sid: sessionId,
     };
 
     // 리프레시 토큰용 고유 ID 생성
@@ -406,6 +917,7 @@ export class AuthService {
     const refreshPayload: JwtRefreshPayload = {
       sub: user.id,
       tokenId,
+      sid: sessionId,
     };
 
     this.logger.debug('🔑 JWT 토큰 생성 - 페이로드:', {
@@ -437,6 +949,24 @@ export class AuthService {
       );
       await this.redisService.storeRefreshToken(user.id, tokenId, refreshExpiresIn);
 
+      // 세션 정보 저장 (기존 세션이면 이전 리프레시 토큰 폐기)
+      if (existingSession) {
+        await this.redisService.removeRefreshToken(user.id, existingSession.tokenId);
+      }
+      const now = new Date().toISOString();
+      await this.redisService.storeSession(
+        user.id,
+        {
+          sessionId,
+          tokenId,
+          ipAddress: context.ipAddress || existingSession?.ipAddress,
+          userAgent: context.userAgent || existingSession?.userAgent,
+          createdAt: existingSession?.createdAt || now,
+          lastUsedAt: now,
+        },
+        refreshExpiresIn
+      );
+
       // 만료 시간 계산 (유틸리티 함수 사용)
       const accessExpiresIn = parseTimeString(
         this.configService.get<string>('jwt.accessToken.expiresIn', '15m')
@@ -583,6 +1113,32 @@ export class AuthService {
     }
   }
 
+  /**
+   * 보안 이벤트 기록
+   * @param data 보안 이벤트 데이터
+   */
+  private async createSecurityEvent(data: {
+    userId?: string;
+    type: string;
+    ipAddress?: string;
+    userAgent?: string;
+    metadata?: Record<string, string>;
+  }): Promise<void> {
+    try {
+      await this.prismaService.securityEvent.create({
+        data: {
+          id: generateId(), // 🆔 CUID2 ID 직접 지정
+          ...data,
+        },
+      });
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : '보안 이벤트 저장 실패';
+      this.logger.error(`보안 이벤트 저장 실패: ${errorMessage}`);
+      // 이벤트 저장 실패가 토큰 폐기 처리를 막지 않도록 함
+    }
+  }
+
   /**
    * 토큰 유효성 검증
    * @param token JWT 토큰
@@ -629,11 +1185,13 @@ export class AuthService {
    * 사용자 프로필 업데이트
    * @param userId 사용자 ID
    * @param updateProfileDto 업데이트할 프로필 데이터
+   * @param sessionId 현재 세션 ID (새 토큰도 같은 세션으로 발급)
    * @returns 업데이트된 사용자 정보와 새로운 토큰
    */
   async updateProfile(
     userId: string,
-    updateProfileDto: UpdateProfileDto
+    updateProfileDto: UpdateProfileDto,
+    sessionId?: string
   ): Promise<{ message: string; user: any; tokens?: any }> {
     try {
       // 사용자 존재 여부 확인
@@ -657,7 +1215,7 @@ export class AuthService {
 
       if (shouldRefreshToken) {
         // 업데이트된 사용자 정보로 새 토큰 생성
-        newTokens = await this.generateTokenPair(updatedUser);
+        newTokens = await this.generateTokenPair(updatedUser, { sessionId });
         this.logger.log(`프로필 업데이트로 인한 토큰 갱신: ${updatedUser.email}`);
       }
 
@@ -701,37 +1259,4 @@ export class AuthService {
       throw new BadRequestException(errorMessage);
     }
   }
-
-  /**
-   * 모든 사용자 조회 (디버깅용)
-   * @returns 사용자 목록
-   */
-  async getUsers(): Promise<any[]> {
-    try {
-      const result = await this.usersService.findMany({
-        filter: {},
-        orderBy: { createdAt: 'desc' },
-        page: 1,
-        limit: 100, // Default limit of 100 users
-      });
-
-      // Access the users array from the paginated result
-      return result.users.map((user) => ({
-        id: user.id,
-        email: user.email,
-        username: user.username,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        isActive: user.isActive,
-        isEmailVerified: user.isVerified,
-        createdAt: user.createdAt.toISOString(),
-        updatedAt: user.updatedAt.toISOString(),
-      }));
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'An unknown error occurred';
-      this.logger.error(`사용자 목록 조회 실패: ${errorMessage}`);
-      throw error;
-    }
-  }
 }
@@ -7,17 +7,3 @@ export class JwtRefreshGuard extends AuthGuard('jwt-refresh') {
     return super.canActivate(context);
   }
 }
-
-@Injectable()
-export class GoogleAuthGuard extends AuthGuard('google') {
-  canActivate(context: ExecutionContext) {
-    return super.canActivate(context);
-  }
-}
-
-@Injectable()
-export class GithubAuthGuard extends AuthGuard('github') {
-  canActivate(context: ExecutionContext) {
-    return super.canActivate(context);
-  }
-}
@@ -0,0 +1,100 @@
+import { Injectable, ExecutionContext, Logger, mixin, Type, CanActivate } from '@nestjs/common';
+import { AuthGuard, IAuthModuleOptions } from '@nestjs/passport';
+import type { SocialProvider } from '@packages/schemas';
+import express from 'express';
+import { OAUTH_STATE_COOKIE, OAuthState, SocialAuthService } from '../social-auth.service';
+
+/**
+ * 소셜 로그인 요청 - 가드가 검증 결과를 컨트롤러로 전달
+ */
+export type OAuthRequest = express.Request & {
+  oauthState?: OAuthState;
+  oauthError?: string;
+  oauthStateToken?: string;
+};
+
+/**
+ * 🌐 소셜 로그인 가드 생성
+ *
+ * - 시작 요청: 서명된 state를 만들어 제공자 로그인 화면으로 리다이렉트하고,
+ *   같은 브라우저인지 확인할 nonce를 쿠키에 저장합니다.
+ * - 콜백 요청: state와 쿠키를 먼저 검증한 뒤 제공자 인증을 진행합니다.
+ *   실패해도 예외 대신 req.oauthError를 남겨 컨트롤러가 웹으로 돌려보내게 합니다.
+ */
+function createSocialAuthGuard(provider: SocialProvider): Type<CanActivate> {
+  @Injectable()
+  class MixinSocialAuthGuard extends AuthGuard(provider) {
+    private readonly logger = new Logger(`SocialAuthGuard:${provider}`);
+
+    constructor(private readonly socialAuthService: SocialAuthService) {
+      super();
+    }
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+      const req = context.switchToHttp().getRequest<OAuthRequest>();
+      const res = context.switchToHttp().getResponse<express.Response>();
+      const isCallback = req.path.endsWith('/callback');
+
+      if (isCallback) {
+        const state = this.socialAuthService.verifyState(
+          provider,
+          typeof req.query.state === 'string' ? req.query.state : undefined,
+          req.cookies?.[OAUTH_STATE_COOKIE]
+        );
+        res.clearCookie(OAUTH_STATE_COOKIE, { path: '/' });
+
+        if (!state) {
+          this.logger.warn('유효하지 않은 OAuth state로 콜백 요청');
+          req.oauthError = '로그인 요청이 만료되었거나 올바르지 않습니다. 다시 시도해주세요';
+          return true;
+        }
+        req.oauthState = state;
+      } else {
+        const linkToken = typeof req.query.link === 'string' ? req.query.link : undefined;
+        const linkUserId = linkToken
+          ? this.socialAuthService.resolveLinkToken(linkToken, provider)
+          : undefined;
+
+        if (linkToken && !linkUserId) {
+          req.oauthError = '계정 연결 요청이 만료되었습니다. 다시 시도해주세요';
+          return true;
+        }
+
+        const { state, nonce } = this.socialAuthService.createState(
+          provider,
+          linkUserId ?? undefined
+        );
+        res.cookie(OAUTH_STATE_COOKIE, nonce, {
+          httpOnly: true,
+          sameSite: 'lax', // 제공자에서 돌아오는 최상위 이동에는 전송됨
+          secure: process.env.NODE_ENV === 'production',
+          maxAge: 10 * 60 * 1000,
+          path: '/',
+        });
+        req.oauthStateToken = state;
+      }
+
+      try {
+        return (await super.canActivate(context)) as boolean;
+      } catch (error) {
+        if (!isCallback) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : 'OAuth 인증 실패';
+        this.logger.warn(`소셜 로그인 인증 실패: ${errorMessage}`);
+        req.oauthError = '소셜 로그인이 취소되었거나 실패했습니다';
+        return true;
+      }
+    }
+
+    getAuthenticateOptions(context: ExecutionContext): IAuthModuleOptions {
+      const req = context.switchToHttp().getRequest<OAuthRequest>();
+      return { session: false, state: req.oauthStateToken };
+    }
+  }
+
+  return mixin(MixinSocialAuthGuard);
+}
+
+export const GoogleAuthGuard = createSocialAuthGuard('google');
+export const GithubAuthGuard = createSocialAuthGuard('github');
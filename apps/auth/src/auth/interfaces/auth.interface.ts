@@ -3,6 +3,7 @@ export interface JwtPayload {
   userId: string; // 호환성을 위한 추가 필드
   email: string;
   username: string;
+  sid?: string; // 로그인 세션 ID
   iat?: number;
   exp?: number;
 }
@@ -10,6 +11,7 @@ export interface JwtPayload {
 export interface JwtRefreshPayload {
   sub: string; // 사용자 ID
   tokenId: string; // 토큰 고유 ID
+  sid?: string; // 로그인 세션 ID (토큰 갱신 중에도 유지)
   iat?: number;
   exp?: number;
 }
@@ -18,6 +20,7 @@ export interface SocialUser {
   provider: string;
   providerId: string;
   email: string;
+  emailVerified?: boolean; // 제공자가 확인한 이메일인지 여부
   firstName?: string;
   lastName?: string;
   username?: string;
@@ -57,3 +60,9 @@ export interface UserResponse {
   lastLoginAt?: Date;
   createdAt: Date;
 }
+
+export interface SessionContext {
+  sessionId?: string; // 이어갈 기존 세션 ID (없으면 새 세션)
+  ipAddress?: string;
+  userAgent?: string;
+}
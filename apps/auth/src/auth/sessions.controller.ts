@@ -0,0 +1,110 @@
+import {
+  Controller,
+  Get,
+  Delete,
+  Param,
+  Req,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import express from 'express';
+import { AuthService } from './auth.service';
+import {
+  prepareSecurityLogData,
+  CurrentUser,
+  type JwtUser,
+} from '@packages/common';
+
+/**
+ * 📱 로그인 세션(디바이스) 컨트롤러
+ *
+ * 로그인한 디바이스 목록을 확인하고 원하는 디바이스를 로그아웃시킵니다.
+ */
+@ApiTags('📱 세션 관리 (Sessions)')
+@ApiBearerAuth('access-token')
+@Controller('auth/sessions')
+export class SessionsController {
+  private readonly logger = new Logger(SessionsController.name);
+
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * 활성 세션 목록 조회
+   */
+  @Get()
+  @ApiOperation({
+    summary: '활성 세션 목록 조회',
+    description: '로그인된 디바이스별 브라우저, OS, IP, 마지막 사용 시각과 현재 세션 여부를 최근 사용 순으로 조회합니다.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: '세션 목록 조회 성공',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        message: { type: 'string', example: '세션 목록 조회 성공' },
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              sessionId: { type: 'string', example: '7d4c1f0e-1b2a-4c3d-9e8f-0a1b2c3d4e5f' },
+              browser: { type: 'string', example: 'Chrome' },
+              os: { type: 'string', example: 'macOS' },
+              device: { type: 'string', example: 'Desktop' },
+              ipAddress: { type: 'string', nullable: true, example: '203.0.113.10' },
+              lastUsed: { type: 'string', example: '2025-06-30T09:00:00.000Z' },
+              createdAt: { type: 'string', example: '2025-06-28T09:00:00.000Z' },
+              current: { type: 'boolean', example: true },
+            },
+          },
+        },
+      },
+    },
+  })
+  async getSessions(@CurrentUser() user: JwtUser) {
+    const sessions = await this.authService.getSessions(user.userId, user.sessionId);
+
+    return {
+      success: true,
+      message: '세션 목록 조회 성공',
+      data: sessions,
+    };
+  }
+
+  /**
+   * 세션 종료 (특정 디바이스 로그아웃)
+   */
+  @Delete(':sessionId')
+  @ApiOperation({
+    summary: '세션 종료',
+    description: '선택한 디바이스의 리프레시 토큰을 폐기하고, 해당 세션의 액세스 토큰도 더 이상 사용할 수 없게 합니다.',
+  })
+  @ApiParam({ name: 'sessionId', description: '종료할 세션 ID' })
+  @ApiResponse({ status: 200, description: '세션 종료 성공' })
+  @ApiResponse({ status: 404, description: '세션을 찾을 수 없음' })
+  async revokeSession(
+    @CurrentUser('userId') userId: string,
+    @Param('sessionId') sessionId: string,
+    @Req() req: express.Request
+  ) {
+    await this.authService.revokeSession(userId, sessionId);
+
+    this.logger.log(
+      `세션 종료: ${userId}`,
+      prepareSecurityLogData(req, { action: 'session_revoke', userId, sessionId })
+    );
+
+    return {
+      success: true,
+      message: '세션이 종료되었습니다',
+    };
+  }
+}
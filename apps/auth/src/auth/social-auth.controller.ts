@@ -0,0 +1,288 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Req,
+  UseGuards,
+  Redirect,
+  HttpCode,
+  HttpStatus,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+  ApiQuery,
+  ApiProperty,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import express from 'express';
+import { AuthService } from './auth.service';
+import { SocialAuthService } from './social-auth.service';
+import { GoogleAuthGuard, GithubAuthGuard, OAuthRequest } from './guards/social-auth.guard';
+import { SocialUser } from './interfaces/auth.interface';
+import {
+  extractClientIp,
+  prepareSecurityLogData,
+  Public,
+  CurrentUser,
+  ZodBody,
+  ZodValidationPipe,
+} from '@packages/common';
+import {
+  socialLoginExchangeSchema,
+  socialProviderSchema,
+  type SocialLoginExchangeDto,
+  type SocialProvider,
+} from '@packages/schemas';
+
+// 스웨거 요청 DTO 클래스
+class SocialLoginExchangeRequestDto {
+  @ApiProperty({ example: 'V2hhdCBhIG9uZS10aW1lIGNvZGU...', description: '콜백 리다이렉트로 받은 1회용 로그인 코드' })
+  code: string;
+}
+
+/**
+ * 🌐 소셜 로그인 (OAuth) 컨트롤러
+ *
+ * 흐름:
+ * 1. GET /auth/{provider} → 제공자 로그인 화면 (link 쿼리가 있으면 계정 연결)
+ * 2. GET /auth/{provider}/callback → 웹 콜백 페이지로 1회용 코드 전달
+ * 3. POST /auth/social/exchange → 코드를 토큰(또는 2단계 인증 챌린지)으로 교환
+ */
+@ApiTags('🌐 소셜 로그인 (OAuth)')
+@Controller('auth')
+export class SocialAuthController {
+  private readonly logger = new Logger(SocialAuthController.name);
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly socialAuthService: SocialAuthService
+  ) {}
+
+  /**
+   * 구글 로그인 시작
+   */
+  @Public()
+  @Get('google')
+  @UseGuards(GoogleAuthGuard)
+  @Redirect()
+  @ApiOperation({ summary: '구글 로그인 시작', description: '구글 로그인 화면으로 리다이렉트합니다.' })
+  @ApiQuery({ name: 'link', required: false, description: '계정 연결 시작 토큰 (POST /auth/social/google/link)' })
+  @ApiResponse({ status: 302, description: '구글 로그인 화면으로 이동' })
+  googleLogin(@Req() req: OAuthRequest) {
+    // 정상 요청은 가드가 제공자 화면으로 리다이렉트하므로 여기에는 오류만 도달
+    return { url: this.socialAuthService.buildWebRedirect({ error: req.oauthError || '' }) };
+  }
+
+  /**
+   * 구글 로그인 콜백
+   */
+  @Public()
+  @Get('google/callback')
+  @UseGuards(GoogleAuthGuard)
+  @Redirect()
+  @ApiOperation({ summary: '구글 로그인 콜백', description: '구글 인증 결과를 처리하고 웹 콜백 페이지로 리다이렉트합니다.' })
+  @ApiResponse({ status: 302, description: '웹 콜백 페이지로 이동 (code, linked 또는 error 쿼리)' })
+  googleCallback(@Req() req: OAuthRequest) {
+    return this.handleCallback('google', req);
+  }
+
+  /**
+   * 깃허브 로그인 시작
+   */
+  @Public()
+  @Get('github')
+  @UseGuards(GithubAuthGuard)
+  @Redirect()
+  @ApiOperation({ summary: '깃허브 로그인 시작', description: '깃허브 로그인 화면으로 리다이렉트합니다.' })
+  @ApiQuery({ name: 'link', required: false, description: '계정 연결 시작 토큰 (POST /auth/social/github/link)' })
+  @ApiResponse({ status: 302, description: '깃허브 로그인 화면으로 이동' })
+  githubLogin(@Req() req: OAuthRequest) {
+    // 정상 요청은 가드가 제공자 화면으로 리다이렉트하므로 여기에는 오류만 도달
+    return { url: this.socialAuthService.buildWebRedirect({ error: req.oauthError || '' }) };
+  }
+
+  /**
+   * 깃허브 로그인 콜백
+   */
+  @Public()
+  @Get('github/callback')
+  @UseGuards(GithubAuthGuard)
+  @Redirect()
+  @ApiOperation({ summary: '깃허브 로그인 콜백', description: '깃허브 인증 결과를 처리하고 웹 콜백 페이지로 리다이렉트합니다.' })
+  @ApiResponse({ status: 302, description: '웹 콜백 페이지로 이동 (code, linked 또는 error 쿼리)' })
+  githubCallback(@Req() req: OAuthRequest) {
+    return this.handleCallback('github', req);
+  }
+
+  /**
+   * 소셜 로그인 완료 (1회용 코드 교환)
+   */
+  @Public()
+  @Post('social/exchange')
+  @HttpCode(HttpStatus.OK)
+  @ZodBody(socialLoginExchangeSchema)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한
+  @ApiOperation({
+    summary: '소셜 로그인 완료',
+    description: '콜백으로 받은 1회용 코드를 토큰으로 교환합니다. 2단계 인증 사용자는 챌린지를 받아 POST /auth/2fa/verify 로 완료합니다.',
+  })
+  @ApiBody({ type: SocialLoginExchangeRequestDto })
+  @ApiResponse({ status: 200, description: '로그인 성공 (로그인 API와 같은 응답)' })
+  @ApiResponse({ status: 401, description: '만료되었거나 이미 사용된 코드' })
+  async exchange(
+    @Body() socialLoginExchangeDto: SocialLoginExchangeDto,
+    @Req() req: express.Request
+  ) {
+    const login = await this.socialAuthService.consumeLoginCode(socialLoginExchangeDto.code);
+    if (!login) {
+      throw new UnauthorizedException('로그인 코드가 만료되었거나 이미 사용되었습니다. 다시 로그인해주세요');
+    }
+
+    const result = await this.authService.completeSocialLogin(
+      login.userId,
+      login.provider,
+      extractClientIp(req),
+      req.get('User-Agent')
+    );
+
+    if ('requiresTwoFactor' in result) {
+      return {
+        success: true,
+        message: '2단계 인증 코드를 입력해주세요',
+        data: result,
+      };
+    }
+
+    return {
+      success: true,
+      message: '로그인이 완료되었습니다',
+      data: {
+        user: result.user,
+        tokens: result.tokens,
+      },
+    };
+  }
+
+  /**
+   * 연결된 소셜 계정 조회
+   */
+  @Get('social/accounts')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: '연결된 소셜 계정 조회',
+    description: '비밀번호 설정 여부와 연결된 소셜 계정 목록을 조회합니다.',
+  })
+  @ApiResponse({ status: 200, description: '조회 성공' })
+  async getConnectedAccounts(@CurrentUser('userId') userId: string) {
+    const connectedAccounts = await this.socialAuthService.getConnectedAccounts(userId);
+
+    return {
+      success: true,
+      message: '연결된 소셜 계정 조회 성공',
+      data: connectedAccounts,
+    };
+  }
+
+  /**
+   * 소셜 계정 연결 시작
+   */
+  @Post('social/:provider/link')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 분당 5회 제한
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: '소셜 계정 연결 시작',
+    description: '5분간 유효한 연결 토큰을 발급합니다. GET /auth/{provider}?link={linkToken} 으로 이동하면 제공자 인증 후 현재 계정에 연결됩니다.',
+  })
+  @ApiParam({ name: 'provider', enum: ['google', 'github'] })
+  @ApiResponse({ status: 200, description: '연결 토큰 발급 성공' })
+  linkAccount(
+    @CurrentUser('userId') userId: string,
+    @Param('provider', new ZodValidationPipe(socialProviderSchema)) provider: SocialProvider
+  ) {
+    return {
+      success: true,
+      message: '소셜 계정 연결을 시작합니다',
+      data: { linkToken: this.socialAuthService.createLinkToken(userId, provider) },
+    };
+  }
+
+  /**
+   * 소셜 계정 연결 해제
+   */
+  @Delete('social/:provider')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: '소셜 계정 연결 해제',
+    description: '소셜 계정 연결을 해제합니다. 비밀번호가 없는 계정의 마지막 소셜 계정은 해제할 수 없습니다.',
+  })
+  @ApiParam({ name: 'provider', enum: ['google', 'github'] })
+  @ApiResponse({ status: 200, description: '연결 해제 성공' })
+  @ApiResponse({ status: 400, description: '마지막 로그인 수단' })
+  @ApiResponse({ status: 404, description: '연결되지 않은 소셜 계정' })
+  async unlinkAccount(
+    @CurrentUser('userId') userId: string,
+    @Param('provider', new ZodValidationPipe(socialProviderSchema)) provider: SocialProvider,
+    @Req() req: express.Request
+  ) {
+    await this.socialAuthService.unlinkAccount(userId, provider);
+
+    this.logger.log(
+      `소셜 계정 연결 해제: ${userId} (${provider})`,
+      prepareSecurityLogData(req, { action: 'social_unlink', userId, provider })
+    );
+
+    return {
+      success: true,
+      message: '소셜 계정 연결이 해제되었습니다',
+    };
+  }
+
+  /**
+   * 콜백 공통 처리 - 계정 연결 또는 로그인 코드 발급 후 웹으로 리다이렉트
+   */
+  private async handleCallback(provider: SocialProvider, req: OAuthRequest) {
+    const socialUser = req.user as SocialUser | undefined;
+    if (req.oauthError || !req.oauthState || !socialUser) {
+      return {
+        url: this.socialAuthService.buildWebRedirect({
+          error: req.oauthError || '소셜 로그인에 실패했습니다',
+        }),
+      };
+    }
+
+    try {
+      const { linkUserId } = req.oauthState;
+      if (linkUserId) {
+        await this.socialAuthService.linkAccount(linkUserId, socialUser);
+        this.logger.log(
+          `소셜 계정 연결: ${linkUserId} (${provider})`,
+          prepareSecurityLogData(req, { action: 'social_link', userId: linkUserId, provider })
+        );
+        return { url: this.socialAuthService.buildWebRedirect({ linked: provider }) };
+      }
+
+      const userId = await this.authService.handleSocialLogin(socialUser);
+      const code = await this.socialAuthService.createLoginCode(userId, provider);
+      return { url: this.socialAuthService.buildWebRedirect({ code }) };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : '소셜 로그인에 실패했습니다';
+      this.logger.error(
+        `소셜 로그인 콜백 실패: ${errorMessage}`,
+        prepareSecurityLogData(req, { action: 'social_callback_failed', provider })
+      );
+      return { url: this.socialAuthService.buildWebRedirect({ error: errorMessage }) };
+    }
+  }
+}
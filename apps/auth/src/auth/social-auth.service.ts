@@ -0,0 +1,263 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService, RedisService } from '@packages/database';
+import type { ConnectedAccounts, SocialProvider } from '@packages/schemas';
+import { createHash, randomBytes } from 'crypto';
+import { UsersService } from '../users/users.service';
+import { SocialUser } from './interfaces/auth.interface';
+
+const STATE_TTL_SECONDS = 10 * 60; // 제공자 로그인 화면에 머무를 수 있는 시간
+const LINK_TOKEN_TTL_SECONDS = 5 * 60; // 계정 연결 시작 토큰 유효 시간
+const LOGIN_CODE_TTL_SECONDS = 60; // 웹에서 토큰으로 교환할 1회용 코드 유효 시간
+
+// 브라우저와 state를 묶는 nonce 쿠키 이름
+export const OAUTH_STATE_COOKIE = 'oauth_state';
+
+/**
+ * 서명된 OAuth state 내용
+ */
+export interface OAuthState {
+  provider: SocialProvider;
+  nonce: string;
+  linkUserId?: string; // 계정 연결 요청이면 연결할 사용자 ID
+}
+
+/**
+ * 🌐 소셜 로그인 (OAuth) 서비스
+ *
+ * 주요 기능:
+ * - 서명된 state 발급/검증 (nonce 쿠키와 대조해 CSRF 방지)
+ * - 콜백 후 웹으로 전달할 1회용 로그인 코드 발급/교환
+ * - 소셜 계정 연결/해제 (마지막 로그인 수단 해제 방지)
+ */
+@Injectable()
+export class SocialAuthService {
+  private readonly logger = new Logger(SocialAuthService.name);
+
+  private readonly stateSecret: string;
+  private readonly webCallbackUrl: string;
+
+  constructor(
+    private jwtService: JwtService,
+    private configService: ConfigService,
+    private prismaService: PrismaService,
+    private redisService: RedisService,
+    private usersService: UsersService
+  ) {
+    this.stateSecret =
+      this.configService.get<string>('social.stateSecret') ||
+      this.configService.get<string>('jwt.accessToken.secret') ||
+      process.env.JWT_ACCESS_SECRET ||
+      'default-secret';
+    this.webCallbackUrl =
+      this.configService.get<string>('social.webCallbackUrl') ||
+      'http://localhost:3000/callback';
+  }
+
+  /**
+   * OAuth state 발급
+   * @param provider 소셜 플랫폼
+   * @param linkUserId 계정 연결 요청이면 연결할 사용자 ID
+   * @returns 서명된 state와 쿠키에 저장할 nonce
+   */
+  createState(provider: SocialProvider, linkUserId?: string): { state: string; nonce: string } {
+    const nonce = randomBytes(16).toString('base64url');
+    const state = this.jwtService.sign(
+      { purpose: 'oauth_state', provider, nonce, linkUserId },
+      { secret: this.stateSecret, expiresIn: STATE_TTL_SECONDS }
+    );
+
+    return { state, nonce };
+  }
+
+  /**
+   * OAuth state 검증 - 서명, 만료, 제공자, 쿠키 nonce 일치 여부 확인
+   * @param provider 콜백을 받은 소셜 플랫폼
+   * @param state 콜백 쿼리의 state
+   * @param nonce 브라우저 쿠키의 nonce
+   * @returns state 내용 (유효하지 않으면 null)
+   */
+  verifyState(provider: SocialProvider, state?: string, nonce?: string): OAuthState | null {
+    if (!state || !nonce) {
+      return null;
+    }
+
+    try {
+      const payload = this.jwtService.verify(state, { secret: this.stateSecret });
+      if (
+        payload.purpose !== 'oauth_state' ||
+        payload.provider !== provider ||
+        payload.nonce !== nonce
+      ) {
+        return null;
+      }
+
+      return { provider, nonce, linkUserId: payload.linkUserId };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 계정 연결 시작 토큰 발급 (로그인 사용자가 제공자 화면으로 이동할 때 사용)
+   * @param userId 사용자 ID
+   * @param provider 연결할 소셜 플랫폼
+   */
+  createLinkToken(userId: string, provider: SocialProvider): string {
+    return this.jwtService.sign(
+      { purpose: 'oauth_link', sub: userId, provider },
+      { secret: this.stateSecret, expiresIn: LINK_TOKEN_TTL_SECONDS }
+    );
+  }
+
+  /**
+   * 계정 연결 시작 토큰 검증
+   * @returns 사용자 ID (유효하지 않으면 null)
+   */
+  resolveLinkToken(token: string, provider: SocialProvider): string | null {
+    try {
+      const payload = this.jwtService.verify(token, { secret: this.stateSecret });
+      return payload.purpose === 'oauth_link' && payload.provider === provider
+        ? payload.sub
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 1회용 로그인 코드 발급 - 토큰을 URL에 싣지 않기 위해 콜백은 코드만 전달
+   * @param userId 로그인할 사용자 ID
+   * @param provider 소셜 플랫폼
+   */
+  async createLoginCode(userId: string, provider: SocialProvider): Promise<string> {
+    const code = randomBytes(32).toString('base64url');
+    await this.redisService.set(
+      this.loginCodeKey(code),
+      JSON.stringify({ userId, provider }),
+      LOGIN_CODE_TTL_SECONDS
+    );
+
+    return code;
+  }
+
+  /**
+   * 1회용 로그인 코드 사용
+   * @returns 사용자 ID와 제공자 (만료/사용된 코드면 null)
+   */
+  async consumeLoginCode(
+    code: string
+  ): Promise<{ userId: string; provider: SocialProvider } | null> {
+    const value = await this.redisService.getdel(this.loginCodeKey(code));
+    return value ? JSON.parse(value) : null;
+  }
+
+  /**
+   * 로그인 수단 현황 조회
+   * @param userId 사용자 ID
+   */
+  async getConnectedAccounts(userId: string): Promise<ConnectedAccounts> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: {
+        password: true,
+        socialAccounts: {
+          select: { provider: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('사용자를 찾을 수 없습니다');
+    }
+
+    return {
+      hasPassword: !!user.password,
+      accounts: user.socialAccounts.map((account) => ({
+        provider: account.provider as SocialProvider,
+        connectedAt: account.createdAt.toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * 로그인 사용자에 소셜 계정 연결
+   * @param userId 사용자 ID
+   * @param socialUser 제공자 인증을 마친 소셜 사용자 정보
+   */
+  async linkAccount(userId: string, socialUser: SocialUser): Promise<void> {
+    const owner = await this.usersService.findBySocialAccount(
+      socialUser.provider,
+      socialUser.providerId
+    );
+    if (owner) {
+      if (owner.id === userId) {
+        return;
+      }
+      throw new ConflictException('다른 계정에 이미 연결된 소셜 계정입니다');
+    }
+
+    const { accounts } = await this.getConnectedAccounts(userId);
+    if (accounts.some((account) => account.provider === socialUser.provider)) {
+      throw new ConflictException('이미 같은 제공자의 계정이 연결되어 있습니다');
+    }
+
+    await this.usersService.linkSocialAccount(userId, {
+      provider: socialUser.provider,
+      providerId: socialUser.providerId,
+      providerData: {
+        accessToken: socialUser.accessToken,
+        refreshToken: socialUser.refreshToken,
+      },
+    });
+
+    this.logger.log(`소셜 계정 연결: ${userId} (${socialUser.provider})`);
+  }
+
+  /**
+   * 소셜 계정 연결 해제 - 남은 로그인 수단이 없으면 거부
+   * @param userId 사용자 ID
+   * @param provider 해제할 소셜 플랫폼
+   */
+  async unlinkAccount(userId: string, provider: SocialProvider): Promise<void> {
+    const { hasPassword, accounts } = await this.getConnectedAccounts(userId);
+
+    if (!accounts.some((account) => account.provider === provider)) {
+      throw new NotFoundException('연결되지 않은 소셜 계정입니다');
+    }
+
+    if (!hasPassword && accounts.length === 1) {
+      throw new BadRequestException(
+        '마지막 로그인 수단은 해제할 수 없습니다. 다른 계정을 연결하거나 비밀번호를 먼저 설정해주세요'
+      );
+    }
+
+    await this.prismaService.socialAccount.deleteMany({
+      where: { userId, provider },
+    });
+
+    this.logger.log(`소셜 계정 연결 해제: ${userId} (${provider})`);
+  }
+
+  /**
+   * 웹 콜백 페이지 주소 생성
+   * @param params 전달할 쿼리 (code, linked, error)
+   */
+  buildWebRedirect(params: Record<string, string>): string {
+    const url = new URL(this.webCallbackUrl);
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    return url.toString();
+  }
+
+  private loginCodeKey(code: string): string {
+    return `social_login_code:${createHash('sha256').update(code).digest('hex')}`;
+  }
+}
@@ -11,6 +11,7 @@ export class GithubStrategy extends PassportStrategy(Strategy, 'github') {
       clientSecret: configService.get<string>('social.github.clientSecret'),
       callbackURL: configService.get<string>('social.github.callbackUrl'),
       scope: ['user:email'],
+      allRawEmails: true, // 인증 여부(verified) 포함한 전체 이메일 목록 조회
     });
   }
 
@@ -21,11 +22,13 @@ export class GithubStrategy extends PassportStrategy(Strategy, 'github') {
     done: any,
   ): Promise<any> {
     const { id, username, displayName, emails, photos } = profile;
+    const primaryEmail = emails?.find((email: { primary?: boolean }) => email.primary) ?? emails?.[0];
     
     const user = {
       provider: 'github',
       providerId: id,
-      email: emails?.[0]?.value,
+      email: primaryEmail?.value,
+      emailVerified: primaryEmail?.verified === true,
       username: username,
       firstName: displayName?.split(' ')[0],
       lastName: displayName?.split(' ').slice(1).join(' '),
@@ -26,6 +26,7 @@ export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
       provider: 'google',
       providerId: id,
       email: emails[0].value,
+      emailVerified: emails[0].verified === true,
       firstName: name.givenName,
       lastName: name.familyName,
       avatar: photos[0].value,
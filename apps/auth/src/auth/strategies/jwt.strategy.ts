@@ -12,6 +12,7 @@ import { RedisService } from '@packages/database';
  * 주요 기능:
  * - JWT 토큰 검증 및 사용자 인증
  * - 토큰 블랙리스트 확인
+ * - 종료된 세션(디바이스)의 토큰 거부
  * - 사용자 계정 상태 검증
  * - 보안 로깅 및 모니터링
  */
@@ -72,7 +73,8 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
           role: true,
           isVerified: true,
           isActive: true,
-          lastLoginAt: true
+          lastLoginAt: true,
+          passwordChangedAt: true
         }
       });
 
@@ -86,6 +88,22 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
         throw new UnauthorizedException('비활성화된 계정입니다');
       }
 
+      // 비밀번호 변경 이전에 발급된 토큰 거부
+      if (
+        user.passwordChangedAt &&
+        payload.iat &&
+        payload.iat < Math.floor(user.passwordChangedAt.getTime() / 1000)
+      ) {
+        this.logger.warn(`비밀번호 변경 이전 토큰 사용 시도 - 사용자: ${user.email}`);
+        throw new UnauthorizedException('비밀번호가 변경되어 다시 로그인해야 합니다');
+      }
+
+      // 종료된 세션의 토큰 거부 (세션 목록에서 해당 디바이스를 로그아웃한 경우)
+      if (payload.sid && !(await this.redisService.getSession(user.id, payload.sid))) {
+        this.logger.warn(`종료된 세션의 토큰 사용 시도 - 사용자: ${user.email}`);
+        throw new UnauthorizedException('세션이 종료되었습니다. 다시 로그인해주세요');
+      }
+
       const validationTime = Date.now() - startTime;
       
       if (process.env.NODE_ENV === 'development') {
@@ -103,6 +121,7 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
         role: user.role,
         isVerified: user.isVerified,
         isActive: user.isActive,
+        sessionId: payload.sid,
       };
 
       return jwtUser;
@@ -0,0 +1,289 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Req,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiProperty,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import express from 'express';
+import { AuthService } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
+import {
+  extractClientIp,
+  prepareSecurityLogData,
+  Public,
+  CurrentUser,
+  ZodBody,
+  ZodValidationPipe,
+  type JwtUser,
+} from '@packages/common';
+import {
+  twoFactorCodeSchema,
+  twoFactorDisableSchema,
+  twoFactorLoginSchema,
+  type TwoFactorCodeDto,
+  type TwoFactorDisableDto,
+  type TwoFactorLoginDto,
+} from '@packages/schemas';
+
+// 스웨거 요청 DTO 클래스들
+class TwoFactorCodeRequestDto {
+  @ApiProperty({ example: '123456', description: '인증 앱의 6자리 코드' })
+  code: string;
+}
+
+class TwoFactorDisableRequestDto {
+  @ApiProperty({ example: '123456', description: '인증 앱의 6자리 코드 또는 복구 코드 (XXXXX-XXXXX)' })
+  code: string;
+}
+
+class TwoFactorLoginRequestDto {
+  @ApiProperty({ example: 'c2hvcnQtbGl2ZWQtY2hhbGxlbmdl...', description: '로그인 응답으로 받은 챌린지 토큰' })
+  challengeToken: string;
+
+  @ApiProperty({ example: '123456', description: '인증 앱의 6자리 코드 또는 복구 코드 (XXXXX-XXXXX)' })
+  code: string;
+}
+
+const recoveryCodesResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', example: true },
+    message: { type: 'string' },
+    data: {
+      type: 'object',
+      properties: {
+        recoveryCodes: {
+          type: 'array',
+          items: { type: 'string', example: 'K7M2Q-XP9RT' },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * 🔐 2단계 인증 (TOTP) 컨트롤러
+ *
+ * 등록/해제/복구 코드 재발급은 로그인 사용자만,
+ * 로그인 2단계 검증(verify)은 챌린지 토큰으로 공개 접근합니다.
+ */
+@ApiTags('🔐 2단계 인증 (Two-Factor)')
+@Controller('auth/2fa')
+export class TwoFactorController {
+  private readonly logger = new Logger(TwoFactorController.name);
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService
+  ) {}
+
+  /**
+   * 2단계 인증 상태 조회
+   */
+  @Get('status')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: '2단계 인증 상태 조회',
+    description: '2단계 인증 활성화 여부와 남은 복구 코드 수를 조회합니다.',
+  })
+  @ApiResponse({ status: 200, description: '상태 조회 성공' })
+  async getStatus(@CurrentUser('userId') userId: string) {
+    const status = await this.twoFactorService.getStatus(userId);
+
+    return {
+      success: true,
+      message: '2단계 인증 상태 조회 성공',
+      data: status,
+    };
+  }
+
+  /**
+   * 2단계 인증 등록 시작
+   */
+  @Post('setup')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 분당 5회 제한
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: '2단계 인증 등록 시작',
+    description: '새 TOTP 시크릿과 인증 앱 등록용 otpauth URI를 발급합니다. 10분 안에 enable로 코드를 확인해야 활성화됩니다.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: '시크릿 발급 성공',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        message: { type: 'string', example: '인증 앱에 계정을 등록한 뒤 코드를 입력해주세요' },
+        data: {
+          type: 'object',
+          properties: {
+            secret: { type: 'string', example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP' },
+            otpauthUri: { type: 'string', example: 'otpauth://totp/LMS:user%40example.com?secret=...' },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: '이미 활성화됨' })
+  async setup(@CurrentUser() user: JwtUser) {
+    const setup = await this.twoFactorService.beginSetup(user.userId, user.email);
+
+    return {
+      success: true,
+      message: '인증 앱에 계정을 등록한 뒤 코드를 입력해주세요',
+      data: setup,
+    };
+  }
+
+  /**
+   * 2단계 인증 활성화
+   */
+  @Post('enable')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 분당 5회 제한
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: '2단계 인증 활성화',
+    description: '인증 앱의 코드를 확인해 2단계 인증을 켜고 복구 코드를 발급합니다. 복구 코드는 이 응답에서만 확인할 수 있습니다.',
+  })
+  @ApiBody({ type: TwoFactorCodeRequestDto })
+  @ApiResponse({ status: 200, description: '활성화 성공', schema: recoveryCodesResponseSchema })
+  @ApiResponse({ status: 400, description: '잘못된 코드 또는 만료된 등록 요청' })
+  async enable(
+    @CurrentUser('userId') userId: string,
+    @Body(new ZodValidationPipe(twoFactorCodeSchema)) twoFactorCodeDto: TwoFactorCodeDto,
+    @Req() req: express.Request
+  ) {
+    const recoveryCodes = await this.twoFactorService.enable(userId, twoFactorCodeDto.code);
+
+    this.logger.log(
+      `2단계 인증 활성화: ${userId}`,
+      prepareSecurityLogData(req, { action: 'two_factor_enable', userId })
+    );
+
+    return {
+      success: true,
+      message: '2단계 인증이 활성화되었습니다. 복구 코드를 안전한 곳에 보관하세요',
+      data: { recoveryCodes },
+    };
+  }
+
+  /**
+   * 2단계 인증 해제
+   */
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 분당 5회 제한
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: '2단계 인증 해제',
+    description: '인증 앱의 코드 또는 복구 코드를 확인한 뒤 2단계 인증을 끄고 복구 코드를 모두 폐기합니다.',
+  })
+  @ApiBody({ type: TwoFactorDisableRequestDto })
+  @ApiResponse({ status: 200, description: '해제 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 코드 또는 비활성 상태' })
+  async disable(
+    @CurrentUser('userId') userId: string,
+    @Body(new ZodValidationPipe(twoFactorDisableSchema)) twoFactorDisableDto: TwoFactorDisableDto,
+    @Req() req: express.Request
+  ) {
+    await this.twoFactorService.disable(userId, twoFactorDisableDto.code);
+
+    this.logger.log(
+      `2단계 인증 해제: ${userId}`,
+      prepareSecurityLogData(req, { action: 'two_factor_disable', userId })
+    );
+
+    return {
+      success: true,
+      message: '2단계 인증이 해제되었습니다',
+    };
+  }
+
+  /**
+   * 복구 코드 재발급
+   */
+  @Post('recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 3, ttl: 60000 } }) // 분당 3회 제한
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: '복구 코드 재발급',
+    description: '인증 앱의 코드를 확인한 뒤 기존 복구 코드를 모두 폐기하고 새로 발급합니다.',
+  })
+  @ApiBody({ type: TwoFactorCodeRequestDto })
+  @ApiResponse({ status: 200, description: '재발급 성공', schema: recoveryCodesResponseSchema })
+  @ApiResponse({ status: 400, description: '잘못된 코드 또는 비활성 상태' })
+  async regenerateRecoveryCodes(
+    @CurrentUser('userId') userId: string,
+    @Body(new ZodValidationPipe(twoFactorCodeSchema)) twoFactorCodeDto: TwoFactorCodeDto
+  ) {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+      userId,
+      twoFactorCodeDto.code
+    );
+
+    return {
+      success: true,
+      message: '복구 코드가 재발급되었습니다. 이전 복구 코드는 더 이상 사용할 수 없습니다',
+      data: { recoveryCodes },
+    };
+  }
+
+  /**
+   * 로그인 2단계 검증
+   */
+  @Public()
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  @ZodBody(twoFactorLoginSchema)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 분당 10회 제한
+  @ApiOperation({
+    summary: '로그인 2단계 검증',
+    description: '로그인 응답으로 받은 챌린지 토큰과 인증 앱 코드(또는 복구 코드)로 로그인을 완료하고 토큰을 발급합니다.',
+  })
+  @ApiBody({ type: TwoFactorLoginRequestDto })
+  @ApiResponse({ status: 200, description: '로그인 성공 (로그인 API와 같은 응답)' })
+  @ApiResponse({ status: 401, description: '잘못된 코드 또는 만료된 챌린지' })
+  async verify(@Body() twoFactorLoginDto: TwoFactorLoginDto, @Req() req: express.Request) {
+    try {
+      const result = await this.authService.verifyTwoFactorLogin(
+        twoFactorLoginDto,
+        extractClientIp(req),
+        req.get('User-Agent')
+      );
+
+      return {
+        success: true,
+        message: '로그인이 완료되었습니다',
+        data: {
+          user: result.user,
+          tokens: result.tokens,
+        },
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unknown error occurred';
+      this.logger.error(
+        `2단계 인증 로그인 실패: ${errorMessage}`,
+        prepareSecurityLogData(req, { action: 'two_factor_verify_failed' })
+      );
+      throw error;
+    }
+  }
+}
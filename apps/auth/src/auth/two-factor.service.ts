@@ -0,0 +1,352 @@
+import {
+  Injectable,
+  BadRequestException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService, RedisService } from '@packages/database';
+import { generateId } from '@packages/common'; // 🆔 CUID2 생성 유틸리티
+import type { TwoFactorChallenge, TwoFactorSetup, TwoFactorStatus } from '@packages/schemas';
+import { createHash, randomBytes } from 'crypto';
+import {
+  buildOtpauthUri,
+  decryptSecret,
+  encryptSecret,
+  generateTotpSecret,
+  verifyTotp,
+} from './utils/totp.util';
+
+const SETUP_TTL_SECONDS = 10 * 60; // 등록 대기 시크릿 유효 시간
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // 혼동되는 문자(0/O, 1/I) 제외
+
+/**
+ * 🔐 2단계 인증 (TOTP) 서비스
+ *
+ * 주요 기능:
+ * - 인증 앱 등록 (시크릿 발급 → 코드 확인 후 활성화)
+ * - 해시된 1회용 복구 코드 발급/사용
+ * - 로그인 2단계 챌린지 발급/검증
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  private readonly issuer: string;
+  private readonly encryptionKey: string;
+  private readonly challengeTtl: number;
+  private readonly maxChallengeAttempts: number;
+  private readonly recoveryCodeCount: number;
+
+  constructor(
+    private configService: ConfigService,
+    private prismaService: PrismaService,
+    private redisService: RedisService
+  ) {
+    const twoFactorConfig = this.configService.get('security.twoFactor');
+    this.issuer = twoFactorConfig?.issuer || 'LMS';
+    this.encryptionKey =
+      twoFactorConfig?.encryptionKey ||
+      this.configService.get<string>('jwt.accessToken.secret') ||
+      process.env.JWT_ACCESS_SECRET ||
+      'default-secret';
+    this.challengeTtl = twoFactorConfig?.challengeTtlSeconds || 300;
+    this.maxChallengeAttempts = twoFactorConfig?.maxChallengeAttempts || 5;
+    this.recoveryCodeCount = twoFactorConfig?.recoveryCodeCount || 10;
+  }
+
+  /**
+   * 2단계 인증 활성화 여부
+   * @param userId 사용자 ID
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    const settings = await this.prismaService.userSettings.findUnique({
+      where: { userId },
+      select: { twoFactorEnabled: true },
+    });
+
+    return settings?.twoFactorEnabled ?? false;
+  }
+
+  /**
+   * 2단계 인증 상태 조회
+   * @param userId 사용자 ID
+   */
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const [enabled, remainingRecoveryCodes] = await Promise.all([
+      this.isEnabled(userId),
+      this.prismaService.twoFactorRecoveryCode.count({
+        where: { userId, usedAt: null },
+      }),
+    ]);
+
+    return { enabled, remainingRecoveryCodes: enabled ? remainingRecoveryCodes : 0 };
+  }
+
+  /**
+   * 등록 시작 - 새 시크릿을 발급하고 코드 확인 전까지 Redis에 보관
+   * @param userId 사용자 ID
+   * @param email 인증 앱에 표시할 계정 이름
+   */
+  async beginSetup(userId: string, email: string): Promise<TwoFactorSetup> {
+    if (await this.isEnabled(userId)) {
+      throw new BadRequestException('이미 2단계 인증이 활성화되어 있습니다');
+    }
+
+    const secret = generateTotpSecret();
+    await this.redisService.set(
+      this.setupKey(userId),
+      encryptSecret(secret, this.encryptionKey),
+      SETUP_TTL_SECONDS
+    );
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, email, this.issuer),
+    };
+  }
+
+  /**
+   * 등록 완료 - 인증 앱의 코드를 확인한 뒤 활성화하고 복구 코드 발급
+   * @param userId 사용자 ID
+   * @param code 인증 앱의 6자리 코드
+   * @returns 복구 코드 원문 (이번 한 번만 노출)
+   */
+  async enable(userId: string, code: string): Promise<string[]> {
+    const pending = await this.redisService.get(this.setupKey(userId));
+    if (!pending) {
+      throw new BadRequestException('2단계 인증 등록 요청이 만료되었습니다. 다시 시작해주세요');
+    }
+
+    const secret = decryptSecret(pending, this.encryptionKey);
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+      throw new BadRequestException('인증 코드가 올바르지 않습니다');
+    }
+
+    const encryptedSecret = encryptSecret(secret, this.encryptionKey);
+    await this.prismaService.$transaction([
+      this.prismaService.twoFactorCredential.upsert({
+        where: { userId },
+        update: { secret: encryptedSecret },
+        create: { id: generateId(), userId, secret: encryptedSecret },
+      }),
+      this.prismaService.userSettings.upsert({
+        where: { userId },
+        update: { twoFactorEnabled: true },
+        create: { id: generateId(), userId, twoFactorEnabled: true },
+      }),
+    ]);
+
+    await this.redisService.del(this.setupKey(userId));
+    await this.markStepUsed(userId, step);
+
+    this.logger.log(`2단계 인증 활성화: ${userId}`);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * 2단계 인증 해제
+   * @param userId 사용자 ID
+   * @param code TOTP 코드 또는 복구 코드
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    if (!(await this.isEnabled(userId))) {
+      throw new BadRequestException('2단계 인증이 활성화되어 있지 않습니다');
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException('인증 코드가 올바르지 않습니다');
+    }
+
+    await this.prismaService.$transaction([
+      this.prismaService.twoFactorCredential.deleteMany({ where: { userId } }),
+      this.prismaService.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      this.prismaService.userSettings.update({
+        where: { userId },
+        data: { twoFactorEnabled: false },
+      }),
+    ]);
+
+    this.logger.log(`2단계 인증 해제: ${userId}`);
+  }
+
+  /**
+   * 복구 코드 재발급 - 기존 코드는 모두 무효화
+   * @param userId 사용자 ID
+   * @param code 인증 앱의 6자리 코드
+   * @returns 새 복구 코드 원문
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    if (!(await this.isEnabled(userId))) {
+      throw new BadRequestException('2단계 인증이 활성화되어 있지 않습니다');
+    }
+
+    if (!(await this.verifyTotpCode(userId, code))) {
+      throw new BadRequestException('인증 코드가 올바르지 않습니다');
+    }
+
+    this.logger.log(`복구 코드 재발급: ${userId}`);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * 로그인 2단계 챌린지 발급
+   * @param userId 비밀번호 확인을 마친 사용자 ID
+   */
+  async createLoginChallenge(userId: string): Promise<TwoFactorChallenge> {
+    const challengeToken = randomBytes(32).toString('base64url');
+    await this.redisService.set(
+      this.challengeKey(challengeToken),
+      userId,
+      this.challengeTtl
+    );
+
+    return {
+      requiresTwoFactor: true,
+      challengeToken,
+      expiresIn: this.challengeTtl,
+    };
+  }
+
+  /**
+   * 로그인 2단계 챌린지 검증
+   * 성공하면 챌린지를 소모하고, 실패가 누적되면 챌린지를 폐기합니다.
+   * @param challengeToken 로그인 1단계에서 받은 챌린지 토큰
+   * @param code TOTP 코드 또는 복구 코드
+   * @returns 사용자 ID
+   */
+  async resolveLoginChallenge(challengeToken: string, code: string): Promise<string> {
+    const key = this.challengeKey(challengeToken);
+    const userId = await this.redisService.get(key);
+    if (!userId) {
+      throw new UnauthorizedException('2단계 인증 요청이 만료되었습니다. 다시 로그인해주세요');
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      const attempts = await this.redisService.incrementLoginAttempts(key, this.challengeTtl);
+      if (attempts >= this.maxChallengeAttempts) {
+        await this.redisService.del(key);
+        this.logger.warn(`2단계 인증 시도 초과로 챌린지 폐기: ${userId}`);
+      }
+      throw new UnauthorizedException('인증 코드가 올바르지 않습니다');
+    }
+
+    await this.redisService.del(key);
+    await this.redisService.resetLoginAttempts(key);
+    return userId;
+  }
+
+  /**
+   * TOTP 코드 또는 복구 코드 검증
+   * @param userId 사용자 ID
+   * @param code 입력 코드
+   */
+  private async verifyCode(userId: string, code: string): Promise<boolean> {
+    if (/^\d{6}$/.test(code)) {
+      return this.verifyTotpCode(userId, code);
+    }
+
+    return this.consumeRecoveryCode(userId, code);
+  }
+
+  /**
+   * 저장된 시크릿으로 TOTP 코드 검증 (같은 시간 단계의 코드 재사용 거부)
+   */
+  private async verifyTotpCode(userId: string, code: string): Promise<boolean> {
+    const credential = await this.prismaService.twoFactorCredential.findUnique({
+      where: { userId },
+    });
+    if (!credential) {
+      return false;
+    }
+
+    const step = verifyTotp(decryptSecret(credential.secret, this.encryptionKey), code);
+    if (step === null) {
+      return false;
+    }
+
+    const lastStep = await this.redisService.get(this.lastStepKey(userId));
+    if (lastStep && step <= Number(lastStep)) {
+      this.logger.warn(`이미 사용된 TOTP 코드 재사용 시도: ${userId}`);
+      return false;
+    }
+
+    await this.markStepUsed(userId, step);
+    return true;
+  }
+
+  /**
+   * 복구 코드 1회 사용
+   */
+  private async consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const result = await this.prismaService.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash: this.hashRecoveryCode(code), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (result.count > 0) {
+      this.logger.log(`복구 코드 사용: ${userId}`);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * 복구 코드 전체 교체
+   * @returns 새 복구 코드 원문
+   */
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: this.recoveryCodeCount }, () =>
+      this.generateRecoveryCode()
+    );
+
+    await this.prismaService.$transaction([
+      this.prismaService.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      this.prismaService.twoFactorRecoveryCode.createMany({
+        data: codes.map((code) => ({
+          id: generateId(),
+          userId,
+          codeHash: this.hashRecoveryCode(code),
+        })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  /**
+   * 복구 코드 생성 (XXXXX-XXXXX)
+   */
+  private generateRecoveryCode(): string {
+    const chars = Array.from(randomBytes(10), (byte) =>
+      RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]
+    );
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+  }
+
+  /**
+   * 복구 코드 해시 (입력 편의를 위해 대소문자/구분자 무시)
+   */
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, '').toUpperCase();
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private async markStepUsed(userId: string, step: number): Promise<void> {
+    await this.redisService.set(this.lastStepKey(userId), String(step), 90);
+  }
+
+  private setupKey(userId: string): string {
+    return `two_factor_setup:${userId}`;
+  }
+
+  private challengeKey(challengeToken: string): string {
+    return `two_factor_challenge:${createHash('sha256').update(challengeToken).digest('hex')}`;
+  }
+
+  private lastStepKey(userId: string): string {
+    return `two_factor_last_step:${userId}`;
+  }
+}
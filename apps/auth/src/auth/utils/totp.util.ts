@@ -0,0 +1,171 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from 'crypto';
+
+/**
+ * ⏱️ TOTP (RFC 6238) 유틸리티
+ *
+ * Google Authenticator 등 일반 인증 앱과 호환되는 기본값을 사용합니다.
+ * (HMAC-SHA1, 6자리, 30초 간격)
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+
+/**
+ * Base32 인코딩 (패딩 없음)
+ */
+function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Base32 디코딩 (공백/패딩/대소문자 무시)
+ */
+function decodeBase32(input: string): Buffer {
+  const cleaned = input.replace(/[\s=]/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('잘못된 Base32 문자열입니다');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * 특정 시간 단계(step)의 TOTP 코드 계산
+ */
+function generateTotpAt(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', decodeBase32(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * 현재 시간 단계
+ */
+export function currentTotpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * 새 TOTP 시크릿 생성 (160비트, Base32)
+ */
+export function generateTotpSecret(): string {
+  return encodeBase32(randomBytes(20));
+}
+
+/**
+ * 인증 앱 등록용 otpauth URI 생성
+ * @param secret Base32 시크릿
+ * @param accountName 계정 이름 (보통 이메일)
+ * @param issuer 발급자 이름
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * TOTP 코드 검증 - 시계 오차를 고려해 앞뒤 window 단계까지 허용
+ * @param secret Base32 시크릿
+ * @param code 사용자가 입력한 코드
+ * @param window 허용할 앞뒤 단계 수
+ * @returns 일치한 시간 단계 (불일치 시 null) - 재사용 방지에 사용
+ */
+export function verifyTotp(secret: string, code: string, window: number = 1): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const step = currentTotpStep();
+  for (let offset = -window; offset <= window; offset++) {
+    const expected = Buffer.from(generateTotpAt(secret, step + offset));
+    if (timingSafeEqual(expected, Buffer.from(code))) {
+      return step + offset;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 시크릿 암호화 (AES-256-GCM) - 결과는 iv.tag.ciphertext (base64url)
+ * @param plainText 평문 시크릿
+ * @param key 암호화 키 원문 (SHA-256으로 32바이트 키 파생)
+ */
+export function encryptSecret(plainText: string, key: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(key), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+}
+
+/**
+ * 시크릿 복호화
+ * @param payload encryptSecret 결과
+ * @param key 암호화 키 원문
+ */
+export function decryptSecret(payload: string, key: string): string {
+  const [iv, tag, encrypted] = payload.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', deriveKey(key), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+function deriveKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Get,
+  Req,
+  UseGuards,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import express from 'express';
+import { DiagnosticsService } from './diagnostics.service';
+import {
+  prepareSecurityLogData,
+  CurrentUser,
+  Roles,
+  RolesGuard,
+} from '@packages/common';
+
+/**
+ * 🩺 진단 컨트롤러
+ *
+ * ENABLE_DIAGNOSTICS=true 일 때만 등록되며, 관리자만 접근할 수 있습니다.
+ * 모든 조회는 보안 로그로 남깁니다.
+ */
+@ApiTags('🩺 진단 (Diagnostics)')
+@ApiBearerAuth('access-token')
+@Controller('auth/diagnostics')
+@UseGuards(RolesGuard)
+@Roles('ADMIN')
+export class DiagnosticsController {
+  private readonly logger = new Logger(DiagnosticsController.name);
+
+  constructor(private readonly diagnosticsService: DiagnosticsService) {}
+
+  /**
+   * 사용자 현황 조회
+   */
+  @Get('users')
+  @ApiOperation({
+    summary: '[진단] 사용자 현황',
+    description: '전체/활성/인증 사용자 수, 역할별 분포와 최근 가입자를 조회합니다. 이메일은 마스킹됩니다.',
+  })
+  @ApiResponse({ status: 200, description: '사용자 현황 조회 성공' })
+  @ApiResponse({ status: 403, description: '관리자 권한 없음' })
+  async getUserSummary(@CurrentUser('userId') userId: string, @Req() req: express.Request) {
+    this.logAccess(req, userId, 'users');
+
+    return {
+      success: true,
+      message: '사용자 현황 조회 성공',
+      data: await this.diagnosticsService.getUserSummary(),
+    };
+  }
+
+  /**
+   * JWT 설정 상태 조회
+   */
+  @Get('jwt-config')
+  @ApiOperation({
+    summary: '[진단] JWT 설정 상태',
+    description: '토큰 시크릿 설정 여부와 만료 시간을 조회합니다. 시크릿 값은 노출하지 않습니다.',
+  })
+  @ApiResponse({ status: 200, description: 'JWT 설정 상태 조회 성공' })
+  @ApiResponse({ status: 403, description: '관리자 권한 없음' })
+  getJwtConfig(@CurrentUser('userId') userId: string, @Req() req: express.Request) {
+    this.logAccess(req, userId, 'jwt-config');
+
+    return {
+      success: true,
+      message: 'JWT 설정 상태 조회 성공',
+      data: this.diagnosticsService.getJwtConfig(),
+    };
+  }
+
+  /**
+   * 진단 정보 접근 기록
+   */
+  private logAccess(req: express.Request, userId: string, resource: string) {
+    this.logger.warn(
+      `진단 정보 조회: ${resource} (관리자: ${userId})`,
+      prepareSecurityLogData(req, { action: 'diagnostics_access', userId, resource })
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { DiagnosticsController } from './diagnostics.controller';
+import { DiagnosticsService } from './diagnostics.service';
+import { UsersModule } from '../users/users.module';
+import { PrismaModule } from '@packages/database';
+
+/**
+ * 🩺 진단 모듈
+ *
+ * 운영 환경에 노출되지 않도록 AppModule에서 ENABLE_DIAGNOSTICS=true 일 때만 등록합니다.
+ */
+@Module({
+  imports: [PrismaModule, UsersModule],
+  controllers: [DiagnosticsController],
+  providers: [DiagnosticsService],
+})
+export class DiagnosticsModule {}
@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@packages/database';
+import { maskEmail } from '@packages/common';
+import { UsersService } from '../users/users.service';
+
+const RECENT_USERS_LIMIT = 20;
+
+/**
+ * 🩺 진단 서비스
+ *
+ * 운영 점검에 필요한 최소 정보만 제공하며, 시크릿과 개인정보는 응답에 포함하지 않습니다.
+ */
+@Injectable()
+export class DiagnosticsService {
+  constructor(
+    private configService: ConfigService,
+    private prismaService: PrismaService,
+    private usersService: UsersService
+  ) {}
+
+  /**
+   * 사용자 현황 (이메일은 마스킹, 이름 등 개인정보 제외)
+   */
+  async getUserSummary() {
+    const [total, active, verified, byRole, recentUsers] = await Promise.all([
+      this.usersService.getUserCount(),
+      this.prismaService.user.count({ where: { isActive: true } }),
+      this.prismaService.user.count({ where: { isVerified: true } }),
+      this.prismaService.user.groupBy({ by: ['role'], _count: { _all: true } }),
+      this.prismaService.user.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: RECENT_USERS_LIMIT,
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          isActive: true,
+          isVerified: true,
+          createdAt: true,
+          lastLoginAt: true,
+        },
+      }),
+    ]);
+
+    return {
+      total,
+      active,
+      verified,
+      byRole: Object.fromEntries(byRole.map((group) => [group.role, group._count._all])),
+      recentUsers: recentUsers.map((user) => ({ ...user, email: maskEmail(user.email) })),
+    };
+  }
+
+  /**
+   * JWT 설정 상태 (시크릿 값이나 그 해시 대신 설정 여부와 만료 시간만 제공)
+   */
+  getJwtConfig() {
+    return {
+      accessToken: this.describeSecret(
+        this.configService.get<string>('jwt.accessToken.secret'),
+        this.configService.get<string>('jwt.accessToken.expiresIn')
+      ),
+      refreshToken: this.describeSecret(
+        this.configService.get<string>('jwt.refreshToken.secret'),
+        this.configService.get<string>('jwt.refreshToken.expiresIn')
+      ),
+    };
+  }
+
+  /**
+   * 시크릿 요약 - 짧은 시크릿은 해시 일부만으로도 오프라인 대입이 가능하므로 값에서 파생된 정보는 노출하지 않음
+   */
+  private describeSecret(secret: string | undefined, expiresIn: string | undefined) {
+    return {
+      configured: Boolean(secret),
+      expiresIn: expiresIn ?? null,
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Req,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiProperty,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import express from 'express';
+import { InstructorApplicationsService } from './instructor-applications.service';
+import {
+  prepareSecurityLogData,
+  CurrentUser,
+  ZodValidationPipe,
+} from '@packages/common';
+import {
+  instructorApplicationSchema,
+  type InstructorApplicationDto,
+} from '@packages/schemas';
+
+// 스웨거 요청 DTO 클래스
+class InstructorApplicationRequestDto {
+  @ApiProperty({ example: '10년차 백엔드 개발자로, 사내 교육 프로그램을 5년간 운영했습니다...', description: '자기소개 (50~2000자)' })
+  bio: string;
+
+  @ApiProperty({ type: [String], example: ['Node.js', 'NestJS'], description: '전문 분야 (1~10개)' })
+  expertise: string[];
+
+  @ApiProperty({ example: 'https://youtube.com/watch?v=sample', description: '샘플 강의/콘텐츠 링크' })
+  sampleContentUrl: string;
+}
+
+/**
+ * 🎓 강사 신청 컨트롤러 (신청자용)
+ *
+ * 심사 대기열과 승인/거절은 관리자 API(/admin/instructor-applications)에서 처리합니다.
+ */
+@ApiTags('🎓 강사 신청 (Instructor Application)')
+@ApiBearerAuth('access-token')
+@Controller('auth/instructor-application')
+export class InstructorApplicationsController {
+  private readonly logger = new Logger(InstructorApplicationsController.name);
+
+  constructor(private readonly instructorApplicationsService: InstructorApplicationsService) {}
+
+  /**
+   * 내 강사 신청 조회
+   */
+  @Get()
+  @ApiOperation({
+    summary: '내 강사 신청 조회',
+    description: '가장 최근 강사 신청과 심사 상태를 조회합니다. 신청 이력이 없으면 data는 null입니다.',
+  })
+  @ApiResponse({ status: 200, description: '조회 성공' })
+  async getMyApplication(@CurrentUser('userId') userId: string) {
+    const application = await this.instructorApplicationsService.findLatest(userId);
+
+    return {
+      success: true,
+      message: '강사 신청 조회 성공',
+      data: application,
+    };
+  }
+
+  /**
+   * 강사 신청 제출
+   */
+  @Post()
+  @Throttle({ default: { limit: 3, ttl: 60000 } }) // 분당 3회 제한
+  @ApiOperation({
+    summary: '강사 신청',
+    description: '자기소개, 전문 분야, 샘플 콘텐츠 링크로 강사 신청을 제출합니다. 관리자 승인 후 강사 권한이 부여됩니다.',
+  })
+  @ApiBody({ type: InstructorApplicationRequestDto })
+  @ApiResponse({ status: 201, description: '신청 접수' })
+  @ApiResponse({ status: 400, description: '이미 강사 또는 관리자 권한 보유' })
+  @ApiResponse({ status: 409, description: '심사 중인 신청이 있음' })
+  async submit(
+    @CurrentUser('userId') userId: string,
+    @Body(new ZodValidationPipe(instructorApplicationSchema)) instructorApplicationDto: InstructorApplicationDto,
+    @Req() req: express.Request
+  ) {
+    const application = await this.instructorApplicationsService.submit(
+      userId,
+      instructorApplicationDto
+    );
+
+    this.logger.log(
+      `강사 신청: ${userId}`,
+      prepareSecurityLogData(req, { action: 'instructor_application_submit', userId })
+    );
+
+    return {
+      success: true,
+      message: '강사 신청이 접수되었습니다. 심사 결과는 이메일로 안내해드립니다',
+      data: application,
+    };
+  }
+}
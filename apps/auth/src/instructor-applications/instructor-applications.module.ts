@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { InstructorApplicationsController } from './instructor-applications.controller';
+import { InstructorApplicationsService } from './instructor-applications.service';
+import { PrismaModule } from '@packages/database';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [InstructorApplicationsController],
+  providers: [InstructorApplicationsService],
+})
+export class InstructorApplicationsModule {}
@@ -0,0 +1,90 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '@packages/database';
+import { generateId } from '@packages/common'; // 🆔 CUID2 생성 유틸리티
+import type { InstructorApplicationDto } from '@packages/schemas';
+
+/**
+ * 🎓 강사 신청 서비스 (신청자용)
+ *
+ * 일반 사용자(USER)만 신청할 수 있고, 심사 대기 중인 신청은 하나만 허용합니다.
+ * 심사(승인/거절)는 AdminService에서 처리합니다.
+ */
+@Injectable()
+export class InstructorApplicationsService {
+  private readonly logger = new Logger(InstructorApplicationsService.name);
+
+  constructor(private prismaService: PrismaService) {}
+
+  /**
+   * 강사 신청 제출
+   * @param userId 신청자 ID
+   * @param dto 자기소개, 전문 분야, 샘플 콘텐츠 링크
+   */
+  async submit(userId: string, dto: InstructorApplicationDto) {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('사용자를 찾을 수 없습니다');
+    }
+
+    if (user.role !== 'USER') {
+      throw new BadRequestException('이미 강사 또는 관리자 권한이 있습니다');
+    }
+
+    const pending = await this.prismaService.instructorApplication.findFirst({
+      where: { userId, status: 'pending' },
+      select: { id: true },
+    });
+
+    if (pending) {
+      throw new ConflictException('심사 중인 강사 신청이 있습니다');
+    }
+
+    const application = await this.prismaService.instructorApplication.create({
+      data: {
+        id: generateId(), // 🆔 CUID2 ID 직접 지정
+        userId,
+        bio: dto.bio,
+        expertise: dto.expertise,
+        sampleContentUrl: dto.sampleContentUrl,
+      },
+    });
+
+    this.logger.log(`강사 신청 접수: ${userId} (${application.id})`);
+
+    return application;
+  }
+
+  /**
+   * 내 최근 강사 신청 조회
+   * @param userId 신청자 ID
+   * @returns 가장 최근 신청 (없으면 null)
+   */
+  async findLatest(userId: string) {
+    return await this.prismaService.instructorApplication.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        userId: true,
+        bio: true,
+        expertise: true,
+        sampleContentUrl: true,
+        status: true,
+        reviewNote: true,
+        reviewedAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * 📧 메일 전송 인터페이스
+ *
+ * 전송 방식(file, SMTP 등)은 MailTransport 구현체로 교체할 수 있습니다.
+ */
+
+// 메일 전송 구현체 주입 토큰
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+// 발송할 메일 메시지
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// 메일 전송 구현체
+export interface MailTransport {
+  /** 전송 방식 이름 (로깅용) */
+  readonly name: string;
+
+  /** 메일 전송 */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,35 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, MailTransport } from './interfaces/mail.interface';
+import { FileMailTransport } from './transports/file-mail.transport';
+
+/**
+ * 📧 메일 모듈
+ *
+ * mail.transport 설정에 따라 전송 구현체를 선택합니다.
+ * 새 전송 방식은 MailTransport를 구현하고 아래 팩토리에 추가합니다.
+ */
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (configService: ConfigService): MailTransport => {
+        const transport = configService.get<string>('mail.transport', 'file');
+        const outboxDir = configService.get<string>('mail.outboxDir', '.mail-outbox');
+
+        if (transport !== 'file') {
+          new Logger('MailModule').warn(
+            `⚠️ 지원하지 않는 메일 전송 방식(${transport}) - file 전송으로 대체합니다`
+          );
+        }
+
+        return new FileMailTransport(outboxDir);
+      },
+      inject: [ConfigService],
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
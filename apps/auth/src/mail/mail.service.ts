@@ -0,0 +1,119 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailTransport } from './interfaces/mail.interface';
+
+/**
+ * 📧 메일 발송 서비스
+ *
+ * 메일 내용을 구성하고 주입된 MailTransport로 전송합니다.
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly from: string;
+  private readonly appUrl: string;
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private readonly configService: ConfigService
+  ) {
+    this.from = this.configService.get<string>('mail.from', 'LMS <no-reply@lms.local>');
+    this.appUrl = this.configService.get<string>('mail.appUrl', 'http://localhost:3000');
+    this.logger.log(`📧 메일 전송 방식: ${this.transport.name}`);
+  }
+
+  /**
+   * 비밀번호 재설정 메일 발송
+   * @param to 수신자 이메일
+   * @param token 재설정 토큰 (원문)
+   * @param expiresInMinutes 토큰 유효 시간 (분)
+   */
+  async sendPasswordResetMail(
+    to: string,
+    token: string,
+    expiresInMinutes: number
+  ): Promise<void> {
+    const resetUrl = `${this.appUrl}/auth/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.transport.send({
+      from: this.from,
+      to,
+      subject: '[LMS] 비밀번호 재설정 안내',
+      text: [
+        '비밀번호 재설정을 요청하셨습니다.',
+        '',
+        `아래 링크에서 새 비밀번호를 설정해주세요. 링크는 ${expiresInMinutes}분 동안 한 번만 사용할 수 있습니다.`,
+        resetUrl,
+        '',
+        '요청하지 않으셨다면 이 메일을 무시하셔도 됩니다.',
+      ].join('\n'),
+    });
+
+    this.logger.log(`비밀번호 재설정 메일 발송 - 수신자: ${to}`);
+  }
+
+  /**
+   * 이메일 인증 메일 발송
+   * @param to 수신자 이메일
+   * @param token 인증 토큰 (원문)
+   * @param expiresInHours 토큰 유효 시간 (시간)
+   */
+  async sendEmailVerificationMail(
+    to: string,
+    token: string,
+    expiresInHours: number
+  ): Promise<void> {
+    const verifyUrl = `${this.appUrl}/auth/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.transport.send({
+      from: this.from,
+      to,
+      subject: '[LMS] 이메일 인증 안내',
+      text: [
+        'LMS에 가입해주셔서 감사합니다.',
+        '',
+        `아래 링크를 눌러 이메일 주소를 인증해주세요. 링크는 ${expiresInHours}시간 동안 한 번만 사용할 수 있습니다.`,
+        verifyUrl,
+        '',
+        '가입하지 않으셨다면 이 메일을 무시하셔도 됩니다.',
+      ].join('\n'),
+    });
+
+    this.logger.log(`이메일 인증 메일 발송 - 수신자: ${to}`);
+  }
+
+  /**
+   * 강사 신청 심사 결과 메일 발송
+   * @param to 수신자 이메일
+   * @param approved 승인 여부
+   * @param reviewNote 관리자 심사 의견
+   */
+  async sendInstructorApplicationResultMail(
+    to: string,
+    approved: boolean,
+    reviewNote: string
+  ): Promise<void> {
+    const body = approved
+      ? [
+          '축하합니다! 강사 신청이 승인되었습니다.',
+          '',
+          '보안을 위해 모든 기기에서 로그아웃되었습니다. 다시 로그인하면 강사 대시보드를 이용할 수 있습니다.',
+          `${this.appUrl}/teacher/courses`,
+        ]
+      : [
+          '아쉽게도 이번 강사 신청은 승인되지 않았습니다.',
+          '',
+          '프로필 화면에서 내용을 보완해 다시 신청하실 수 있습니다.',
+          `${this.appUrl}/user/profile`,
+        ];
+
+    await this.transport.send({
+      from: this.from,
+      to,
+      subject: approved ? '[LMS] 강사 신청이 승인되었습니다' : '[LMS] 강사 신청 심사 결과 안내',
+      text: [...body, '', `심사 의견: ${reviewNote}`].join('\n'),
+    });
+
+    this.logger.log(`강사 신청 심사 결과 메일 발송 - 수신자: ${to}`);
+  }
+}
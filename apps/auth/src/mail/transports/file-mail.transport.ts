@@ -0,0 +1,47 @@
+import { Logger } from '@nestjs/common';
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { generateId } from '@packages/common';
+import { MailMessage, MailTransport } from '../interfaces/mail.interface';
+
+/**
+ * 📁 파일 메일 전송
+ *
+ * 메일을 .eml 파일로 outbox 디렉터리에 기록합니다.
+ * SMTP 서버 없이 로컬/오프라인 환경에서 발송 내용을 확인할 때 사용합니다.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+  private readonly logger = new Logger(FileMailTransport.name);
+  private readonly outboxDir: string;
+
+  constructor(outboxDir: string) {
+    this.outboxDir = resolve(outboxDir);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${generateId()}.eml`;
+    const filePath = join(this.outboxDir, fileName);
+
+    await writeFile(filePath, this.toEml(message), 'utf8');
+    this.logger.log(`📁 메일 기록 완료 - 수신자: ${message.to}, 파일: ${filePath}`);
+  }
+
+  /**
+   * RFC 822 형식의 메일 본문 생성
+   */
+  private toEml(message: MailMessage): string {
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+    ];
+
+    return `${headers.join('\r\n')}\r\n\r\n${message.text}\r\n`;
+  }
+}
@@ -15,7 +15,6 @@ import {
 import { UsersService } from './users.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '@packages/common';
-import { Public } from '@packages/common';
 
 // Zod 스키마 import
 import {
@@ -43,88 +42,6 @@ export class UsersController {
 
   constructor(private readonly usersService: UsersService) {}
 
-  /**
-   * 데이터베이스 상태 확인 (인증 불필요 - 디버깅용)
-   */
-  @Get('debug/count')
-  @Public()
-  async getUserCount() {
-    try {
-      const count = await this.usersService.getUserCount();
-      return {
-        success: true,
-        message: `데이터베이스에 사용자 ${count}명이 있습니다`,
-        data: { count },
-      };
-    } catch (error) {
-      this.logger.error(`사용자 수 확인 실패: ${error.message}`);
-      throw error;
-    }
-  }
-
-  /**
-   * 인증 없이 사용자 목록 조회 (디버깅용)
-   */
-  @Get('debug/list')
-  @Public()
-  async getUsersDebug() {
-    try {
-      this.logger.debug('디버그 모드: 인증 없이 사용자 목록 조회');
-
-      const result = await this.usersService.findMany({
-        filter: {},
-        orderBy: { createdAt: 'desc' },
-        page: 1,
-        limit: 10,
-      });
-
-      this.logger.debug(`디버그 조회 결과: 사용자 ${result.users.length}명, 전체 ${result.pagination.totalItems}명`);
-
-      return {
-        success: true,
-        message: '디버그 모드: 사용자 목록 조회 성공',
-        data: result,
-      };
-    } catch (error) {
-      this.logger.error(`디버그 사용자 목록 조회 실패: ${error.message}`);
-      this.logger.error(`오류 스택: ${error.stack}`);
-      throw error;
-    }
-  }
-
-  /**
-   * 인증된 사용자로 디버깅 (인증 필요)
-   */
-  @Get('debug/authenticated-list')
-  @UseGuards(JwtAuthGuard)
-  async getAuthenticatedUsersDebug(@CurrentUser('userId') userId: string) {
-    try {
-      this.logger.debug(`인증된 사용자 ID: ${userId}`);
-      this.logger.debug('인증된 상태로 사용자 목록 조회 시도');
-
-      const result = await this.usersService.findMany({
-        filter: {},
-        orderBy: { createdAt: 'desc' },
-        page: 1,
-        limit: 10,
-      });
-
-      this.logger.debug(`인증된 조회 결과: 사용자 ${result.users.length}명, 전체 ${result.pagination.totalItems}명`);
-
-      return {
-        success: true,
-        message: '인증된 상태로 사용자 목록 조회 성공',
-        data: {
-          currentUserId: userId,
-          ...result,
-        },
-      };
-    } catch (error) {
-      this.logger.error(`인증된 사용자 목록 조회 실패: ${error.message}`);
-      this.logger.error(`오류 스택: ${error.stack}`);
-      throw error;
-    }
-  }
   @Get('me')
   @UseGuards(JwtAuthGuard)
   async getCurrentUser(@CurrentUser('userId') userId: string) {
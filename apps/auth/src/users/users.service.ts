@@ -3,6 +3,7 @@ import {
   NotFoundException,
   ConflictException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '@packages/database';
 import { generateId } from '@packages/common'; // 🆔 CUID2 생성 유틸리티
 import { CreateUserDto, UpdateUserDto } from '@packages/schemas';
@@ -10,7 +11,17 @@ import * as bcrypt from 'bcryptjs';
 
 @Injectable()
 export class UsersService {
-  constructor(private prismaService: PrismaService) {}
+  private readonly passwordHistorySize: number;
+
+  constructor(
+    private prismaService: PrismaService,
+    private configService: ConfigService
+  ) {
+    this.passwordHistorySize = Math.max(
+      this.configService.get<number>('security.passwordHistory.size') || 5,
+      1
+    );
+  }
 
   /**
    * 사용자 생성
@@ -176,6 +187,7 @@ export class UsersService {
     providerId: string;
     provider: string;
     email: string;
+    emailVerified?: boolean;
     firstName?: string;
     lastName?: string;
     username?: string;
@@ -186,6 +198,7 @@ export class UsersService {
       providerId,
       provider,
       email,
+      emailVerified = true,
       firstName,
       lastName,
       username,
@@ -220,7 +233,7 @@ export class UsersService {
         lastName,
         username: uniqueUsername,
         avatar,
-        isVerified: true, // 소셜 로그인은 이메일 인증됨으로 간주
+        isVerified: emailVerified, // 제공자가 확인한 이메일이면 인증됨으로 간주
         profile: {
           create: {
             id: profileId, // 🆔 CUID2 ID 직접 지정
@@ -295,10 +308,17 @@ export class UsersService {
 
     const { password, ...updateData } = updateUserDto;
     let hashedPassword: string | undefined;
+    let previousPasswordHash: string | null = null;
 
     // 비밀번호 변경 시 해시화
     if (password) {
       hashedPassword = await bcrypt.hash(password, 12);
+
+      const current = await this.prismaService.user.findUnique({
+        where: { id },
+        select: { password: true },
+      });
+      previousPasswordHash = current?.password ?? null;
     }
 
     const updatedUser = await this.prismaService.user.update({
@@ -317,6 +337,11 @@ export class UsersService {
       },
     });
 
+    // 이전 비밀번호를 이력에 남김 (재사용 방지)
+    if (previousPasswordHash) {
+      await this.recordPasswordHistory(id, previousPasswordHash);
+    }
+
     const { password: _, ...userWithoutPassword } = updatedUser;
     return userWithoutPassword;
   }
@@ -334,6 +359,44 @@ export class UsersService {
     return await bcrypt.compare(plainPassword, hashedPassword);
   }
 
+  /**
+   * 최근 비밀번호 재사용 여부 확인
+   * 현재 비밀번호와 이력에 남은 이전 비밀번호를 합쳐 최근 N개와 비교합니다.
+   * @param id 사용자 ID
+   * @param plainPassword 새 평문 비밀번호
+   * @returns 재사용 여부
+   */
+  async isPasswordReused(id: string, plainPassword: string): Promise<boolean> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id },
+      select: {
+        password: true,
+        passwordHistory: {
+          select: { passwordHash: true },
+          orderBy: { createdAt: 'desc' },
+          take: this.passwordHistorySize - 1,
+        },
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('사용자를 찾을 수 없습니다');
+    }
+
+    const recentHashes = [
+      ...(user.password ? [user.password] : []),
+      ...user.passwordHistory.map((history) => history.passwordHash),
+    ];
+
+    for (const hash of recentHashes) {
+      if (await bcrypt.compare(plainPassword, hash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
   /**
    * 사용자 활성화/비활성화
    * @param id 사용자 ID
@@ -485,13 +548,17 @@ export class UsersService {
 
       const settingsId = generateId(); // 🆔 CUID2 ID 생성
 
+      // 2단계 인증은 /auth/2fa 에서 코드 확인 후에만 켜고 끌 수 있음
+      const editableSettings = { ...settingsData };
+      delete editableSettings.twoFactorEnabled;
+
       return await this.prismaService.userSettings.upsert({
         where: { userId },
-        update: settingsData,
+        update: editableSettings,
         create: {
           id: settingsId, // 🆔 CUID2 ID 직접 지정
           userId,
-          ...settingsData,
+          ...editableSettings,
         },
       });
     } catch (error) {
@@ -581,7 +648,7 @@ export class UsersService {
   }
 
   /**
-   * 사용자 수 조회 (디버깅용)
+   * 사용자 수 조회 (진단용)
    */
   async getUserCount(): Promise<number> {
     return await this.prismaService.user.count();
@@ -600,4 +667,32 @@ export class UsersService {
     // 소프트 삭제 - 계정 비활성화
     return await this.updateActiveStatus(id, false);
   }
+
+  /**
+   * 이전 비밀번호 해시를 이력에 저장하고 보관 개수를 넘는 오래된 이력 정리
+   * @param userId 사용자 ID
+   * @param passwordHash 이전 비밀번호 해시
+   */
+  private async recordPasswordHistory(userId: string, passwordHash: string) {
+    await this.prismaService.passwordHistory.create({
+      data: {
+        id: generateId(), // 🆔 CUID2 ID 생성
+        userId,
+        passwordHash,
+      },
+    });
+
+    const staleHistory = await this.prismaService.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: this.passwordHistorySize - 1,
+      select: { id: true },
+    });
+
+    if (staleHistory.length > 0) {
+      await this.prismaService.passwordHistory.deleteMany({
+        where: { id: { in: staleHistory.map((history) => history.id) } },
+      });
+    }
+  }
 }
@@ -0,0 +1,48 @@
+import type { JwtPayload } from '@packages/common';
+import type { LoginDto, RegisterDto } from '@packages/schemas';
+
+/**
+ * 🧪 사용자 테스트 픽스처
+ */
+export class UserFixture {
+  /** 회원가입 요청 데이터 */
+  static createValidUser(overrides: Partial<RegisterDto> = {}): RegisterDto {
+    return {
+      email: 'test@example.com',
+      password: 'Password123!',
+      username: 'testuser',
+      firstName: '테스트',
+      lastName: '사용자',
+      ...overrides,
+    };
+  }
+}
+
+/**
+ * 🧪 인증 테스트 픽스처
+ */
+export class AuthFixture {
+  /** 로그인 요청 데이터 */
+  static createLoginCredentials(overrides: Partial<LoginDto> = {}): LoginDto {
+    return {
+      email: 'test@example.com',
+      password: 'Password123!',
+      ...overrides,
+    };
+  }
+
+  /** 액세스 토큰 페이로드 */
+  static createTokenPayload(overrides: Partial<JwtPayload> = {}): JwtPayload {
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      sub: 'user-id-123',
+      email: 'test@example.com',
+      username: 'testuser',
+      role: 'user',
+      sid: 'session-id-123',
+      iat: now,
+      exp: now + 900,
+      ...overrides,
+    };
+  }
+}
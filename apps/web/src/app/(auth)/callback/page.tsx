@@ -1,39 +1,125 @@
 'use client';
 
-import { useEffect, Suspense } from 'react';
+import { useEffect, useRef, useState, Suspense } from 'react';
+import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
+import { toast } from 'sonner';
 import { useAuthStore } from '@/stores/authStore';
-import { AuthTokens } from '@packages/schemas';
+import { authApi } from '@/lib/api-client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { AuthTokens, AuthUser, TwoFactorChallenge } from '@packages/schemas';
 
+// 🌐 소셜 로그인 콜백: 1회용 코드 교환 → (필요 시 2단계 인증) → 로그인 완료
 function AuthCallbackHandler() {
   const { login } = useAuthStore();
   const searchParams = useSearchParams();
   const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const requestedRef = useRef(false); // 로그인 코드는 1회용이므로 중복 요청 방지
+
+  const completeLogin = (result: { user: AuthUser; tokens: AuthTokens }) => {
+    login(result.user, result.tokens);
+    router.replace('/user/courses');
+  };
 
   useEffect(() => {
-    const token = searchParams.get('token');
-    const userParam = searchParams.get('user');
-
-    if (token && userParam) {
-      try {
-        const user = JSON.parse(decodeURIComponent(userParam)); // ✅ JSON 복원
-        login(user, token as unknown as AuthTokens); // ✅ Zustand에 저장
-
-        const { accessToken, user: savedUser } = useAuthStore.getState();
-        console.log('✅ accessToken:', accessToken);
-        console.log('✅ savedUser:', savedUser);
-
-        setTimeout(() => {
-          router.replace('/user/courses'); // ✅ 로그인 후 대시보드로 이동 (1초 딜레이)
-        }, 1000);
-      } catch (error) {
-        console.error('❌ 유저 정보 파싱 오류:', error);
-        router.replace('/login'); // 오류 발생 시 로그인 페이지로 이동
-      }
-    } else {
-      router.replace('/login'); // 토큰이 없으면 로그인 페이지로 이동
+    if (requestedRef.current) return;
+    requestedRef.current = true;
+
+    const errorParam = searchParams.get('error');
+    const linked = searchParams.get('linked');
+    const loginCode = searchParams.get('code');
+
+    if (errorParam) {
+      setError(errorParam);
+      return;
+    }
+
+    // 설정 화면에서 시작한 계정 연결 완료
+    if (linked) {
+      toast.success(`${linked} 계정이 연결되었습니다`);
+      router.replace('/user/settings');
+      return;
+    }
+
+    if (!loginCode) {
+      router.replace('/signin');
+      return;
     }
-  }, [searchParams, login, router]);
+
+    authApi
+      .exchangeSocialLogin(loginCode)
+      .then((result) => {
+        if ('requiresTwoFactor' in result) {
+          setChallenge(result);
+          return;
+        }
+        completeLogin(result);
+      })
+      .catch((exchangeError: unknown) => {
+        console.error('❌ 소셜 로그인 실패:', exchangeError);
+        setError(exchangeError instanceof Error ? exchangeError.message : '소셜 로그인에 실패했습니다');
+      });
+    // 마운트 시 1회만 처리
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleVerify = async () => {
+    if (!challenge) return;
+
+    setIsSubmitting(true);
+    try {
+      completeLogin(
+        await authApi.verifyTwoFactor({ challengeToken: challenge.challengeToken, code: code.trim() })
+      );
+    } catch (verifyError) {
+      toast.error(verifyError instanceof Error ? verifyError.message : '인증 코드 확인에 실패했습니다');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="mx-auto mt-10 max-w-md space-y-4 text-center">
+        <p>{error}</p>
+        <Link href="/signin" className="auth-form__link">
+          로그인 화면으로 돌아가기
+        </Link>
+      </div>
+    );
+  }
+
+  if (challenge) {
+    return (
+      <div className="mx-auto mt-10 max-w-sm space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="social-two-factor-code">인증 코드</Label>
+          <Input
+            id="social-two-factor-code"
+            value={code}
+            autoComplete="one-time-code"
+            autoFocus
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="인증 앱의 6자리 코드 또는 복구 코드"
+          />
+        </div>
+        <Button
+          type="button"
+          onClick={handleVerify}
+          disabled={isSubmitting || !code.trim()}
+          className="w-full"
+        >
+          {isSubmitting ? '확인 중...' : '확인'}
+        </Button>
+      </div>
+    );
+  }
 
   return <p className="text-center mt-10">로그인 중...</p>;
 }
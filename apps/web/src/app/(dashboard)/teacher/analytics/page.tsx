@@ -0,0 +1,239 @@
+'use client';
+
+import Header from '@/components/Header';
+import Loading from '@/components/Loading';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useGetCourseAnalyticsQuery, useGetCoursesQuery } from '@/state/api';
+import { useAuthStore } from '@/stores/authStore';
+import type { CourseAnalyticsQueryDto } from '@packages/schemas';
+
+import React, { useMemo, useState } from 'react';
+
+const PERIOD_OPTIONS = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '180', label: 'Last 180 days' },
+  { value: '365', label: 'Last 365 days' },
+];
+
+// 초 단위 시간을 "1h 5m" 형식으로 표시
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const StatCard = ({ label, value }: { label: string; value: string | number }) => (
+  <div className="rounded-lg border border-border bg-secondary-bg p-4">
+    <p className="text-sm text-text-medium">{label}</p>
+    <p className="mt-1 text-2xl font-semibold text-foreground">{value}</p>
+  </div>
+);
+
+const ChartCard = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="rounded-lg border border-border bg-secondary-bg p-4">
+    <h2 className="mb-4 text-lg font-semibold text-foreground">{title}</h2>
+    {children}
+  </div>
+);
+
+// 가로 막대 차트 (챕터별 값)
+const HorizontalBarChart = ({
+  rows,
+  max,
+  barClassName,
+}: {
+  rows: { key: string; label: string; sublabel?: string; value: number; display: string }[];
+  max: number;
+  barClassName: string;
+}) => (
+  <ul className="space-y-2">
+    {rows.map((row) => (
+      <li key={row.key} className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)_4rem] items-center gap-3 text-sm">
+        <div className="truncate" title={row.label}>
+          <span className="text-foreground">{row.label}</span>
+          {row.sublabel && <span className="block truncate text-xs text-text-medium">{row.sublabel}</span>}
+        </div>
+        <div className="h-3 rounded bg-border/40">
+          <div
+            className={`h-3 rounded ${barClassName}`}
+            style={{ width: `${max > 0 ? Math.max((row.value / max) * 100, row.value > 0 ? 2 : 0) : 0}%` }}
+          />
+        </div>
+        <span className="text-right text-text-medium">{row.display}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+// 📊 강사 대시보드 - 강의별 학습 분석
+const TeacherAnalytics = () => {
+  const { user } = useAuthStore();
+  const { data: courses, isLoading: isLoadingCourses } = useGetCoursesQuery({ category: 'all' });
+  const [selectedCourseId, setSelectedCourseId] = useState('');
+  const [days, setDays] = useState('90');
+  const [interval, setTrendInterval] = useState<CourseAnalyticsQueryDto['interval']>('week');
+
+  const ownCourses = useMemo(
+    () => courses?.filter((course) => course.teacherId === user?.id) || [],
+    [courses, user?.id]
+  );
+  const courseId = selectedCourseId || ownCourses[0]?.courseId || '';
+
+  const {
+    data: analytics,
+    isFetching,
+    isError,
+  } = useGetCourseAnalyticsQuery({ courseId, days: Number(days), interval }, { skip: !courseId });
+
+  if (!user) return <div>Please sign in to view your course analytics.</div>;
+  if (isLoadingCourses) return <Loading />;
+
+  const maxEnrollments = Math.max(0, ...(analytics?.enrollmentTrend.points.map((point) => point.enrollments) ?? []));
+  const maxTimeSpent = Math.max(0, ...(analytics?.chapters.map((chapter) => chapter.averageTimeSpent) ?? []));
+
+  return (
+    <div className="space-y-6">
+      <Header title="Analytics" subtitle="Track how learners progress through your courses" />
+
+      {ownCourses.length === 0 ? (
+        <p className="text-text-medium">You have not created any courses yet.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-3">
+            <Select value={courseId} onValueChange={setSelectedCourseId}>
+              <SelectTrigger className="w-72">
+                <SelectValue placeholder="Select a course" />
+              </SelectTrigger>
+              <SelectContent>
+                {ownCourses.map((course) => (
+                  <SelectItem key={course.courseId} value={course.courseId}>
+                    {course.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIOD_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={interval} onValueChange={(value) => setTrendInterval(value as CourseAnalyticsQueryDto['interval'])}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Daily</SelectItem>
+                <SelectItem value="week">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isFetching && !analytics ? (
+            <Loading />
+          ) : isError || !analytics ? (
+            <p className="text-text-medium">Unable to load analytics for this course.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4 lg:grid-cols-5">
+                <StatCard label="Learners" value={analytics.summary.totalLearners} />
+                <StatCard label="Completed" value={analytics.summary.completedLearners} />
+                <StatCard label="Average progress" value={`${analytics.summary.averageProgress}%`} />
+                <StatCard label="Active (7 days)" value={analytics.summary.activeLearnersLast7Days} />
+                <StatCard label="Active (30 days)" value={analytics.summary.activeLearnersLast30Days} />
+              </div>
+
+              <ChartCard title="Enrollments">
+                <div className="flex h-40 items-end gap-1">
+                  {analytics.enrollmentTrend.points.map((point) => (
+                    <div
+                      key={point.date}
+                      className="flex-1 rounded-t bg-primary-700"
+                      style={{
+                        height: `${maxEnrollments > 0 ? (point.enrollments / maxEnrollments) * 100 : 0}%`,
+                        minHeight: point.enrollments > 0 ? '4px' : '1px',
+                      }}
+                      title={`${point.date}: ${point.enrollments} enrolled (${point.totalEnrollments} total)`}
+                    />
+                  ))}
+                </div>
+                <div className="mt-2 flex justify-between text-xs text-text-medium">
+                  <span>{analytics.enrollmentTrend.points[0]?.date}</span>
+                  <span>
+                    {analytics.enrollmentTrend.points[analytics.enrollmentTrend.points.length - 1]?.totalEnrollments ?? 0}{' '}
+                    total enrollments
+                  </span>
+                </div>
+              </ChartCard>
+
+              {analytics.chapters.length === 0 ? (
+                <p className="text-text-medium">This course has no chapters yet.</p>
+              ) : (
+                <div className="grid gap-6 xl:grid-cols-2">
+                  <ChartCard title="Completion funnel">
+                    <HorizontalBarChart
+                      rows={analytics.chapters.map((chapter) => ({
+                        key: chapter.chapterId,
+                        label: chapter.title,
+                        sublabel:
+                          chapter.dropOffRate > 0
+                            ? `${chapter.sectionTitle} · ${chapter.dropOffRate}% drop-off`
+                            : chapter.sectionTitle,
+                        value: chapter.completionRate,
+                        display: `${chapter.completionRate}%`,
+                      }))}
+                      max={100}
+                      barClassName="bg-green-500"
+                    />
+                  </ChartCard>
+
+                  <ChartCard title="Average time per chapter">
+                    <HorizontalBarChart
+                      rows={analytics.chapters.map((chapter) => ({
+                        key: chapter.chapterId,
+                        label: chapter.title,
+                        sublabel: chapter.sectionTitle,
+                        value: chapter.averageTimeSpent,
+                        display: formatDuration(chapter.averageTimeSpent),
+                      }))}
+                      max={maxTimeSpent}
+                      barClassName="bg-primary-700"
+                    />
+                  </ChartCard>
+
+                  <ChartCard title="Top drop-off points">
+                    {analytics.dropOffPoints.length === 0 ? (
+                      <p className="text-sm text-text-medium">No learners have stalled in this course.</p>
+                    ) : (
+                      <HorizontalBarChart
+                        rows={analytics.dropOffPoints.map((point) => ({
+                          key: point.chapterId,
+                          label: point.title,
+                          sublabel: `${point.sectionTitle} · ${point.stalledCount} learner(s)`,
+                          value: point.stalledRate,
+                          display: `${point.stalledRate}%`,
+                        }))}
+                        max={100}
+                        barClassName="bg-red-500"
+                      />
+                    )}
+                  </ChartCard>
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TeacherAnalytics;
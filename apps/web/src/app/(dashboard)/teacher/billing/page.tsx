@@ -1,10 +1,16 @@
 'use client';
 
 import Loading from '@/components/Loading';
+import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { formatPrice } from '@/lib/utils';
-import { useGetTransactionsQuery } from '@/state/api';
+import {
+  useApproveRefundMutation,
+  useGetRefundsQuery,
+  useGetTransactionsQuery,
+  useRejectRefundMutation,
+} from '@/state/api';
 import { useAuthStore } from '@/stores/authStore';
 
 import React, { useState } from 'react';
@@ -15,6 +21,14 @@ const TeacherBilling = () => {
   const { data: transactions, isLoading: isLoadingTransactions } = useGetTransactionsQuery(user?.id || '', {
     skip: !user,
   });
+  const { data: refunds, isLoading: isLoadingRefunds } = useGetRefundsQuery(undefined, {
+    skip: !user,
+  });
+  const [approveRefund, { isLoading: isApproving }] = useApproveRefundMutation();
+  const [rejectRefund, { isLoading: isRejecting }] = useRejectRefundMutation();
+
+  // 본인 강의에 대한 환불 요청만 검토 대상
+  const courseRefunds = refunds?.filter((refund) => refund.transaction?.course.teacherId === user?.id) || [];
 
   const filteredData =
     transactions?.filter((transaction) => {
@@ -84,6 +98,73 @@ const TeacherBilling = () => {
             </Table>
           )}
         </div>
+
+        <h2 className="billing__title">Refund Requests</h2>
+        <div className="billing__grid">
+          {isLoadingRefunds ? (
+            <Loading />
+          ) : (
+            <Table className="billing__table">
+              <TableHeader className="billing__table-header">
+                <TableRow className="billing__table-header-row">
+                  <TableHead className="billing__table-cell">Requested</TableHead>
+                  <TableHead className="billing__table-cell">Course</TableHead>
+                  <TableHead className="billing__table-cell">Student</TableHead>
+                  <TableHead className="billing__table-cell">Amount</TableHead>
+                  <TableHead className="billing__table-cell">Reason</TableHead>
+                  <TableHead className="billing__table-cell">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody className="billing__table-body">
+                {courseRefunds.length > 0 ? (
+                  courseRefunds.map((refund) => (
+                    <TableRow className="billing__table-row" key={refund.refundId}>
+                      <TableCell className="billing__table-cell">
+                        {new Date(refund.createdAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="billing__table-cell">{refund.transaction?.course.title}</TableCell>
+                      <TableCell className="billing__table-cell">{refund.user?.email}</TableCell>
+                      <TableCell className="billing__table-cell billing__amount">
+                        {formatPrice(refund.amount)}
+                        {refund.transaction && refund.amount < refund.transaction.amount && ' (partial)'}
+                      </TableCell>
+                      <TableCell className="billing__table-cell">{refund.reason}</TableCell>
+                      <TableCell className="billing__table-cell">
+                        {refund.status === 'pending' ? (
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              disabled={isApproving}
+                              onClick={() => approveRefund({ refundId: refund.refundId })}
+                            >
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={isRejecting}
+                              onClick={() => rejectRefund({ refundId: refund.refundId })}
+                            >
+                              Reject
+                            </Button>
+                          </div>
+                        ) : (
+                          refund.status
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow className="billing__table-row">
+                    <TableCell className="billing__table-cell text-center" colSpan={6}>
+                      No refund requests
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,121 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useGetCoursesQuery, useUpdateCourseAccessRulesMutation } from "@/state/api";
+import React, { useEffect, useState } from "react";
+
+interface AccessRulesPanelProps {
+  course: Course;
+}
+
+// 🔒 학습 순서 규칙 (순차 학습, 선수 과목) 설정
+const AccessRulesPanel = ({ course }: AccessRulesPanelProps) => {
+  const { data: courses } = useGetCoursesQuery({});
+  const [updateAccessRules, { isLoading }] = useUpdateCourseAccessRulesMutation();
+
+  const [isSequential, setIsSequential] = useState(false);
+  const [sequentialSectionIds, setSequentialSectionIds] = useState<string[]>([]);
+  const [prerequisiteCourseIds, setPrerequisiteCourseIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setIsSequential(course.isSequential ?? false);
+    setSequentialSectionIds(
+      (course.sections ?? [])
+        .filter((section) => section.isSequential)
+        .map((section) => section.sectionId)
+    );
+    setPrerequisiteCourseIds(
+      (course.prerequisites ?? []).map((item) => item.prerequisiteCourse.courseId)
+    );
+  }, [course]);
+
+  const toggleId = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((item) => item !== id) : [...ids, id];
+
+  const candidateCourses = (courses ?? []).filter(
+    (candidate) => candidate.courseId !== course.courseId
+  );
+
+  const handleSave = async () => {
+    try {
+      await updateAccessRules({
+        courseId: course.courseId,
+        rules: { isSequential, sequentialSectionIds, prerequisiteCourseIds },
+      }).unwrap();
+    } catch (error) {
+      console.error("❌ 학습 순서 규칙 저장 실패:", error);
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-4 rounded-lg border border-border bg-secondary-bg p-4">
+      <div>
+        <h2 className="text-2xl font-semibold text-foreground">Learning Path</h2>
+        <p className="text-sm text-text-medium">
+          Sequential chapters unlock only after the previous chapter is completed or its
+          quiz is passed. Only saved sections are listed.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Switch
+          id="course-sequential"
+          checked={isSequential}
+          onCheckedChange={setIsSequential}
+        />
+        <Label htmlFor="course-sequential">Whole course is sequential</Label>
+      </div>
+
+      {!isSequential && (course.sections ?? []).length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Sequential sections</p>
+          {course.sections.map((section) => (
+            <label key={section.sectionId} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={sequentialSectionIds.includes(section.sectionId)}
+                onChange={() =>
+                  setSequentialSectionIds(toggleId(sequentialSectionIds, section.sectionId))
+                }
+              />
+              {section.sectionTitle}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Prerequisite courses</p>
+        {candidateCourses.length === 0 ? (
+          <p className="text-sm text-text-medium">No other published courses.</p>
+        ) : (
+          <div className="max-h-40 space-y-2 overflow-y-auto">
+            {candidateCourses.map((candidate) => (
+              <label key={candidate.courseId} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={prerequisiteCourseIds.includes(candidate.courseId)}
+                  onChange={() =>
+                    setPrerequisiteCourseIds(toggleId(prerequisiteCourseIds, candidate.courseId))
+                  }
+                />
+                {candidate.title}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Button
+        type="button"
+        onClick={handleSave}
+        disabled={isLoading}
+        className="bg-primary-700"
+      >
+        {isLoading ? "Saving..." : "Save learning path"}
+      </Button>
+    </div>
+  );
+};
+
+export default AccessRulesPanel;
@@ -11,17 +11,34 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { ChapterFormData, chapterSchema } from "@/lib/schemas";
-import { createId } from "@/lib/utils"; // 🆔 CUID2 ID 생성
-import { addChapter, closeChapterModal, editChapter } from "@/state";
+import { uploadVideo } from "@/lib/utils";
+import { closeChapterModal } from "@/state";
+import {
+  useCreateChapterMutation,
+  useGetChapterQuizQuery,
+  useGetUploadVideoUrlMutation,
+  useUpdateChapterMutation,
+  useUpsertChapterQuizMutation,
+} from "@/state/api";
 import { useAppDispatch, useAppSelector } from "@/state/redux";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { upsertQuizSchema } from "@packages/schemas";
 import { X } from "lucide-react";
-import React, { useEffect } from "react";
+import { useParams } from "next/navigation";
+import React, { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
+import QuizEditor, { createEmptyQuiz } from "./QuizEditor";
 
 const ChapterModal = () => {
   const dispatch = useAppDispatch();
+  const params = useParams();
+  const courseId = params.id as string;
+  const [createChapter] = useCreateChapterMutation();
+  const [updateChapter] = useUpdateChapterMutation();
+  const [getUploadVideoUrl] = useGetUploadVideoUrlMutation();
+  const [upsertChapterQuiz] = useUpsertChapterQuizMutation();
+  const [isSaving, setIsSaving] = useState(false);
   const {
     isChapterModalOpen,
     selectedSectionIndex,
@@ -34,67 +51,129 @@ const ChapterModal = () => {
       ? sections[selectedSectionIndex].chapters[selectedChapterIndex]
       : undefined;
 
+  const [quizDraft, setQuizDraft] = useState<Quiz>(createEmptyQuiz());
+
+  // 저장된 퀴즈 챕터는 편집 시 서버의 문항(정답 포함)을 불러옴
+  const { data: savedQuiz } = useGetChapterQuizQuery(
+    { courseId, chapterId: chapter?.chapterId ?? "" },
+    { skip: !isChapterModalOpen || !chapter || chapter.type !== "Quiz" || !!chapter.quiz }
+  );
+
   const methods = useForm<ChapterFormData>({
     resolver: zodResolver(chapterSchema),
     defaultValues: {
       title: "",
       content: "",
+      type: "Text",
       video: "",
+      freePreview: false,
     },
   });
 
+  const chapterType = methods.watch("type");
+
   useEffect(() => {
     if (chapter) {
       methods.reset({
         title: chapter.title,
         content: chapter.content,
+        type: chapter.type,
         video: chapter.video || "",
+        freePreview: chapter.freePreview ?? false,
       });
+      setQuizDraft(chapter.quiz ?? createEmptyQuiz());
     } else {
       methods.reset({
         title: "",
         content: "",
+        type: "Text",
         video: "",
+        freePreview: false,
       });
+      setQuizDraft(createEmptyQuiz());
     }
   }, [chapter, methods]);
 
+  useEffect(() => {
+    if (savedQuiz && !chapter?.quiz) {
+      setQuizDraft({
+        passThreshold: savedQuiz.passThreshold,
+        maxAttempts: savedQuiz.maxAttempts,
+        questions: savedQuiz.questions,
+      });
+    }
+  }, [savedQuiz, chapter]);
+
   const onClose = () => {
     dispatch(closeChapterModal());
   };
 
-  const onSubmit = (data: ChapterFormData) => {
+  // 챕터 단위로 바로 저장 (영상 업로드, 퀴즈 문항 포함)
+  const onSubmit = async (data: ChapterFormData) => {
     if (selectedSectionIndex === null) return;
 
-    const newChapter: Chapter = {
-      chapterId: chapter?.chapterId || createId(), // 🆔 CUID2 ID 생성
+    const isQuiz = data.type === "Quiz";
+    const { sectionId } = sections[selectedSectionIndex];
+
+    // 퀴즈 문항은 서버와 같은 스키마로 미리 검증
+    if (isQuiz) {
+      const result = upsertQuizSchema.safeParse(quizDraft);
+      if (!result.success) {
+        toast.error(result.error.errors[0]?.message ?? "Invalid quiz");
+        return;
+      }
+    }
+
+    const payload: ChapterInput = {
       title: data.title,
       content: data.content,
-      type: data.video ? "Video" : "Text",
-      video: data.video,
+      type: isQuiz ? "Quiz" : data.video ? "Video" : "Text",
+      freePreview: data.freePreview,
+      // 새 영상 파일은 챕터 저장 후 업로드, 퀴즈 챕터는 영상 제거
+      ...(isQuiz && { video: null }),
     };
 
-    if (selectedChapterIndex === null) {
-      dispatch(
-        addChapter({
-          sectionIndex: selectedSectionIndex,
-          chapter: newChapter,
-        })
-      );
-    } else {
-      dispatch(
-        editChapter({
-          sectionIndex: selectedSectionIndex,
-          chapterIndex: selectedChapterIndex,
-          chapter: newChapter,
-        })
-      );
-    }
+    setIsSaving(true);
+    try {
+      const savedChapter = chapter
+        ? await updateChapter({
+            courseId,
+            sectionId,
+            chapterId: chapter.chapterId,
+            chapter: payload,
+          }).unwrap()
+        : await createChapter({ courseId, sectionId, chapter: payload }).unwrap();
+
+      if (!isQuiz && data.video instanceof File) {
+        const { video } = await uploadVideo(
+          { ...savedChapter, video: data.video },
+          courseId,
+          sectionId,
+          getUploadVideoUrl
+        );
+        await updateChapter({
+          courseId,
+          sectionId,
+          chapterId: savedChapter.chapterId,
+          chapter: { video: video as string },
+        }).unwrap();
+      }
 
-    toast.success(
-      `Chapter added/updated successfully but you need to save the course to apply the changes`
-    );
-    onClose();
+      if (isQuiz) {
+        const { passThreshold, maxAttempts, questions } = quizDraft;
+        await upsertChapterQuiz({
+          courseId,
+          chapterId: savedChapter.chapterId,
+          quiz: { passThreshold, maxAttempts, questions },
+        }).unwrap();
+      }
+
+      onClose();
+    } catch (error) {
+      console.error("❌ 챕터 저장 실패:", error);
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -127,50 +206,73 @@ const ChapterModal = () => {
               placeholder="Write chapter content here"
             />
 
-            <FormField
-              control={methods.control}
-              name="video"
-              render={({ field: { onChange, value } }) => (
-                <FormItem>
-                  <FormLabel className="form-label">
-                    Chapter Video
-                  </FormLabel>
-                  <FormControl>
-                    <div>
-                      <Input
-                        type="file"
-                        accept="video/*"
-                        onChange={(e) => {
-                          const file = e.target.files?.[0];
-                          if (file) {
-                            onChange(file);
-                          }
-                        }}
-                        className="file-input"
-                      />
-                      {typeof value === "string" && value && (
-                        <div className="file-info">
-                          Current video: {value.split("/").pop()}
-                        </div>
-                      )}
-                      {value instanceof File && (
-                        <div className="file-info">
-                          Selected file: {value.name}
-                        </div>
-                      )}
-                    </div>
-                  </FormControl>
-                  <FormMessage className="text-red-400" />
-                </FormItem>
-              )}
+            <CustomFormField
+              className="themed-input"
+              name="type"
+              label="Chapter Type"
+              type="select"
+              options={[
+                { value: "Text", label: "Text" },
+                { value: "Video", label: "Video" },
+                { value: "Quiz", label: "Quiz" },
+              ]}
             />
 
+            <CustomFormField
+              name="freePreview"
+              label="Free preview (visible before enrollment)"
+              type="switch"
+              className="flex items-center space-x-2"
+            />
+
+            {chapterType === "Quiz" ? (
+              <QuizEditor quiz={quizDraft} onChange={setQuizDraft} />
+            ) : (
+              <FormField
+                control={methods.control}
+                name="video"
+                render={({ field: { onChange, value } }) => (
+                  <FormItem>
+                    <FormLabel className="form-label">
+                      Chapter Video
+                    </FormLabel>
+                    <FormControl>
+                      <div>
+                        <Input
+                          type="file"
+                          accept="video/*"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) {
+                              onChange(file);
+                            }
+                          }}
+                          className="file-input"
+                        />
+                        {typeof value === "string" && value && (
+                          <div className="file-info">
+                            Current video: {value.split("/").pop()}
+                          </div>
+                        )}
+                        {value instanceof File && (
+                          <div className="file-info">
+                            Selected file: {value.name}
+                          </div>
+                        )}
+                      </div>
+                    </FormControl>
+                    <FormMessage className="text-red-400" />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="chapter-modal__actions">
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
               </Button>
-              <Button type="submit" className="bg-primary-700">
-                Save
+              <Button type="submit" className="bg-primary-700" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save"}
               </Button>
             </div>
           </form>
@@ -0,0 +1,170 @@
+import { Button } from "@/components/ui/button";
+import {
+  useDiscardCourseDraftMutation,
+  useGetCourseDraftDiffQuery,
+  usePublishCourseDraftMutation,
+} from "@/state/api";
+import type { CourseRevisionDraft, CourseRevisionItemChange } from "@packages/schemas";
+import React, { useState } from "react";
+
+interface CourseRevisionPanelProps {
+  draft: CourseRevisionDraft;
+}
+
+const CHANGE_STYLES: Record<CourseRevisionItemChange["change"], string> = {
+  added: "text-green-500",
+  removed: "text-red-500",
+  modified: "text-yellow-500",
+};
+
+const formatFieldValue = (value: string | number | null) =>
+  value === null || value === "" ? "(empty)" : String(value);
+
+// 변경 항목 목록 (섹션/챕터)
+const ChangeList = ({ title, items }: { title: string; items: CourseRevisionItemChange[] }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium">{title}</p>
+      <ul className="space-y-1 text-sm">
+        {items.map((item) => (
+          <li key={`${item.change}-${item.id}`} className="flex flex-wrap gap-2">
+            <span className={`font-medium uppercase ${CHANGE_STYLES[item.change]}`}>
+              {item.change}
+            </span>
+            <span className="text-foreground">{item.title}</span>
+            {item.sectionTitle && (
+              <span className="text-text-medium">in {item.sectionTitle}</span>
+            )}
+            {item.fields.length > 0 && (
+              <span className="text-text-medium">({item.fields.join(", ")})</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// 🗂️ 게시된 강의의 초안 변경 사항 확인, 게시, 폐기
+const CourseRevisionPanel = ({ draft }: CourseRevisionPanelProps) => {
+  const [showChanges, setShowChanges] = useState(false);
+  // 게시 확인 메시지에 삭제 챕터 수를 보여주기 위해 초안이 있으면 항상 조회
+  const { data: diff, isFetching } = useGetCourseDraftDiffQuery(draft.courseId, {
+    skip: !draft.revisionId,
+  });
+  const [publishDraft, { isLoading: isPublishing }] = usePublishCourseDraftMutation();
+  const [discardDraft, { isLoading: isDiscarding }] = useDiscardCourseDraftMutation();
+
+  const hasDraft = !!draft.revisionId;
+
+  const handlePublish = async () => {
+    const removedCount = diff?.chapters.filter((chapter) => chapter.change === "removed").length ?? 0;
+    const message =
+      removedCount > 0
+        ? `Publish this revision? ${removedCount} removed chapter(s) will be dropped from every learner's progress.`
+        : "Publish this revision? Enrolled learners will see the changes immediately.";
+    if (!window.confirm(message)) return;
+
+    try {
+      await publishDraft(draft.courseId).unwrap();
+      setShowChanges(false);
+    } catch (error) {
+      console.error("❌ 강의 개정판 게시 실패:", error);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!window.confirm("Discard all unpublished changes? This cannot be undone.")) return;
+
+    try {
+      await discardDraft(draft.courseId).unwrap();
+      setShowChanges(false);
+    } catch (error) {
+      console.error("❌ 강의 초안 폐기 실패:", error);
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-4 rounded-lg border border-border bg-secondary-bg p-4">
+      <div>
+        <h2 className="text-2xl font-semibold text-foreground">Unpublished Changes</h2>
+        <p className="text-sm text-text-medium">
+          This course is published, so edits are saved to a draft revision. Enrolled learners
+          keep seeing the current version until you publish the revision.
+        </p>
+      </div>
+
+      {!hasDraft ? (
+        <p className="text-sm text-text-medium">No unpublished changes.</p>
+      ) : (
+        <>
+          {draft.updatedAt && (
+            <p className="text-sm text-text-medium">
+              Last edited {new Date(draft.updatedAt).toLocaleString()}
+            </p>
+          )}
+
+          {showChanges && (
+            <div className="space-y-3 rounded-md border border-border p-3">
+              {isFetching || !diff ? (
+                <p className="text-sm text-text-medium">Comparing with the published version...</p>
+              ) : !diff.hasChanges ? (
+                <p className="text-sm text-text-medium">The draft matches the published version.</p>
+              ) : (
+                <>
+                  {diff.course.length > 0 && (
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">Course details</p>
+                      <ul className="space-y-1 text-sm">
+                        {diff.course.map((change) => (
+                          <li key={change.field} className="text-text-medium">
+                            <span className="font-medium text-foreground">{change.field}</span>:{" "}
+                            {formatFieldValue(change.before)} → {formatFieldValue(change.after)}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  <ChangeList title="Sections" items={diff.sections} />
+                  <ChangeList title="Chapters" items={diff.chapters} />
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowChanges(!showChanges)}
+              className="border-border"
+            >
+              {showChanges ? "Hide changes" : "Review changes"}
+            </Button>
+            <Button
+              type="button"
+              onClick={handlePublish}
+              disabled={isPublishing || isDiscarding}
+              className="bg-primary-700"
+            >
+              {isPublishing ? "Publishing..." : "Publish revision"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleDiscard}
+              disabled={isPublishing || isDiscarding}
+              className="border-border text-red-500"
+            >
+              {isDiscarding ? "Discarding..." : "Discard draft"}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CourseRevisionPanel;
@@ -3,15 +3,28 @@
 import { DragDropContext, Droppable, Draggable } from '@hello-pangea/dnd';
 import { Button } from '@/components/ui/button';
 import { Trash2, Edit, Plus, GripVertical } from 'lucide-react';
+import { useParams } from 'next/navigation';
+import { toast } from 'sonner';
 import { useAppDispatch, useAppSelector } from '@/state/redux';
-import { setSections, deleteSection, deleteChapter, openSectionModal, openChapterModal } from '@/state';
+import { setSections, openSectionModal, openChapterModal } from '@/state';
+import {
+  useDeleteChapterMutation,
+  useDeleteSectionMutation,
+  useMoveChapterMutation,
+  useMoveSectionMutation,
+} from '@/state/api';
 
 export default function DroppableComponent() {
   const dispatch = useAppDispatch();
+  const params = useParams();
+  const courseId = params.id as string;
   const { sections } = useAppSelector((state) => state.global.courseEditor);
+  const [moveSection] = useMoveSectionMutation();
+  const [moveChapter] = useMoveChapterMutation();
 
-  const handleSectionDragEnd = (result: any) => {
-    if (!result.destination) return;
+  // 드래그 결과를 먼저 화면에 반영하고 서버에 순서 이동 요청 (실패 시 원래 순서로 복원)
+  const handleSectionDragEnd = async (result: any) => {
+    if (!result.destination || result.destination.index === result.source.index) return;
 
     const startIndex = result.source.index;
     const endIndex = result.destination.index;
@@ -20,20 +33,26 @@ export default function DroppableComponent() {
     const [reorderedSection] = updatedSections.splice(startIndex, 1);
     updatedSections.splice(endIndex, 0, reorderedSection);
     dispatch(setSections(updatedSections));
+
+    try {
+      await moveSection({
+        courseId,
+        sectionId: reorderedSection.sectionId,
+        orderIndex: endIndex,
+      }).unwrap();
+    } catch (error) {
+      console.error('❌ 섹션 순서 변경 실패:', error);
+      toast.error('섹션 순서를 변경하지 못했습니다');
+      dispatch(setSections(sections));
+    }
   };
 
-  const handleChapterDragEnd = (result: any, sectionIndex: number) => {
-    if (!result.destination) return;
+  const handleChapterDragEnd = async (result: any, sectionIndex: number) => {
+    if (!result.destination || result.destination.index === result.source.index) return;
 
     const startIndex = result.source.index;
     const endIndex = result.destination.index;
-
-    // const updatedSections = [...sections];
-    // const updatedChapters = [...updatedSections[sectionIndex].chapters];
-    // const [reorderedChapter] = updatedChapters.splice(startIndex, 1);
-    // updatedChapters.splice(endIndex, 0, reorderedChapter);
-    // updatedSections[sectionIndex].chapters = updatedChapters;
-    // dispatch(setSections(updatedSections));
+    const { sectionId, chapters } = sections[sectionIndex];
 
     // ✅ 불변성을 유지하면서 새로운 배열 생성
     const updatedSections = sections.map((section, idx) => {
@@ -48,6 +67,19 @@ export default function DroppableComponent() {
     });
 
     dispatch(setSections(updatedSections)); // ✅ Redux 상태 업데이트
+
+    try {
+      await moveChapter({
+        courseId,
+        sectionId,
+        chapterId: chapters[startIndex].chapterId,
+        orderIndex: endIndex,
+      }).unwrap();
+    } catch (error) {
+      console.error('❌ 챕터 순서 변경 실패:', error);
+      toast.error('챕터 순서를 변경하지 못했습니다');
+      dispatch(setSections(sections));
+    }
   };
 
   return (
@@ -82,6 +114,7 @@ export default function DroppableComponent() {
                                     chapter={chapter}
                                     chapterIndex={chapterIndex}
                                     sectionIndex={sectionIndex}
+                                    sectionId={section.sectionId}
                                     draggableProvider={draggableProvider}
                                   />
                                 )}
@@ -132,6 +165,18 @@ const SectionHeader = ({
   dragHandleProps: any;
 }) => {
   const dispatch = useAppDispatch();
+  const params = useParams();
+  const [deleteSection, { isLoading: isDeleting }] = useDeleteSectionMutation();
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete "${section.sectionTitle}" and all of its chapters?`)) return;
+
+    try {
+      await deleteSection({ courseId: params.id as string, sectionId: section.sectionId }).unwrap();
+    } catch (error) {
+      console.error('❌ 섹션 삭제 실패:', error);
+    }
+  };
 
   return (
     <div className="droppable-section__header" {...dragHandleProps}>
@@ -156,7 +201,8 @@ const SectionHeader = ({
               variant="ghost"
               size="sm"
               className="p-0"
-              onClick={() => dispatch(deleteSection(sectionIndex))}
+              onClick={handleDelete}
+              disabled={isDeleting}
             >
               <Trash2 className="h-5 w-5" />
             </Button>
@@ -172,14 +218,32 @@ const ChapterItem = ({
   chapter,
   chapterIndex,
   sectionIndex,
+  sectionId,
   draggableProvider,
 }: {
   chapter: Chapter;
   chapterIndex: number;
   sectionIndex: number;
+  sectionId: string;
   draggableProvider: any;
 }) => {
   const dispatch = useAppDispatch();
+  const params = useParams();
+  const [deleteChapter, { isLoading: isDeleting }] = useDeleteChapterMutation();
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete "${chapter.title}"?`)) return;
+
+    try {
+      await deleteChapter({
+        courseId: params.id as string,
+        sectionId,
+        chapterId: chapter.chapterId,
+      }).unwrap();
+    } catch (error) {
+      console.error('❌ 챕터 삭제 실패:', error);
+    }
+  };
 
   return (
     <div
@@ -214,14 +278,8 @@ const ChapterItem = ({
           variant="ghost"
           size="sm"
           className="droppable-chapter__button"
-          onClick={() =>
-            dispatch(
-              deleteChapter({
-                sectionIndex,
-                chapterIndex,
-              })
-            )
-          }
+          onClick={handleDelete}
+          disabled={isDeleting}
         >
           <Trash2 className="h-4 w-4" />
         </Button>
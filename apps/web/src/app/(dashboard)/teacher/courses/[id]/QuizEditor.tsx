@@ -0,0 +1,310 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { createId } from "@/lib/utils"; // 🆔 CUID2 ID 생성
+import { Plus, Trash2 } from "lucide-react";
+import React from "react";
+
+const QUESTION_TYPE_OPTIONS: { value: QuizQuestionType; label: string }[] = [
+  { value: "SingleChoice", label: "Single Choice" },
+  { value: "MultipleChoice", label: "Multiple Choice" },
+  { value: "TrueFalse", label: "True / False" },
+  { value: "ShortAnswer", label: "Short Answer" },
+];
+
+export const createEmptyQuiz = (): Quiz => ({
+  passThreshold: 70,
+  maxAttempts: null,
+  questions: [],
+});
+
+// 문항 유형별 기본 선택지 구성
+const createQuestion = (type: QuizQuestionType): QuizQuestion => {
+  if (type === "TrueFalse") {
+    const trueId = createId();
+    return {
+      questionId: createId(),
+      type,
+      prompt: "",
+      options: [
+        { optionId: trueId, text: "True" },
+        { optionId: createId(), text: "False" },
+      ],
+      correctOptionIds: [trueId],
+      acceptedAnswers: [],
+      points: 1,
+    };
+  }
+
+  if (type === "ShortAnswer") {
+    return {
+      questionId: createId(),
+      type,
+      prompt: "",
+      options: [],
+      correctOptionIds: [],
+      acceptedAnswers: [""],
+      points: 1,
+    };
+  }
+
+  return {
+    questionId: createId(),
+    type,
+    prompt: "",
+    options: [
+      { optionId: createId(), text: "" },
+      { optionId: createId(), text: "" },
+    ],
+    correctOptionIds: [],
+    acceptedAnswers: [],
+    points: 1,
+  };
+};
+
+interface QuizEditorProps {
+  quiz: Quiz;
+  onChange: (quiz: Quiz) => void;
+}
+
+const QuizEditor = ({ quiz, onChange }: QuizEditorProps) => {
+  const updateQuestion = (index: number, question: QuizQuestion) => {
+    const questions = [...quiz.questions];
+    questions[index] = question;
+    onChange({ ...quiz, questions });
+  };
+
+  const removeQuestion = (index: number) => {
+    onChange({
+      ...quiz,
+      questions: quiz.questions.filter((_, i) => i !== index),
+    });
+  };
+
+  const toggleCorrectOption = (index: number, optionId: string) => {
+    const question = quiz.questions[index];
+    const current = question.correctOptionIds ?? [];
+    const correctOptionIds =
+      question.type === "MultipleChoice"
+        ? current.includes(optionId)
+          ? current.filter((id) => id !== optionId)
+          : [...current, optionId]
+        : [optionId];
+    updateQuestion(index, { ...question, correctOptionIds });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-4">
+        <label className="flex-1 text-sm text-foreground">
+          Pass Threshold (%)
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={quiz.passThreshold}
+            onChange={(e) =>
+              onChange({ ...quiz, passThreshold: Number(e.target.value) })
+            }
+            className="themed-input mt-1"
+          />
+        </label>
+        <label className="flex-1 text-sm text-foreground">
+          Max Attempts
+          <Input
+            type="number"
+            min={1}
+            placeholder="Unlimited"
+            value={quiz.maxAttempts ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...quiz,
+                maxAttempts: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+            className="themed-input mt-1"
+          />
+        </label>
+      </div>
+
+      {quiz.questions.map((question, index) => (
+        <div
+          key={question.questionId}
+          className="space-y-2 rounded-lg border border-border p-3"
+        >
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-semibold text-foreground">
+              Q{index + 1}
+            </span>
+            <Select
+              value={question.type}
+              onValueChange={(type) =>
+                updateQuestion(index, {
+                  ...createQuestion(type as QuizQuestionType),
+                  questionId: question.questionId,
+                  prompt: question.prompt,
+                })
+              }
+            >
+              <SelectTrigger className="themed-input w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUESTION_TYPE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={1}
+              value={question.points}
+              onChange={(e) =>
+                updateQuestion(index, {
+                  ...question,
+                  points: Number(e.target.value) || 1,
+                })
+              }
+              className="themed-input w-20"
+              aria-label="Points"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeQuestion(index)}
+              className="ml-auto"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Textarea
+            value={question.prompt}
+            placeholder="Write the question here"
+            onChange={(e) =>
+              updateQuestion(index, { ...question, prompt: e.target.value })
+            }
+            className="themed-input"
+          />
+
+          {question.type === "ShortAnswer" ? (
+            <Input
+              value={(question.acceptedAnswers ?? []).join(", ")}
+              placeholder="Accepted answers, separated by commas"
+              onChange={(e) =>
+                updateQuestion(index, {
+                  ...question,
+                  acceptedAnswers: e.target.value
+                    .split(",")
+                    .map((answer) => answer.trim())
+                    .filter(Boolean),
+                })
+              }
+              className="themed-input"
+            />
+          ) : (
+            <div className="space-y-1">
+              {question.options.map((option, optionIndex) => (
+                <div key={option.optionId} className="flex items-center gap-2">
+                  <input
+                    type={question.type === "MultipleChoice" ? "checkbox" : "radio"}
+                    name={`correct-${question.questionId}`}
+                    checked={(question.correctOptionIds ?? []).includes(option.optionId)}
+                    onChange={() => toggleCorrectOption(index, option.optionId)}
+                    aria-label="Correct answer"
+                  />
+                  <Input
+                    value={option.text}
+                    disabled={question.type === "TrueFalse"}
+                    placeholder={`Option ${optionIndex + 1}`}
+                    onChange={(e) => {
+                      const options = [...question.options];
+                      options[optionIndex] = { ...option, text: e.target.value };
+                      updateQuestion(index, { ...question, options });
+                    }}
+                    className="themed-input"
+                  />
+                  {question.type !== "TrueFalse" && question.options.length > 2 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        updateQuestion(index, {
+                          ...question,
+                          options: question.options.filter(
+                            (o) => o.optionId !== option.optionId
+                          ),
+                          correctOptionIds: (question.correctOptionIds ?? []).filter(
+                            (id) => id !== option.optionId
+                          ),
+                        })
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {question.type !== "TrueFalse" && question.options.length < 10 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    updateQuestion(index, {
+                      ...question,
+                      options: [...question.options, { optionId: createId(), text: "" }],
+                    })
+                  }
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add Option
+                </Button>
+              )}
+            </div>
+          )}
+
+          <Input
+            value={question.explanation ?? ""}
+            placeholder="Explanation shown after grading (optional)"
+            onChange={(e) =>
+              updateQuestion(index, {
+                ...question,
+                explanation: e.target.value || undefined,
+              })
+            }
+            className="themed-input"
+          />
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          onChange({
+            ...quiz,
+            questions: [...quiz.questions, createQuestion("SingleChoice")],
+          })
+        }
+      >
+        <Plus className="mr-1 h-4 w-4" />
+        Add Question
+      </Button>
+    </div>
+  );
+};
+
+export default QuizEditor;
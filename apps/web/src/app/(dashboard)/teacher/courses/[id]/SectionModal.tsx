@@ -3,17 +3,21 @@ import CustomModal from "@/components/CustomModal";
 import { Button } from "@/components/ui/button";
 import { Form } from "@/components/ui/form";
 import { SectionFormData, sectionSchema } from "@/lib/schemas";
-import { createId } from "@/lib/utils"; // 🆔 CUID2 ID 생성
-import { addSection, closeSectionModal, editSection } from "@/state";
+import { closeSectionModal } from "@/state";
+import { useCreateSectionMutation, useUpdateSectionMutation } from "@/state/api";
 import { useAppDispatch, useAppSelector } from "@/state/redux";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { X } from "lucide-react";
+import { useParams } from "next/navigation";
 import React, { useEffect } from "react";
 import { useForm } from "react-hook-form";
-import { toast } from "sonner";
 
 const SectionModal = () => {
   const dispatch = useAppDispatch();
+  const params = useParams();
+  const courseId = params.id as string;
+  const [createSection, { isLoading: isCreating }] = useCreateSectionMutation();
+  const [updateSection, { isLoading: isUpdating }] = useUpdateSectionMutation();
   const { isSectionModalOpen, selectedSectionIndex, sections } = useAppSelector(
     (state) => state.global.courseEditor
   );
@@ -47,29 +51,27 @@ const SectionModal = () => {
     dispatch(closeSectionModal());
   };
 
-  const onSubmit = (data: SectionFormData) => {
-    const newSection: Section = {
-      sectionId: section?.sectionId || createId(), // 🆔 CUID2 ID 생성
+  // 섹션 단위로 바로 저장 (강의 전체 저장 불필요)
+  const onSubmit = async (data: SectionFormData) => {
+    const payload: SectionInput = {
       sectionTitle: data.title,
       sectionDescription: data.description,
-      chapters: section?.chapters || [],
     };
 
-    if (selectedSectionIndex === null) {
-      dispatch(addSection(newSection));
-    } else {
-      dispatch(
-        editSection({
-          index: selectedSectionIndex,
-          section: newSection,
-        })
-      );
+    try {
+      if (section) {
+        await updateSection({
+          courseId,
+          sectionId: section.sectionId,
+          section: payload,
+        }).unwrap();
+      } else {
+        await createSection({ courseId, section: payload }).unwrap();
+      }
+      onClose();
+    } catch (error) {
+      console.error("❌ 섹션 저장 실패:", error);
     }
-
-    toast.success(
-      `Section added/updated successfully but you need to save the course to apply the changes`
-    );
-    onClose();
   };
 
   return (
@@ -106,8 +108,12 @@ const SectionModal = () => {
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
               </Button>
-              <Button type="submit" className="bg-primary-700">
-                Save
+              <Button
+                type="submit"
+                className="bg-primary-700"
+                disabled={isCreating || isUpdating}
+              >
+                {isCreating || isUpdating ? "Saving..." : "Save"}
               </Button>
             </div>
           </form>
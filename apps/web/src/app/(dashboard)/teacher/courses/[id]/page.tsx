@@ -5,9 +5,9 @@ import Header from '@/components/Header';
 import { Button } from '@/components/ui/button';
 import { Form } from '@/components/ui/form';
 import { courseSchema } from '@/lib/schemas';
-import { centsToDollars, createCourseFormData, uploadAllVideos, logFormData } from '@/lib/utils';
+import { centsToDollars, createCourseFormData, logFormData } from '@/lib/utils';
 import { openSectionModal, setSections } from '@/state';
-import { useGetCourseQuery, useUpdateCourseMutation, useGetUploadVideoUrlMutation } from '@/state/api';
+import { useGetCourseDraftQuery, useGetCourseQuery, useUpdateCourseMutation } from '@/state/api';
 import { useAppDispatch, useAppSelector } from '@/state/redux';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { ArrowLeft, Plus } from 'lucide-react';
@@ -17,6 +17,8 @@ import { useForm } from 'react-hook-form';
 import DroppableComponent from './Droppable';
 import ChapterModal from './ChapterModal';
 import SectionModal from './SectionModal';
+import AccessRulesPanel from './AccessRulesPanel';
+import CourseRevisionPanel from './CourseRevisionPanel';
 import DebugInfo from '@/components/DebugInfo';
 
 const CourseEditor = () => {
@@ -24,8 +26,9 @@ const CourseEditor = () => {
   const params = useParams();
   const id = params.id as string;
   const { data: course, isLoading, refetch } = useGetCourseQuery(id);
+  // 편집 화면은 초안 기준 (게시된 강의의 수정 사항은 개정판 초안에 저장, 초안이 없으면 게시본)
+  const { data: draft, isLoading: isDraftLoading } = useGetCourseDraftQuery(id);
   const [updateCourse] = useUpdateCourseMutation();
-  const [getUploadVideoUrl] = useGetUploadVideoUrlMutation();
 
   // 제출 상태 관리를 위한 로컬 state
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -44,22 +47,28 @@ const CourseEditor = () => {
     },
   });
 
+  // 강의 정보 폼은 강의를 처음 불러올 때만 채움 (섹션/챕터 저장 후 재조회 시 입력 중인 값 유지)
   useEffect(() => {
-    if (course) {
+    if (course && draft) {
       methods.reset({
-        courseTitle: course.title,
-        courseDescription: course.description,
-        courseCategory: course.category,
-        coursePrice: centsToDollars(course.price),
+        courseTitle: draft.content.title,
+        courseDescription: draft.content.description ?? '',
+        courseCategory: draft.content.category,
+        coursePrice: centsToDollars(draft.content.price ?? undefined),
         courseStatus: course.status === 'Published',
       });
-      dispatch(setSections(course.sections || []));
     }
-  }, [course, methods]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [course?.courseId, draft?.courseId, methods]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // 섹션/챕터는 개별 API로 저장되므로 재조회된 서버 상태(초안)를 그대로 반영
+  useEffect(() => {
+    if (draft) {
+      dispatch(setSections(draft.content.sections as Section[]));
+    }
+  }, [draft]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const onSubmit = async (data: CourseFormData) => {
     console.log('🚀 onSubmit 시작:', data);
-    console.log('📋 현재 섹션 데이터:', sections);
     console.log('🆔 강의 ID:', id);
     
     // 중복 제출 방지
@@ -94,12 +103,8 @@ const CourseEditor = () => {
     setIsSubmitting(true);
     
     try {
-      console.log('📹 비디오 업로드 시작...');
-      const updatedSections = await uploadAllVideos(sections, id, getUploadVideoUrl);
-      console.log('✅ 비디오 업로드 완료:', updatedSections);
-
       console.log('📦 FormData 생성 중...');
-      const formData = createCourseFormData(data, updatedSections);
+      const formData = createCourseFormData(data);
       
       // FormData 내용 확인 (헬퍼 함수 사용)
       logFormData(formData, '생성된 FormData');
@@ -237,7 +242,7 @@ const CourseEditor = () => {
                   type="text"
                   placeholder="Write course title here"
                   className="border-none themed-input"
-                  initialValue={course?.title}
+                  initialValue={draft?.content.title}
                 />
 
                 <CustomFormField
@@ -245,7 +250,7 @@ const CourseEditor = () => {
                   label="Course Description"
                   type="textarea"
                   placeholder="Write course description here"
-                  initialValue={course?.description}
+                  initialValue={draft?.content.description}
                   className="border-none themed-input"
                 />
 
@@ -266,7 +271,7 @@ const CourseEditor = () => {
                       label: 'Artificial Intelligence',
                     },
                   ]}
-                  initialValue={course?.category}
+                  initialValue={draft?.content.category}
                 />
 
                 <CustomFormField
@@ -275,7 +280,7 @@ const CourseEditor = () => {
                   label="Course Price"
                   type="number"
                   placeholder="0"
-                  initialValue={course?.price}
+                  initialValue={draft?.content.price}
                 />
               </div>
             </div>
@@ -296,7 +301,7 @@ const CourseEditor = () => {
                 </Button>
               </div>
 
-              {isLoading ? (
+              {isLoading || isDraftLoading ? (
                 <p className="text-text-medium">Loading course content...</p>
               ) : sections.length > 0 ? (
                 <DroppableComponent />
@@ -308,6 +313,9 @@ const CourseEditor = () => {
         </form>
       </Form>
 
+      {draft?.editingDraft && <CourseRevisionPanel draft={draft} />}
+      {course && <AccessRulesPanel course={course} />}
+
       <ChapterModal />
       <SectionModal />
       <DebugInfo />
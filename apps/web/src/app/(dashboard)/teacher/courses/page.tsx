@@ -8,11 +8,14 @@ import { Button } from "@/components/ui/button";
 import {
   useCreateCourseMutation,
   useDeleteCourseMutation,
+  useDuplicateCourseMutation,
   useGetCoursesQuery,
+  useImportCourseMutation,
+  useLazyExportCourseQuery,
 } from "@/state/api";
 import { useAuthStore } from "@/stores/authStore";
 import { useRouter } from "next/navigation";
-import React, { useMemo, useState } from "react";
+import React, { useMemo, useRef, useState } from "react";
 
 const Courses = () => {
   const router = useRouter();
@@ -25,6 +28,10 @@ const Courses = () => {
 
   const [createCourse] = useCreateCourseMutation();
   const [deleteCourse] = useDeleteCourseMutation();
+  const [duplicateCourse] = useDuplicateCourseMutation();
+  const [exportCourse] = useLazyExportCourseQuery();
+  const [importCourse, { isLoading: isImporting }] = useImportCourseMutation();
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
@@ -54,6 +61,53 @@ const Courses = () => {
     }
   };
 
+  const handleDuplicate = async (course: Course) => {
+    try {
+      const result = await duplicateCourse(course.courseId).unwrap();
+      router.push(`/teacher/courses/${result.courseId}`, {
+        scroll: false,
+      });
+    } catch (error) {
+      console.error("❌ 강의 복제 실패:", error);
+    }
+  };
+
+  // 강의 트리를 JSON 파일로 다운로드
+  const handleExport = async (course: Course) => {
+    try {
+      const data = await exportCourse(course.courseId).unwrap();
+      const blob = new Blob([JSON.stringify(data, null, 2)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${course.title.replace(/[\\/:*?"<>|]/g, "_")}.course.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("❌ 강의 내보내기 실패:", error);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append("file", file);
+
+    try {
+      const result = await importCourse(formData).unwrap();
+      router.push(`/teacher/courses/${result.courseId}`, {
+        scroll: false,
+      });
+    } catch (error) {
+      console.error("❌ 강의 가져오기 실패:", error);
+    }
+  };
+
   const handleCreateCourse = async () => {
     if (!user) return;
 
@@ -80,12 +134,29 @@ const Courses = () => {
         title="Courses"
         subtitle="Browse your courses"
         rightElement={
-          <Button
-            onClick={handleCreateCourse}
-            className="teacher-courses__header"
-          >
-            Create Course
-          </Button>
+          <div className="flex gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button
+              variant="outline"
+              onClick={() => importInputRef.current?.click()}
+              disabled={isImporting}
+              className="border-border"
+            >
+              {isImporting ? "Importing..." : "Import Course"}
+            </Button>
+            <Button
+              onClick={handleCreateCourse}
+              className="teacher-courses__header"
+            >
+              Create Course
+            </Button>
+          </div>
         }
       />
       <Toolbar
@@ -99,6 +170,8 @@ const Courses = () => {
             course={course}
             onEdit={handleEdit}
             onDelete={handleDelete}
+            onDuplicate={handleDuplicate}
+            onExport={handleExport}
             isOwner={course.teacherId === user?.id}
           />
         ))}
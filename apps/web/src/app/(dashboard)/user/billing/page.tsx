@@ -1,17 +1,21 @@
 'use client';
 
 import Loading from '@/components/Loading';
+import RefundRequestDialog from '@/components/RefundRequestDialog';
+import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { formatPrice } from '@/lib/utils';
 import { useGetTransactionsQuery } from '@/state/api';
 import { useAuthStore } from '@/stores/authStore';
 import { useRouter } from 'next/navigation';
+import { PaymentStatus, canRefundTransaction, getRefundableAmount } from '@packages/schemas';
 
 import React, { useState, useEffect } from 'react';
 
 const UserBilling = () => {
   const [paymentType, setPaymentType] = useState('all');
+  const [refundTarget, setRefundTarget] = useState<Transaction | null>(null);
   const { user } = useAuthStore();
   const router = useRouter();
 
@@ -47,6 +51,25 @@ const UserBilling = () => {
       return matchesTypes;
     }) || [];
 
+  // 환불 가능 잔액 (완료 및 대기 중 환불 제외)
+  const getRemainingAmount = (transaction: Transaction) =>
+    getRefundableAmount(transaction.amount, transaction.refunds ?? []);
+
+  const canRequestRefund = (transaction: Transaction) =>
+    canRefundTransaction({
+      status: (transaction.status ?? PaymentStatus.COMPLETED) as PaymentStatus,
+      createdAt: transaction.dateTime,
+    }) &&
+    !transaction.refunds?.some((refund) => refund.status === 'pending') &&
+    getRemainingAmount(transaction) > 0;
+
+  // 최근 환불 요청 상태 표시
+  const getRefundLabel = (transaction: Transaction) => {
+    const latest = transaction.refunds?.[0];
+    if (!latest) return '-';
+    return `${latest.status} (${formatPrice(latest.amount)})`;
+  };
+
   if (!user) {
     console.log('⚠️ 사용자 정보가 없음 - 로그인 페이지로 리다이렉트');
     return (
@@ -127,8 +150,11 @@ const UserBilling = () => {
               <TableHeader className="billing__table-header">
                 <TableRow className="billing__table-header-row">
                   <TableHead className="billing__table-cell">Date</TableHead>
+                  <TableHead className="billing__table-cell">Course</TableHead>
                   <TableHead className="billing__table-cell">Amount</TableHead>
                   <TableHead className="billing__table-cell">Payment Method</TableHead>
+                  <TableHead className="billing__table-cell">Status</TableHead>
+                  <TableHead className="billing__table-cell">Refund</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody className="billing__table-body">
@@ -138,15 +164,27 @@ const UserBilling = () => {
                       <TableCell className="billing__table-cell">
                         {new Date(transaction.dateTime).toLocaleDateString()}
                       </TableCell>
+                      <TableCell className="billing__table-cell">{transaction.course?.title}</TableCell>
                       <TableCell className="billing__table-cell billing__amount">
                         {formatPrice(transaction.amount)}
                       </TableCell>
                       <TableCell className="billing__table-cell">{transaction.paymentProvider}</TableCell>
+                      <TableCell className="billing__table-cell">{transaction.status ?? 'completed'}</TableCell>
+                      <TableCell className="billing__table-cell">
+                        <div className="flex items-center gap-2">
+                          <span>{getRefundLabel(transaction)}</span>
+                          {canRequestRefund(transaction) && (
+                            <Button size="sm" variant="outline" onClick={() => setRefundTarget(transaction)}>
+                              Request refund
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
                     </TableRow>
                   ))
                 ) : (
                   <TableRow className="billing__table-row">
-                    <TableCell className="billing__table-cell text-center" colSpan={3}>
+                    <TableCell className="billing__table-cell text-center" colSpan={6}>
                       No transactions to display
                     </TableCell>
                   </TableRow>
@@ -156,6 +194,12 @@ const UserBilling = () => {
           )}
         </div>
       </div>
+
+      <RefundRequestDialog
+        transaction={refundTarget}
+        refundableAmount={refundTarget ? getRemainingAmount(refundTarget) : 0}
+        onClose={() => setRefundTarget(null)}
+      />
     </div>
   );
 };
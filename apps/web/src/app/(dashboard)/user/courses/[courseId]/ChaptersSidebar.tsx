@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
-import { ChevronDown, ChevronUp, FileText, CheckCircle, Trophy } from 'lucide-react';
+import { ChevronDown, ChevronUp, FileText, CheckCircle, Trophy, Lock } from 'lucide-react';
+import { toast } from 'sonner';
 import { useRouter } from 'next/navigation';
 import { cn } from '@/lib/utils';
 import { useSidebar } from '@/components/ui/sidebar';
@@ -31,7 +32,14 @@ const ChaptersSidebar = () => {
     );
   };
 
+  const lockedChapterIds = userProgress.lockedChapterIds ?? [];
+
   const handleChapterClick = (sectionId: string, chapterId: string) => {
+    // 🔒 순차 학습으로 잠긴 챕터는 이동하지 않음
+    if (lockedChapterIds.includes(chapterId)) {
+      toast.info('Complete the previous chapters to unlock this one.');
+      return;
+    }
     router.push(`/user/courses/${courseId}/chapters/${chapterId}`, {
       scroll: false,
     });
@@ -56,6 +64,7 @@ const ChaptersSidebar = () => {
           chapterId={chapterId as string}
           courseId={courseId as string}
           expandedSections={expandedSections}
+          lockedChapterIds={lockedChapterIds}
           toggleSection={toggleSection}
           handleChapterClick={handleChapterClick}
           updateChapterProgress={updateChapterProgress}
@@ -72,6 +81,7 @@ const Section = ({
   chapterId,
   courseId,
   expandedSections,
+  lockedChapterIds,
   toggleSection,
   handleChapterClick,
   updateChapterProgress,
@@ -82,6 +92,7 @@ const Section = ({
   chapterId: string;
   courseId: string;
   expandedSections: string[];
+  lockedChapterIds: string[];
   toggleSection: (sectionTitle: string) => void;
   handleChapterClick: (sectionId: string, chapterId: string) => void;
   updateChapterProgress: (sectionId: string, chapterId: string, completed: boolean) => void;
@@ -120,6 +131,7 @@ const Section = ({
             sectionProgress={sectionProgress}
             chapterId={chapterId}
             courseId={courseId}
+            lockedChapterIds={lockedChapterIds}
             handleChapterClick={handleChapterClick}
             updateChapterProgress={updateChapterProgress}
           />
@@ -176,6 +188,7 @@ const ChaptersList = ({
   sectionProgress,
   chapterId,
   courseId,
+  lockedChapterIds,
   handleChapterClick,
   updateChapterProgress,
 }: {
@@ -183,6 +196,7 @@ const ChaptersList = ({
   sectionProgress: any;
   chapterId: string;
   courseId: string;
+  lockedChapterIds: string[];
   handleChapterClick: (sectionId: string, chapterId: string) => void;
   updateChapterProgress: (sectionId: string, chapterId: string, completed: boolean) => void;
 }) => {
@@ -197,6 +211,7 @@ const ChaptersList = ({
           sectionProgress={sectionProgress}
           chapterId={chapterId}
           courseId={courseId}
+          isLocked={lockedChapterIds.includes(chapter.chapterId)}
           handleChapterClick={handleChapterClick}
           updateChapterProgress={updateChapterProgress}
         />
@@ -212,6 +227,7 @@ const Chapter = ({
   sectionProgress,
   chapterId,
   courseId,
+  isLocked,
   handleChapterClick,
   updateChapterProgress,
 }: {
@@ -221,6 +237,7 @@ const Chapter = ({
   sectionProgress: any;
   chapterId: string;
   courseId: string;
+  isLocked: boolean;
   handleChapterClick: (sectionId: string, chapterId: string) => void;
   updateChapterProgress: (sectionId: string, chapterId: string, completed: boolean) => void;
 }) => {
@@ -240,10 +257,14 @@ const Chapter = ({
     <li
       className={cn('chapters-sidebar__chapter', {
         'chapters-sidebar__chapter--current': isCurrentChapter,
+        'chapters-sidebar__chapter--locked': isLocked,
       })}
       onClick={() => handleChapterClick(sectionId, chapter.chapterId)}
+      title={isLocked ? 'Locked - complete the previous chapters first' : undefined}
     >
-      {isCompleted ? (
+      {isLocked ? (
+        <Lock className="chapters-sidebar__lock-icon" />
+      ) : isCompleted ? (
         <div
           className="chapters-sidebar__chapter-check"
           onClick={handleToggleComplete}
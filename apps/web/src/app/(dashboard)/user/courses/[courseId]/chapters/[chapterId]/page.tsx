@@ -5,16 +5,24 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import ReactPlayer from "react-player";
+import type { OnProgressProps } from "react-player/base";
 import Loading from "@/components/Loading";
+import ChapterQuiz from "@/components/ChapterQuiz";
+import ChapterDiscussion from "@/components/ChapterDiscussion";
+import { Lock } from "lucide-react";
 import { useCourseProgressData } from "@/hooks/useCourseProgressData";
+import { useVideoProgress } from "@/hooks/useVideoProgress";
 
 const Course = () => {
   const {
     user,
+    courseId,
+    chapterId,
     course,
     userProgress,
     currentSection,
     currentChapter,
+    currentChapterProgress,
     isLoading,
     isChapterCompleted,
     updateChapterProgress,
@@ -24,8 +32,18 @@ const Course = () => {
   console.log("currentChapter.video:", currentChapter);
 
   const playerRef = useRef<ReactPlayer>(null);
+  const videoProgress = useVideoProgress({
+    userId: user?.id,
+    courseId: courseId as string,
+    chapterId: chapterId as string,
+    savedPosition: currentChapterProgress?.lastPosition,
+    playerRef,
+  });
 
-  const handleProgress = ({ played }: { played: number }) => {
+  const handleProgress = (state: OnProgressProps) => {
+    videoProgress.handleProgress(state);
+
+    const { played } = state;
     if (
       played >= 0.8 &&
       !hasMarkedComplete &&
@@ -47,6 +65,28 @@ const Course = () => {
   if (!user) return <div>Please sign in to view this course.</div>;
   if (!course || !userProgress) return <div>Error loading course</div>;
 
+  // 🔒 순차 학습으로 잠긴 챕터
+  if (userProgress.lockedChapterIds?.includes(chapterId as string)) {
+    return (
+      <div className="course">
+        <div className="course__container">
+          <Card className="course__tab-card">
+            <CardHeader className="course__tab-header">
+              <CardTitle className="flex items-center gap-2">
+                <Lock className="h-5 w-5" />
+                {currentChapter?.title ?? "Chapter"} is locked
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="course__tab-body">
+              This course unlocks chapters in order. Complete the previous chapters
+              (or pass their quizzes) to continue.
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="course">
       <div className="course__container">
@@ -73,31 +113,48 @@ const Course = () => {
           </div>
         </div>
 
-        <Card className="course__video">
-          <CardContent className="course__video-container">
-            {currentChapter?.video ? (
-              <ReactPlayer
-                ref={playerRef}
-                url={currentChapter.video as string}
-                controls
-                width="100%"
-                height="100%"
-                onProgress={handleProgress}
-                config={{
-                  file: {
-                    attributes: {
-                      controlsList: "nodownload",
-                    },
-                  },
-                }}
+        {currentChapter?.type === "Quiz" ? (
+          <Card className="course__tab-card">
+            <CardHeader className="course__tab-header">
+              <CardTitle>Quiz</CardTitle>
+            </CardHeader>
+            <CardContent className="course__tab-body">
+              <ChapterQuiz
+                courseId={courseId as string}
+                chapterId={chapterId as string}
               />
-            ) : (
-              <div className="course__no-video">
-                No video available for this chapter.
-              </div>
-            )}
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="course__video">
+            <CardContent className="course__video-container">
+              {currentChapter?.video ? (
+                <ReactPlayer
+                  ref={playerRef}
+                  url={currentChapter.video as string}
+                  controls
+                  width="100%"
+                  height="100%"
+                  onReady={videoProgress.handleReady}
+                  onProgress={handleProgress}
+                  onPause={videoProgress.handlePause}
+                  onEnded={videoProgress.handlePause}
+                  config={{
+                    file: {
+                      attributes: {
+                        controlsList: "nodownload",
+                      },
+                    },
+                  }}
+                />
+              ) : (
+                <div className="course__no-video">
+                  No video available for this chapter.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         <div className="course__content">
           <Tabs defaultValue="Notes" className="course__tabs">
@@ -111,6 +168,9 @@ const Course = () => {
               <TabsTrigger className="course__tab" value="Quiz">
                 Quiz
               </TabsTrigger>
+              <TabsTrigger className="course__tab" value="Discussion">
+                Discussion
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent className="course__tab-content" value="Notes">
@@ -145,6 +205,28 @@ const Course = () => {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent className="course__tab-content" value="Discussion">
+              <Card className="course__tab-card">
+                <CardHeader className="course__tab-header">
+                  <CardTitle>Questions & Discussion</CardTitle>
+                </CardHeader>
+                <CardContent className="course__tab-body">
+                  <ChapterDiscussion
+                    courseId={courseId as string}
+                    chapterId={chapterId as string}
+                    teacherId={course.teacherId}
+                    currentUserId={user.id}
+                    getCurrentTime={
+                      currentChapter?.video
+                        ? () => playerRef.current?.getCurrentTime()
+                        : undefined
+                    }
+                    onSeek={(seconds) => playerRef.current?.seekTo(seconds, "seconds")}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
 
           <Card className="course__instructor-card">
@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { PencilIcon } from 'lucide-react';
 import Header from '@/components/Header';
+import InstructorApplicationCard from '@/components/InstructorApplicationCard';
 import { useAuthStore } from '@/stores/authStore';
 import { updateProfile } from '@/services/authService';
 
@@ -116,6 +117,9 @@ const UserProfilePage = () => {
             </form>
           </CardContent>
         </Card>
+
+        {/* 강사 신청 (일반 사용자만) */}
+        {user?.role === 'USER' && <InstructorApplicationCard />}
       </div>
     </div>
   );
@@ -1,13 +1,21 @@
+import ChangePasswordForm from "@/components/ChangePasswordForm";
+import ConnectedAccountsSettings from "@/components/ConnectedAccountsSettings";
+import SessionsSettings from "@/components/SessionsSettings";
 import SharedNotificationSettings from "@/components/SharedNotificationSettings";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
 import React from "react";
 
 const UserSettings = () => {
   return (
-    <div className="w-3/5">
+    <div className="w-3/5 space-y-12">
       <SharedNotificationSettings
         title="User Settings"
         subtitle="Manage your user notification settings"
       />
+      <ChangePasswordForm />
+      <TwoFactorSettings />
+      <SessionsSettings />
+      <ConnectedAccountsSettings />
     </div>
   );
 };
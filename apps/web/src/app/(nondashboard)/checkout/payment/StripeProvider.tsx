@@ -38,17 +38,16 @@ const StripeProvider = ({ children }: { children: React.ReactNode }) => {
   useEffect(() => {
     if (!course) return;
     const fetchPaymentIntent = async () => {
-      // courseId와 amount를 모두 포함하여 결제 의도 생성
+      // 결제 금액은 서버가 강의 가격으로 결정하므로 courseId만 전달
       const result = await createStripePaymentIntent({
-        amount: course?.price ?? 9999999999999,
-        courseId: course?.courseId, // 필수 필드 추가
+        courseId: course?.courseId,
       }).unwrap();
 
       setClientSecret(result.clientSecret);
     };
 
     fetchPaymentIntent();
-  }, [createStripePaymentIntent, course?.price, course]);
+  }, [createStripePaymentIntent, course]);
 
   const options: StripeElementsOptions = {
     clientSecret,
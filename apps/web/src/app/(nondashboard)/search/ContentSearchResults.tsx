@@ -0,0 +1,61 @@
+import { useSearchCourseContentQuery } from "@/state/api";
+import { splitSearchSnippet } from "@packages/schemas";
+import Link from "next/link";
+import React from "react";
+
+const Snippet = ({ snippet }: { snippet: string }) => (
+  <p className="text-sm text-customgreys-dirtyGrey">
+    {splitSearchSnippet(snippet).map((part, index) =>
+      part.highlighted ? (
+        <mark key={index} className="rounded bg-primary-700 px-0.5 text-white-50">
+          {part.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    )}
+  </p>
+);
+
+const ContentSearchResults = ({ keyword }: { keyword: string }) => {
+  // 검색어가 2자 미만이면 서버 검증에 걸리므로 요청하지 않음
+  const { data: hits, isFetching } = useSearchCourseContentQuery(
+    { q: keyword },
+    { skip: keyword.trim().length < 2 }
+  );
+
+  if (isFetching || !hits || hits.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-3">
+      <h3 className="text-lg font-semibold">Matching lessons</h3>
+      {hits.map((hit) => (
+        <div key={hit.courseId} className="rounded-lg bg-customgreys-secondarybg p-4">
+          <Link href={`/search?id=${hit.courseId}`} className="font-semibold">
+            {hit.title}
+          </Link>
+          <span className="ml-2 text-xs text-customgreys-dirtyGrey">{hit.teacherName}</span>
+          {hit.snippet && <Snippet snippet={hit.snippet} />}
+
+          <ul className="mt-2 space-y-2">
+            {hit.matches.map((match) => (
+              <li key={`${match.type}-${match.chapterId ?? match.sectionId}`}>
+                {match.url ? (
+                  <Link href={match.url} className="text-sm text-primary-500">
+                    {match.sectionTitle}
+                    {match.chapterTitle && ` › ${match.chapterTitle}`}
+                  </Link>
+                ) : (
+                  <span className="text-sm">{match.sectionTitle}</span>
+                )}
+                <Snippet snippet={match.snippet} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ContentSearchResults;
@@ -0,0 +1,136 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { courseCategories } from "@/lib/utils";
+import React, { useEffect, useState } from "react";
+
+const LEVEL_OPTIONS: Course["level"][] = ["Beginner", "Intermediate", "Advanced"];
+
+const SORT_OPTIONS = [
+  { value: "createdAt:desc", label: "Newest" },
+  { value: "enrollments:desc", label: "Most popular" },
+  { value: "price:asc", label: "Price: low to high" },
+  { value: "price:desc", label: "Price: high to low" },
+  { value: "title:asc", label: "Title" },
+];
+
+interface SearchFiltersProps {
+  params: CourseSearchParams;
+  onChange: (updates: Partial<CourseSearchParams>) => void;
+}
+
+const SearchFilters = ({ params, onChange }: SearchFiltersProps) => {
+  // 입력 중에는 로컬 상태만 바꾸고, 제출 시 URL에 반영
+  const [keyword, setKeyword] = useState(params.search ?? "");
+  const [minPrice, setMinPrice] = useState(params.minPrice ?? "");
+  const [maxPrice, setMaxPrice] = useState(params.maxPrice ?? "");
+
+  useEffect(() => {
+    setKeyword(params.search ?? "");
+    setMinPrice(params.minPrice ?? "");
+    setMaxPrice(params.maxPrice ?? "");
+  }, [params.search, params.minPrice, params.maxPrice]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange({ search: keyword.trim(), minPrice, maxPrice });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 flex flex-wrap items-center gap-3">
+      <Input
+        value={keyword}
+        placeholder="Search courses"
+        onChange={(e) => setKeyword(e.target.value)}
+        className="themed-input w-64"
+      />
+
+      <Select
+        value={params.category || "all"}
+        onValueChange={(value) => onChange({ category: value === "all" ? "" : value })}
+      >
+        <SelectTrigger className="themed-input w-44">
+          <SelectValue placeholder="Category" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All categories</SelectItem>
+          {courseCategories.map((category) => (
+            <SelectItem key={category.value} value={category.value}>
+              {category.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={params.level || "all"}
+        onValueChange={(value) =>
+          onChange({ level: value === "all" ? undefined : (value as Course["level"]) })
+        }
+      >
+        <SelectTrigger className="themed-input w-36">
+          <SelectValue placeholder="Level" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All levels</SelectItem>
+          {LEVEL_OPTIONS.map((level) => (
+            <SelectItem key={level} value={level}>
+              {level}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Input
+        type="number"
+        min={0}
+        value={minPrice}
+        placeholder="Min price"
+        onChange={(e) => setMinPrice(e.target.value)}
+        className="themed-input w-28"
+      />
+      <Input
+        type="number"
+        min={0}
+        value={maxPrice}
+        placeholder="Max price"
+        onChange={(e) => setMaxPrice(e.target.value)}
+        className="themed-input w-28"
+      />
+
+      <Select
+        value={`${params.sortBy ?? "createdAt"}:${params.sortOrder ?? "desc"}`}
+        onValueChange={(value) => {
+          const [sortBy, sortOrder] = value.split(":");
+          onChange({
+            sortBy: sortBy as CourseSortBy,
+            sortOrder: sortOrder as "asc" | "desc",
+          });
+        }}
+      >
+        <SelectTrigger className="themed-input w-44">
+          <SelectValue placeholder="Sort by" />
+        </SelectTrigger>
+        <SelectContent>
+          {SORT_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button type="submit" className="bg-primary-700">
+        Search
+      </Button>
+    </form>
+  );
+};
+
+export default SearchFilters;
@@ -1,9 +1,12 @@
 import AccordionSections from "@/components/AccordionSections";
+import ChapterPreviewDialog from "@/components/ChapterPreviewDialog";
 import { Button } from "@/components/ui/button";
 import { formatPrice } from "@/lib/utils";
-import React from "react";
+import React, { useState } from "react";
 
 const SelectedCourse = ({ course, handleEnrollNow }: SelectedCourseProps) => {
+  const [previewChapter, setPreviewChapter] = useState<Chapter | null>(null);
+
   return (
     <div className="selected-course">
       <div>
@@ -21,7 +24,10 @@ const SelectedCourse = ({ course, handleEnrollNow }: SelectedCourseProps) => {
 
         <div className="selected-course__sections">
           <h4 className="selected-course__sections-title">Course Content</h4>
-          <AccordionSections sections={course.sections} />
+          <AccordionSections
+            sections={course.sections}
+            onPreviewChapter={setPreviewChapter}
+          />
         </div>
 
         <div className="selected-course__footer">
@@ -36,6 +42,12 @@ const SelectedCourse = ({ course, handleEnrollNow }: SelectedCourseProps) => {
           </Button>
         </div>
       </div>
+
+      <ChapterPreviewDialog
+        courseId={course.courseId}
+        chapter={previewChapter}
+        onClose={() => setPreviewChapter(null)}
+      />
     </div>
   );
 };
@@ -1,20 +1,58 @@
 "use client";
 
 import Loading from "@/components/Loading";
-import { useGetCoursesQuery } from "@/state/api";
+import { Button } from "@/components/ui/button";
+import { useSearchCoursesQuery } from "@/state/api";
 import { useRouter, useSearchParams } from "next/navigation";
 import React, { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import CourseCardSearch from "@/components/CourseCardSearch";
 import SelectedCourse from "./SelectedCourse";
+import SearchFilters from "./SearchFilters";
+import ContentSearchResults from "./ContentSearchResults";
+
+// URL 쿼리와 API 검색 파라미터는 같은 키를 사용
+const SEARCH_PARAM_KEYS: (keyof CourseSearchParams)[] = [
+  "search",
+  "category",
+  "level",
+  "minPrice",
+  "maxPrice",
+  "sortBy",
+  "sortOrder",
+  "page",
+];
+
+const PAGE_SIZE = "12";
 
 const Search = () => {
   const searchParams = useSearchParams();
   const id = searchParams.get("id");
-  const { data: courses, isLoading, isError } = useGetCoursesQuery({});
-  const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const router = useRouter();
 
+  const params = Object.fromEntries(
+    SEARCH_PARAM_KEYS.map((key) => [key, searchParams.get(key) ?? undefined])
+  ) as CourseSearchParams;
+
+  const { data, isLoading, isFetching, isError } = useSearchCoursesQuery({
+    ...params,
+    limit: PAGE_SIZE,
+  });
+  const courses = data?.courses;
+  const pagination = data?.pagination;
+  const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
+
+  // 필터 변경 시 URL 갱신 (페이지 번호는 별도 지정이 없으면 초기화)
+  const updateParams = (updates: Partial<CourseSearchParams>) => {
+    const next = new URLSearchParams(searchParams.toString());
+    Object.entries({ page: undefined, ...updates }).forEach(([key, value]) => {
+      if (value === undefined || value === "") next.delete(key);
+      else next.set(key, String(value));
+    });
+    next.delete("id");
+    router.replace(`/search?${next.toString()}`, { scroll: false });
+  };
+
   useEffect(() => {
     if (courses) {
       if (id) {
@@ -31,7 +69,9 @@ const Search = () => {
 
   const handleCourseSelect = (course: Course) => {
     setSelectedCourse(course);
-    router.push(`/search?id=${course.courseId}`, {
+    const next = new URLSearchParams(searchParams.toString());
+    next.set("id", course.courseId);
+    router.push(`/search?${next.toString()}`, {
       scroll: false,
     });
   };
@@ -50,7 +90,11 @@ const Search = () => {
       className="search"
     >
       <h1 className="search__title">List of available courses</h1>
-      <h2 className="search__subtitle">{courses.length} courses avaiable</h2>
+      <h2 className="search__subtitle">
+        {pagination?.total ?? courses.length} courses available
+      </h2>
+      <SearchFilters params={params} onChange={updateParams} />
+      {params.search && <ContentSearchResults keyword={params.search} />}
       <div className="search__content">
         <motion.div
           initial={{ y: 40, opacity: 0 }}
@@ -66,6 +110,30 @@ const Search = () => {
               onClick={() => handleCourseSelect(course)}
             />
           ))}
+          {courses.length === 0 && (
+            <p className="text-text-light">No courses match your search.</p>
+          )}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="col-span-full flex items-center justify-center gap-4">
+              <Button
+                variant="outline"
+                disabled={pagination.page <= 1 || isFetching}
+                onClick={() => updateParams({ page: String(pagination.page - 1) })}
+              >
+                Previous
+              </Button>
+              <span className="text-sm">
+                Page {pagination.page} of {pagination.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                disabled={!pagination.hasNext || isFetching}
+                onClick={() => updateParams({ page: String(pagination.page + 1) })}
+              >
+                Next
+              </Button>
+            </div>
+          )}
         </motion.div>
 
         {selectedCourse && (
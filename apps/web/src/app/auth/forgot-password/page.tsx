@@ -0,0 +1,42 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { ForgotPasswordForm } from '@/components/auth';
+import { toast } from 'sonner';
+
+export default function ForgotPasswordPage() {
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            비밀번호 찾기
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            가입한 이메일로 비밀번호 재설정 링크를 보내드립니다
+          </p>
+        </div>
+
+        <div className="bg-white py-8 px-6 shadow rounded-lg">
+          {sentMessage ? (
+            <p className="text-sm text-gray-700">{sentMessage}</p>
+          ) : (
+            <ForgotPasswordForm
+              onSuccess={setSentMessage}
+              onError={(error) => toast.error(error)}
+            />
+          )}
+        </div>
+
+        <div className="text-center">
+          <Link href="/auth" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+            로그인으로 돌아가기
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import React, { Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ResetPasswordForm } from '@/components/auth';
+import { toast } from 'sonner';
+
+function ResetPasswordContent() {
+  const router = useRouter();
+  const token = useSearchParams().get('token') ?? '';
+
+  const handleSuccess = (message: string) => {
+    toast.success(message);
+    router.push('/auth');
+  };
+
+  return (
+    <div className="bg-white py-8 px-6 shadow rounded-lg">
+      {token ? (
+        <ResetPasswordForm
+          token={token}
+          onSuccess={handleSuccess}
+          onError={(error) => toast.error(error)}
+        />
+      ) : (
+        <p className="text-sm text-gray-700">
+          재설정 링크가 올바르지 않습니다.{' '}
+          <Link href="/auth/forgot-password" className="font-medium text-blue-600 hover:text-blue-500">
+            다시 요청하기
+          </Link>
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            비밀번호 재설정
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            새 비밀번호를 입력하세요
+          </p>
+        </div>
+
+        <Suspense fallback={null}>
+          <ResetPasswordContent />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
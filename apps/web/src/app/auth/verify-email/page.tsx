@@ -0,0 +1,97 @@
+'use client';
+
+import React, { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { AuthApiClient } from '@packages/auth';
+import { ResendVerificationForm } from '@/components/auth';
+import { toast } from 'sonner';
+
+// API Gateway URL 설정
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4001';
+const authApi = new AuthApiClient(API_BASE_URL);
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+function VerifyEmailContent() {
+  const token = useSearchParams().get('token') ?? '';
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed');
+  const [message, setMessage] = useState('');
+  const [resentMessage, setResentMessage] = useState<string | null>(null);
+  const requestedRef = useRef(false); // 토큰은 1회용이므로 중복 요청 방지
+
+  useEffect(() => {
+    if (!token || requestedRef.current) return;
+    requestedRef.current = true;
+
+    authApi
+      .verifyEmail({ token })
+      .then((response) => {
+        setStatus('verified');
+        setMessage(response.message);
+      })
+      .catch((error: any) => {
+        setStatus('failed');
+        setMessage(error.message || '이메일 인증에 실패했습니다');
+      });
+  }, [token]);
+
+  if (status === 'verifying') {
+    return (
+      <div className="bg-white py-8 px-6 shadow rounded-lg">
+        <p className="text-sm text-gray-700">이메일을 인증하는 중입니다...</p>
+      </div>
+    );
+  }
+
+  if (status === 'verified') {
+    return (
+      <div className="bg-white py-8 px-6 shadow rounded-lg space-y-4">
+        <p className="text-sm text-gray-700">{message}</p>
+        <Link href="/auth" className="font-medium text-blue-600 hover:text-blue-500">
+          로그인하기
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white py-8 px-6 shadow rounded-lg space-y-4">
+      <p className="text-sm text-gray-700">
+        {message || '인증 링크가 올바르지 않습니다.'} 인증 메일을 다시 받으려면 이메일을 입력하세요.
+      </p>
+      {resentMessage ? (
+        <p className="text-sm text-gray-700">{resentMessage}</p>
+      ) : (
+        <ResendVerificationForm
+          onSuccess={setResentMessage}
+          onError={(error) => toast.error(error)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            이메일 인증
+          </h2>
+        </div>
+
+        <Suspense fallback={null}>
+          <VerifyEmailContent />
+        </Suspense>
+
+        <div className="text-center">
+          <Link href="/auth" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+            로그인으로 돌아가기
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -184,30 +184,29 @@ export default function DebugAuthPage() {
             <button
               onClick={async () => {
                 try {
-                  // Auth 서비스 JWT 설정 확인
-                  const authResponse = await fetch('/api/auth/debug/jwt-config');
-                  const authData = await authResponse.json();
-
-                  // API 게이트웨이 JWT 설정 확인
-                  const apiResponse = await fetch('/api/debug/jwt-verify', {
+                  // Auth 서비스 JWT 설정 확인 (관리자 전용 진단 API - 설정 여부와 만료 시간만 반환)
+                  const authResponse = await fetch('/api/auth/diagnostics/jwt-config', {
                     headers: { 'Authorization': `Bearer ${accessToken}` },
                   });
-                  const apiData = await apiResponse.json();
+                  const authData = await authResponse.json();
 
-                  const authSecret = authData.data?.accessSecret_preview || 'ERROR';
-                  const apiSecret = apiData.secret_preview || 'ERROR';
-                  const isMatch = authSecret === apiSecret;
+                  if (!authResponse.ok) {
+                    alert(`JWT 설정 조회 실패: ${authResponse.status}\n${authData.message || ''}`);
+                    return;
+                  }
 
-                  console.log('JWT 설정 비교:', { authSecret, apiSecret, isMatch });
-                  alert(`JWT 시크릿 비교:\n\nAuth 서비스: ${authSecret}\nAPI 게이트웨이: ${apiSecret}\n\n결과: ${isMatch ? '✅ 일치' : '❌ 불일치'}`);
+                  const { accessToken: access, refreshToken: refresh } = authData.data;
+                  console.log('JWT 설정:', authData.data);
+                  alert(`Auth 서비스 JWT 설정:\n\n액세스 토큰: ${access.configured ? '✅ 설정됨' : '❌ 미설정'} (${access.expiresIn})\n리프레시 토큰: ${refresh.configured ? '✅ 설정됨' : '❌ 미설정'} (${refresh.expiresIn})`);
                 } catch (error) {
-                  console.error('JWT 설정 비교 오류:', error);
-                  alert('JWT 설정 비교 오류: ' + error);
+                  console.error('JWT 설정 조회 오류:', error);
+                  alert('JWT 설정 조회 오류: ' + error);
                 }
               }}
+              disabled={!accessToken}
               className="bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded"
             >
-              ⚙️ JWT 설정 비교
+              ⚙️ JWT 설정 확인
             </button>
 
             <button
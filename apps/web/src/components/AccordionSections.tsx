@@ -5,9 +5,9 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion";
-import { FileText } from "lucide-react";
+import { FileText, PlayCircle } from "lucide-react";
 
-const AccordionSections = ({ sections }: AccordionSectionsProps) => {
+const AccordionSections = ({ sections, onPreviewChapter }: AccordionSectionsProps) => {
   return (
     <Accordion type="multiple" className="w-full">
       {sections?.map((section) => (
@@ -28,6 +28,16 @@ const AccordionSections = ({ sections }: AccordionSectionsProps) => {
                 >
                   <FileText className="mr-2 w-4 h-4" />
                   <span className="text-sm">{chapter.title}</span>
+                  {chapter.freePreview && onPreviewChapter && (
+                    <button
+                      type="button"
+                      onClick={() => onPreviewChapter(chapter)}
+                      className="accordion-section__preview"
+                    >
+                      <PlayCircle className="w-4 h-4" />
+                      Preview
+                    </button>
+                  )}
                 </li>
               ))}
             </ul>
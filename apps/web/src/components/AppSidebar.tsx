@@ -10,7 +10,7 @@ import {
   SidebarMenuItem,
   useSidebar,
 } from '@/components/ui/sidebar';
-import { BookOpen, Briefcase, DollarSign, LogOut, PanelLeft, User /*, Settings */ } from 'lucide-react';
+import { BarChart3, BookOpen, Briefcase, DollarSign, LogOut, PanelLeft, User /*, Settings */ } from 'lucide-react';
 import Image from 'next/image';
 import { cn } from '@/lib/utils';
 import Link from 'next/link';
@@ -31,6 +31,7 @@ const AppSidebar = () => {
     ],
     INSTRUCTOR: [
       { icon: BookOpen, label: 'Courses', href: '/teacher/courses' },
+      { icon: BarChart3, label: 'Analytics', href: '/teacher/analytics' },
       { icon: DollarSign, label: 'Billing', href: '/teacher/billing' },
       { icon: User, label: 'Profile', href: '/teacher/profile' },
       // { icon: Settings, label: 'Settings', href: '/teacher/settings' },
@@ -0,0 +1,60 @@
+'use client';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { changePasswordSchema, type ChangePasswordDto } from '@packages/schemas';
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+import Header from './Header';
+import { Form } from '@/components/ui/form';
+import { CustomFormField } from './CustomFormField';
+import { Button } from '@/components/ui/button';
+import { authApi } from '@/lib/api-client';
+
+// 🔑 비밀번호 변경 폼 (다른 기기의 세션은 종료되고 현재 세션은 유지)
+const ChangePasswordForm = () => {
+  const methods = useForm<ChangePasswordDto>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: {
+      currentPassword: '',
+      newPassword: '',
+      confirmPassword: '',
+    },
+  });
+
+  const onSubmit = async (data: ChangePasswordDto) => {
+    try {
+      const { message } = await authApi.changePassword(data);
+      toast.success(message);
+      methods.reset();
+    } catch (error) {
+      console.error('❌ 비밀번호 변경 실패:', error);
+      toast.error(error instanceof Error ? error.message : '비밀번호 변경에 실패했습니다');
+    }
+  };
+
+  return (
+    <div className="notification-settings">
+      <Header title="Password" subtitle="Change your password and sign out other devices" />
+      <Form {...methods}>
+        <form onSubmit={methods.handleSubmit(onSubmit)} className="notification-settings__form">
+          <div className="notification-settings__fields">
+            <CustomFormField name="currentPassword" label="Current Password" type="password" />
+            <CustomFormField name="newPassword" label="New Password" type="password" />
+            <CustomFormField name="confirmPassword" label="Confirm New Password" type="password" />
+          </div>
+
+          <Button
+            type="submit"
+            disabled={methods.formState.isSubmitting}
+            className="notification-settings__submit"
+          >
+            {methods.formState.isSubmitting ? 'Changing...' : 'Change Password'}
+          </Button>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default ChangePasswordForm;
@@ -0,0 +1,342 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useCreateCommentMutation,
+  useDeleteCommentMutation,
+  useGetChapterCommentsQuery,
+  useMarkCommentAnsweredMutation,
+  useUpdateCommentMutation,
+} from "@/state/api";
+import { formatVideoTimestamp } from "@packages/schemas";
+import { CheckCircle2, Clock } from "lucide-react";
+import React, { useState } from "react";
+
+interface ChapterDiscussionProps {
+  courseId: string;
+  chapterId: string;
+  teacherId: string;
+  currentUserId: string;
+  getCurrentTime?: () => number | undefined;
+  onSeek?: (seconds: number) => void;
+}
+
+const getAuthorName = (comment: Comment) =>
+  [comment.user?.firstName, comment.user?.lastName].filter(Boolean).join(" ") ||
+  comment.user?.username ||
+  "Unknown";
+
+const ChapterDiscussion = ({
+  courseId,
+  chapterId,
+  teacherId,
+  currentUserId,
+  getCurrentTime,
+  onSeek,
+}: ChapterDiscussionProps) => {
+  // 페이지별 커서 목록 (첫 페이지는 커서 없음)
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const [text, setText] = useState("");
+  const [attachTimestamp, setAttachTimestamp] = useState(false);
+  const [createComment, { isLoading: isPosting }] = useCreateCommentMutation();
+
+  const handleSubmit = async () => {
+    if (!text.trim()) return;
+    const videoTimestamp = attachTimestamp ? getCurrentTime?.() : undefined;
+
+    try {
+      await createComment({ courseId, chapterId, text, videoTimestamp }).unwrap();
+      setText("");
+      setCursors([undefined]);
+    } catch (error) {
+      console.error("❌ 댓글 작성 실패:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Textarea
+          value={text}
+          placeholder="Ask a question or share a thought"
+          onChange={(e) => setText(e.target.value)}
+          className="themed-input"
+        />
+        <div className="flex items-center gap-4">
+          {getCurrentTime && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={attachTimestamp}
+                onChange={(e) => setAttachTimestamp(e.target.checked)}
+              />
+              Attach current video time
+            </label>
+          )}
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isPosting || !text.trim()}
+            className="ml-auto bg-primary-700"
+          >
+            {isPosting ? "Posting..." : "Post"}
+          </Button>
+        </div>
+      </div>
+
+      {cursors.map((cursor, index) => (
+        <CommentPageList
+          key={cursor ?? "first"}
+          courseId={courseId}
+          chapterId={chapterId}
+          cursor={cursor}
+          isLastPage={index === cursors.length - 1}
+          teacherId={teacherId}
+          currentUserId={currentUserId}
+          onSeek={onSeek}
+          onLoadMore={(nextCursor) => setCursors([...cursors, nextCursor])}
+        />
+      ))}
+    </div>
+  );
+};
+
+interface CommentPageListProps {
+  courseId: string;
+  chapterId: string;
+  cursor?: string;
+  isLastPage: boolean;
+  teacherId: string;
+  currentUserId: string;
+  onSeek?: (seconds: number) => void;
+  onLoadMore: (nextCursor: string) => void;
+}
+
+const CommentPageList = ({
+  courseId,
+  chapterId,
+  cursor,
+  isLastPage,
+  onLoadMore,
+  ...itemProps
+}: CommentPageListProps) => {
+  const { data: page, isLoading } = useGetChapterCommentsQuery({
+    courseId,
+    chapterId,
+    cursor,
+  });
+
+  if (isLoading) return <div className="text-sm">Loading comments...</div>;
+  if (!page) return null;
+  if (!cursor && page.items.length === 0) {
+    return <div className="text-sm text-muted-foreground">No comments yet.</div>;
+  }
+
+  return (
+    <>
+      {page.items.map((comment) => (
+        <CommentItem
+          key={comment.commentId}
+          comment={comment}
+          courseId={courseId}
+          chapterId={chapterId}
+          {...itemProps}
+        />
+      ))}
+      {isLastPage && page.hasMore && page.nextCursor && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onLoadMore(page.nextCursor as string)}
+        >
+          Load more
+        </Button>
+      )}
+    </>
+  );
+};
+
+interface CommentItemProps {
+  comment: Comment;
+  courseId: string;
+  chapterId: string;
+  teacherId: string;
+  currentUserId: string;
+  onSeek?: (seconds: number) => void;
+}
+
+const CommentItem = ({
+  comment,
+  courseId,
+  chapterId,
+  teacherId,
+  currentUserId,
+  onSeek,
+}: CommentItemProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(comment.text);
+  const [replyText, setReplyText] = useState("");
+  const [isReplying, setIsReplying] = useState(false);
+
+  const [createComment] = useCreateCommentMutation();
+  const [updateComment] = useUpdateCommentMutation();
+  const [deleteComment] = useDeleteCommentMutation();
+  const [markCommentAnswered] = useMarkCommentAnsweredMutation();
+
+  const isTeacher = currentUserId === teacherId;
+  const isOwner = comment.userId === currentUserId;
+  const isReply = Boolean(comment.parentId);
+
+  const handleReply = async () => {
+    if (!replyText.trim()) return;
+    try {
+      await createComment({
+        courseId,
+        chapterId,
+        text: replyText,
+        parentId: comment.commentId,
+      }).unwrap();
+      setReplyText("");
+      setIsReplying(false);
+    } catch (error) {
+      console.error("❌ 답글 작성 실패:", error);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editText.trim()) return;
+    try {
+      await updateComment({
+        courseId,
+        chapterId,
+        commentId: comment.commentId,
+        text: editText,
+      }).unwrap();
+      setIsEditing(false);
+    } catch (error) {
+      console.error("❌ 댓글 수정 실패:", error);
+    }
+  };
+
+  return (
+    <div className={`space-y-2 ${isReply ? "ml-6 border-l border-border pl-4" : "rounded-lg border border-border p-4"}`}>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-semibold">{getAuthorName(comment)}</span>
+        {comment.userId === teacherId && (
+          <span className="rounded bg-primary-700 px-2 text-xs">Instructor</span>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {comment.createdAt && new Date(comment.createdAt).toLocaleString()}
+        </span>
+        {comment.videoTimestamp !== null && comment.videoTimestamp !== undefined && (
+          <button
+            type="button"
+            onClick={() => onSeek?.(comment.videoTimestamp as number)}
+            className="flex items-center gap-1 text-xs text-primary-500"
+          >
+            <Clock className="h-3 w-3" />
+            {formatVideoTimestamp(comment.videoTimestamp)}
+          </button>
+        )}
+        {comment.isAnswered && (
+          <span className="flex items-center gap-1 text-xs text-green-500">
+            <CheckCircle2 className="h-3 w-3" />
+            Answered
+          </span>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <Textarea
+            value={editText}
+            onChange={(e) => setEditText(e.target.value)}
+            className="themed-input"
+          />
+          <div className="flex gap-2">
+            <Button type="button" size="sm" onClick={handleUpdate}>
+              Save
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="whitespace-pre-wrap text-sm">{comment.text}</p>
+      )}
+
+      <div className="flex gap-2">
+        {!isReply && (
+          <Button type="button" size="sm" variant="ghost" onClick={() => setIsReplying(!isReplying)}>
+            Reply
+          </Button>
+        )}
+        {isOwner && !isEditing && (
+          <Button type="button" size="sm" variant="ghost" onClick={() => setIsEditing(true)}>
+            Edit
+          </Button>
+        )}
+        {(isOwner || isTeacher) && (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() =>
+              deleteComment({ courseId, chapterId, commentId: comment.commentId })
+            }
+          >
+            Delete
+          </Button>
+        )}
+        {isTeacher && !isReply && (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() =>
+              markCommentAnswered({
+                courseId,
+                chapterId,
+                commentId: comment.commentId,
+                answered: !comment.isAnswered,
+              })
+            }
+          >
+            {comment.isAnswered ? "Mark unanswered" : "Mark answered"}
+          </Button>
+        )}
+      </div>
+
+      {isReplying && (
+        <div className="space-y-2">
+          <Textarea
+            value={replyText}
+            placeholder="Write a reply"
+            onChange={(e) => setReplyText(e.target.value)}
+            className="themed-input"
+          />
+          <Button type="button" size="sm" onClick={handleReply} disabled={!replyText.trim()}>
+            Reply
+          </Button>
+        </div>
+      )}
+
+      {comment.replies?.map((reply) => (
+        <CommentItem
+          key={reply.commentId}
+          comment={reply}
+          courseId={courseId}
+          chapterId={chapterId}
+          teacherId={teacherId}
+          currentUserId={currentUserId}
+          onSeek={onSeek}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ChapterDiscussion;
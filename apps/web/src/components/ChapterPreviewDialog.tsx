@@ -0,0 +1,74 @@
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useGetChapterPreviewQuery } from "@/state/api";
+import React from "react";
+import ReactPlayer from "react-player";
+
+interface ChapterPreviewDialogProps {
+  courseId: string;
+  chapter: Chapter | null;
+  onClose: () => void;
+}
+
+// 🎬 비수강생용 미리보기 챕터 플레이어
+const ChapterPreviewDialog = ({ courseId, chapter, onClose }: ChapterPreviewDialogProps) => {
+  const { data: preview, isLoading, isError } = useGetChapterPreviewQuery(
+    { courseId, chapterId: chapter?.chapterId ?? "" },
+    { skip: !chapter }
+  );
+
+  return (
+    <Dialog open={!!chapter} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{chapter?.title}</DialogTitle>
+          <DialogDescription>
+            {preview ? `Free preview · ${preview.sectionTitle}` : "Free preview"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-customgreys-dirtyGrey">Loading preview...</p>
+        ) : isError || !preview ? (
+          <p className="text-sm text-customgreys-dirtyGrey">
+            This preview is not available.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {preview.video && (
+              <div className="aspect-video w-full">
+                <ReactPlayer
+                  url={preview.video}
+                  controls
+                  width="100%"
+                  height="100%"
+                  config={{
+                    file: {
+                      attributes: {
+                        controlsList: "nodownload",
+                      },
+                    },
+                  }}
+                />
+              </div>
+            )}
+            {preview.content && (
+              <p className="max-h-60 overflow-y-auto whitespace-pre-line text-sm">
+                {preview.content}
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChapterPreviewDialog;
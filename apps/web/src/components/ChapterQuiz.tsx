@@ -0,0 +1,194 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  useGetChapterQuizQuery,
+  useSubmitQuizAttemptMutation,
+} from "@/state/api";
+import { CheckCircle2, XCircle } from "lucide-react";
+import React, { useState } from "react";
+
+interface ChapterQuizProps {
+  courseId: string;
+  chapterId: string;
+}
+
+const ChapterQuiz = ({ courseId, chapterId }: ChapterQuizProps) => {
+  const { data: quiz, isLoading } = useGetChapterQuizQuery(
+    { courseId, chapterId },
+    { skip: !courseId || !chapterId }
+  );
+  const [submitQuizAttempt, { isLoading: isSubmitting }] =
+    useSubmitQuizAttemptMutation();
+
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [lastAttempt, setLastAttempt] = useState<QuizAttemptResult | null>(
+    null
+  );
+
+  if (isLoading) return <div className="text-sm">Loading quiz...</div>;
+  if (!quiz) return <div className="text-sm">No quiz available for this chapter.</div>;
+
+  const outOfAttempts = quiz.remainingAttempts === 0;
+  const resultMap = new Map(
+    (lastAttempt?.results ?? []).map((result) => [result.questionId, result])
+  );
+
+  const selectOption = (question: QuizQuestion, optionId: string) => {
+    const current = answers[question.questionId]?.selectedOptionIds ?? [];
+    const selectedOptionIds =
+      question.type === "MultipleChoice"
+        ? current.includes(optionId)
+          ? current.filter((id) => id !== optionId)
+          : [...current, optionId]
+        : [optionId];
+
+    setAnswers({
+      ...answers,
+      [question.questionId]: { questionId: question.questionId, selectedOptionIds },
+    });
+  };
+
+  const handleSubmit = async () => {
+    try {
+      const result = await submitQuizAttempt({
+        courseId,
+        chapterId,
+        answers: Object.values(answers),
+      }).unwrap();
+      setLastAttempt(result);
+    } catch (error) {
+      console.error("❌ 퀴즈 제출 실패:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-4 text-sm">
+        <span>Pass score: {quiz.passThreshold}%</span>
+        <span>
+          Attempts: {quiz.attemptsUsed ?? 0}
+          {quiz.maxAttempts !== null && ` / ${quiz.maxAttempts}`}
+        </span>
+        {quiz.bestScore !== null && quiz.bestScore !== undefined && (
+          <span>Best score: {quiz.bestScore}%</span>
+        )}
+        {quiz.passed && <span className="text-green-500">Passed</span>}
+      </div>
+
+      {quiz.questions.map((question, index) => {
+        const result = resultMap.get(question.questionId);
+        const selected = answers[question.questionId]?.selectedOptionIds ?? [];
+
+        return (
+          <div
+            key={question.questionId}
+            className="space-y-2 rounded-lg border border-border p-4"
+          >
+            <div className="flex items-start gap-2">
+              {result &&
+                (result.correct ? (
+                  <CheckCircle2 className="h-5 w-5 text-green-500" />
+                ) : (
+                  <XCircle className="h-5 w-5 text-red-500" />
+                ))}
+              <p className="font-medium">
+                {index + 1}. {question.prompt}
+                <span className="ml-2 text-xs text-muted-foreground">
+                  ({question.points} pt)
+                </span>
+              </p>
+            </div>
+
+            {question.type === "ShortAnswer" ? (
+              <Input
+                value={answers[question.questionId]?.textAnswer ?? ""}
+                placeholder="Your answer"
+                onChange={(e) =>
+                  setAnswers({
+                    ...answers,
+                    [question.questionId]: {
+                      questionId: question.questionId,
+                      selectedOptionIds: [],
+                      textAnswer: e.target.value,
+                    },
+                  })
+                }
+                className="themed-input"
+              />
+            ) : (
+              <div className="space-y-1">
+                {question.options.map((option) => (
+                  <label
+                    key={option.optionId}
+                    className={`flex items-center gap-2 text-sm ${
+                      result?.correctOptionIds?.includes(option.optionId)
+                        ? "text-green-500"
+                        : ""
+                    }`}
+                  >
+                    <input
+                      type={question.type === "MultipleChoice" ? "checkbox" : "radio"}
+                      name={`answer-${question.questionId}`}
+                      checked={selected.includes(option.optionId)}
+                      onChange={() => selectOption(question, option.optionId)}
+                    />
+                    {option.text}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {result && !result.correct && result.acceptedAnswers && result.acceptedAnswers.length > 0 && (
+              <p className="text-sm text-green-500">
+                Accepted: {result.acceptedAnswers.join(", ")}
+              </p>
+            )}
+            {result?.explanation && (
+              <p className="text-sm text-muted-foreground">{result.explanation}</p>
+            )}
+          </div>
+        );
+      })}
+
+      {lastAttempt && (
+        <div
+          className={`rounded-lg p-4 ${
+            lastAttempt.passed ? "bg-green-500/10" : "bg-red-500/10"
+          }`}
+        >
+          <p className="font-semibold">
+            Score: {lastAttempt.score}% ({lastAttempt.earnedPoints}/
+            {lastAttempt.totalPoints})
+          </p>
+          <p className="text-sm">
+            {lastAttempt.passed
+              ? "You passed! This chapter is now marked as complete."
+              : "You did not reach the pass score yet."}
+          </p>
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <Button
+          type="button"
+          onClick={handleSubmit}
+          disabled={isSubmitting || outOfAttempts}
+          className="bg-primary-700"
+        >
+          {isSubmitting ? "Grading..." : lastAttempt ? "Retry" : "Submit"}
+        </Button>
+        {quiz.remainingAttempts !== null && quiz.remainingAttempts !== undefined && (
+          <span className="text-sm text-muted-foreground">
+            {outOfAttempts
+              ? "No attempts left"
+              : `${quiz.remainingAttempts} attempt(s) left`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChapterQuiz;
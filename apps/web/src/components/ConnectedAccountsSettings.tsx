@@ -0,0 +1,112 @@
+'use client';
+
+import type { ConnectedAccounts, SocialProvider } from '@packages/schemas';
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import Header from './Header';
+import { Button } from '@/components/ui/button';
+import { authApi } from '@/lib/api-client';
+
+const PROVIDERS: { provider: SocialProvider; label: string }[] = [
+  { provider: 'google', label: 'Google' },
+  { provider: 'github', label: 'GitHub' },
+];
+
+// 🌐 소셜 계정 연결/해제 (마지막 로그인 수단은 서버에서 해제 거부)
+const ConnectedAccountsSettings = () => {
+  const [connected, setConnected] = useState<ConnectedAccounts | null>(null);
+  const [pendingProvider, setPendingProvider] = useState<SocialProvider | null>(null);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      setConnected(await authApi.getConnectedAccounts());
+    } catch (error) {
+      console.error('❌ 연결된 소셜 계정 조회 실패:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const handleConnect = async (provider: SocialProvider) => {
+    setPendingProvider(provider);
+    try {
+      // 제공자 인증 후 /callback?linked=... 으로 돌아옴
+      window.location.href = await authApi.getSocialLinkUrl(provider);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '계정 연결을 시작하지 못했습니다');
+      setPendingProvider(null);
+    }
+  };
+
+  const handleDisconnect = async (provider: SocialProvider) => {
+    setPendingProvider(provider);
+    try {
+      await authApi.unlinkSocialAccount(provider);
+      toast.success('계정 연결이 해제되었습니다');
+      await loadAccounts();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '계정 연결 해제에 실패했습니다');
+    } finally {
+      setPendingProvider(null);
+    }
+  };
+
+  if (!connected) return null;
+
+  // 비밀번호가 없으면 마지막 소셜 계정은 해제할 수 없음
+  const isLastLoginMethod = !connected.hasPassword && connected.accounts.length === 1;
+
+  return (
+    <div className="notification-settings">
+      <Header
+        title="Connected Accounts"
+        subtitle="Sign in with Google or GitHub in addition to your password"
+      />
+
+      <ul className="space-y-3">
+        {PROVIDERS.map(({ provider, label }) => {
+          const account = connected.accounts.find((item) => item.provider === provider);
+
+          return (
+            <li
+              key={provider}
+              className="flex items-center justify-between gap-4 rounded-lg border border-border p-4"
+            >
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">{label}</p>
+                <p className="text-text-medium">
+                  {account
+                    ? `Connected on ${new Date(account.connectedAt).toLocaleDateString()}`
+                    : 'Not connected'}
+                </p>
+              </div>
+              {account ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleDisconnect(provider)}
+                  disabled={pendingProvider === provider || isLastLoginMethod}
+                  title={isLastLoginMethod ? 'This is your only way to sign in' : undefined}
+                >
+                  Disconnect
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  onClick={() => handleConnect(provider)}
+                  disabled={pendingProvider === provider}
+                >
+                  Connect
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ConnectedAccountsSettings;
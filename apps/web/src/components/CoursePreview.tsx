@@ -1,9 +1,11 @@
 import { formatPrice } from "@/lib/utils";
 import Image from "next/image";
-import React from "react";
+import React, { useState } from "react";
 import AccordionSections from "./AccordionSections";
+import ChapterPreviewDialog from "./ChapterPreviewDialog";
 
 const CoursePreview = ({ course }: CoursePreviewProps) => {
+  const [previewChapter, setPreviewChapter] = useState<Chapter | null>(null);
   const price = formatPrice(course.price);
   return (
     <div className="course-preview">
@@ -29,7 +31,10 @@ const CoursePreview = ({ course }: CoursePreviewProps) => {
           <h4 className="text-white-50/90 font-semibold mb-2">
             Course Content
           </h4>
-          <AccordionSections sections={course.sections} />
+          <AccordionSections
+            sections={course.sections}
+            onPreviewChapter={setPreviewChapter}
+          />
         </div>
       </div>
 
@@ -44,6 +49,12 @@ const CoursePreview = ({ course }: CoursePreviewProps) => {
           <span className="font-bold text-lg">{price}</span>
         </div>
       </div>
+
+      <ChapterPreviewDialog
+        courseId={course.courseId}
+        chapter={previewChapter}
+        onClose={() => setPreviewChapter(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,118 @@
+'use client';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { instructorApplicationSchema, type InstructorApplication } from '@packages/schemas';
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+import * as z from 'zod';
+import { Form } from '@/components/ui/form';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CustomFormField } from './CustomFormField';
+import { authApi } from '@/lib/api-client';
+
+// 전문 분야는 쉼표로 구분해 입력받고 제출 시 배열로 변환
+const instructorApplicationFormSchema = instructorApplicationSchema
+  .omit({ expertise: true })
+  .extend({ expertise: z.string().trim().min(1, '최소 1개의 전문 분야를 입력해주세요') });
+
+type InstructorApplicationFormData = z.infer<typeof instructorApplicationFormSchema>;
+
+const STATUS_LABELS: Record<InstructorApplication['status'], string> = {
+  pending: 'Your application is under review. We will email you once it has been reviewed.',
+  approved: 'Your application was approved. Sign in again to access the teacher dashboard.',
+  rejected: 'Your application was not approved. You can update it and apply again.',
+};
+
+// 🎓 강사 신청 (일반 사용자 프로필에서만 표시)
+const InstructorApplicationCard = () => {
+  const [application, setApplication] = useState<InstructorApplication | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const methods = useForm<InstructorApplicationFormData>({
+    resolver: zodResolver(instructorApplicationFormSchema),
+    defaultValues: {
+      bio: '',
+      expertise: '',
+      sampleContentUrl: '',
+    },
+  });
+
+  useEffect(() => {
+    authApi
+      .getInstructorApplication()
+      .then(setApplication)
+      .catch((error) => console.error('❌ 강사 신청 조회 실패:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const onSubmit = async (data: InstructorApplicationFormData) => {
+    const expertise = data.expertise
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+
+    try {
+      setApplication(
+        await authApi.submitInstructorApplication({
+          bio: data.bio,
+          expertise,
+          sampleContentUrl: data.sampleContentUrl,
+        })
+      );
+      toast.success('강사 신청이 접수되었습니다');
+      methods.reset();
+    } catch (error) {
+      console.error('❌ 강사 신청 실패:', error);
+      toast.error(error instanceof Error ? error.message : '강사 신청에 실패했습니다');
+    }
+  };
+
+  if (isLoading) return null;
+
+  const canApply = !application || application.status === 'rejected';
+
+  return (
+    <Card className="bg-background border-border shadow-lg">
+      <CardHeader className="border-b border-border">
+        <CardTitle className="text-lg font-semibold text-foreground">Become an Instructor</CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {application && (
+          <div className="space-y-1 text-sm">
+            <p className="font-medium text-foreground">{STATUS_LABELS[application.status]}</p>
+            {application.reviewNote && (
+              <p className="text-muted-foreground">Reviewer note: {application.reviewNote}</p>
+            )}
+          </div>
+        )}
+
+        {canApply && (
+          <Form {...methods}>
+            <form onSubmit={methods.handleSubmit(onSubmit)} className="flex flex-col gap-4">
+              <CustomFormField name="bio" label="About You" type="textarea" />
+              <CustomFormField
+                name="expertise"
+                label="Expertise (comma separated)"
+                placeholder="React, TypeScript, Node.js"
+              />
+              <CustomFormField
+                name="sampleContentUrl"
+                label="Sample Content Link"
+                placeholder="https://"
+              />
+              <div className="flex justify-end">
+                <Button type="submit" disabled={methods.formState.isSubmitting}>
+                  {methods.formState.isSubmitting ? 'Submitting...' : 'Apply'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InstructorApplicationCard;
@@ -0,0 +1,111 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { formatPrice } from "@/lib/utils";
+import { useRequestRefundMutation } from "@/state/api";
+import { refundRequestSchema } from "@packages/schemas";
+import React, { useState } from "react";
+import { toast } from "sonner";
+
+interface RefundRequestDialogProps {
+  transaction: Transaction | null;
+  refundableAmount: number;
+  onClose: () => void;
+}
+
+const RefundRequestDialog = ({
+  transaction,
+  refundableAmount,
+  onClose,
+}: RefundRequestDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [amount, setAmount] = useState("");
+  const [requestRefund, { isLoading }] = useRequestRefundMutation();
+
+  const handleClose = () => {
+    setReason("");
+    setAmount("");
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!transaction) return;
+
+    // 금액을 비우면 남은 금액 전액 환불
+    const parsed = refundRequestSchema.safeParse({
+      transactionId: transaction.transactionId,
+      reason,
+      ...(amount && { amount: Number(amount) }),
+    });
+
+    if (!parsed.success) {
+      toast.error(parsed.error.errors[0]?.message ?? "Invalid refund request");
+      return;
+    }
+
+    try {
+      await requestRefund(parsed.data).unwrap();
+      handleClose();
+    } catch (error) {
+      console.error("❌ 환불 요청 실패:", error);
+    }
+  };
+
+  return (
+    <Dialog open={!!transaction} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request a refund</DialogTitle>
+          <DialogDescription>
+            {transaction?.course?.title} — up to {formatPrice(refundableAmount)} can be
+            refunded. A full refund removes your access to the course.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Textarea
+            value={reason}
+            placeholder="Why are you requesting a refund?"
+            onChange={(e) => setReason(e.target.value)}
+            className="themed-input"
+          />
+          <Input
+            type="number"
+            min={100}
+            max={refundableAmount}
+            value={amount}
+            placeholder="Amount (leave empty for a full refund)"
+            onChange={(e) => setAmount(e.target.value)}
+            className="themed-input"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isLoading || !reason.trim()}
+            className="bg-primary-700"
+          >
+            {isLoading ? "Submitting..." : "Submit request"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundRequestDialog;
@@ -0,0 +1,90 @@
+'use client';
+
+import type { SessionInfo } from '@packages/schemas';
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import Header from './Header';
+import { Button } from '@/components/ui/button';
+import { authApi } from '@/lib/api-client';
+
+// 📱 로그인된 디바이스 목록과 개별 로그아웃
+const SessionsSettings = () => {
+  const [sessions, setSessions] = useState<SessionInfo[] | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await authApi.getSessions());
+    } catch (error) {
+      console.error('❌ 세션 목록 조회 실패:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevokingId(sessionId);
+    try {
+      await authApi.revokeSession(sessionId);
+      setSessions((current) =>
+        (current ?? []).filter((session) => session.sessionId !== sessionId)
+      );
+      toast.success('해당 기기에서 로그아웃되었습니다');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '세션 종료에 실패했습니다');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  if (!sessions) return null;
+
+  return (
+    <div className="notification-settings">
+      <Header
+        title="Active Sessions"
+        subtitle="Devices currently signed in to your account"
+      />
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-text-medium">No active sessions.</p>
+      ) : (
+        <ul className="space-y-3">
+          {sessions.map((session) => (
+            <li
+              key={session.sessionId}
+              className="flex items-center justify-between gap-4 rounded-lg border border-border p-4"
+            >
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">
+                  {session.browser} on {session.os} ({session.device})
+                  {session.current && (
+                    <span className="ml-2 text-primary-500">This device</span>
+                  )}
+                </p>
+                <p className="text-text-medium">
+                  {session.ipAddress ?? 'Unknown IP'} · Last used{' '}
+                  {new Date(session.lastUsed).toLocaleString()}
+                </p>
+              </div>
+              {!session.current && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleRevoke(session.sessionId)}
+                  disabled={revokingId === session.sessionId}
+                >
+                  Sign out
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SessionsSettings;
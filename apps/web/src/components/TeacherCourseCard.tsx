@@ -9,12 +9,14 @@ import {
 import Image from "next/image";
 import { cn } from "@/lib/utils";
 import { Button } from "./ui/button";
-import { Pencil, Trash2 } from "lucide-react";
+import { Copy, Download, Pencil, Trash2 } from "lucide-react";
 
 const TeacherCourseCard = ({
   course,
   onEdit,
   onDelete,
+  onDuplicate,
+  onExport,
   isOwner,
 }: TeacherCourseCardProps) => {
   return (
@@ -84,6 +86,30 @@ const TeacherCourseCard = ({
                   Delete
                 </Button>
               </div>
+              {onDuplicate && (
+                <div>
+                  <Button
+                    variant="outline"
+                    className="border-border"
+                    onClick={() => onDuplicate(course)}
+                  >
+                    <Copy className="w-4 h-4 mr-2" />
+                    Duplicate
+                  </Button>
+                </div>
+              )}
+              {onExport && (
+                <div>
+                  <Button
+                    variant="outline"
+                    className="border-border"
+                    onClick={() => onExport(course)}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Export
+                  </Button>
+                </div>
+              )}
             </>
           ) : (
             <p className="text-sm text-gray-500 italic">View Only</p>
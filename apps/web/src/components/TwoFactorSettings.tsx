@@ -0,0 +1,178 @@
+'use client';
+
+import type { TwoFactorSetup, TwoFactorStatus } from '@packages/schemas';
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import Header from './Header';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { authApi } from '@/lib/api-client';
+
+// 🔐 2단계 인증 설정 (등록 → 코드 확인 → 복구 코드 보관, 해제, 복구 코드 재발급)
+const TwoFactorSettings = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await authApi.getTwoFactorStatus());
+    } catch (error) {
+      console.error('❌ 2단계 인증 상태 조회 실패:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  // 요청 공통 처리: 로딩 상태, 입력 초기화, 오류 토스트
+  const run = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      setCode('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '요청에 실패했습니다');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStartSetup = () =>
+    run(async () => {
+      setRecoveryCodes(null);
+      setSetup(await authApi.setupTwoFactor());
+    });
+
+  const handleEnable = () =>
+    run(async () => {
+      setRecoveryCodes(await authApi.enableTwoFactor(code.trim()));
+      setSetup(null);
+      toast.success('2단계 인증이 활성화되었습니다');
+      await loadStatus();
+    });
+
+  const handleDisable = () =>
+    run(async () => {
+      await authApi.disableTwoFactor(code.trim());
+      setRecoveryCodes(null);
+      toast.success('2단계 인증이 해제되었습니다');
+      await loadStatus();
+    });
+
+  const handleRegenerate = () =>
+    run(async () => {
+      setRecoveryCodes(await authApi.regenerateRecoveryCodes(code.trim()));
+      toast.success('복구 코드가 재발급되었습니다');
+      await loadStatus();
+    });
+
+  if (!status) return null;
+
+  return (
+    <div className="notification-settings">
+      <Header
+        title="Two-Factor Authentication"
+        subtitle="Require a code from an authenticator app when signing in"
+      />
+
+      {recoveryCodes && (
+        <div className="space-y-2 rounded-lg border border-border p-4">
+          <p className="text-sm font-medium">
+            Save these recovery codes somewhere safe. Each code can be used once and they
+            will not be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!status.enabled && !setup && (
+        <Button
+          type="button"
+          onClick={handleStartSetup}
+          disabled={isSubmitting}
+          className="notification-settings__submit"
+        >
+          Enable Two-Factor Authentication
+        </Button>
+      )}
+
+      {!status.enabled && setup && (
+        <div className="space-y-4">
+          <p className="text-sm">
+            Add this account to your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <a href={setup.otpauthUri} className="text-sm text-primary-500 underline">
+            Open in authenticator app
+          </a>
+          <p className="break-all font-mono text-sm">{setup.secret}</p>
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-setup-code">Verification Code</Label>
+            <Input
+              id="two-factor-setup-code"
+              value={code}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              onChange={(e) => setCode(e.target.value)}
+              className="w-48"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" onClick={handleEnable} disabled={isSubmitting || !code.trim()}>
+              Verify and Enable
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {status.enabled && (
+        <div className="space-y-4">
+          <p className="text-sm">
+            Two-factor authentication is on. {status.remainingRecoveryCodes} recovery codes
+            remaining.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-code">Authenticator or Recovery Code</Label>
+            <Input
+              id="two-factor-code"
+              value={code}
+              autoComplete="one-time-code"
+              onChange={(e) => setCode(e.target.value)}
+              className="w-48"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              onClick={handleRegenerate}
+              disabled={isSubmitting || !/^\d{6}$/.test(code.trim())}
+            >
+              Regenerate Recovery Codes
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={handleDisable}
+              disabled={isSubmitting || !code.trim()}
+            >
+              Disable
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -2,7 +2,7 @@
 
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import { TokenManager, AuthApiClient } from '@packages/auth';
-import type { AuthUser } from '@packages/schemas';
+import { isTwoFactorChallenge, type AuthUser } from '@packages/schemas';
 
 // API Gateway URL 설정
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4001';
@@ -116,6 +116,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
     try {
       const response = await authApi.login({ email, password });
 
+      // 2단계 인증 계정은 LoginForm의 코드 입력 단계를 거쳐야 함
+      if (isTwoFactorChallenge(response)) {
+        throw new Error('2단계 인증이 필요한 계정입니다');
+      }
+
       if (response && response.user && response.tokens) {
         TokenManager.setTokens(
           response.tokens.accessToken,
@@ -0,0 +1,72 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { AuthApiClient } from '@packages/auth';
+import { forgotPasswordSchema, type ForgotPasswordDto } from '@packages/schemas';
+
+// API Gateway URL 설정
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4001';
+const authApi = new AuthApiClient(API_BASE_URL);
+
+interface ForgotPasswordFormProps {
+  onSuccess?: (message: string) => void;
+  onError?: (error: string) => void;
+}
+
+export default function ForgotPasswordForm({ onSuccess, onError }: ForgotPasswordFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset
+  } = useForm<ForgotPasswordDto>({
+    resolver: zodResolver(forgotPasswordSchema)
+  });
+
+  const onSubmit = async (data: ForgotPasswordDto) => {
+    setIsLoading(true);
+
+    try {
+      const response = await authApi.forgotPassword(data);
+      onSuccess?.(response.message);
+      reset();
+    } catch (error: any) {
+      console.error('Forgot password error:', error);
+      onError?.(error.message || '비밀번호 재설정 요청에 실패했습니다');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+          이메일
+        </label>
+        <input
+          id="email"
+          type="email"
+          {...register('email')}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          placeholder="가입한 이메일을 입력하세요"
+        />
+        {errors.email && (
+          <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? '요청 중...' : '재설정 링크 받기'}
+      </button>
+    </form>
+  );
+}
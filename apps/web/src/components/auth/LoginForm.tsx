@@ -1,10 +1,18 @@
 'use client';
 
 import React, { useState } from 'react';
+import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { AuthApiClient, TokenManager } from '@packages/auth';
-import { loginSchema, type LoginDto } from '@packages/schemas';
+import {
+  isTwoFactorChallenge,
+  loginSchema,
+  twoFactorLoginSchema,
+  type LoginDto,
+  type TwoFactorChallenge,
+  type TwoFactorLoginDto,
+} from '@packages/schemas';
 
 // API Gateway URL 설정
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4001';
@@ -17,6 +25,8 @@ interface LoginFormProps {
 
 export default function LoginForm({ onSuccess, onError }: LoginFormProps) {
   const [isLoading, setIsLoading] = useState(false);
+  // 2단계 인증 계정이면 비밀번호 확인 후 받은 챌린지로 코드 입력 단계 진행
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
 
   const {
     register,
@@ -35,6 +45,11 @@ export default function LoginForm({ onSuccess, onError }: LoginFormProps) {
       const response = await authApi.login(data);
       console.log('Login response:', response);
 
+      if (isTwoFactorChallenge(response)) {
+        setChallenge(response);
+        return;
+      }
+
       // 성공 응답 처리
       if (response && response.user && response.tokens) {
         console.log('성공 응답 데이터:', response);
@@ -75,6 +90,21 @@ export default function LoginForm({ onSuccess, onError }: LoginFormProps) {
     }
   };
 
+  if (challenge) {
+    return (
+      <TwoFactorStep
+        challenge={challenge}
+        onSuccess={(response) => {
+          setChallenge(null);
+          reset();
+          onSuccess?.(response);
+        }}
+        onError={onError}
+        onCancel={() => setChallenge(null)}
+      />
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
       <div>
@@ -107,6 +137,11 @@ export default function LoginForm({ onSuccess, onError }: LoginFormProps) {
         {errors.password && (
           <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
         )}
+        <div className="mt-1 text-right">
+          <Link href="/auth/forgot-password" className="text-sm text-blue-600 hover:text-blue-500">
+            비밀번호를 잊으셨나요?
+          </Link>
+        </div>
       </div>
 
       <button
@@ -119,3 +154,87 @@ export default function LoginForm({ onSuccess, onError }: LoginFormProps) {
     </form>
   );
 }
+
+interface TwoFactorStepProps {
+  challenge: TwoFactorChallenge;
+  onSuccess: (data: any) => void;
+  onError?: (error: string) => void;
+  onCancel: () => void;
+}
+
+// 🔐 로그인 2단계: 인증 앱 코드 또는 복구 코드 입력
+function TwoFactorStep({ challenge, onSuccess, onError, onCancel }: TwoFactorStepProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<TwoFactorLoginDto>({
+    resolver: zodResolver(twoFactorLoginSchema),
+    defaultValues: { challengeToken: challenge.challengeToken, code: '' }
+  });
+
+  const onSubmit = async (data: TwoFactorLoginDto) => {
+    setIsLoading(true);
+
+    try {
+      const response = await authApi.verifyTwoFactor(data);
+
+      TokenManager.setTokens(
+        response.tokens.accessToken,
+        response.tokens.refreshToken
+      );
+      onSuccess(response);
+    } catch (error: any) {
+      console.error('Two-factor verification error:', error);
+      onError?.(error.message || '인증 코드 확인에 실패했습니다');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <input type="hidden" {...register('challengeToken')} />
+
+      <div>
+        <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+          인증 코드
+        </label>
+        <input
+          id="code"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          autoFocus
+          {...register('code')}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          placeholder="인증 앱의 6자리 코드"
+        />
+        {errors.code && (
+          <p className="mt-1 text-sm text-red-600">{errors.code.message}</p>
+        )}
+        <p className="mt-1 text-sm text-gray-500">
+          인증 앱을 사용할 수 없다면 복구 코드(XXXXX-XXXXX)를 입력하세요.
+        </p>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? '확인 중...' : '확인'}
+      </button>
+
+      <button
+        type="button"
+        onClick={onCancel}
+        className="w-full text-sm text-gray-600 hover:text-gray-800"
+      >
+        다른 계정으로 로그인
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { AuthApiClient } from '@packages/auth';
+import { resendVerificationSchema, type ResendVerificationDto } from '@packages/schemas';
+
+// API Gateway URL 설정
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4001';
+const authApi = new AuthApiClient(API_BASE_URL);
+
+interface ResendVerificationFormProps {
+  onSuccess?: (message: string) => void;
+  onError?: (error: string) => void;
+}
+
+export default function ResendVerificationForm({ onSuccess, onError }: ResendVerificationFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<ResendVerificationDto>({
+    resolver: zodResolver(resendVerificationSchema)
+  });
+
+  const onSubmit = async (data: ResendVerificationDto) => {
+    setIsLoading(true);
+
+    try {
+      const response = await authApi.resendVerification(data);
+      onSuccess?.(response.message);
+    } catch (error: any) {
+      console.error('Resend verification error:', error);
+      onError?.(error.message || '인증 메일 재발송에 실패했습니다');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+          이메일
+        </label>
+        <input
+          id="email"
+          type="email"
+          {...register('email')}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          placeholder="가입한 이메일을 입력하세요"
+        />
+        {errors.email && (
+          <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? '요청 중...' : '인증 메일 다시 받기'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { AuthApiClient } from '@packages/auth';
+import { resetPasswordSchema, type ResetPasswordDto } from '@packages/schemas';
+
+// API Gateway URL 설정
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4001';
+const authApi = new AuthApiClient(API_BASE_URL);
+
+interface ResetPasswordFormProps {
+  token: string;
+  onSuccess?: (message: string) => void;
+  onError?: (error: string) => void;
+}
+
+export default function ResetPasswordForm({ token, onSuccess, onError }: ResetPasswordFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<ResetPasswordDto>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { token, newPassword: '', confirmPassword: '' }
+  });
+
+  const onSubmit = async (data: ResetPasswordDto) => {
+    setIsLoading(true);
+
+    try {
+      const response = await authApi.resetPassword(data);
+      onSuccess?.(response.message);
+    } catch (error: any) {
+      console.error('Reset password error:', error);
+      onError?.(error.message || '비밀번호 재설정에 실패했습니다');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <input type="hidden" {...register('token')} />
+
+      <div>
+        <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700">
+          새 비밀번호
+        </label>
+        <input
+          id="newPassword"
+          type="password"
+          {...register('newPassword')}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          placeholder="새 비밀번호를 입력하세요"
+        />
+        {errors.newPassword && (
+          <p className="mt-1 text-sm text-red-600">{errors.newPassword.message}</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+          새 비밀번호 확인
+        </label>
+        <input
+          id="confirmPassword"
+          type="password"
+          {...register('confirmPassword')}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          placeholder="새 비밀번호를 다시 입력하세요"
+        />
+        {errors.confirmPassword && (
+          <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+        )}
+      </div>
+
+      {errors.token && (
+        <p className="text-sm text-red-600">{errors.token.message}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? '재설정 중...' : '비밀번호 재설정'}
+      </button>
+    </form>
+  );
+}
@@ -3,3 +3,6 @@ export { default as LoginForm } from './LoginForm';
 export { default as RegisterForm } from './RegisterForm';
 export { default as PasswordStrengthIndicator } from './PasswordStrengthIndicator';
 export { AuthProvider, useAuth } from './AuthProvider';
+export { default as ForgotPasswordForm } from './ForgotPasswordForm';
+export { default as ResetPasswordForm } from './ResetPasswordForm';
+export { default as ResendVerificationForm } from './ResendVerificationForm';
@@ -30,6 +30,13 @@ export const useCourseProgressData = () => {
 
   const currentChapter = currentSection?.chapters.find((c) => c.chapterId === chapterId);
 
+  // 현재 챕터의 진도 기록 (재생 위치, 시청 시간)
+  const currentChapterProgress = Array.isArray(userProgress?.sections)
+    ? userProgress.sections
+        .flatMap((section) => section.chapters ?? [])
+        .find((chapter) => chapter.chapterId === chapterId)
+    : undefined;
+
   const isChapterCompleted = () => {
     if (!currentSection || !currentChapter || !Array.isArray(userProgress?.sections)) return false;
 
@@ -42,14 +49,12 @@ export const useCourseProgressData = () => {
   const updateChapterProgress = (sectionId: string, chapterId: string, completed: boolean) => {
     if (!user) return;
 
-    const updatedSections = Array.isArray(userProgress?.sections) ? userProgress.sections : [];
-
+    // 변경된 챕터만 보고 (시청 시간은 보고 이후 증가분으로 누적되므로 기존 진도를 다시 보내지 않음)
     updateProgress({
       userId: user.id,
       courseId: (courseId as string) ?? '',
       progressData: {
         sections: [
-          ...updatedSections,
           {
             sectionId,
             chapters: [
@@ -72,6 +77,7 @@ export const useCourseProgressData = () => {
     userProgress,
     currentSection,
     currentChapter,
+    currentChapterProgress,
     isLoading,
     isChapterCompleted,
     updateChapterProgress,
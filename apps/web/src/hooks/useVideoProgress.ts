@@ -0,0 +1,110 @@
+import { RefObject, useCallback, useEffect, useRef } from 'react';
+import type ReactPlayer from 'react-player';
+import type { OnProgressProps } from 'react-player/base';
+import { MAX_TIME_SPENT_PER_REPORT } from '@packages/schemas';
+import { useReportChapterProgressMutation } from '@/state/api';
+
+const REPORT_INTERVAL_MS = 15000; // 재생 위치 보고 주기
+const RESUME_MARGIN_SECONDS = 5; // 시작/끝 부근이면 이어보기 생략
+const MAX_PLAYBACK_STEP_SECONDS = 2; // 탐색(seek)으로 건너뛴 구간은 시청 시간에서 제외
+
+interface UseVideoProgressOptions {
+  userId?: string;
+  courseId: string;
+  chapterId: string;
+  savedPosition?: number;
+  playerRef: RefObject<ReactPlayer | null>;
+}
+
+/**
+ * 🎬 영상 재생 위치/시청 시간 추적
+ * 주기적으로 서버에 보고하고, 플레이어 준비 시 마지막 위치로 이동
+ */
+export const useVideoProgress = ({
+  userId,
+  courseId,
+  chapterId,
+  savedPosition,
+  playerRef,
+}: UseVideoProgressOptions) => {
+  const [reportChapterProgress] = useReportChapterProgressMutation();
+
+  const positionRef = useRef<number | null>(null); // 아직 보고하지 않은 재생 위치
+  const pendingTimeRef = useRef(0); // 아직 보고하지 않은 시청 시간 (초)
+  const lastSecondsRef = useRef<number | null>(null);
+  const lastReportAtRef = useRef(Date.now());
+  const hasResumedRef = useRef(false);
+
+  const flush = useCallback(() => {
+    if (!userId || positionRef.current === null) return;
+
+    const timeSpent = Math.min(Math.floor(pendingTimeRef.current), MAX_TIME_SPENT_PER_REPORT);
+    pendingTimeRef.current -= timeSpent;
+    lastReportAtRef.current = Date.now();
+
+    reportChapterProgress({
+      userId,
+      courseId,
+      chapterId,
+      lastPosition: Math.floor(positionRef.current),
+      timeSpent,
+    });
+    positionRef.current = null;
+  }, [userId, courseId, chapterId, reportChapterProgress]);
+
+  // 챕터 이동/이탈 시 남은 기록 보고 후 초기화
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flush();
+      pendingTimeRef.current = 0;
+      lastSecondsRef.current = null;
+      hasResumedRef.current = false;
+    };
+  }, [flush]);
+
+  const handleReady = useCallback(() => {
+    if (hasResumedRef.current) return;
+    hasResumedRef.current = true;
+
+    const duration = playerRef.current?.getDuration() ?? 0;
+    if (
+      savedPosition &&
+      savedPosition > RESUME_MARGIN_SECONDS &&
+      (!duration || savedPosition < duration - RESUME_MARGIN_SECONDS)
+    ) {
+      playerRef.current?.seekTo(savedPosition, 'seconds');
+      lastSecondsRef.current = savedPosition;
+    }
+  }, [playerRef, savedPosition]);
+
+  const handleProgress = useCallback(
+    ({ playedSeconds }: OnProgressProps) => {
+      const lastSeconds = lastSecondsRef.current;
+      if (lastSeconds !== null) {
+        const step = playedSeconds - lastSeconds;
+        if (step > 0 && step <= MAX_PLAYBACK_STEP_SECONDS) {
+          pendingTimeRef.current += step;
+        }
+      }
+      lastSecondsRef.current = playedSeconds;
+      positionRef.current = playedSeconds;
+
+      if (Date.now() - lastReportAtRef.current >= REPORT_INTERVAL_MS) {
+        flush();
+      }
+    },
+    [flush]
+  );
+
+  return {
+    handleReady,
+    handleProgress,
+    handlePause: flush,
+  };
+};
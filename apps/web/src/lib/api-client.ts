@@ -9,6 +9,16 @@ import type {
   AuthTokens, 
   LoginDto, 
   RegisterDto,
+  ChangePasswordDto,
+  ConnectedAccounts,
+  InstructorApplication,
+  InstructorApplicationDto,
+  SessionInfo,
+  SocialProvider,
+  TwoFactorChallenge,
+  TwoFactorLoginDto,
+  TwoFactorSetup,
+  TwoFactorStatus,
   AuthResponse 
 } from '@packages/schemas';
 
@@ -59,6 +69,29 @@ function decodeJWT(token: string) {
   }
 }
 
+// 로그인 응답의 사용자 정보를 AuthUser 형식으로 정규화 (누락 필드는 토큰에서 보완)
+function normalizeAuthUser(user: AuthUser, tokens: AuthTokens): AuthUser {
+  const decodedToken = decodeJWT(tokens.accessToken);
+  if (!decodedToken) {
+    throw new Error('토큰을 디코딩할 수 없습니다');
+  }
+
+  return {
+    id: user.id || decodedToken.userId || decodedToken.sub,
+    email: user.email || decodedToken.email,
+    username: user.username,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    avatar: user.avatar,
+    role: user.role || decodedToken.role || 'USER',
+    isActive: user.isActive !== undefined ? user.isActive : true,
+    isVerified: user.isVerified !== undefined ? user.isVerified : false,
+    createdAt: user.createdAt || new Date().toISOString(),
+    updatedAt: user.updatedAt || new Date().toISOString(),
+    lastLoginAt: user.lastLoginAt,
+  };
+}
+
 // 기본 fetch 래퍼
 async function fetchApi<T = any>(
   endpoint: string,
@@ -136,31 +169,58 @@ export class AuthApiClient {
       throw new Error('로그인 응답 데이터가 올바르지 않습니다');
     }
 
+    // 2단계 인증 계정은 토큰 대신 챌린지를 받으므로 LoginForm의 코드 입력 단계가 필요
+    if ('requiresTwoFactor' in response.data) {
+      throw new Error('2단계 인증이 필요한 계정입니다. 인증 코드 입력 화면에서 로그인해주세요');
+    }
+
     const { user, tokens } = response.data;
-    
-    // JWT 토큰에서 사용자 정보 추출 및 정규화
-    const decodedToken = decodeJWT(tokens.accessToken);
-    if (!decodedToken) {
-      throw new Error('토큰을 디코딩할 수 없습니다');
+    return { user: normalizeAuthUser(user, tokens), tokens };
+  }
+
+  /**
+   * 소셜 로그인 완료 - 콜백으로 받은 1회용 코드를 토큰으로 교환
+   * 2단계 인증 계정이면 챌린지를 반환하므로 verifyTwoFactor 로 이어서 완료
+   */
+  static async exchangeSocialLogin(
+    code: string
+  ): Promise<{ user: AuthUser; tokens: AuthTokens } | TwoFactorChallenge> {
+    const response = await fetchApi<
+      ApiResponse<{ user: AuthUser; tokens: AuthTokens } | TwoFactorChallenge>
+    >('/api/auth/social/exchange', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || '소셜 로그인 실패');
     }
 
-    // AuthUser 타입에 맞게 사용자 정보 정규화
-    const normalizedUser: AuthUser = {
-      id: user.id || decodedToken.userId || decodedToken.sub,
-      email: user.email || decodedToken.email,
-      username: user.username,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      avatar: user.avatar,
-      role: user.role || decodedToken.role || 'USER',
-      isActive: user.isActive !== undefined ? user.isActive : true,
-      isVerified: user.isVerified !== undefined ? user.isVerified : false,
-      createdAt: user.createdAt || new Date().toISOString(),
-      updatedAt: user.updatedAt || new Date().toISOString(),
-      lastLoginAt: user.lastLoginAt,
-    };
+    if ('requiresTwoFactor' in response.data) {
+      return response.data;
+    }
 
-    return { user: normalizedUser, tokens };
+    const { user, tokens } = response.data;
+    return { user: normalizeAuthUser(user, tokens), tokens };
+  }
+
+  /**
+   * 로그인 2단계 검증 (챌린지 토큰 + 인증 앱 코드 또는 복구 코드)
+   */
+  static async verifyTwoFactor(
+    data: TwoFactorLoginDto
+  ): Promise<{ user: AuthUser; tokens: AuthTokens }> {
+    const response = await fetchApi<ApiResponse<{ user: AuthUser; tokens: AuthTokens }>>('/api/auth/2fa/verify', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || '2단계 인증 실패');
+    }
+
+    const { user, tokens } = response.data;
+    return { user: normalizeAuthUser(user, tokens), tokens };
   }
 
   /**
@@ -260,6 +320,186 @@ export class AuthApiClient {
 
     return result;
   }
+
+  /**
+   * 비밀번호 변경
+   * 다른 기기의 세션은 종료되고, 현재 세션은 응답으로 받은 새 토큰으로 유지
+   */
+  static async changePassword(data: ChangePasswordDto): Promise<{ message: string }> {
+    const response = await fetchApi<ApiResponse<{ tokens: AuthTokens }>>('/api/auth/change-password', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.success || !response.data?.tokens) {
+      throw new Error(response.message || '비밀번호 변경 실패');
+    }
+
+    const { user, login } = useAuthStore.getState();
+    if (user) {
+      login(user, response.data.tokens);
+    }
+
+    return { message: response.message };
+  }
+
+  /**
+   * 2단계 인증 상태 조회
+   */
+  static async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await fetchApi<ApiResponse<TwoFactorStatus>>('/api/auth/2fa/status');
+
+    if (!response.success || !response.data) {
+      throw new Error('2단계 인증 상태 조회 실패');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * 2단계 인증 등록 시작 (시크릿/otpauth URI 발급)
+   */
+  static async setupTwoFactor(): Promise<TwoFactorSetup> {
+    const response = await fetchApi<ApiResponse<TwoFactorSetup>>('/api/auth/2fa/setup', {
+      method: 'POST',
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error('2단계 인증 등록 시작 실패');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * 2단계 인증 활성화 - 복구 코드 반환
+   */
+  static async enableTwoFactor(code: string): Promise<string[]> {
+    const response = await fetchApi<ApiResponse<{ recoveryCodes: string[] }>>('/api/auth/2fa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error('2단계 인증 활성화 실패');
+    }
+
+    return response.data.recoveryCodes;
+  }
+
+  /**
+   * 2단계 인증 해제 (TOTP 코드 또는 복구 코드)
+   */
+  static async disableTwoFactor(code: string): Promise<void> {
+    await fetchApi('/api/auth/2fa/disable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  /**
+   * 복구 코드 재발급
+   */
+  static async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await fetchApi<ApiResponse<{ recoveryCodes: string[] }>>('/api/auth/2fa/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error('복구 코드 재발급 실패');
+    }
+
+    return response.data.recoveryCodes;
+  }
+
+  /**
+   * 로그인된 세션(디바이스) 목록 조회
+   */
+  static async getSessions(): Promise<SessionInfo[]> {
+    const response = await fetchApi<ApiResponse<SessionInfo[]>>('/api/auth/sessions');
+
+    if (!response.success || !response.data) {
+      throw new Error('세션 목록 조회 실패');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * 특정 세션 종료 (해당 디바이스 로그아웃)
+   */
+  static async revokeSession(sessionId: string): Promise<void> {
+    await fetchApi(`/api/auth/sessions/${encodeURIComponent(sessionId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * 연결된 소셜 계정 조회
+   */
+  static async getConnectedAccounts(): Promise<ConnectedAccounts> {
+    const response = await fetchApi<ApiResponse<ConnectedAccounts>>('/api/auth/social/accounts');
+
+    if (!response.success || !response.data) {
+      throw new Error('연결된 소셜 계정 조회 실패');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * 소셜 계정 연결 시작 - 제공자 로그인 화면으로 이동할 주소 반환
+   */
+  static async getSocialLinkUrl(provider: SocialProvider): Promise<string> {
+    const response = await fetchApi<ApiResponse<{ linkToken: string }>>(`/api/auth/social/${provider}/link`, {
+      method: 'POST',
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error('소셜 계정 연결 시작 실패');
+    }
+
+    return `/api/auth/${provider}?link=${encodeURIComponent(response.data.linkToken)}`;
+  }
+
+  /**
+   * 소셜 계정 연결 해제
+   */
+  static async unlinkSocialAccount(provider: SocialProvider): Promise<void> {
+    await fetchApi(`/api/auth/social/${provider}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * 내 강사 신청 조회 (신청 이력이 없으면 null)
+   */
+  static async getInstructorApplication(): Promise<InstructorApplication | null> {
+    const response = await fetchApi<ApiResponse<InstructorApplication | null>>('/api/auth/instructor-application');
+
+    if (!response.success) {
+      throw new Error('강사 신청 조회 실패');
+    }
+
+    return response.data ?? null;
+  }
+
+  /**
+   * 강사 신청 제출
+   */
+  static async submitInstructorApplication(data: InstructorApplicationDto): Promise<InstructorApplication> {
+    const response = await fetchApi<ApiResponse<InstructorApplication>>('/api/auth/instructor-application', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || '강사 신청 실패');
+    }
+
+    return response.data;
+  }
 }
 
 // 자동 재시도 및 토큰 갱신이 포함된 인증 API 클라이언트
@@ -323,12 +323,10 @@ export const customDataGridStyles = {
 };
 
 export const createCourseFormData = (
-  data: CourseFormData,
-  sections: Section[]
+  data: CourseFormData
 ): FormData => {
   console.log('📦 createCourseFormData 시작:');
   console.log('  - 입력 데이터:', data);
-  console.log('  - 섹션 수:', sections.length);
   
   const formData = new FormData();
   
@@ -347,25 +345,7 @@ export const createCourseFormData = (
   formData.append("status", status);
   console.log('📊 상태 설정:', status);
 
-  // 섹션 데이터 처리
-  const sectionsWithVideos = sections.map((section) => {
-    console.log(`📂 섹션 처리: ${section.sectionTitle} (${section.chapters.length}개 챕터)`);
-    
-    return {
-      ...section,
-      chapters: section.chapters.map((chapter) => {
-        console.log(`  📄 챕터 처리: ${chapter.title} (비디오: ${chapter.video ? '있음' : '없음'})`);
-        
-        return {
-          ...chapter,
-          video: chapter.video,
-        };
-      }),
-    };
-  });
-
-  formData.append("sections", JSON.stringify(sectionsWithVideos));
-  console.log('📋 섹션 데이터 JSON 추가 완료');
+  // 섹션/챕터는 전용 API로 개별 저장하므로 강의 정보만 전송
   console.log('✅ FormData 생성 완료');
 
   return formData;
@@ -383,80 +363,7 @@ export const logFormData = (formData: FormData, title: string = 'FormData') => {
   }
 };
 
-export const uploadAllVideos = async (
-  localSections: Section[],
-  courseId: string,
-  getUploadVideoUrl: any
-) => {
-  console.log('📹 uploadAllVideos 시작:');
-  console.log(`  - 강의 ID: ${courseId}`);
-  console.log(`  - 섹션 수: ${localSections.length}`);
-  
-  const updatedSections = localSections.map((section) => ({
-    ...section,
-    chapters: section.chapters.map((chapter) => ({
-      ...chapter,
-    })),
-  }));
-
-  let totalVideos = 0;
-  let uploadedVideos = 0;
-  
-  // 전체 비디오 파일 수 계산
-  for (const section of updatedSections) {
-    for (const chapter of section.chapters) {
-      if (chapter.video instanceof File && chapter.video.type === "video/mp4") {
-        totalVideos++;
-      }
-    }
-  }
-  
-  console.log(`📋 업로드할 비디오 파일: ${totalVideos}개`);
-  
-  if (totalVideos === 0) {
-    console.log('ℹ️ 업로드할 비디오 파일이 없습니다.');
-    return updatedSections;
-  }
-
-  for (let i = 0; i < updatedSections.length; i++) {
-    const section = updatedSections[i];
-    console.log(`📂 섹션 처리: ${section.sectionTitle} (${section.sectionId})`);
-    
-    for (let j = 0; j < section.chapters.length; j++) {
-      const chapter = section.chapters[j];
-      
-      if (chapter.video instanceof File && chapter.video.type === "video/mp4") {
-        console.log(`  📹 챕터 "${chapter.title}" 비디오 업로드 시작...`);
-        console.log(`    - 파일명: ${chapter.video.name}`);
-        console.log(`    - 파일 크기: ${(chapter.video.size / 1024 / 1024).toFixed(2)}MB`);
-        
-        try {
-          const updatedChapter = await uploadVideo(
-            chapter,
-            courseId,
-            section.sectionId,
-            getUploadVideoUrl
-          );
-          updatedSections[i].chapters[j] = updatedChapter;
-          uploadedVideos++;
-          
-          console.log(`  ✅ 챕터 "${chapter.title}" 비디오 업로드 성공! (${uploadedVideos}/${totalVideos})`);
-        } catch (error: any) {
-          console.error(`  ❌ 챕터 "${chapter.title}" 비디오 업로드 실패:`, error);
-          console.error(`    - 에러 메시지: ${error?.message || 'Unknown error'}`);
-          // 업로드에 실패해도 계속 진행
-        }
-      } else if (chapter.video) {
-        console.log(`  ℹ️ 챕터 "${chapter.title}": 비디오가 이미 URL이거나 비디오 파일이 아님`);
-      }
-    }
-  }
-  
-  console.log(`✅ uploadAllVideos 완료: ${uploadedVideos}/${totalVideos}개 비디오 업로드 성공`);
-  return updatedSections;
-};
-
-async function uploadVideo(
+export async function uploadVideo(
   chapter: Chapter,
   courseId: string,
   sectionId: string,
@@ -3,6 +3,14 @@ import { BaseQueryApi, FetchArgs } from '@reduxjs/toolkit/query';
 import { toast } from 'sonner';
 import { useAuthStore } from '@/stores/authStore';
 import { refreshAccessToken } from '@/services/authService';
+import type {
+  CourseAnalytics,
+  CourseAnalyticsQueryDto,
+  CourseExport,
+  CourseRevisionDiff,
+  CourseRevisionDraft,
+  CourseRevisionPublishResult,
+} from '@packages/schemas';
 
 const customBaseQuery = async (args: string | FetchArgs, api: BaseQueryApi, extraOptions: any) => {
   // 🔧 API URL 설정 명확화
@@ -48,17 +56,19 @@ const customBaseQuery = async (args: string | FetchArgs, api: BaseQueryApi, extr
         message: errorMessage,
         errorData
       });
-      toast.error(`Error: ${errorMessage}`);
+      // silent 옵션이 있으면 백그라운드 요청으로 보고 토스트 생략
+      if (!extraOptions?.silent) toast.error(`Error: ${errorMessage}`);
     }
 
     const isMutationRequest = (args as FetchArgs).method && (args as FetchArgs).method !== 'GET';
 
-    if (isMutationRequest) {
+    if (isMutationRequest && !extraOptions?.silent) {
       const successMessage = result.data?.message;
       if (successMessage) toast.success(successMessage);
     }
 
-    if (result.data) {
+    // keepEnvelope 옵션이 있으면 pagination 등 메타 정보를 포함한 전체 응답 유지
+    if (result.data && !extraOptions?.keepEnvelope) {
       result.data = result.data.data;
     } else if (result.error?.status === 204 || result.meta?.response?.status === 204) {
       return { data: null };
@@ -104,7 +114,7 @@ const baseQueryWithReauth = async (args: any, api: any, extraOptions: any) => {
 export const api = createApi({
   baseQuery: baseQueryWithReauth,
   reducerPath: 'api',
-  tagTypes: ['Courses', 'Users', 'UserCourseProgress'],
+  tagTypes: ['Courses', 'Users', 'UserCourseProgress', 'Quiz', 'Comments', 'Transactions', 'Refunds'],
   endpoints: (build) => ({
     /* 
     ===============
@@ -128,7 +138,31 @@ export const api = createApi({
     getCourses: build.query<Course[], { category?: string }>({
       query: ({ category }) => ({
         url: 'courses',
-        params: { category },
+        params: { category, limit: 100 },
+      }),
+      providesTags: ['Courses'],
+    }),
+
+    searchCourses: build.query<CourseSearchResult, CourseSearchParams>({
+      query: (params) => ({
+        url: 'courses',
+        // 빈 값은 쿼리 문자열에서 제외
+        params: Object.fromEntries(
+          Object.entries(params).filter(([, value]) => value !== undefined && value !== '')
+        ),
+      }),
+      extraOptions: { keepEnvelope: true },
+      transformResponse: (response: { data: Course[]; pagination: Pagination }) => ({
+        courses: response.data,
+        pagination: response.pagination,
+      }),
+      providesTags: ['Courses'],
+    }),
+
+    searchCourseContent: build.query<CourseContentHit[], { q: string; limit?: number }>({
+      query: ({ q, limit }) => ({
+        url: 'courses/search',
+        params: { q, ...(limit && { limit }) },
       }),
       providesTags: ['Courses'],
     }),
@@ -193,6 +227,64 @@ export const api = createApi({
       invalidatesTags: ['Courses'],
     }),
 
+    // 게시본 기준으로 섹션/챕터/퀴즈를 복사한 Draft 강의 생성
+    duplicateCourse: build.mutation<Course, string>({
+      query: (courseId) => ({
+        url: `courses/${courseId}/duplicate`,
+        method: 'POST',
+      }),
+      invalidatesTags: ['Courses'],
+    }),
+
+    // 버전이 지정된 강의 트리 JSON (다운로드용이므로 캐시하지 않음)
+    exportCourse: build.query<CourseExport, string>({
+      query: (courseId) => `courses/${courseId}/export`,
+      keepUnusedDataFor: 0,
+    }),
+
+    // 내보내기 JSON 파일(file 필드)로 새 Draft 강의 생성
+    importCourse: build.mutation<Course, FormData>({
+      query: (formData) => ({
+        url: `courses/import`,
+        method: 'POST',
+        body: formData,
+      }),
+      invalidatesTags: ['Courses'],
+    }),
+
+    updateCourseAccessRules: build.mutation<
+      CourseAccessRules,
+      { courseId: string; rules: CourseAccessRules }
+    >({
+      query: ({ courseId, rules }) => ({
+        url: `courses/${courseId}/access-rules`,
+        method: 'PUT',
+        body: rules,
+      }),
+      invalidatesTags: (result, error, { courseId }) => [
+        { type: 'Courses', id: courseId },
+        'UserCourseProgress',
+      ],
+    }),
+
+    updateCoursePreviewChapters: build.mutation<
+      { courseId: string; chapterIds: string[] },
+      { courseId: string; chapterIds: string[] }
+    >({
+      query: ({ courseId, chapterIds }) => ({
+        url: `courses/${courseId}/preview-chapters`,
+        method: 'PUT',
+        body: { chapterIds },
+      }),
+      extraOptions: { silent: true },
+      invalidatesTags: (result, error, { courseId }) => [{ type: 'Courses', id: courseId }],
+    }),
+
+    getChapterPreview: build.query<ChapterPreview, { courseId: string; chapterId: string }>({
+      query: ({ courseId, chapterId }) => `courses/${courseId}/chapters/${chapterId}/preview`,
+      extraOptions: { silent: true },
+    }),
+
     getUploadVideoUrl: build.mutation<
       { uploadUrl: string; videoUrl: string },
       {
@@ -210,6 +302,147 @@ export const api = createApi({
       }),
     }),
 
+    /*
+    ===============
+    COURSE SECTIONS
+    ===============
+    */
+    createSection: build.mutation<Section, { courseId: string; section: SectionInput }>({
+      query: ({ courseId, section }) => ({
+        url: `courses/${courseId}/sections`,
+        method: 'POST',
+        body: section,
+      }),
+      invalidatesTags: (result, error, { courseId }) => [{ type: 'Courses', id: courseId }],
+    }),
+
+    updateSection: build.mutation<
+      Section,
+      { courseId: string; sectionId: string; section: Partial<SectionInput> }
+    >({
+      query: ({ courseId, sectionId, section }) => ({
+        url: `courses/${courseId}/sections/${sectionId}`,
+        method: 'PATCH',
+        body: section,
+      }),
+      invalidatesTags: (result, error, { courseId }) => [{ type: 'Courses', id: courseId }],
+    }),
+
+    deleteSection: build.mutation<
+      { courseId: string; sectionId: string },
+      { courseId: string; sectionId: string }
+    >({
+      query: ({ courseId, sectionId }) => ({
+        url: `courses/${courseId}/sections/${sectionId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (result, error, { courseId }) => [{ type: 'Courses', id: courseId }],
+    }),
+
+    // 드래그 앤 드롭 순서 이동 (성공 토스트 없이 실패만 화면에서 처리)
+    moveSection: build.mutation<
+      { courseId: string; sectionIds: string[] },
+      { courseId: string; sectionId: string; orderIndex: number }
+    >({
+      query: ({ courseId, sectionId, orderIndex }) => ({
+        url: `courses/${courseId}/sections/${sectionId}/order`,
+        method: 'PUT',
+        body: { orderIndex },
+      }),
+      extraOptions: { silent: true },
+      invalidatesTags: (result, error, { courseId }) => [{ type: 'Courses', id: courseId }],
+    }),
+
+    createChapter: build.mutation<
+      Chapter,
+      { courseId: string; sectionId: string; chapter: ChapterInput }
+    >({
+      query: ({ courseId, sectionId, chapter }) => ({
+        url: `courses/${courseId}/sections/${sectionId}/chapters`,
+        method: 'POST',
+        body: chapter,
+      }),
+      invalidatesTags: (result, error, { courseId }) => [{ type: 'Courses', id: courseId }],
+    }),
+
+    updateChapter: build.mutation<
+      Chapter,
+      { courseId: string; sectionId: string; chapterId: string; chapter: Partial<ChapterInput> }
+    >({
+      query: ({ courseId, sectionId, chapterId, chapter }) => ({
+        url: `courses/${courseId}/sections/${sectionId}/chapters/${chapterId}`,
+        method: 'PATCH',
+        body: chapter,
+      }),
+      invalidatesTags: (result, error, { courseId }) => [{ type: 'Courses', id: courseId }],
+    }),
+
+    deleteChapter: build.mutation<
+      { sectionId: string; chapterId: string },
+      { courseId: string; sectionId: string; chapterId: string }
+    >({
+      query: ({ courseId, sectionId, chapterId }) => ({
+        url: `courses/${courseId}/sections/${sectionId}/chapters/${chapterId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (result, error, { courseId }) => [{ type: 'Courses', id: courseId }],
+    }),
+
+    moveChapter: build.mutation<
+      { sectionId: string; chapterIds: string[] },
+      {
+        courseId: string;
+        sectionId: string;
+        chapterId: string;
+        orderIndex: number;
+        targetSectionId?: string;
+      }
+    >({
+      query: ({ courseId, sectionId, chapterId, orderIndex, targetSectionId }) => ({
+        url: `courses/${courseId}/sections/${sectionId}/chapters/${chapterId}/order`,
+        method: 'PUT',
+        body: { orderIndex, targetSectionId },
+      }),
+      extraOptions: { silent: true },
+      invalidatesTags: (result, error, { courseId }) => [{ type: 'Courses', id: courseId }],
+    }),
+
+    /*
+    ===============
+    COURSE REVISIONS
+    ===============
+    */
+    // 편집 중인 강의 콘텐츠 (초안이 없으면 게시본)
+    getCourseDraft: build.query<CourseRevisionDraft, string>({
+      query: (courseId) => `courses/${courseId}/revisions/draft`,
+      providesTags: (result, error, courseId) => [{ type: 'Courses', id: courseId }],
+    }),
+
+    getCourseDraftDiff: build.query<CourseRevisionDiff, string>({
+      query: (courseId) => `courses/${courseId}/revisions/draft/diff`,
+      providesTags: (result, error, courseId) => [{ type: 'Courses', id: courseId }],
+    }),
+
+    publishCourseDraft: build.mutation<CourseRevisionPublishResult, string>({
+      query: (courseId) => ({
+        url: `courses/${courseId}/revisions/draft/publish`,
+        method: 'POST',
+      }),
+      invalidatesTags: (result, error, courseId) => [
+        { type: 'Courses', id: courseId },
+        'Courses',
+        'UserCourseProgress',
+      ],
+    }),
+
+    discardCourseDraft: build.mutation<{ courseId: string }, string>({
+      query: (courseId) => ({
+        url: `courses/${courseId}/revisions/draft`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (result, error, courseId) => [{ type: 'Courses', id: courseId }],
+    }),
+
     /* 
     ===============
     TRANSACTIONS
@@ -224,12 +457,13 @@ export const api = createApi({
         }
         return `transactions?userId=${userId}`;
       },
+      providesTags: ['Transactions'],
     }),
-    createStripePaymentIntent: build.mutation<{ clientSecret: string }, { amount: number; courseId: string }>({
-      query: ({ amount, courseId }) => ({
+    createStripePaymentIntent: build.mutation<{ clientSecret: string }, { courseId: string }>({
+      query: ({ courseId }) => ({
         url: `/transactions/stripe/payment-intent`,
         method: 'POST',
-        body: { amount, courseId }, // courseId 필드 추가
+        body: { courseId }, // 결제 금액은 서버에서 강의 가격으로 결정
       }),
     }),
     createTransaction: build.mutation<Transaction, Partial<Transaction>>({
@@ -238,6 +472,49 @@ export const api = createApi({
         method: 'POST',
         body: transaction,
       }),
+      // 수강 등록 후 미리보기 외 챕터 콘텐츠를 다시 받아오도록 강의 캐시 무효화
+      invalidatesTags: (result, error, { courseId }) =>
+        courseId ? [{ type: 'Courses', id: courseId }] : [],
+    }),
+
+    /* 
+    ===============
+    REFUNDS
+    =============== 
+    */
+    getRefunds: build.query<Refund[], { status?: RefundStatus } | void>({
+      query: (args) => ({
+        url: 'transactions/refunds',
+        params: args && args.status ? { status: args.status } : undefined,
+      }),
+      providesTags: ['Refunds'],
+    }),
+
+    requestRefund: build.mutation<Refund, { transactionId: string; reason: string; amount?: number }>({
+      query: (body) => ({
+        url: 'transactions/refunds',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: ['Refunds', 'Transactions'],
+    }),
+
+    approveRefund: build.mutation<Refund, { refundId: string; note?: string }>({
+      query: ({ refundId, note }) => ({
+        url: `transactions/refunds/${refundId}/approve`,
+        method: 'PATCH',
+        body: { note },
+      }),
+      invalidatesTags: ['Refunds', 'Transactions'],
+    }),
+
+    rejectRefund: build.mutation<Refund, { refundId: string; note?: string }>({
+      query: ({ refundId, note }) => ({
+        url: `transactions/refunds/${refundId}/reject`,
+        method: 'PATCH',
+        body: { note },
+      }),
+      invalidatesTags: ['Refunds', 'Transactions'],
     }),
 
     /* 
@@ -269,13 +546,28 @@ export const api = createApi({
       providesTags: ['UserCourseProgress'],
     }),
 
+    // 강사용 강의 분석 (챕터 퍼널, 이탈 지점, 수강 등록 추이)
+    getCourseAnalytics: build.query<
+      CourseAnalytics,
+      { courseId: string } & CourseAnalyticsQueryDto
+    >({
+      query: ({ courseId, days, interval }) => ({
+        url: `users/course-progress/analytics/${courseId}`,
+        params: { days, interval },
+      }),
+      providesTags: ['UserCourseProgress'],
+    }),
+
     updateUserCourseProgress: build.mutation<
       UserCourseProgress,
       {
         userId: string;
         courseId: string;
         progressData: {
-          sections: SectionProgress[];
+          sections: Array<{
+            sectionId: string;
+            chapters: Array<Pick<ChapterProgress, 'chapterId' | 'completed'>>;
+          }>;
         };
       }
     >({
@@ -286,12 +578,21 @@ export const api = createApi({
       }),
       invalidatesTags: ['UserCourseProgress'],
       async onQueryStarted({ userId, courseId, progressData }, { dispatch, queryFulfilled }) {
+        // 보고한 챕터의 완료 상태만 캐시에 반영
+        const reported = new Map(
+          progressData.sections
+            .flatMap((section) => section.chapters)
+            .map((chapter) => [chapter.chapterId, chapter.completed])
+        );
         const patchResult = dispatch(
           api.util.updateQueryData('getUserCourseProgress', { userId, courseId }, (draft) => {
-            Object.assign(draft, {
-              ...draft,
-              sections: progressData.sections,
-            });
+            draft.sections?.forEach((section) =>
+              section.chapters.forEach((chapter) => {
+                if (reported.has(chapter.chapterId)) {
+                  chapter.completed = reported.get(chapter.chapterId) as boolean;
+                }
+              })
+            );
           })
         );
         try {
@@ -301,6 +602,145 @@ export const api = createApi({
         }
       },
     }),
+
+    reportChapterProgress: build.mutation<
+      UserCourseProgress,
+      {
+        userId: string;
+        courseId: string;
+        chapterId: string;
+        lastPosition?: number;
+        timeSpent?: number;
+        completed?: boolean;
+      }
+    >({
+      query: ({ userId, courseId, ...body }) => ({
+        url: `users/course-progress/${userId}/courses/${courseId}/chapter`,
+        method: 'PATCH',
+        body,
+      }),
+      extraOptions: { silent: true },
+      // 재생 중 주기적으로 호출되므로 재조회 대신 응답으로 캐시만 갱신
+      async onQueryStarted({ userId, courseId }, { dispatch, queryFulfilled }) {
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(
+            api.util.updateQueryData('getUserCourseProgress', { userId, courseId }, (draft) => {
+              Object.assign(draft, {
+                sections: data.sections,
+                overallProgress: data.overallProgress,
+              });
+            })
+          );
+        } catch {
+          // 보고 실패는 다음 주기에 다시 시도
+        }
+      },
+    }),
+
+    /* 
+    ===============
+    QUIZZES
+    =============== 
+    */
+    getChapterQuiz: build.query<Quiz, { courseId: string; chapterId: string }>({
+      query: ({ courseId, chapterId }) => `courses/${courseId}/chapters/${chapterId}/quiz`,
+      providesTags: (result, error, { chapterId }) => [{ type: 'Quiz', id: chapterId }],
+    }),
+
+    upsertChapterQuiz: build.mutation<
+      Quiz,
+      { courseId: string; chapterId: string; quiz: Pick<Quiz, 'passThreshold' | 'maxAttempts' | 'questions'> }
+    >({
+      query: ({ courseId, chapterId, quiz }) => ({
+        url: `courses/${courseId}/chapters/${chapterId}/quiz`,
+        method: 'PUT',
+        body: quiz,
+      }),
+      // 게시된 강의는 초안에 저장되므로 편집 중인 강의 콘텐츠도 다시 조회
+      invalidatesTags: (result, error, { courseId, chapterId }) => [
+        { type: 'Quiz', id: chapterId },
+        { type: 'Courses', id: courseId },
+      ],
+    }),
+
+    submitQuizAttempt: build.mutation<
+      QuizAttemptResult,
+      { courseId: string; chapterId: string; answers: QuizAnswer[] }
+    >({
+      query: ({ courseId, chapterId, answers }) => ({
+        url: `courses/${courseId}/chapters/${chapterId}/quiz/attempts`,
+        method: 'POST',
+        body: { answers },
+      }),
+      // 통과 시 챕터 완료 처리되므로 진도 정보도 함께 갱신
+      invalidatesTags: (result, error, { chapterId }) => [{ type: 'Quiz', id: chapterId }, 'UserCourseProgress'],
+    }),
+
+    getQuizAttempts: build.query<QuizAttemptResult[], { courseId: string; chapterId: string }>({
+      query: ({ courseId, chapterId }) => `courses/${courseId}/chapters/${chapterId}/quiz/attempts`,
+      providesTags: (result, error, { chapterId }) => [{ type: 'Quiz', id: chapterId }],
+    }),
+
+    /* 
+    ===============
+    COMMENTS
+    =============== 
+    */
+    getChapterComments: build.query<
+      CommentPage,
+      { courseId: string; chapterId: string; cursor?: string; answered?: boolean }
+    >({
+      query: ({ courseId, chapterId, cursor, answered }) => ({
+        url: `courses/${courseId}/chapters/${chapterId}/comments`,
+        params: {
+          ...(cursor && { cursor }),
+          ...(answered !== undefined && { answered: String(answered) }),
+        },
+      }),
+      providesTags: (result, error, { chapterId }) => [{ type: 'Comments', id: chapterId }],
+    }),
+
+    createComment: build.mutation<
+      Comment,
+      { courseId: string; chapterId: string; text: string; parentId?: string; videoTimestamp?: number }
+    >({
+      query: ({ courseId, chapterId, ...body }) => ({
+        url: `courses/${courseId}/chapters/${chapterId}/comments`,
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: (result, error, { chapterId }) => [{ type: 'Comments', id: chapterId }],
+    }),
+
+    updateComment: build.mutation<Comment, { courseId: string; chapterId: string; commentId: string; text: string }>({
+      query: ({ courseId, chapterId, commentId, text }) => ({
+        url: `courses/${courseId}/chapters/${chapterId}/comments/${commentId}`,
+        method: 'PATCH',
+        body: { text },
+      }),
+      invalidatesTags: (result, error, { chapterId }) => [{ type: 'Comments', id: chapterId }],
+    }),
+
+    deleteComment: build.mutation<{ commentId: string }, { courseId: string; chapterId: string; commentId: string }>({
+      query: ({ courseId, chapterId, commentId }) => ({
+        url: `courses/${courseId}/chapters/${chapterId}/comments/${commentId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (result, error, { chapterId }) => [{ type: 'Comments', id: chapterId }],
+    }),
+
+    markCommentAnswered: build.mutation<
+      Comment,
+      { courseId: string; chapterId: string; commentId: string; answered: boolean }
+    >({
+      query: ({ courseId, chapterId, commentId, answered }) => ({
+        url: `courses/${courseId}/chapters/${chapterId}/comments/${commentId}/answered`,
+        method: 'PATCH',
+        body: { answered },
+      }),
+      invalidatesTags: (result, error, { chapterId }) => [{ type: 'Comments', id: chapterId }],
+    }),
   }),
 });
 
@@ -309,13 +749,48 @@ export const {
   useCreateCourseMutation,
   useUpdateCourseMutation,
   useDeleteCourseMutation,
+  useDuplicateCourseMutation,
+  useLazyExportCourseQuery,
+  useImportCourseMutation,
   useGetCoursesQuery,
+  useSearchCoursesQuery,
+  useSearchCourseContentQuery,
   useGetCourseQuery,
   useGetUploadVideoUrlMutation,
+  useCreateSectionMutation,
+  useUpdateSectionMutation,
+  useDeleteSectionMutation,
+  useMoveSectionMutation,
+  useCreateChapterMutation,
+  useUpdateChapterMutation,
+  useDeleteChapterMutation,
+  useMoveChapterMutation,
+  useGetCourseDraftQuery,
+  useGetCourseDraftDiffQuery,
+  usePublishCourseDraftMutation,
+  useDiscardCourseDraftMutation,
+  useUpdateCourseAccessRulesMutation,
+  useUpdateCoursePreviewChaptersMutation,
+  useGetChapterPreviewQuery,
   useGetTransactionsQuery,
   useCreateTransactionMutation,
   useCreateStripePaymentIntentMutation,
+  useGetRefundsQuery,
+  useRequestRefundMutation,
+  useApproveRefundMutation,
+  useRejectRefundMutation,
   useGetUserEnrolledCoursesQuery,
   useGetUserCourseProgressQuery,
+  useGetCourseAnalyticsQuery,
   useUpdateUserCourseProgressMutation,
+  useReportChapterProgressMutation,
+  useGetChapterQuizQuery,
+  useUpsertChapterQuizMutation,
+  useSubmitQuizAttemptMutation,
+  useGetQuizAttemptsQuery,
+  useGetChapterCommentsQuery,
+  useCreateCommentMutation,
+  useUpdateCommentMutation,
+  useDeleteCommentMutation,
+  useMarkCommentAnsweredMutation,
 } = api;
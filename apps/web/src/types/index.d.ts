@@ -60,10 +60,20 @@ declare global {
     price?: number; // Stored in cents (e.g., 4999 for $49.99)
     level: "Beginner" | "Intermediate" | "Advanced";
     status: "Draft" | "Published";
+    isSequential?: boolean;
     sections: Section[];
     enrollments?: Array<{
       userId: string;
     }>;
+    prerequisites?: Array<{
+      prerequisiteCourse: { courseId: string; title: string };
+    }>;
+  }
+
+  interface CourseAccessRules {
+    isSequential: boolean;
+    sequentialSectionIds: string[];
+    prerequisiteCourseIds: string[];
   }
 
   interface Transaction {
@@ -75,6 +85,89 @@ declare global {
     paymentMethodId?: string;
     amount: number; // Stored in cents
     savePaymentMethod?: boolean;
+    status?: "pending" | "completed" | "failed" | "cancelled" | "refunded";
+    course?: {
+      courseId: string;
+      title: string;
+    };
+    refunds?: Refund[];
+  }
+
+  type RefundStatus = "pending" | "completed" | "rejected" | "failed";
+
+  interface Refund {
+    refundId: string;
+    transactionId: string;
+    userId: string;
+    amount: number;
+    reason: string;
+    status: RefundStatus;
+    reviewNote?: string | null;
+    processedAt?: string | null;
+    createdAt: string;
+    transaction?: {
+      transactionId: string;
+      amount: number;
+      dateTime: string;
+      status: string;
+      course: { courseId: string; title: string; teacherId: string };
+    };
+    user?: {
+      id: string;
+      email: string;
+      firstName?: string | null;
+      lastName?: string | null;
+    };
+  }
+
+  interface Pagination {
+    total: number;
+    page: number;
+    limit: number;
+    offset: number;
+    hasNext: boolean;
+    totalPages: number;
+  }
+
+  type CourseSortBy = "createdAt" | "updatedAt" | "title" | "price" | "enrollments";
+
+  interface CourseSearchParams {
+    search?: string;
+    category?: string;
+    level?: Course["level"];
+    minPrice?: string;
+    maxPrice?: string;
+    sortBy?: CourseSortBy;
+    sortOrder?: "asc" | "desc";
+    page?: string;
+    limit?: string;
+  }
+
+  interface CourseSearchResult {
+    courses: Course[];
+    pagination: Pagination;
+  }
+
+  interface CourseContentMatch {
+    type: "section" | "chapter";
+    sectionId: string;
+    sectionTitle: string;
+    chapterId: string | null;
+    chapterTitle: string | null;
+    snippet: string;
+    rank: number;
+    url: string | null;
+  }
+
+  interface CourseContentHit {
+    courseId: string;
+    title: string;
+    category: string;
+    image: string | null;
+    teacherName: string;
+    rank: number;
+    snippet: string | null;
+    matches: CourseContentMatch[];
   }
 
   interface DateRange {
@@ -89,6 +182,7 @@ declare global {
     overallProgress: number;
     sections: SectionProgress[];
     lastAccessedTimestamp: string;
+    lockedChapterIds?: string[];
   }
 
   type CreateUserArgs = Omit<User, "userId">;
@@ -104,14 +198,38 @@ declare global {
     course: Course;
     onEdit: (course: Course) => void;
     onDelete: (course: Course) => void;
+    onDuplicate?: (course: Course) => void;
+    onExport?: (course: Course) => void;
     isOwner: boolean;
   }
 
+  interface CommentAuthor {
+    id: string;
+    username: string | null;
+    firstName: string | null;
+    lastName: string | null;
+    avatar: string | null;
+  }
+
   interface Comment {
     commentId: string;
     userId: string;
+    chapterId?: string;
+    parentId?: string | null;
     text: string;
     timestamp: string;
+    videoTimestamp?: number | null;
+    isAnswered?: boolean;
+    answeredAt?: string | null;
+    createdAt?: string;
+    user?: CommentAuthor;
+    replies?: Comment[];
+  }
+
+  interface CommentPage {
+    items: Comment[];
+    nextCursor: string | null;
+    hasMore: boolean;
   }
 
   interface Chapter {
@@ -121,11 +239,87 @@ declare global {
     video?: string | File;
     freePreview?: boolean;
     type: "Text" | "Quiz" | "Video";
+    quiz?: Quiz; // 강사 편집기에서 저장 전까지 보관하는 퀴즈 초안
+  }
+
+  // 비수강생에게 공개되는 미리보기 챕터
+  interface ChapterPreview {
+    chapterId: string;
+    courseId: string;
+    sectionTitle: string;
+    title: string;
+    content: string;
+    video: string | null;
+    type: "Text" | "Quiz" | "Video";
+  }
+
+  type QuizQuestionType = "SingleChoice" | "MultipleChoice" | "TrueFalse" | "ShortAnswer";
+
+  interface QuizOption {
+    optionId: string;
+    text: string;
+  }
+
+  interface QuizQuestion {
+    questionId: string;
+    type: QuizQuestionType;
+    prompt: string;
+    options: QuizOption[];
+    correctOptionIds?: string[]; // 강의 소유자에게만 제공
+    acceptedAnswers?: string[]; // 강의 소유자에게만 제공
+    explanation?: string | null;
+    points: number;
+  }
+
+  interface Quiz {
+    quizId?: string;
+    chapterId?: string;
+    passThreshold: number;
+    maxAttempts: number | null;
+    questions: QuizQuestion[];
+    attemptsUsed?: number;
+    remainingAttempts?: number | null;
+    bestScore?: number | null;
+    passed?: boolean;
+  }
+
+  interface QuizAnswer {
+    questionId: string;
+    selectedOptionIds: string[];
+    textAnswer?: string;
+  }
+
+  interface QuizQuestionResult {
+    questionId: string;
+    correct: boolean;
+    earnedPoints: number;
+    points: number;
+    correctOptionIds?: string[]; // 통과 또는 응시 횟수 소진 시에만 제공
+    acceptedAnswers?: string[]; // 통과 또는 응시 횟수 소진 시에만 제공
+    explanation?: string | null;
+  }
+
+  interface QuizAttemptResult {
+    attemptId: string;
+    attemptNumber: number;
+    submittedAt: string;
+    score: number;
+    earnedPoints: number;
+    totalPoints: number;
+    passed: boolean;
+    passThreshold?: number;
+    remainingAttempts?: number | null;
+    results: QuizQuestionResult[];
+    answersRevealed?: boolean;
   }
 
   interface ChapterProgress {
     chapterId: string;
     completed: boolean;
+    completedAt?: string;
+    timeSpent?: number;
+    lastPosition?: number;
+    lastWatchedAt?: string;
   }
 
   interface SectionProgress {
@@ -137,15 +331,28 @@ declare global {
     sectionId: string;
     sectionTitle: string;
     sectionDescription?: string;
+    isSequential?: boolean;
     chapters: Chapter[];
   }
 
+  // 섹션/챕터 단위 저장 API 요청 본문
+  type SectionInput = Pick<Section, "sectionTitle" | "sectionDescription">;
+
+  interface ChapterInput {
+    title: string;
+    content: string;
+    type: Chapter["type"];
+    video?: string | null; // null이면 영상 제거
+    freePreview?: boolean;
+  }
+
   interface WizardStepperProps {
     currentStep: number;
   }
 
   interface AccordionSectionsProps {
     sections: Section[];
+    onPreviewChapter?: (chapter: Chapter) => void;
   }
 
   interface SearchCourseCardProps {
@@ -4,7 +4,13 @@ import type {
   LoginDto,
   AuthTokens,
   AuthUser,
-  RefreshTokenDto 
+  RefreshTokenDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+  ResendVerificationDto,
+  TwoFactorChallenge,
+  TwoFactorLoginDto
 } from '@packages/schemas';
 
 export class AuthApiClient {
@@ -50,13 +56,20 @@ export class AuthApiClient {
     });
   }
 
-  async login(data: LoginDto): Promise<{ user: AuthUser; tokens: AuthTokens }> {
+  async login(data: LoginDto): Promise<{ user: AuthUser; tokens: AuthTokens } | TwoFactorChallenge> {
     return this.request('/login', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
+  async verifyTwoFactor(data: TwoFactorLoginDto): Promise<{ user: AuthUser; tokens: AuthTokens }> {
+    return this.request('/2fa/verify', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
   async refreshToken(refreshToken: string): Promise<AuthTokens> {
     return this.request('/refresh', {
       method: 'POST',
@@ -82,6 +95,34 @@ export class AuthApiClient {
     });
   }
 
+  async forgotPassword(data: ForgotPasswordDto): Promise<{ success: boolean; message: string }> {
+    return this.request('/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async resetPassword(data: ResetPasswordDto): Promise<{ success: boolean; message: string }> {
+    return this.request('/reset-password', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async verifyEmail(data: VerifyEmailDto): Promise<{ success: boolean; message: string }> {
+    return this.request('/verify-email', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async resendVerification(data: ResendVerificationDto): Promise<{ success: boolean; message: string }> {
+    return this.request('/resend-verification', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
   async checkPasswordStrength(password: string) {
     return this.request('/check-password-strength', {
       method: 'POST',
@@ -0,0 +1,15 @@
+import { SetMetadata } from '@nestjs/common';
+import type { UserRole } from '../interfaces/user.interface';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * 🔑 역할 제한 데코레이터
+ *
+ * 사용 예시:
+ * - @Roles('ADMIN') - 관리자만 접근
+ * - @Roles('INSTRUCTOR', 'ADMIN') - 강사 또는 관리자
+ *
+ * 주의: RolesGuard와 함께 사용해야 하며, JWT 인증 이후에 평가됩니다.
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
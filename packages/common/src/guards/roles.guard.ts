@@ -0,0 +1,43 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { RoleUtils, type JwtUser, type UserRole } from '../interfaces/user.interface';
+
+/**
+ * 🛡️ 역할 기반 접근 제어 가드
+ *
+ * @Roles() 데코레이터에 지정된 역할만 통과시킵니다.
+ * 역할이 지정되지 않은 핸들러는 그대로 통과합니다.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  private readonly logger = new Logger(RolesGuard.name);
+
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredRoles = this.reflector.getAllAndOverride<UserRole[] | undefined>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredRoles || requiredRoles.length === 0) {
+      return true;
+    }
+
+    const user = context.switchToHttp().getRequest<{ user?: JwtUser }>().user;
+
+    if (!user || !RoleUtils.hasAnyRole(user.role, requiredRoles)) {
+      this.logger.warn(
+        `권한 없는 접근 시도 - 사용자: ${user?.userId || '알 수 없음'}, 역할: ${user?.role || '없음'}, 필요 역할: ${requiredRoles.join(', ')}`
+      );
+      throw new ForbiddenException({
+        code: 'INSUFFICIENT_ROLE',
+        message: '이 작업을 수행할 권한이 없습니다',
+        requiredRoles,
+      });
+    }
+
+    return true;
+  }
+}
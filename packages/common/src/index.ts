@@ -7,6 +7,7 @@
 export { CurrentUser } from './decorators/current-user.decorator';
 export { Public, IS_PUBLIC_KEY } from './decorators/public.decorator';
 export { ZodBody } from './decorators/zod-body.decorator';
+export { Roles, ROLES_KEY } from './decorators/roles.decorator';
 
 // 🚀 성능 최적화 데코레이터
 export { Cacheable, CacheEvict, CachePut } from './decorators/cache.decorator';
@@ -15,6 +16,7 @@ export { Cacheable, CacheEvict, CachePut } from './decorators/cache.decorator';
 export { AllExceptionsFilter } from './filters/all-exceptions.filter';
 export { LoggingInterceptor } from './interceptors/logging.interceptor';
 export { ZodValidationPipe } from './pipes/zod-validation.pipe';
+export { RolesGuard } from './guards/roles.guard';
 
 // 🚀 성능 최적화 인터셉터
 export { CacheInterceptor, CacheEvictInterceptor } from './interceptors/cache.interceptor';
@@ -79,6 +79,9 @@ export interface JwtPayload {
   
   /** 👥 토큰 대상 */
   aud?: string;
+
+  /** 📱 로그인 세션 ID (디바이스별 세션 추적용) */
+  sid?: string;
 }
 
 /**
@@ -92,6 +95,9 @@ export interface JwtRefreshPayload {
   
   /** 🎲 토큰 고유 ID (세션 추적용) */
   tokenId: string;
+
+  /** 📱 로그인 세션 ID (토큰 갱신 중에도 유지) */
+  sid?: string;
   
   /** 🕐 토큰 발행 시간 */
   iat?: number;
@@ -170,6 +176,9 @@ export interface JwtUser {
   
   /** 🟢 계정 활성화 상태 */
   isActive?: boolean;
+
+  /** 📱 현재 로그인 세션 ID */
+  sessionId?: string;
 }
 
 /**
@@ -194,5 +203,14 @@ export const RoleUtils = {
   /** 강사 또는 관리자인지 확인 */
   canManageCourses: (role?: UserRole): boolean => {
     return RoleUtils.isInstructor(role) || RoleUtils.isAdmin(role);
+  },
+
+  /** 별칭(teacher, student 등)을 포함해 허용된 역할 중 하나인지 확인 */
+  hasAnyRole: (role: UserRole | undefined, allowedRoles: UserRole[]): boolean => {
+    return allowedRoles.some((allowedRole) =>
+      (RoleUtils.isAdmin(allowedRole) && RoleUtils.isAdmin(role)) ||
+      (RoleUtils.isInstructor(allowedRole) && RoleUtils.isInstructor(role)) ||
+      (RoleUtils.isStudent(allowedRole) && RoleUtils.isStudent(role))
+    );
   }
 };
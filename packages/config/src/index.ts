@@ -4,6 +4,7 @@ export { default as jwtConfig } from './jwt.config';
 export { default as redisConfig } from './redis.config';
 export { default as socialConfig } from './social.config';
 export { default as securityConfig } from './security.config';
+export { default as mailConfig } from './mail.config';
 
 // Swagger API 문서 설정
 export {
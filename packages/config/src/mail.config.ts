@@ -0,0 +1,19 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * 📧 메일 발송 설정
+ * 기본 전송 방식(file)은 메일을 로컬 outbox 디렉터리에 기록하므로 오프라인에서도 동작합니다.
+ */
+export default registerAs('mail', () => ({
+  // 전송 방식 (file: 로컬 outbox 기록)
+  transport: process.env.MAIL_TRANSPORT || 'file',
+
+  // 발신자 주소
+  from: process.env.MAIL_FROM || 'LMS <no-reply@lms.local>',
+
+  // file 전송 시 메일(.eml)을 기록할 디렉터리
+  outboxDir: process.env.MAIL_OUTBOX_DIR || '.mail-outbox',
+
+  // 메일 본문 링크에 사용할 웹 앱 주소
+  appUrl: process.env.WEB_APP_URL || 'http://localhost:3000',
+}));
@@ -35,6 +35,51 @@ export default registerAs('security', () => ({
     enableRefreshRotation: process.env.ENABLE_REFRESH_ROTATION === 'true',
   },
 
+  // 🔁 비밀번호 재설정 설정
+  passwordReset: {
+    // 재설정 토큰 유효 시간 (분)
+    tokenTtlMinutes: parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES || '30', 10),
+  },
+
+  // 🗂️ 비밀번호 이력 설정
+  passwordHistory: {
+    // 재사용을 금지할 최근 비밀번호 개수 (현재 비밀번호 포함)
+    size: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5', 10),
+  },
+
+  // 📧 이메일 인증 설정
+  emailVerification: {
+    // 인증 토큰 유효 시간 (시간)
+    tokenTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TOKEN_TTL_HOURS || '24', 10),
+
+    // 인증 메일 재발송 최소 간격 (초)
+    resendCooldownSeconds: parseInt(process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN || '60', 10),
+
+    // 이메일 인증이 필요한 작업 목록 (checkout, course_creation)
+    requiredFor: (process.env.EMAIL_VERIFICATION_REQUIRED_FOR || '')
+      .split(',')
+      .map((action) => action.trim())
+      .filter(Boolean),
+  },
+
+  // 🔐 2단계 인증 (TOTP) 설정
+  twoFactor: {
+    // 인증 앱에 표시되는 발급자 이름
+    issuer: process.env.TWO_FACTOR_ISSUER || 'LMS',
+
+    // TOTP 시크릿 암호화 키 (미설정 시 액세스 토큰 시크릿에서 파생)
+    encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY || '',
+
+    // 로그인 2단계 챌린지 유효 시간 (초)
+    challengeTtlSeconds: parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL || '300', 10),
+
+    // 챌린지당 최대 코드 입력 시도 횟수
+    maxChallengeAttempts: parseInt(process.env.TWO_FACTOR_MAX_ATTEMPTS || '5', 10),
+
+    // 발급할 복구 코드 개수
+    recoveryCodeCount: parseInt(process.env.TWO_FACTOR_RECOVERY_CODES || '10', 10),
+  },
+
   // 🌐 CORS 설정
   cors: {
     // 허용된 오리진 목록
@@ -6,13 +6,21 @@ export default registerAs('social', () => ({
     clientSecret: process.env.GOOGLE_CLIENT_SECRET,
     callbackUrl:
       process.env.GOOGLE_CALLBACK_URL ||
-      'http://localhost:3003/auth/google/callback',
+      'http://localhost:3000/api/auth/google/callback',
   },
   github: {
     clientId: process.env.GITHUB_CLIENT_ID,
     clientSecret: process.env.GITHUB_CLIENT_SECRET,
     callbackUrl:
       process.env.GITHUB_CALLBACK_URL ||
-      'http://localhost:3003/auth/github/callback',
+      'http://localhost:3000/api/auth/github/callback',
   },
+
+  // 🔏 OAuth state 서명 키 (미설정 시 액세스 토큰 시크릿 사용)
+  stateSecret: process.env.OAUTH_STATE_SECRET,
+
+  // 🔁 소셜 로그인 완료 후 돌아갈 웹 페이지 (1회용 코드 또는 오류 전달)
+  webCallbackUrl:
+    process.env.SOCIAL_LOGIN_REDIRECT_URL ||
+    `${process.env.WEB_APP_URL || 'http://localhost:3000'}/callback`,
 }));
@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "QuizQuestionType" AS ENUM ('SingleChoice', 'MultipleChoice', 'TrueFalse', 'ShortAnswer');
+
+-- CreateTable
+CREATE TABLE "quizzes" (
+    "quizId" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "passThreshold" INTEGER NOT NULL DEFAULT 70,
+    "maxAttempts" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quizzes_pkey" PRIMARY KEY ("quizId")
+);
+
+-- CreateTable
+CREATE TABLE "quiz_questions" (
+    "questionId" TEXT NOT NULL,
+    "quizId" TEXT NOT NULL,
+    "type" "QuizQuestionType" NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "options" JSONB NOT NULL,
+    "correctOptionIds" TEXT[],
+    "acceptedAnswers" TEXT[],
+    "explanation" TEXT,
+    "points" INTEGER NOT NULL DEFAULT 1,
+    "orderIndex" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quiz_questions_pkey" PRIMARY KEY ("questionId")
+);
+
+-- CreateTable
+CREATE TABLE "quiz_attempts" (
+    "attemptId" TEXT NOT NULL,
+    "quizId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "attemptNumber" INTEGER NOT NULL,
+    "answers" JSONB NOT NULL,
+    "results" JSONB NOT NULL,
+    "score" INTEGER NOT NULL,
+    "earnedPoints" INTEGER NOT NULL,
+    "totalPoints" INTEGER NOT NULL,
+    "passed" BOOLEAN NOT NULL,
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "quiz_attempts_pkey" PRIMARY KEY ("attemptId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quizzes_chapterId_key" ON "quizzes"("chapterId");
+
+-- CreateIndex
+CREATE INDEX "quiz_questions_quizId_orderIndex_idx" ON "quiz_questions"("quizId", "orderIndex");
+
+-- CreateIndex
+CREATE INDEX "quiz_attempts_userId_idx" ON "quiz_attempts"("userId");
+
+-- CreateIndex
+CREATE INDEX "quiz_attempts_quizId_userId_submittedAt_idx" ON "quiz_attempts"("quizId", "userId", "submittedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quiz_attempts_quizId_userId_attemptNumber_key" ON "quiz_attempts"("quizId", "userId", "attemptNumber");
+
+-- AddForeignKey
+ALTER TABLE "quizzes" ADD CONSTRAINT "quizzes_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "chapters"("chapterId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_questions" ADD CONSTRAINT "quiz_questions_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "quizzes"("quizId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_attempts" ADD CONSTRAINT "quiz_attempts_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "quizzes"("quizId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_attempts" ADD CONSTRAINT "quiz_attempts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN     "answeredAt" TIMESTAMP(3),
+ADD COLUMN     "answeredBy" TEXT,
+ADD COLUMN     "isAnswered" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "parentId" TEXT,
+ADD COLUMN     "videoTimestamp" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "comments_parentId_createdAt_idx" ON "comments"("parentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "comments" ADD CONSTRAINT "comments_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "comments"("commentId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "paymentIntentId" TEXT;
+
+-- 기존 트랜잭션은 Stripe 결제 의도 ID를 transactionId로 사용해 왔으므로 그대로 옮긴다
+UPDATE "transactions" SET "paymentIntentId" = "transactionId" WHERE "paymentProvider" = 'stripe' AND "transactionId" LIKE 'pi\_%';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_paymentIntentId_key" ON "transactions"("paymentIntentId");
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'completed';
+
+-- CreateTable
+CREATE TABLE "refunds" (
+    "refundId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "stripeRefundId" TEXT,
+    "reviewedBy" TEXT,
+    "reviewNote" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("refundId")
+);
+
+-- CreateIndex
+CREATE INDEX "transactions_status_idx" ON "transactions"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_stripeRefundId_key" ON "refunds"("stripeRefundId");
+
+-- CreateIndex
+CREATE INDEX "refunds_transactionId_idx" ON "refunds"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "refunds_userId_idx" ON "refunds"("userId");
+
+-- CreateIndex
+CREATE INDEX "refunds_status_createdAt_idx" ON "refunds"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("transactionId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
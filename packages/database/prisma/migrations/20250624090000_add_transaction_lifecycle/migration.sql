@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'krw',
+ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "metadata" JSONB,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- 기존 거래는 모두 결제 완료 후 생성되었으므로 결제 시각으로 채운다
+UPDATE "transactions" SET "createdAt" = "dateTime", "updatedAt" = "dateTime", "completedAt" = "dateTime" WHERE "status" = 'completed' OR "status" = 'refunded';
+
+-- CreateIndex
+CREATE INDEX "transactions_createdAt_idx" ON "transactions"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "transactions_status_createdAt_idx" ON "transactions"("status", "createdAt");
@@ -0,0 +1,29 @@
+-- 전체 텍스트 검색 벡터는 원본 컬럼에서 자동 계산되는 generated column으로 유지한다
+-- 한국어/영어 혼합 콘텐츠이므로 형태소 분석 없이 'simple' 설정을 사용한다
+
+-- AlterTable
+ALTER TABLE "courses" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple'::regconfig, COALESCE("title", '')), 'A') ||
+  setweight(to_tsvector('simple'::regconfig, COALESCE("description", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "sections" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple'::regconfig, COALESCE("sectionTitle", '')), 'A') ||
+  setweight(to_tsvector('simple'::regconfig, COALESCE("sectionDescription", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "chapters" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple'::regconfig, COALESCE("title", '')), 'A') ||
+  setweight(to_tsvector('simple'::regconfig, COALESCE("content", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "courses_searchVector_idx" ON "courses" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "sections_searchVector_idx" ON "sections" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "chapters_searchVector_idx" ON "chapters" USING GIN ("searchVector");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "courses" ADD COLUMN     "isSequential" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "sections" ADD COLUMN     "isSequential" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "course_prerequisites" (
+    "courseId" TEXT NOT NULL,
+    "prerequisiteCourseId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "course_prerequisites_pkey" PRIMARY KEY ("courseId","prerequisiteCourseId")
+);
+
+-- CreateIndex
+CREATE INDEX "course_prerequisites_prerequisiteCourseId_idx" ON "course_prerequisites"("prerequisiteCourseId");
+
+-- AddForeignKey
+ALTER TABLE "course_prerequisites" ADD CONSTRAINT "course_prerequisites_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("courseId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "course_prerequisites" ADD CONSTRAINT "course_prerequisites_prerequisiteCourseId_fkey" FOREIGN KEY ("prerequisiteCourseId") REFERENCES "courses"("courseId") ON DELETE CASCADE ON UPDATE CASCADE;
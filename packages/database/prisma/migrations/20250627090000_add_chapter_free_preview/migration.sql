@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "chapters" ADD COLUMN     "freePreview" BOOLEAN NOT NULL DEFAULT false;
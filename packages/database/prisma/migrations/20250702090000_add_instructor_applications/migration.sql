@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "instructor_applications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "bio" TEXT NOT NULL,
+    "expertise" TEXT[],
+    "sampleContentUrl" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "reviewedBy" TEXT,
+    "reviewNote" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "instructor_applications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "instructor_applications_userId_createdAt_idx" ON "instructor_applications"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "instructor_applications_status_createdAt_idx" ON "instructor_applications"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "instructor_applications" ADD CONSTRAINT "instructor_applications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "course_revisions" (
+    "revisionId" TEXT NOT NULL,
+    "courseId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "content" JSONB NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "publishedBy" TEXT,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "course_revisions_pkey" PRIMARY KEY ("revisionId")
+);
+
+-- CreateIndex
+CREATE INDEX "course_revisions_courseId_status_idx" ON "course_revisions"("courseId", "status");
+
+-- CreateIndex
+CREATE INDEX "course_revisions_courseId_publishedAt_idx" ON "course_revisions"("courseId", "publishedAt");
+
+-- CreateIndex (강의당 편집 중인 초안은 1개만 허용 - Prisma 스키마로 표현할 수 없는 부분 인덱스)
+CREATE UNIQUE INDEX "course_revisions_courseId_draft_key" ON "course_revisions"("courseId") WHERE "status" = 'draft';
+
+-- AddForeignKey
+ALTER TABLE "course_revisions" ADD CONSTRAINT "course_revisions_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("courseId") ON DELETE CASCADE ON UPDATE CASCADE;
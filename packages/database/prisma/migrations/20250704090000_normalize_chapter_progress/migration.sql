@@ -0,0 +1,100 @@
+-- CreateTable
+CREATE TABLE "chapter_progress" (
+    "userId" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "courseId" TEXT NOT NULL,
+    "completed" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "timeSpent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "lastPosition" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "lastWatchedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chapter_progress_pkey" PRIMARY KEY ("userId","chapterId")
+);
+
+-- CreateIndex
+CREATE INDEX "chapter_progress_userId_courseId_idx" ON "chapter_progress"("userId", "courseId");
+
+-- CreateIndex
+CREATE INDEX "chapter_progress_courseId_chapterId_completed_idx" ON "chapter_progress"("courseId", "chapterId", "completed");
+
+-- CreateIndex
+CREATE INDEX "chapter_progress_chapterId_idx" ON "chapter_progress"("chapterId");
+
+-- AddForeignKey
+ALTER TABLE "chapter_progress" ADD CONSTRAINT "chapter_progress_userId_courseId_fkey" FOREIGN KEY ("userId", "courseId") REFERENCES "user_course_progress"("userId", "courseId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chapter_progress" ADD CONSTRAINT "chapter_progress_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "chapters"("chapterId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 기존 JSON 진도 이관
+-- sections 컬럼에는 JSON 배열 또는 JSON 문자열로 인코딩된 배열이 저장되어 있으므로 두 형식을 모두 해석하고,
+-- 손상된 값은 건너뜁니다 (기존 parseSections와 동일한 처리).
+CREATE FUNCTION pg_temp.try_jsonb(value TEXT) RETURNS JSONB AS $$
+BEGIN
+    RETURN value::JSONB;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE FUNCTION pg_temp.try_timestamp(value TEXT) RETURNS TIMESTAMP(3) AS $$
+BEGIN
+    RETURN (value::TIMESTAMPTZ AT TIME ZONE 'UTC')::TIMESTAMP(3);
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+WITH "progress_sections" AS (
+    SELECT
+        p."userId",
+        p."courseId",
+        CASE
+            WHEN jsonb_typeof(p."sections") = 'string' THEN pg_temp.try_jsonb(p."sections" #>> '{}')
+            ELSE p."sections"
+        END AS "sections"
+    FROM "user_course_progress" p
+),
+"progress_chapters" AS (
+    SELECT
+        ps."userId",
+        ps."courseId",
+        chapter
+    FROM "progress_sections" ps
+    CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(ps."sections") = 'array' THEN ps."sections" ELSE '[]'::JSONB END
+    ) AS section
+    CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(section -> 'chapters') = 'array' THEN section -> 'chapters' ELSE '[]'::JSONB END
+    ) AS chapter
+    WHERE jsonb_typeof(section) = 'object' AND jsonb_typeof(chapter) = 'object'
+)
+INSERT INTO "chapter_progress" (
+    "userId", "chapterId", "courseId", "completed", "completedAt",
+    "timeSpent", "lastPosition", "lastWatchedAt", "updatedAt"
+)
+SELECT DISTINCT ON (pc."userId", c."chapterId")
+    pc."userId",
+    c."chapterId",
+    pc."courseId",
+    CASE WHEN jsonb_typeof(pc.chapter -> 'completed') = 'boolean'
+        THEN (pc.chapter ->> 'completed')::BOOLEAN ELSE false END,
+    pg_temp.try_timestamp(pc.chapter ->> 'completedAt'),
+    CASE WHEN jsonb_typeof(pc.chapter -> 'timeSpent') = 'number'
+        THEN GREATEST((pc.chapter ->> 'timeSpent')::DOUBLE PRECISION, 0) ELSE 0 END,
+    CASE WHEN jsonb_typeof(pc.chapter -> 'lastPosition') = 'number'
+        THEN GREATEST((pc.chapter ->> 'lastPosition')::DOUBLE PRECISION, 0) ELSE 0 END,
+    pg_temp.try_timestamp(pc.chapter ->> 'lastWatchedAt'),
+    CURRENT_TIMESTAMP
+FROM "progress_chapters" pc
+-- 현재 강의에 속한 챕터만 이관 (삭제되었거나 다른 강의의 챕터는 제외)
+JOIN "chapters" c ON c."chapterId" = pc.chapter ->> 'chapterId'
+JOIN "sections" s ON s."sectionId" = c."sectionId" AND s."courseId" = pc."courseId"
+-- 같은 챕터가 중복 기록된 경우 완료된 기록을 우선
+ORDER BY pc."userId", c."chapterId", (pc.chapter ->> 'completed') IS NOT DISTINCT FROM 'true' DESC;
+
+-- AlterTable
+ALTER TABLE "user_course_progress" DROP COLUMN "sections";
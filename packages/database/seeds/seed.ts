@@ -336,6 +336,10 @@ async function seedUserCourseProgress() {
   
   for (const progress of progressData) {
     try {
+      // 시드 파일의 섹션별 진도(JSON 문자열)를 챕터 진도로 변환
+      const sections = typeof progress.sections === 'string' ? JSON.parse(progress.sections) : progress.sections || [];
+      const chapters = sections.flatMap((section: any) => section.chapters || []);
+
       await prisma.userCourseProgress.create({
         data: {
           userId: progress.userId,
@@ -343,7 +347,15 @@ async function seedUserCourseProgress() {
           enrollmentDate: new Date(progress.enrollmentDate),
           overallProgress: progress.overallProgress,
           lastAccessedTimestamp: new Date(progress.lastAccessedTimestamp),
-          sections: progress.sections,
+          chapters: {
+            create: chapters.map((chapter: any) => ({
+              chapterId: chapter.chapterId,
+              completed: chapter.completed ?? false,
+              ...(chapter.completed && { completedAt: new Date(progress.lastAccessedTimestamp) }),
+              timeSpent: chapter.timeSpent ?? 0,
+              lastPosition: chapter.lastPosition ?? 0,
+            })),
+          },
         }
       });
       
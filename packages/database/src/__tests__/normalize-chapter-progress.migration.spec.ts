@@ -0,0 +1,165 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { PGlite } from '@electric-sql/pglite';
+
+const MIGRATIONS_DIR = join(__dirname, '../../prisma/migrations');
+const TARGET_MIGRATION = '20250704090000_normalize_chapter_progress';
+
+// 마이그레이션 SQL 실행 (디렉터리 이름 순서 = Prisma 적용 순서)
+async function applyMigrations(db: PGlite, filter: (name: string) => boolean): Promise<void> {
+  const migrations = readdirSync(MIGRATIONS_DIR)
+    .filter((name) => /^\d+_/.test(name))
+    .sort()
+    .filter(filter);
+
+  for (const migration of migrations) {
+    await db.exec(readFileSync(join(MIGRATIONS_DIR, migration, 'migration.sql'), 'utf8'));
+  }
+}
+
+interface ChapterProgressRow {
+  userId: string;
+  chapterId: string;
+  courseId: string;
+  completed: boolean;
+  completedAt: Date | null;
+  timeSpent: number;
+  lastPosition: number;
+  lastWatchedAt: Date | null;
+}
+
+describe('normalize_chapter_progress 마이그레이션', () => {
+  let db: PGlite;
+  let rows: ChapterProgressRow[];
+
+  const insertProgress = (userId: string, courseId: string, sections: unknown) =>
+    db.query(
+      `INSERT INTO "user_course_progress" ("userId", "courseId", "sections") VALUES ($1, $2, $3::JSONB)`,
+      [userId, courseId, JSON.stringify(sections)]
+    );
+
+  const findRows = (userId: string) => rows.filter((row) => row.userId === userId);
+
+  beforeAll(async () => {
+    db = new PGlite();
+    await applyMigrations(db, (name) => name < TARGET_MIGRATION);
+
+    // 📚 강의 구조: course-1 (chapter-1, chapter-2), course-2 (chapter-3)
+    await db.exec(`
+      INSERT INTO "users" ("id", "email", "updatedAt") VALUES
+        ('user-1', 'user1@example.com', NOW()),
+        ('user-2', 'user2@example.com', NOW()),
+        ('user-3', 'user3@example.com', NOW()),
+        ('user-4', 'user4@example.com', NOW());
+      INSERT INTO "courses" ("courseId", "teacherId", "teacherName", "title", "category", "level", "status", "updatedAt") VALUES
+        ('course-1', 'teacher-1', '강사', '강의 1', 'programming', 'Beginner', 'Published', NOW()),
+        ('course-2', 'teacher-1', '강사', '강의 2', 'programming', 'Beginner', 'Published', NOW());
+      INSERT INTO "sections" ("sectionId", "courseId", "sectionTitle", "updatedAt") VALUES
+        ('section-1', 'course-1', '섹션 1', NOW()),
+        ('section-2', 'course-2', '섹션 2', NOW());
+      INSERT INTO "chapters" ("chapterId", "sectionId", "type", "title", "content", "updatedAt") VALUES
+        ('chapter-1', 'section-1', 'Video', '챕터 1', '', NOW()),
+        ('chapter-2', 'section-1', 'Text', '챕터 2', '', NOW()),
+        ('chapter-3', 'section-2', 'Video', '챕터 3', '', NOW());
+    `);
+
+    // JSON 배열로 저장된 진도 (삭제된 챕터, 다른 강의의 챕터, 잘못된 값 포함)
+    await insertProgress('user-1', 'course-1', [
+      {
+        sectionId: 'section-1',
+        chapters: [
+          {
+            chapterId: 'chapter-1',
+            completed: true,
+            completedAt: '2025-06-01T10:00:00.000Z',
+            timeSpent: 120.5,
+            lastPosition: 60,
+            lastWatchedAt: '2025-06-01T19:00:00+09:00',
+          },
+          { chapterId: 'chapter-2', completed: 'yes', timeSpent: -5, lastPosition: 'abc' },
+          { chapterId: 'deleted-chapter', completed: true },
+          { chapterId: 'chapter-3', completed: true },
+        ],
+      },
+    ]);
+
+    // JSON 문자열로 인코딩된 배열 (같은 챕터 중복 기록, 잘못된 날짜)
+    await insertProgress(
+      'user-2',
+      'course-1',
+      JSON.stringify([
+        { sectionId: 'section-1', chapters: [{ chapterId: 'chapter-1', completed: false, timeSpent: 10 }] },
+        {
+          sectionId: 'section-1',
+          chapters: [{ chapterId: 'chapter-1', completed: true, completedAt: 'not-a-date', timeSpent: 30 }],
+        },
+      ])
+    );
+
+    // 손상된 JSON 문자열
+    await insertProgress('user-3', 'course-1', '[{"sectionId": "section-1", "chapters": [');
+
+    // 배열이 아닌 값과 객체가 아닌 요소
+    await insertProgress('user-4', 'course-1', { sectionId: 'section-1' });
+    await insertProgress('user-4', 'course-2', [1, 'section-2', { sectionId: 'section-2', chapters: 'chapter-3' }]);
+
+    await applyMigrations(db, (name) => name === TARGET_MIGRATION);
+
+    const result = await db.query<ChapterProgressRow>(
+      `SELECT "userId", "chapterId", "courseId", "completed", "completedAt", "timeSpent", "lastPosition", "lastWatchedAt"
+       FROM "chapter_progress" ORDER BY "userId", "chapterId"`
+    );
+    rows = result.rows;
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('JSON 진도의 완료 여부, 시청 시간, 위치, 시각을 챕터 진도로 옮겨야 함', () => {
+    expect(findRows('user-1')).toEqual([
+      {
+        userId: 'user-1',
+        chapterId: 'chapter-1',
+        courseId: 'course-1',
+        completed: true,
+        completedAt: new Date('2025-06-01T10:00:00.000Z'),
+        timeSpent: 120.5,
+        lastPosition: 60,
+        lastWatchedAt: new Date('2025-06-01T10:00:00.000Z'),
+      },
+      // 불리언/숫자가 아닌 값과 음수는 기본값으로 정리
+      {
+        userId: 'user-1',
+        chapterId: 'chapter-2',
+        courseId: 'course-1',
+        completed: false,
+        completedAt: null,
+        timeSpent: 0,
+        lastPosition: 0,
+        lastWatchedAt: null,
+      },
+    ]);
+  });
+
+  it('JSON 문자열로 저장된 진도를 해석하고 중복 챕터는 완료 기록을 우선해야 함', () => {
+    expect(findRows('user-2')).toEqual([
+      expect.objectContaining({ chapterId: 'chapter-1', completed: true, completedAt: null, timeSpent: 30 }),
+    ]);
+  });
+
+  it('손상되었거나 형식이 맞지 않는 진도는 건너뛰어야 함', () => {
+    expect(findRows('user-3')).toEqual([]);
+    expect(findRows('user-4')).toEqual([]);
+  });
+
+  it('진도 레코드는 유지하고 sections 컬럼을 제거해야 함', async () => {
+    const progress = await db.query(`SELECT "userId", "courseId" FROM "user_course_progress"`);
+    const columns = await db.query(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'user_course_progress' AND column_name = 'sections'`
+    );
+
+    expect(progress.rows).toHaveLength(5);
+    expect(columns.rows).toHaveLength(0);
+  });
+});
@@ -9,4 +9,4 @@ export { PrismaService } from './prisma/prisma.service';
 
 // Redis 모듈
 export { RedisModule } from './redis/redis.module';
-export { RedisService } from './redis/redis.service';
+export { RedisService, type SessionRecord } from './redis/redis.service';
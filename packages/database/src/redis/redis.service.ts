@@ -2,11 +2,26 @@ import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/commo
 import { ConfigService } from '@nestjs/config';
 import { Redis } from 'ioredis';
 
+/**
+ * 로그인 세션 (디바이스) 정보
+ * - 세션 ID는 로그인 시 발급되어 토큰 갱신 중에도 유지됩니다
+ */
+export interface SessionRecord {
+  sessionId: string;
+  tokenId: string; // 현재 유효한 리프레시 토큰 ID
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
 /**
  * Redis 서비스
  * - JWT 토큰 블랙리스트 관리
  * - 리프레시 토큰 저장 및 검증
+ * - 로그인 세션 (디바이스) 관리
  * - 로그인 시도 횟수 관리 (브루트 포스 방지)
+ * - 비밀번호 재설정/이메일 인증 토큰 관리 (1회용)
  * - 일반적인 캐시 기능
  */
 @Injectable()
@@ -82,8 +97,10 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
    * @param userId 사용자 ID
    */
   async blacklistUserTokens(userId: string): Promise<void> {
-    const pattern = `refresh_token:${userId}:*`;
-    const keys = await this.redis.keys(pattern);
+    const keys = [
+      ...(await this.redis.keys(`refresh_token:${userId}:*`)),
+      ...(await this.redis.keys(`session:${userId}:*`)),
+    ];
 
     if (keys.length > 0) {
       await this.redis.del(...keys);
@@ -91,6 +108,29 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * 지정한 세션을 제외한 사용자의 모든 세션과 리프레시 토큰 무효화 (비밀번호 변경 시)
+   * @param userId 사용자 ID
+   * @param keepSessionId 유지할 세션 ID
+   */
+  async removeOtherSessions(userId: string, keepSessionId: string): Promise<void> {
+    const keepSession = await this.getSession(userId, keepSessionId);
+    const keepKeys = new Set([
+      `session:${userId}:${keepSessionId}`,
+      ...(keepSession ? [`refresh_token:${userId}:${keepSession.tokenId}`] : []),
+    ]);
+
+    const keys = [
+      ...(await this.redis.keys(`refresh_token:${userId}:*`)),
+      ...(await this.redis.keys(`session:${userId}:*`)),
+    ].filter((key) => !keepKeys.has(key));
+
+    if (keys.length > 0) {
+      await this.redis.del(...keys);
+      this.logger.log(`사용자 ${userId}의 다른 세션이 모두 종료되었습니다`);
+    }
+  }
+
   /**
    * 리프레시 토큰 저장
    * @param userId 사용자 ID
@@ -115,6 +155,18 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return result === 'valid';
   }
 
+  /**
+   * 리프레시 토큰 1회 사용 처리 (회전용)
+   * 삭제에 성공한 첫 요청만 true를 받으므로 동시 요청에도 한 번만 사용됩니다.
+   * @param userId 사용자 ID
+   * @param tokenId 토큰 ID
+   * @returns 사용 가능한 토큰이었는지 여부
+   */
+  async consumeRefreshToken(userId: string, tokenId: string): Promise<boolean> {
+    const deleted = await this.redis.del(`refresh_token:${userId}:${tokenId}`);
+    return deleted === 1;
+  }
+
   /**
    * 특정 리프레시 토큰 삭제
    * @param userId 사용자 ID
@@ -126,6 +178,64 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     this.logger.debug(`리프레시 토큰이 삭제되었습니다: ${userId}:${tokenId}`);
   }
 
+  /**
+   * 세션 저장 (생성 또는 갱신)
+   * @param userId 사용자 ID
+   * @param session 세션 정보
+   * @param expiresIn 만료 시간 (초) - 리프레시 토큰과 같은 수명
+   */
+  async storeSession(userId: string, session: SessionRecord, expiresIn: number): Promise<void> {
+    const key = `session:${userId}:${session.sessionId}`;
+    await this.redis.setex(key, expiresIn, JSON.stringify(session));
+  }
+
+  /**
+   * 세션 조회
+   * @param userId 사용자 ID
+   * @param sessionId 세션 ID
+   * @returns 세션 정보 (없거나 만료되면 null)
+   */
+  async getSession(userId: string, sessionId: string): Promise<SessionRecord | null> {
+    const value = await this.redis.get(`session:${userId}:${sessionId}`);
+    return value ? (JSON.parse(value) as SessionRecord) : null;
+  }
+
+  /**
+   * 사용자의 모든 활성 세션 조회
+   * @param userId 사용자 ID
+   */
+  async getUserSessions(userId: string): Promise<SessionRecord[]> {
+    const keys = await this.redis.keys(`session:${userId}:*`);
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const values = await this.redis.mget(...keys);
+    return values
+      .filter((value): value is string => value !== null)
+      .map((value) => JSON.parse(value) as SessionRecord);
+  }
+
+  /**
+   * 세션 종료 - 세션과 연결된 리프레시 토큰도 함께 삭제
+   * @param userId 사용자 ID
+   * @param sessionId 세션 ID
+   * @returns 세션 존재 여부
+   */
+  async removeSession(userId: string, sessionId: string): Promise<boolean> {
+    const session = await this.getSession(userId, sessionId);
+    if (!session) {
+      return false;
+    }
+
+    await this.redis.del(
+      `session:${userId}:${sessionId}`,
+      `refresh_token:${userId}:${session.tokenId}`
+    );
+    this.logger.log(`세션이 종료되었습니다: ${userId}:${sessionId}`);
+    return true;
+  }
+
   /**
    * 로그인 시도 횟수 관리 (브루트 포스 방지)
    * @param identifier 식별자 (IP 주소 또는 이메일)
@@ -163,6 +273,55 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     await this.redis.del(key);
   }
 
+  /**
+   * 비밀번호 재설정 토큰 저장 (사용자당 하나만 유효)
+   * @param userId 사용자 ID
+   * @param tokenHash 재설정 토큰 해시
+   * @param expiresIn 만료 시간 (초)
+   */
+  async storePasswordResetToken(userId: string, tokenHash: string, expiresIn: number): Promise<void> {
+    await this.storeSingleUseToken('password_reset', userId, tokenHash, expiresIn);
+    this.logger.debug(`비밀번호 재설정 토큰이 저장되었습니다: ${userId}`);
+  }
+
+  /**
+   * 비밀번호 재설정 토큰 소유자 조회 (토큰은 삭제하지 않음)
+   * @param tokenHash 재설정 토큰 해시
+   * @returns 토큰 소유 사용자 ID (없거나 만료되었으면 null)
+   */
+  async findPasswordResetTokenOwner(tokenHash: string): Promise<string | null> {
+    return this.redis.get(`password_reset:${tokenHash}`);
+  }
+
+  /**
+   * 비밀번호 재설정 토큰 사용 (조회와 동시에 삭제하여 1회만 사용 가능)
+   * @param tokenHash 재설정 토큰 해시
+   * @returns 토큰 소유 사용자 ID (없거나 만료되었으면 null)
+   */
+  async consumePasswordResetToken(tokenHash: string): Promise<string | null> {
+    return this.consumeSingleUseToken('password_reset', tokenHash);
+  }
+
+  /**
+   * 이메일 인증 토큰 저장 (사용자당 하나만 유효)
+   * @param userId 사용자 ID
+   * @param tokenHash 인증 토큰 해시
+   * @param expiresIn 만료 시간 (초)
+   */
+  async storeEmailVerificationToken(userId: string, tokenHash: string, expiresIn: number): Promise<void> {
+    await this.storeSingleUseToken('email_verification', userId, tokenHash, expiresIn);
+    this.logger.debug(`이메일 인증 토큰이 저장되었습니다: ${userId}`);
+  }
+
+  /**
+   * 이메일 인증 토큰 사용 (조회와 동시에 삭제하여 1회만 사용 가능)
+   * @param tokenHash 인증 토큰 해시
+   * @returns 토큰 소유 사용자 ID (없거나 만료되었으면 null)
+   */
+  async consumeEmailVerificationToken(tokenHash: string): Promise<string | null> {
+    return this.consumeSingleUseToken('email_verification', tokenHash);
+  }
+
   /**
    * 일반적인 캐시 설정
    * @param key 키
@@ -186,6 +345,15 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return await this.redis.get(key);
   }
 
+  /**
+   * 조회 후 삭제 (1회용 값 소비 - 동시 요청 중 하나만 값을 받음)
+   * @param key 키
+   * @returns 값
+   */
+  async getdel(key: string): Promise<string | null> {
+    return await this.redis.getdel(key);
+  }
+
   /**
    * 캐시 삭제
    * @param key 키
@@ -194,6 +362,45 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     await this.redis.del(key);
   }
 
+  /**
+   * 1회용 토큰 저장 - 새 토큰을 발급하면 같은 용도의 이전 토큰은 무효화
+   * @param purpose 토큰 용도 (키 접두사)
+   * @param userId 사용자 ID
+   * @param tokenHash 토큰 해시
+   * @param expiresIn 만료 시간 (초)
+   */
+  private async storeSingleUseToken(
+    purpose: string,
+    userId: string,
+    tokenHash: string,
+    expiresIn: number
+  ): Promise<void> {
+    const userKey = `${purpose}_user:${userId}`;
+    const previousHash = await this.redis.get(userKey);
+
+    const pipeline = this.redis.multi();
+    if (previousHash) {
+      pipeline.del(`${purpose}:${previousHash}`);
+    }
+    pipeline.setex(`${purpose}:${tokenHash}`, expiresIn, userId);
+    pipeline.setex(userKey, expiresIn, tokenHash);
+    await pipeline.exec();
+  }
+
+  /**
+   * 1회용 토큰 사용 (GETDEL로 조회와 삭제를 원자적으로 처리)
+   * @param purpose 토큰 용도 (키 접두사)
+   * @param tokenHash 토큰 해시
+   * @returns 토큰 소유 사용자 ID
+   */
+  private async consumeSingleUseToken(purpose: string, tokenHash: string): Promise<string | null> {
+    const userId = await this.redis.getdel(`${purpose}:${tokenHash}`);
+    if (userId) {
+      await this.redis.del(`${purpose}_user:${userId}`);
+    }
+    return userId;
+  }
+
   /**
    * 블랙리스트 키 생성
    * @param token 토큰
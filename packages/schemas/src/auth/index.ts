@@ -78,6 +78,39 @@ export const verifyEmailSchema = z
   })
   .strict();
 
+// 2단계 인증 코드 스키마 (인증 앱의 6자리 TOTP 코드)
+export const twoFactorCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .regex(/^\d{6}$/, '인증 앱의 6자리 코드를 입력해주세요'),
+  })
+  .strict();
+
+// 2단계 인증 해제 스키마 (TOTP 코드 또는 복구 코드)
+export const twoFactorDisableSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(6, '인증 코드 또는 복구 코드를 입력해주세요')
+      .max(32, '인증 코드가 너무 깁니다'),
+  })
+  .strict();
+
+// 2단계 로그인 스키마 (로그인 시 받은 챌린지 토큰 + TOTP 코드 또는 복구 코드)
+export const twoFactorLoginSchema = z
+  .object({
+    challengeToken: z.string().min(1, '챌린지 토큰을 입력해주세요'),
+    code: z
+      .string()
+      .trim()
+      .min(6, '인증 코드 또는 복구 코드를 입력해주세요')
+      .max(32, '인증 코드가 너무 깁니다'),
+  })
+  .strict();
+
 // 소셜 인증 콜백 스키마
 export const socialAuthCallbackSchema = z
   .object({
@@ -86,6 +119,16 @@ export const socialAuthCallbackSchema = z
   })
   .strict();
 
+// 지원하는 소셜 로그인 제공자
+export const socialProviderSchema = z.enum(['google', 'github']);
+
+// 소셜 로그인 완료 스키마 (콜백 리다이렉트로 받은 1회용 코드를 토큰으로 교환)
+export const socialLoginExchangeSchema = z
+  .object({
+    code: z.string().min(1, '로그인 코드를 입력해주세요'),
+  })
+  .strict();
+
 // 프로필 업데이트 스키마
 export const updateProfileSchema = z
   .object({
@@ -189,7 +232,12 @@ export type ChangePasswordDto = z.infer<typeof changePasswordSchema>;
 export type ForgotPasswordDto = z.infer<typeof forgotPasswordSchema>;
 export type ResetPasswordDto = z.infer<typeof resetPasswordSchema>;
 export type VerifyEmailDto = z.infer<typeof verifyEmailSchema>;
+export type TwoFactorCodeDto = z.infer<typeof twoFactorCodeSchema>;
+export type TwoFactorDisableDto = z.infer<typeof twoFactorDisableSchema>;
+export type TwoFactorLoginDto = z.infer<typeof twoFactorLoginSchema>;
 export type SocialAuthCallbackDto = z.infer<typeof socialAuthCallbackSchema>;
+export type SocialProvider = z.infer<typeof socialProviderSchema>;
+export type SocialLoginExchangeDto = z.infer<typeof socialLoginExchangeSchema>;
 export type UpdateProfileDto = z.infer<typeof updateProfileSchema>;
 export type UpdateSettingsDto = z.infer<typeof updateSettingsSchema>;
 // export type DeleteAccountDto = z.infer<typeof deleteAccountSchema>;
@@ -210,7 +258,7 @@ export interface AuthUser {
   firstName?: string;
   lastName?: string;
   avatar?: string;
-  role: 'USER' | 'INSTRUCTOR';
+  role: 'USER' | 'INSTRUCTOR' | 'ADMIN';
   isActive: boolean;
   isVerified: boolean;
   createdAt: string;
@@ -223,6 +271,25 @@ export interface LoginResponse {
   tokens: AuthTokens;
 }
 
+// 2단계 인증이 켜진 계정의 로그인 1단계 응답 (토큰 대신 챌린지 발급)
+export interface TwoFactorChallenge {
+  requiresTwoFactor: true;
+  challengeToken: string;
+  expiresIn: number; // 초
+}
+
+// 2단계 인증 등록 시작 응답
+export interface TwoFactorSetup {
+  secret: string; // 수동 입력용 Base32 시크릿
+  otpauthUri: string; // 인증 앱 등록용 otpauth:// URI (QR 코드 내용)
+}
+
+// 2단계 인증 상태
+export interface TwoFactorStatus {
+  enabled: boolean;
+  remainingRecoveryCodes: number;
+}
+
 export interface RegisterResponse {
   user: AuthUser;
   message: string;
@@ -253,21 +320,35 @@ export interface AuthError {
 export interface TokenPayload {
   userId: string;
   email: string;
-  role: 'USER' | 'INSTRUCTOR';
+  role: 'USER' | 'INSTRUCTOR' | 'ADMIN';
   tokenId: string;
   type: 'access' | 'refresh';
   iat: number;
   exp: number;
 }
 
-// 세션 정보 타입
+// 연결된 소셜 계정 타입
+export interface ConnectedAccount {
+  provider: SocialProvider;
+  connectedAt: string;
+}
+
+// 로그인 수단 현황 (마지막 로그인 수단 해제 방지에 사용)
+export interface ConnectedAccounts {
+  hasPassword: boolean;
+  accounts: ConnectedAccount[];
+}
+
+// 세션(로그인 디바이스) 정보 타입
 export interface SessionInfo {
-  tokenId: string;
-  userId: string;
-  deviceInfo: string;
-  ipAddress: string;
+  sessionId: string;
+  browser: string;
+  os: string;
+  device: string;
+  ipAddress: string | null;
   lastUsed: string;
   createdAt: string;
+  current: boolean; // 요청을 보낸 세션 여부
 }
 
 // ==============================
@@ -285,6 +366,13 @@ export function sanitizeUserResponse(user: any): Omit<AuthUser, 'password'> {
   };
 }
 
+// 2단계 인증 챌린지 응답 여부 확인 (로그인 응답 타입 좁히기)
+export function isTwoFactorChallenge<T extends object>(
+  response: T | TwoFactorChallenge
+): response is TwoFactorChallenge {
+  return !!response && 'requiresTwoFactor' in response && response.requiresTwoFactor === true;
+}
+
 // 비밀번호 검증 함수
 export function validatePassword(password: string): {
   isValid: boolean;
@@ -0,0 +1,122 @@
+// ==============================
+// 💬 챕터 댓글/Q&A 통합 스키마
+// API 서비스와 웹 클라이언트에서 공통으로 사용
+// ==============================
+
+import { z } from 'zod';
+import { idSchema } from '../base';
+
+// ===================================
+// 🔍 기본 댓글 스키마들
+// ===================================
+
+// 댓글 본문
+export const commentTextSchema = z
+  .string()
+  .trim()
+  .min(1, '댓글 내용을 입력해주세요')
+  .max(2000, '댓글은 2000자를 초과할 수 없습니다');
+
+// 댓글 작성 스키마
+export const createCommentSchema = z
+  .object({
+    text: commentTextSchema,
+    parentId: idSchema.optional(), // 답글인 경우 상위 댓글 ID
+    videoTimestamp: z
+      .number()
+      .min(0, '영상 위치는 0 이상이어야 합니다')
+      .optional(), // 초 단위
+  })
+  .strict();
+
+// 댓글 수정 스키마
+export const updateCommentSchema = z
+  .object({
+    text: commentTextSchema,
+  })
+  .strict();
+
+// 답변 완료 표시 스키마 (강사용)
+export const markCommentAnsweredSchema = z
+  .object({
+    answered: z.boolean(),
+  })
+  .strict();
+
+// 댓글 목록 쿼리 스키마 (커서 기반 페이지네이션)
+export const commentQuerySchema = z
+  .object({
+    cursor: idSchema.optional(), // 마지막으로 받은 댓글 ID
+    limit: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 20))
+      .pipe(z.number().int().min(1).max(50, '한 번에 최대 50개까지 조회할 수 있습니다')),
+    answered: z
+      .enum(['true', 'false'])
+      .optional()
+      .transform((val) => (val ? val === 'true' : undefined)),
+  })
+  .strict();
+
+// ===================================
+// 📝 TypeScript 타입 추출
+// ===================================
+
+export type CreateCommentDto = z.infer<typeof createCommentSchema>;
+export type UpdateCommentDto = z.infer<typeof updateCommentSchema>;
+export type MarkCommentAnsweredDto = z.infer<typeof markCommentAnsweredSchema>;
+export type CommentQueryDto = z.infer<typeof commentQuerySchema>;
+
+// ===================================
+// 🏗️ 인터페이스 정의
+// ===================================
+
+// 댓글 작성자 정보
+export interface CommentAuthor {
+  id: string;
+  username: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  avatar: string | null;
+}
+
+// 댓글 (답글 포함)
+export interface ChapterComment {
+  commentId: string;
+  chapterId: string;
+  userId: string;
+  parentId: string | null;
+  text: string;
+  videoTimestamp: number | null;
+  isAnswered: boolean;
+  answeredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  user: CommentAuthor;
+  replies?: ChapterComment[];
+}
+
+// 커서 페이지 응답
+export interface CommentPage {
+  items: ChapterComment[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// ===================================
+// 🔧 유틸리티 함수들
+// ===================================
+
+// 영상 위치 포맷팅 (초 -> m:ss / h:mm:ss)
+export function formatVideoTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const remainingSeconds = total % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+}
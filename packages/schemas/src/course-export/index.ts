@@ -0,0 +1,52 @@
+// ==============================
+// 📦 강의 내보내기/가져오기 통합 스키마
+// API 서비스와 웹 클라이언트에서 공통으로 사용
+// ==============================
+
+import { z } from 'zod';
+import { courseSnapshotSchema } from '../course-revision';
+
+// ===================================
+// 📚 내보내기 형식 상수
+// ===================================
+
+export const COURSE_EXPORT_FORMAT = 'course-export';
+
+// 형식이 바뀌면 버전을 올리고 이전 버전 변환 로직을 추가
+export const COURSE_EXPORT_VERSION = 1;
+
+// 가져오기 파일 최대 크기 (5MB)
+export const COURSE_IMPORT_MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+// ===================================
+// 🔍 내보내기 스키마
+// ===================================
+
+// 내보내는 강의 트리 (강의 정보, 섹션, 챕터, 퀴즈, 영상 URL - ID는 가져올 때 새로 발급)
+export const courseExportContentSchema = courseSnapshotSchema.extend({
+  image: z.string().max(2000, '이미지 URL은 2000자를 초과할 수 없습니다').nullable(),
+  isSequential: z.boolean().default(false),
+});
+
+// 강의 내보내기 파일
+export const courseExportSchema = z
+  .object({
+    format: z.literal(COURSE_EXPORT_FORMAT, {
+      errorMap: () => ({ message: '강의 내보내기 파일이 아닙니다' }),
+    }),
+    version: z.literal(COURSE_EXPORT_VERSION, {
+      errorMap: () => ({
+        message: `지원하지 않는 내보내기 버전입니다 (지원 버전: ${COURSE_EXPORT_VERSION})`,
+      }),
+    }),
+    exportedAt: z.string().datetime('내보낸 시각 형식이 올바르지 않습니다'),
+    course: courseExportContentSchema,
+  })
+  .strict();
+
+// ===================================
+// 📝 TypeScript 타입 추출
+// ===================================
+
+export type CourseExportContent = z.infer<typeof courseExportContentSchema>;
+export type CourseExport = z.infer<typeof courseExportSchema>;
@@ -0,0 +1,279 @@
+// ==============================
+// 🗂️ 강의 개정판(초안/게시) 통합 스키마
+// API 서비스와 웹 클라이언트에서 공통으로 사용
+// ==============================
+
+import { z } from 'zod';
+import { idSchema } from '../base';
+import { courseLevelSchema, chapterTypeSchema } from '../course';
+import { upsertQuizSchema } from '../quiz';
+
+// ===================================
+// 🔍 강의 콘텐츠 스냅샷 스키마
+// ===================================
+
+// 스냅샷 챕터 (퀴즈 문항은 정답 포함)
+export const courseSnapshotChapterSchema = z
+  .object({
+    chapterId: idSchema,
+    type: chapterTypeSchema,
+    title: z
+      .string()
+      .min(1, '챕터 제목은 필수입니다')
+      .max(200, '챕터 제목은 200자를 초과할 수 없습니다'),
+    content: z.string().max(10000, '챕터 내용은 10,000자를 초과할 수 없습니다'),
+    video: z.string().nullable(),
+    freePreview: z.boolean(),
+    quiz: upsertQuizSchema.nullable(),
+  })
+  .strict();
+
+// 스냅샷 섹션
+export const courseSnapshotSectionSchema = z
+  .object({
+    sectionId: idSchema,
+    sectionTitle: z
+      .string()
+      .min(1, '섹션 제목은 필수입니다')
+      .max(200, '섹션 제목은 200자를 초과할 수 없습니다'),
+    sectionDescription: z
+      .string()
+      .max(1000, '섹션 설명은 1000자를 초과할 수 없습니다')
+      .nullable(),
+    chapters: z.array(courseSnapshotChapterSchema),
+  })
+  .strict();
+
+// 강의 콘텐츠 스냅샷 (개정판 초안과 게시본 비교 단위, 학습 순서 규칙은 제외)
+export const courseSnapshotSchema = z
+  .object({
+    title: z.string().min(1, '강의 제목은 필수입니다').max(200, '제목은 200자를 초과할 수 없습니다'),
+    description: z.string().max(2000, '설명은 2000자를 초과할 수 없습니다').nullable(),
+    category: z
+      .string()
+      .min(1, '카테고리는 필수입니다')
+      .max(100, '카테고리는 100자를 초과할 수 없습니다'),
+    price: z.number().int().min(0, '가격은 0 이상이어야 합니다').nullable(),
+    level: courseLevelSchema,
+    sections: z.array(courseSnapshotSectionSchema),
+  })
+  .strict();
+
+// ===================================
+// 📝 TypeScript 타입 추출
+// ===================================
+
+export type CourseSnapshotChapter = z.infer<typeof courseSnapshotChapterSchema>;
+export type CourseSnapshotSection = z.infer<typeof courseSnapshotSectionSchema>;
+export type CourseSnapshot = z.infer<typeof courseSnapshotSchema>;
+
+// ===================================
+// 🏗️ 인터페이스 정의
+// ===================================
+
+// 개정판 상태
+export type CourseRevisionStatus = 'draft' | 'published';
+
+// 편집 중인 강의 콘텐츠 (초안이 없으면 게시본 스냅샷)
+export interface CourseRevisionDraft {
+  courseId: string;
+  editingDraft: boolean; // 게시된 강의이거나 초안이 있어 변경 사항이 초안에 저장되는지 여부
+  revisionId: string | null; // 저장된 초안이 없으면 null
+  updatedAt: string | null;
+  content: CourseSnapshot;
+}
+
+// 강의 정보 변경 항목
+export type CourseRevisionField = 'title' | 'description' | 'category' | 'price' | 'level';
+
+export interface CourseRevisionFieldChange {
+  field: CourseRevisionField;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+// 섹션/챕터 변경 항목 (moved: 다른 섹션으로 이동, position: 같은 목록 안에서 순서 변경)
+export type CourseRevisionChangeType = 'added' | 'removed' | 'modified';
+
+export interface CourseRevisionItemChange {
+  id: string;
+  title: string;
+  change: CourseRevisionChangeType;
+  fields: string[];
+  sectionTitle?: string; // 챕터 변경 시 소속 섹션 (삭제된 챕터는 기존 섹션)
+}
+
+// 초안과 게시본의 차이
+export interface CourseRevisionDiff {
+  hasChanges: boolean;
+  course: CourseRevisionFieldChange[];
+  sections: CourseRevisionItemChange[];
+  chapters: CourseRevisionItemChange[];
+}
+
+// 개정판 게시 결과
+export interface CourseRevisionPublishResult {
+  courseId: string;
+  revisionId: string;
+  publishedAt: string;
+  migratedProgressCount: number; // 진도가 재구성된 수강생 수
+  removedChapterIds: string[];
+}
+
+// ===================================
+// 🔧 유틸리티 함수들
+// ===================================
+
+const COURSE_REVISION_FIELDS: CourseRevisionField[] = [
+  'title',
+  'description',
+  'category',
+  'price',
+  'level',
+];
+const SECTION_REVISION_FIELDS = ['sectionTitle', 'sectionDescription'] as const;
+const CHAPTER_REVISION_FIELDS = ['type', 'title', 'content', 'video', 'freePreview'] as const;
+
+// 키 순서와 무관한 JSON 문자열 (JSONB 저장 시 객체 키 순서가 바뀌므로 비교용으로 정규화)
+function toStableJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(toStableJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${toStableJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// 두 스냅샷 값이 같은지 비교 (퀴즈처럼 중첩된 값 포함)
+export function isSameSnapshotValue(a: unknown, b: unknown): boolean {
+  return toStableJson(a) === toStableJson(b);
+}
+
+// 두 순서에서 상대 순서가 바뀐 공통 항목 (최장 증가 부분 수열에 속하지 않는 항목)
+function findMovedIds(beforeIds: string[], afterIds: string[]): Set<string> {
+  const beforeIndex = new Map(beforeIds.map((id, index) => [id, index]));
+  const common = afterIds.filter((id) => beforeIndex.has(id));
+  const positions = common.map((id) => beforeIndex.get(id) as number);
+
+  // 섹션/챕터 수가 많지 않으므로 O(n²) 계산으로 충분
+  const lengths = positions.map(() => 1);
+  const previous = positions.map(() => -1);
+  for (let i = 0; i < positions.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (positions[j] < positions[i] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  }
+
+  const kept = new Set<string>();
+  let index = lengths.indexOf(Math.max(0, ...lengths));
+  while (index >= 0) {
+    kept.add(common[index]);
+    index = previous[index];
+  }
+
+  return new Set(common.filter((id) => !kept.has(id)));
+}
+
+// 게시본(live)과 초안(draft)의 차이 계산
+export function diffCourseSnapshots(
+  live: CourseSnapshot,
+  draft: CourseSnapshot
+): CourseRevisionDiff {
+  const course = COURSE_REVISION_FIELDS.filter((field) => live[field] !== draft[field]).map(
+    (field) => ({ field, before: live[field], after: draft[field] })
+  );
+
+  // 섹션 변경
+  const liveSections = new Map(live.sections.map((section) => [section.sectionId, section]));
+  const draftSectionIds = new Set(draft.sections.map((section) => section.sectionId));
+  const movedSectionIds = findMovedIds(
+    live.sections.map((section) => section.sectionId),
+    draft.sections.map((section) => section.sectionId)
+  );
+
+  const sections: CourseRevisionItemChange[] = [];
+  for (const section of draft.sections) {
+    const before = liveSections.get(section.sectionId);
+    if (!before) {
+      sections.push({ id: section.sectionId, title: section.sectionTitle, change: 'added', fields: [] });
+      continue;
+    }
+
+    const fields: string[] = SECTION_REVISION_FIELDS.filter((field) => before[field] !== section[field]);
+    if (movedSectionIds.has(section.sectionId)) fields.push('position');
+    if (fields.length > 0) {
+      sections.push({ id: section.sectionId, title: section.sectionTitle, change: 'modified', fields });
+    }
+  }
+  for (const section of live.sections) {
+    if (!draftSectionIds.has(section.sectionId)) {
+      sections.push({ id: section.sectionId, title: section.sectionTitle, change: 'removed', fields: [] });
+    }
+  }
+
+  // 챕터 변경
+  const liveChapters = new Map(
+    live.sections.flatMap((section) =>
+      section.chapters.map((chapter) => [chapter.chapterId, { chapter, section }] as const)
+    )
+  );
+  const draftChapterIds = new Set(
+    draft.sections.flatMap((section) => section.chapters.map((chapter) => chapter.chapterId))
+  );
+
+  const chapters: CourseRevisionItemChange[] = [];
+  for (const section of draft.sections) {
+    const liveSection = liveSections.get(section.sectionId);
+    const movedChapterIds = findMovedIds(
+      liveSection?.chapters.map((chapter) => chapter.chapterId) ?? [],
+      section.chapters.map((chapter) => chapter.chapterId)
+    );
+
+    for (const chapter of section.chapters) {
+      const before = liveChapters.get(chapter.chapterId);
+      const base = { id: chapter.chapterId, title: chapter.title, sectionTitle: section.sectionTitle };
+      if (!before) {
+        chapters.push({ ...base, change: 'added', fields: [] });
+        continue;
+      }
+
+      const fields: string[] = CHAPTER_REVISION_FIELDS.filter(
+        (field) => before.chapter[field] !== chapter[field]
+      );
+      if (!isSameSnapshotValue(before.chapter.quiz, chapter.quiz)) fields.push('quiz');
+      if (before.section.sectionId !== section.sectionId) {
+        fields.push('moved');
+      } else if (movedChapterIds.has(chapter.chapterId)) {
+        fields.push('position');
+      }
+      if (fields.length > 0) {
+        chapters.push({ ...base, change: 'modified', fields });
+      }
+    }
+  }
+  for (const { chapter, section } of liveChapters.values()) {
+    if (!draftChapterIds.has(chapter.chapterId)) {
+      chapters.push({
+        id: chapter.chapterId,
+        title: chapter.title,
+        sectionTitle: section.sectionTitle,
+        change: 'removed',
+        fields: [],
+      });
+    }
+  }
+
+  return {
+    hasChanges: course.length > 0 || sections.length > 0 || chapters.length > 0,
+    course,
+    sections,
+    chapters,
+  };
+}
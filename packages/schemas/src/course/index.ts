@@ -152,6 +152,101 @@ export const courseQuerySchema = paginationSchema
   })
   .strict();
 
+// 강의 내용 전체 텍스트 검색 스키마 (강의/섹션/챕터)
+export const courseContentSearchSchema = z
+  .object({
+    q: z
+      .string()
+      .trim()
+      .min(2, '검색어는 2자 이상이어야 합니다')
+      .max(100, '검색어는 100자를 초과할 수 없습니다'),
+    limit: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 10))
+      .pipe(z.number().int().min(1).max(30, '최대 30개 강의까지 조회할 수 있습니다')),
+  })
+  .strict();
+
+// 학습 순서 규칙 스키마 (순차 학습, 선수 과목)
+export const courseAccessRulesSchema = z
+  .object({
+    isSequential: z.boolean(),
+    sequentialSectionIds: z.array(idSchema).default([]),
+    prerequisiteCourseIds: z
+      .array(idSchema)
+      .max(10, '선수 과목은 최대 10개까지 지정할 수 있습니다')
+      .default([]),
+  })
+  .strict();
+
+// 미리보기 챕터 지정 스키마 (목록에 없는 챕터는 미리보기 해제)
+export const coursePreviewChaptersSchema = z
+  .object({
+    chapterIds: z
+      .array(idSchema)
+      .max(50, '미리보기 챕터는 최대 50개까지 지정할 수 있습니다')
+      .default([]),
+  })
+  .strict();
+
+// 섹션 생성 스키마 (섹션 단위 편집, 새 섹션은 마지막 순서에 추가)
+export const createSectionSchema = z
+  .object({
+    sectionTitle: z
+      .string()
+      .trim()
+      .min(1, '섹션 제목은 필수입니다')
+      .max(200, '섹션 제목은 200자를 초과할 수 없습니다'),
+    sectionDescription: z
+      .string()
+      .max(1000, '섹션 설명은 1000자를 초과할 수 없습니다')
+      .optional(),
+  })
+  .strict();
+
+// 섹션 수정 스키마 (전달된 항목만 수정)
+export const updateSectionSchema = createSectionSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, '수정할 항목이 없습니다');
+
+// 챕터 생성 스키마 (챕터 단위 편집, 새 챕터는 섹션의 마지막 순서에 추가)
+export const createChapterSchema = z
+  .object({
+    title: z
+      .string()
+      .trim()
+      .min(1, '챕터 제목은 필수입니다')
+      .max(200, '챕터 제목은 200자를 초과할 수 없습니다'),
+    content: z
+      .string()
+      .max(10000, '챕터 내용은 10,000자를 초과할 수 없습니다')
+      .default(''),
+    type: z.nativeEnum(ChapterType),
+    video: z.string().url('올바른 비디오 URL이 아닙니다').nullable().optional(),
+    freePreview: z.boolean().default(false),
+  })
+  .strict();
+
+// 챕터 수정 스키마 (전달된 항목만 수정, video: null 이면 영상 제거)
+export const updateChapterSchema = createChapterSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, '수정할 항목이 없습니다');
+
+// 섹션 순서 이동 스키마 (0부터 시작하는 목표 위치, 범위를 넘으면 마지막으로 이동)
+export const moveSectionSchema = z
+  .object({
+    orderIndex: z.number().int().min(0, '순서는 0 이상이어야 합니다'),
+  })
+  .strict();
+
+// 챕터 순서 이동 스키마 (targetSectionId 지정 시 같은 강의의 다른 섹션으로 이동)
+export const moveChapterSchema = moveSectionSchema
+  .extend({
+    targetSectionId: idSchema.optional(),
+  })
+  .strict();
+
 // 섹션 스키마
 export const sectionSchema = z
   .object({
@@ -207,6 +302,15 @@ export type UpdateCourseFormDataDto = z.infer<
   typeof updateCourseFormDataSchema
 >;
 export type CourseQueryDto = z.infer<typeof courseQuerySchema>;
+export type CourseContentSearchDto = z.infer<typeof courseContentSearchSchema>;
+export type CourseAccessRulesDto = z.infer<typeof courseAccessRulesSchema>;
+export type CoursePreviewChaptersDto = z.infer<typeof coursePreviewChaptersSchema>;
+export type CreateSectionDto = z.infer<typeof createSectionSchema>;
+export type UpdateSectionDto = z.infer<typeof updateSectionSchema>;
+export type CreateChapterDto = z.infer<typeof createChapterSchema>;
+export type UpdateChapterDto = z.infer<typeof updateChapterSchema>;
+export type MoveSectionDto = z.infer<typeof moveSectionSchema>;
+export type MoveChapterDto = z.infer<typeof moveChapterSchema>;
 export type SectionDto = z.infer<typeof sectionSchema>;
 export type ChapterDto = z.infer<typeof chapterSchema>;
 export type UploadVideoUrlDto = z.infer<typeof uploadVideoUrlSchema>;
@@ -227,6 +331,7 @@ export interface Course {
   price?: number; // 원 단위 (예: 49000)
   level: CourseLevel;
   status: CourseStatus;
+  isSequential?: boolean;
   sections: Section[];
   enrollments?: Array<{
     userId: string;
@@ -246,6 +351,7 @@ export interface Section {
   sectionTitle: string;
   sectionDescription?: string;
   order: number;
+  isSequential?: boolean;
   chapters: Chapter[];
   courseId: string;
   createdAt: string;
@@ -281,6 +387,42 @@ export interface UploadVideoResponse {
   };
 }
 
+// 전체 텍스트 검색 결과 인터페이스
+export type CourseSearchMatchType = 'section' | 'chapter';
+
+export interface CourseSearchMatch {
+  type: CourseSearchMatchType;
+  sectionId: string;
+  sectionTitle: string;
+  chapterId: string | null; // 챕터가 없는 섹션이면 null
+  chapterTitle: string | null;
+  snippet: string; // SEARCH_HIGHLIGHT_START/END로 감싼 하이라이트 포함
+  rank: number;
+  url: string | null; // 챕터 딥링크
+}
+
+export interface CourseSearchHit {
+  courseId: string;
+  title: string;
+  category: string;
+  image: string | null;
+  teacherName: string;
+  rank: number; // 강의 및 하위 매치 중 최고 점수
+  snippet: string | null; // 강의 제목/설명 매치 하이라이트
+  matches: CourseSearchMatch[];
+}
+
+// 미리보기 챕터 (비수강생 공개 응답)
+export interface ChapterPreview {
+  chapterId: string;
+  courseId: string;
+  sectionTitle: string;
+  title: string;
+  content: string;
+  video: string | null;
+  type: ChapterType;
+}
+
 // 강의 통계 인터페이스
 export interface CourseStats {
   totalCourses: number;
@@ -302,6 +444,45 @@ export interface CourseStats {
 // 🔧 유틸리티 함수들
 // ===================================
 
+// 검색 하이라이트 구분자 (ts_headline StartSel/StopSel)
+export const SEARCH_HIGHLIGHT_START = '<mark>';
+export const SEARCH_HIGHLIGHT_END = '</mark>';
+
+// 챕터 딥링크 생성 함수
+export function buildChapterDeepLink(courseId: string, chapterId: string): string {
+  return `/user/courses/${courseId}/chapters/${chapterId}`;
+}
+
+// 하이라이트 스니펫을 일반/강조 조각으로 분리 (HTML 렌더링 없이 표시하기 위함)
+export function splitSearchSnippet(
+  snippet: string
+): Array<{ text: string; highlighted: boolean }> {
+  const parts: Array<{ text: string; highlighted: boolean }> = [];
+  let rest = snippet;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(SEARCH_HIGHLIGHT_START);
+    if (start === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+    const end = rest.indexOf(SEARCH_HIGHLIGHT_END, start);
+    if (end === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    if (start > 0) parts.push({ text: rest.slice(0, start), highlighted: false });
+    parts.push({
+      text: rest.slice(start + SEARCH_HIGHLIGHT_START.length, end),
+      highlighted: true,
+    });
+    rest = rest.slice(end + SEARCH_HIGHLIGHT_END.length);
+  }
+
+  return parts;
+}
+
 // 강의 필터 생성 함수
 export function createCourseFilter(query: CourseQueryDto) {
   const filter: any = {};
@@ -346,11 +527,15 @@ export function createCourseFilter(query: CourseQueryDto) {
   return filter;
 }
 
-// 정렬 옵션 생성 함수
+// 정렬 옵션 생성 함수 (동일 값은 courseId로 정렬해 페이지 간 순서 고정)
 export function createCourseOrderBy(query: CourseQueryDto) {
-  return {
-    [query.sortBy]: query.sortOrder,
-  };
+  // 수강생 수는 관계 개수 기준으로 정렬
+  const primary =
+    query.sortBy === 'enrollments'
+      ? { enrollments: { _count: query.sortOrder } }
+      : { [query.sortBy]: query.sortOrder };
+
+  return [primary, { courseId: query.sortOrder }];
 }
 
 // 강의 통계 계산 함수
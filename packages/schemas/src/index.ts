@@ -21,6 +21,18 @@ export * from './transaction';
 // 사용자 강의 진도 스키마
 export * from './user-course-progress';
 
+// 퀴즈 스키마
+export * from './quiz';
+
+// 강의 개정판(초안/게시) 스키마
+export * from './course-revision';
+
+// 강의 내보내기/가져오기 스키마
+export * from './course-export';
+
+// 챕터 댓글/Q&A 스키마
+export * from './comment';
+
 // API 스키마 (기존 common 패키지에서 이전)
 // export * from './api.ts.backup';
 
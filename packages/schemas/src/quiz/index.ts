@@ -0,0 +1,340 @@
+// ==============================
+// 📝 퀴즈 챕터 통합 스키마
+// API 서비스와 웹 클라이언트에서 공통으로 사용
+// ==============================
+
+import { z } from 'zod';
+import { idSchema } from '../base';
+
+// ===================================
+// 🔍 기본 퀴즈 스키마들
+// ===================================
+
+// 문항 유형
+export const QuizQuestionType = {
+  SINGLE_CHOICE: 'SingleChoice',
+  MULTIPLE_CHOICE: 'MultipleChoice',
+  TRUE_FALSE: 'TrueFalse',
+  SHORT_ANSWER: 'ShortAnswer',
+} as const;
+
+export const quizQuestionTypeSchema = z.enum(
+  ['SingleChoice', 'MultipleChoice', 'TrueFalse', 'ShortAnswer'],
+  {
+    errorMap: () => ({ message: '올바른 문항 유형을 선택해주세요' }),
+  }
+);
+
+// 선택지 스키마
+export const quizOptionSchema = z
+  .object({
+    optionId: idSchema,
+    text: z
+      .string()
+      .min(1, '선택지 내용을 입력해주세요')
+      .max(500, '선택지는 500자를 초과할 수 없습니다'),
+  })
+  .strict();
+
+// 문항 스키마 (강사 작성용 - 정답 포함)
+export const quizQuestionSchema = z
+  .object({
+    questionId: idSchema,
+    type: quizQuestionTypeSchema,
+    prompt: z
+      .string()
+      .min(1, '문항 내용을 입력해주세요')
+      .max(2000, '문항은 2000자를 초과할 수 없습니다'),
+    options: z.array(quizOptionSchema).max(10, '선택지는 최대 10개까지 가능합니다').default([]),
+    correctOptionIds: z.array(idSchema).default([]),
+    acceptedAnswers: z
+      .array(z.string().min(1).max(200, '정답은 200자를 초과할 수 없습니다'))
+      .max(10, '허용 정답은 최대 10개까지 가능합니다')
+      .default([]),
+    explanation: z.string().max(2000, '해설은 2000자를 초과할 수 없습니다').optional(),
+    points: z.number().int().min(1, '배점은 1점 이상이어야 합니다').max(100).default(1),
+  })
+  .strict()
+  .superRefine((question, ctx) => {
+    if (question.type === 'ShortAnswer') {
+      if (question.acceptedAnswers.length === 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: '주관식 문항에는 최소 1개의 정답이 필요합니다',
+          path: ['acceptedAnswers'],
+        });
+      }
+      return;
+    }
+
+    if (question.options.length < 2) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: '객관식 문항에는 최소 2개의 선택지가 필요합니다',
+        path: ['options'],
+      });
+    }
+    if (question.type === 'TrueFalse' && question.options.length !== 2) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'O/X 문항은 선택지가 정확히 2개여야 합니다',
+        path: ['options'],
+      });
+    }
+
+    const optionIds = new Set(question.options.map((option) => option.optionId));
+    if (question.correctOptionIds.some((id) => !optionIds.has(id))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: '정답은 선택지 중에서 골라야 합니다',
+        path: ['correctOptionIds'],
+      });
+    }
+
+    if (question.type === 'MultipleChoice') {
+      if (question.correctOptionIds.length < 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: '복수 선택 문항에는 최소 1개의 정답이 필요합니다',
+          path: ['correctOptionIds'],
+        });
+      }
+    } else if (question.correctOptionIds.length !== 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: '단일 선택 문항은 정답이 정확히 1개여야 합니다',
+        path: ['correctOptionIds'],
+      });
+    }
+  });
+
+// 퀴즈 저장 스키마 (강사용 - 문항 전체 교체)
+export const upsertQuizSchema = z
+  .object({
+    passThreshold: z
+      .number()
+      .int()
+      .min(0, '통과 기준은 0-100 사이여야 합니다')
+      .max(100, '통과 기준은 0-100 사이여야 합니다')
+      .default(70),
+    maxAttempts: z
+      .number()
+      .int()
+      .min(1, '최대 응시 횟수는 1회 이상이어야 합니다')
+      .max(100, '최대 응시 횟수는 100회를 초과할 수 없습니다')
+      .nullable()
+      .default(null), // null이면 무제한
+    questions: z
+      .array(quizQuestionSchema)
+      .min(1, '최소 1개의 문항이 필요합니다')
+      .max(100, '문항은 최대 100개까지 가능합니다'),
+  })
+  .strict();
+
+// 응답 스키마 (문항별)
+export const quizAnswerSchema = z
+  .object({
+    questionId: idSchema,
+    selectedOptionIds: z.array(idSchema).default([]),
+    textAnswer: z.string().max(200, '답안은 200자를 초과할 수 없습니다').optional(),
+  })
+  .strict();
+
+// 응시 제출 스키마
+export const submitQuizAttemptSchema = z
+  .object({
+    answers: z.array(quizAnswerSchema).max(100, '답안이 너무 많습니다'),
+  })
+  .strict();
+
+// ===================================
+// 📝 TypeScript 타입 추출
+// ===================================
+
+export type QuizQuestionTypeValue = z.infer<typeof quizQuestionTypeSchema>;
+export type QuizOptionDto = z.infer<typeof quizOptionSchema>;
+export type QuizQuestionDto = z.infer<typeof quizQuestionSchema>;
+export type UpsertQuizDto = z.infer<typeof upsertQuizSchema>;
+export type QuizAnswerDto = z.infer<typeof quizAnswerSchema>;
+export type SubmitQuizAttemptDto = z.infer<typeof submitQuizAttemptSchema>;
+
+// ===================================
+// 🏗️ 인터페이스 정의
+// ===================================
+
+// 학생에게 노출되는 문항 (정답 제외)
+export interface PublicQuizQuestion {
+  questionId: string;
+  type: QuizQuestionTypeValue;
+  prompt: string;
+  options: QuizOptionDto[];
+  points: number;
+}
+
+// 문항별 채점 결과 (정답/해설은 공개 조건을 충족한 경우에만 포함)
+export interface QuizQuestionResult {
+  questionId: string;
+  correct: boolean;
+  earnedPoints: number;
+  points: number;
+  correctOptionIds?: string[];
+  acceptedAnswers?: string[];
+  explanation?: string | null;
+}
+
+// 전체 채점 결과
+export interface QuizGradeResult {
+  score: number; // 0-100 퍼센트
+  earnedPoints: number;
+  totalPoints: number;
+  passed: boolean;
+  results: QuizQuestionResult[];
+}
+
+// ===================================
+// 🔧 유틸리티 함수들
+// ===================================
+
+// 주관식 답안 정규화 (대소문자/공백 무시)
+export function normalizeShortAnswer(answer: string): string {
+  return answer.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// 정답 정보를 제거한 문항 반환 (학생용)
+export function toPublicQuizQuestion(question: {
+  questionId: string;
+  type: QuizQuestionTypeValue;
+  prompt: string;
+  options: unknown;
+  points: number;
+}): PublicQuizQuestion {
+  return {
+    questionId: question.questionId,
+    type: question.type,
+    prompt: question.prompt,
+    options: Array.isArray(question.options) ? (question.options as QuizOptionDto[]) : [],
+    points: question.points,
+  };
+}
+
+// 단일 문항 채점
+export function gradeQuizQuestion(
+  question: Pick<
+    QuizQuestionDto,
+    'questionId' | 'type' | 'correctOptionIds' | 'acceptedAnswers' | 'points'
+  >,
+  answer?: Pick<QuizAnswerDto, 'selectedOptionIds' | 'textAnswer'>
+): boolean {
+  if (!answer) return false;
+
+  if (question.type === 'ShortAnswer') {
+    if (!answer.textAnswer) return false;
+    const normalized = normalizeShortAnswer(answer.textAnswer);
+    return question.acceptedAnswers.some(
+      (accepted) => normalizeShortAnswer(accepted) === normalized
+    );
+  }
+
+  // 객관식은 선택한 집합과 정답 집합이 정확히 일치해야 정답
+  const selected = new Set(answer.selectedOptionIds ?? []);
+  const correct = new Set(question.correctOptionIds);
+  if (selected.size !== correct.size) return false;
+  for (const id of correct) {
+    if (!selected.has(id)) return false;
+  }
+  return true;
+}
+
+// 퀴즈 전체 채점 (서버에서만 호출)
+// 결과에는 문항별 정답 여부와 점수만 담기며, 정답/해설은 revealQuizAnswers로 별도 첨부
+export function gradeQuizAttempt(
+  questions: Array<
+    Pick<
+      QuizQuestionDto,
+      'questionId' | 'type' | 'correctOptionIds' | 'acceptedAnswers' | 'points'
+    >
+  >,
+  answers: QuizAnswerDto[],
+  passThreshold: number
+): QuizGradeResult {
+  const answerMap = new Map(answers.map((answer) => [answer.questionId, answer]));
+
+  let earnedPoints = 0;
+  let totalPoints = 0;
+
+  const results: QuizQuestionResult[] = questions.map((question) => {
+    const correct = gradeQuizQuestion(question, answerMap.get(question.questionId));
+    const points = question.points;
+    totalPoints += points;
+    if (correct) earnedPoints += points;
+
+    return {
+      questionId: question.questionId,
+      correct,
+      earnedPoints: correct ? points : 0,
+      points,
+    };
+  });
+
+  const score = totalPoints > 0 ? Math.round((earnedPoints / totalPoints) * 100) : 0;
+
+  return {
+    score,
+    earnedPoints,
+    totalPoints,
+    passed: score >= passThreshold,
+    results,
+  };
+}
+
+// 남은 응시 횟수 계산 (null이면 무제한)
+export function getRemainingQuizAttempts(
+  maxAttempts: number | null | undefined,
+  usedAttempts: number
+): number | null {
+  if (maxAttempts === null || maxAttempts === undefined) return null;
+  return Math.max(maxAttempts - usedAttempts, 0);
+}
+
+// 정답/해설 공개 여부 (통과했거나 응시 횟수를 모두 사용한 경우에만 공개)
+export function canRevealQuizAnswers(
+  passed: boolean,
+  maxAttempts: number | null | undefined,
+  usedAttempts: number
+): boolean {
+  return passed || getRemainingQuizAttempts(maxAttempts, usedAttempts) === 0;
+}
+
+// 정답/해설을 제거한 채점 결과 반환 (저장된 결과에 정답이 포함된 경우도 정리)
+export function toPublicQuizQuestionResult(result: QuizQuestionResult): QuizQuestionResult {
+  return {
+    questionId: result.questionId,
+    correct: result.correct,
+    earnedPoints: result.earnedPoints,
+    points: result.points,
+  };
+}
+
+// 채점 결과에 현재 문항의 정답/해설 첨부 (공개 조건 충족 시에만 호출)
+export function revealQuizAnswers(
+  results: QuizQuestionResult[],
+  questions: Array<
+    Pick<QuizQuestionDto, 'questionId' | 'correctOptionIds' | 'acceptedAnswers'> & {
+      explanation?: string | null;
+    }
+  >
+): QuizQuestionResult[] {
+  const questionMap = new Map(questions.map((question) => [question.questionId, question]));
+
+  return results.map((result) => {
+    const question = questionMap.get(result.questionId);
+    if (!question) return toPublicQuizQuestionResult(result);
+
+    return {
+      ...toPublicQuizQuestionResult(result),
+      correctOptionIds: question.correctOptionIds,
+      acceptedAnswers: question.acceptedAnswers,
+      explanation: question.explanation ?? null,
+    };
+  });
+}
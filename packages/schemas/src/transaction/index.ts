@@ -134,6 +134,30 @@ export const refundRequestSchema = z
   })
   .strict();
 
+// 환불 상태
+export const REFUND_STATUSES = ['pending', 'completed', 'rejected', 'failed'] as const;
+export type RefundStatus = (typeof REFUND_STATUSES)[number];
+
+// 환불 정책 기간 (결제일 기준 일수)
+export const REFUND_POLICY_DAYS = 30;
+
+// 환불 검토 스키마 (강사/관리자 승인·거절)
+export const reviewRefundSchema = z
+  .object({
+    note: z
+      .string()
+      .max(500, '검토 메모는 500자를 초과할 수 없습니다')
+      .optional(),
+  })
+  .strict();
+
+// 환불 목록 쿼리 스키마
+export const refundQuerySchema = z
+  .object({
+    status: z.enum(REFUND_STATUSES).optional(),
+  })
+  .strict();
+
 // 결제 수단 저장 스키마
 export const savePaymentMethodSchema = z
   .object({
@@ -173,6 +197,8 @@ export type CreateTransactionDto = z.infer<typeof createTransactionSchema>;
 export type UpdateTransactionDto = z.infer<typeof updateTransactionSchema>;
 export type TransactionQueryDto = z.infer<typeof transactionQuerySchema>;
 export type RefundRequestDto = z.infer<typeof refundRequestSchema>;
+export type ReviewRefundDto = z.infer<typeof reviewRefundSchema>;
+export type RefundQueryDto = z.infer<typeof refundQuerySchema>;
 export type SavePaymentMethodDto = z.infer<typeof savePaymentMethodSchema>;
 export type WebhookEventDto = z.infer<typeof webhookEventSchema>;
 
@@ -217,9 +243,13 @@ export interface Transaction {
 export interface Refund {
   refundId: string;
   transactionId: string;
+  userId?: string;
   amount: number;
   reason: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: RefundStatus;
+  stripeRefundId?: string;
+  reviewedBy?: string;
+  reviewNote?: string;
   processedAt?: string;
   createdAt: string;
   updatedAt: string;
@@ -328,7 +358,9 @@ export function createTransactionOrderBy(query: TransactionQueryDto) {
 
 // 거래 통계 계산 함수
 export function calculateTransactionStats(
-  transactions: Transaction[]
+  transactions: Array<
+    Pick<Transaction, 'amount' | 'status' | 'paymentProvider' | 'createdAt'>
+  >
 ): TransactionStats {
   const total = transactions.length;
   const completed = transactions.filter(
@@ -352,7 +384,7 @@ export function calculateTransactionStats(
   };
 
   transactions.forEach((t) => {
-    providerCount[t.paymentProvider]++;
+    providerCount[t.paymentProvider] = (providerCount[t.paymentProvider] ?? 0) + 1;
   });
 
   const popularPaymentMethods = Object.entries(providerCount)
@@ -459,18 +491,33 @@ export function getPaymentMethodText(method: PaymentMethod): string {
 }
 
 // 환불 가능 여부 확인 함수
-export function canRefundTransaction(transaction: Transaction): boolean {
+export function canRefundTransaction(
+  transaction: Pick<Transaction, 'status' | 'createdAt'>,
+  policyDays: number = REFUND_POLICY_DAYS
+): boolean {
   // 완료된 거래만 환불 가능
   if (transaction.status !== PaymentStatus.COMPLETED) {
     return false;
   }
 
-  // 30일 이내 거래만 환불 가능 (정책에 따라 조정 가능)
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+  // 정책 기간 이내 거래만 환불 가능
+  const policyStart = new Date();
+  policyStart.setDate(policyStart.getDate() - policyDays);
 
   const transactionDate = new Date(transaction.createdAt);
-  return transactionDate >= thirtyDaysAgo;
+  return transactionDate >= policyStart;
+}
+
+// 환불 가능 잔액 계산 함수 (완료 및 대기 중인 환불 금액 제외)
+export function getRefundableAmount(
+  amount: number,
+  refunds: Array<Pick<Refund, 'amount' | 'status'>>
+): number {
+  const reserved = refunds
+    .filter((refund) => refund.status === 'completed' || refund.status === 'pending')
+    .reduce((sum, refund) => sum + refund.amount, 0);
+
+  return Math.max(0, amount - reserved);
 }
 
 // 거래 검증 함수
@@ -52,6 +52,7 @@ export const chapterFormSchema = z
         z.instanceof(File),
       ])
       .optional(),
+    freePreview: z.boolean().default(false),
   })
   .strict();
 
@@ -10,17 +10,21 @@ import { paginationSchema, sortOrderSchema, idSchema } from '../base';
 // 📊 진도 관련 기본 스키마들
 // ===================================
 
+// 진도 보고 1회당 최대 시청 시간 (초) - 보고 주기보다 충분히 크게
+export const MAX_TIME_SPENT_PER_REPORT = 600;
+
 // 챕터 진도 스키마
 export const chapterProgressSchema = z
   .object({
     chapterId: idSchema,
     completed: z.boolean().default(false),
     completedAt: z.string().datetime().optional(),
-    timeSpent: z.number().min(0, '소요 시간은 0 이상이어야 합니다').default(0), // 초 단위
+    timeSpent: z.number().min(0, '소요 시간은 0 이상이어야 합니다').default(0), // 초 단위 (보고 시에는 마지막 보고 이후 시청 시간)
     lastPosition: z
       .number()
       .min(0, '마지막 위치는 0 이상이어야 합니다')
       .default(0), // 비디오 재생 위치 등
+    lastWatchedAt: z.string().datetime().optional(), // lastPosition 기록 시각 (서버에서 기록, 보고 시 무시)
   })
   .strict();
 
@@ -47,12 +51,16 @@ export const sectionProgressSchema = z
   })
   .strict();
 
-// 사용자 강의 진도 업데이트 스키마
+// 사용자 강의 진도 업데이트 스키마 (단일 챕터, 영상 재생 중 주기적 보고)
 export const updateUserCourseProgressSchema = z
   .object({
     chapterId: idSchema,
-    completed: z.boolean(),
-    timeSpent: z.number().min(0, '소요 시간은 0 이상이어야 합니다').optional(),
+    completed: z.boolean().optional(), // 생략 시 기존 완료 상태 유지
+    timeSpent: z
+      .number()
+      .min(0, '소요 시간은 0 이상이어야 합니다')
+      .max(MAX_TIME_SPENT_PER_REPORT, `한 번에 보고할 수 있는 시청 시간은 ${MAX_TIME_SPENT_PER_REPORT}초 이하입니다`)
+      .optional(), // 마지막 보고 이후 시청한 시간 (초, 누적값에 더해짐)
     lastPosition: z
       .number()
       .min(0, '마지막 위치는 0 이상이어야 합니다')
@@ -99,6 +107,24 @@ export const progressQuerySchema = paginationSchema
   })
   .strict();
 
+// 강사용 강의 분석 조회 쿼리 스키마 (수강 등록 추이 기간과 집계 단위)
+export const courseAnalyticsQuerySchema = z
+  .object({
+    days: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 90))
+      .pipe(
+        z
+          .number()
+          .int()
+          .min(7, '조회 기간은 7일 이상이어야 합니다')
+          .max(365, '조회 기간은 365일을 초과할 수 없습니다')
+      ),
+    interval: z.enum(['day', 'week']).default('week'),
+  })
+  .strict();
+
 // ===================================
 // 📝 TypeScript 타입 추출
 // ===================================
@@ -109,6 +135,7 @@ export type UpdateUserCourseProgressDto = z.infer<
   typeof updateUserCourseProgressSchema
 >;
 export type ProgressQueryDto = z.infer<typeof progressQuerySchema>;
+export type CourseAnalyticsQueryDto = z.infer<typeof courseAnalyticsQuerySchema>;
 
 // ===================================
 // 🏗️ 인터페이스 정의
@@ -121,6 +148,7 @@ export interface ChapterProgress {
   completedAt?: string;
   timeSpent: number; // 초 단위
   lastPosition: number; // 비디오 재생 위치 등
+  lastWatchedAt?: string; // lastPosition 기록 시각
 }
 
 // 섹션 진도 인터페이스
@@ -151,10 +179,110 @@ export interface UserCourseProgress {
   averageTimePerChapter?: number; // 초 단위
 }
 
+// 강의 분석 - 챕터별 완료 퍼널 (강의 순서대로)
+export interface CourseAnalyticsChapter {
+  chapterId: string;
+  title: string;
+  type: string;
+  sectionId: string;
+  sectionTitle: string;
+  startedCount: number; // 시청 기록이 있거나 완료한 수강생 수
+  completedCount: number;
+  completionRate: number; // 전체 수강생 대비 완료율 (0-100)
+  dropOffRate: number; // 직전 챕터 완료자 중 이 챕터를 완료하지 않은 비율 (0-100)
+  stalledCount: number; // 이 챕터가 첫 미완료 챕터인 수강생 수 (이탈 지점)
+  averageTimeSpent: number; // 시청 기록이 있는 수강생의 평균 소요 시간 (초)
+}
+
+// 강의 분석 - 이탈이 많은 챕터
+export interface CourseAnalyticsDropOff {
+  chapterId: string;
+  title: string;
+  sectionTitle: string;
+  stalledCount: number;
+  stalledRate: number; // 미완주 수강생 대비 비율 (0-100)
+}
+
+// 강의 분석 - 기간별 수강 등록 수
+export interface CourseEnrollmentTrendPoint {
+  date: string; // 구간 시작일 (YYYY-MM-DD, UTC)
+  enrollments: number;
+  totalEnrollments: number; // 구간 종료 시점 누적 등록 수
+}
+
+// 강사용 강의 분석 결과
+export interface CourseAnalytics {
+  courseId: string;
+  generatedAt: string;
+  summary: {
+    totalLearners: number;
+    completedLearners: number;
+    averageProgress: number; // 0-100
+    activeLearnersLast7Days: number;
+    activeLearnersLast30Days: number;
+  };
+  chapters: CourseAnalyticsChapter[];
+  dropOffPoints: CourseAnalyticsDropOff[];
+  enrollmentTrend: {
+    interval: 'day' | 'week';
+    days: number;
+    points: CourseEnrollmentTrendPoint[];
+  };
+}
+
 // ===================================
 // 🔧 유틸리티 함수들
 // ===================================
 
+// 순차 학습 잠금 계산에 필요한 최소 강의 구조 (섹션/챕터는 orderIndex 순으로 정렬되어 있어야 함)
+export interface SequentialCourseStructure {
+  isSequential?: boolean;
+  sections: Array<{
+    sectionId: string;
+    isSequential?: boolean;
+    chapters: Array<{ chapterId: string }>;
+  }>;
+}
+
+// 완료한 챕터 ID 목록 추출 함수
+export function getCompletedChapterIds(
+  sections: Array<{ chapters?: Array<{ chapterId: string; completed?: boolean }> }>
+): string[] {
+  return sections.flatMap((section) =>
+    (section.chapters ?? [])
+      .filter((chapter) => chapter.completed)
+      .map((chapter) => chapter.chapterId)
+  );
+}
+
+// 잠긴 챕터 ID 목록 계산 함수
+// - 강의가 순차 학습이면 앞선 챕터가 모두 완료되어야 다음 챕터가 열림
+// - 섹션이 순차 학습이면 같은 섹션의 앞선 챕터가 모두 완료되어야 다음 챕터가 열림
+export function getLockedChapterIds(
+  course: SequentialCourseStructure,
+  completedChapterIds: Iterable<string>
+): string[] {
+  const completed = new Set(completedChapterIds);
+  const locked: string[] = [];
+  let courseBlocked = false;
+
+  for (const section of course.sections) {
+    let sectionBlocked = false;
+
+    for (const chapter of section.chapters) {
+      if ((course.isSequential && courseBlocked) || (section.isSequential && sectionBlocked)) {
+        locked.push(chapter.chapterId);
+      }
+      if (!completed.has(chapter.chapterId)) {
+        courseBlocked = true;
+        sectionBlocked = true;
+      }
+    }
+  }
+
+  return locked;
+}
+
 // 전체 진도율 계산 함수
 export function calculateOverallProgress(sections: SectionProgress[]): number {
   if (sections.length === 0) return 0;
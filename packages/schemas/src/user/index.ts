@@ -99,7 +99,7 @@ export const userSearchQuerySchema = paginationSchema
       .optional(),
     email: emailSchema.optional(),
     username: usernameSchema.optional(),
-    role: z.enum(['USER', 'INSTRUCTOR']).optional(),
+    role: z.enum(['USER', 'INSTRUCTOR', 'ADMIN']).optional(),
     isActive: z
       .enum(['true', 'false'])
       .optional()
@@ -137,8 +137,10 @@ export const deleteAccountSchema = z
 export const changeUserRoleSchema = z
   .object({
     userId: idSchema,
-    newRole: z.enum(['USER', 'INSTRUCTOR'], {
-      errorMap: () => ({ message: '역할은 USER 또는 INSTRUCTOR여야 합니다' }),
+    newRole: z.enum(['USER', 'INSTRUCTOR', 'ADMIN'], {
+      errorMap: () => ({
+        message: '역할은 USER, INSTRUCTOR, ADMIN 중 하나여야 합니다',
+      }),
     }),
     reason: z
       .string()
@@ -186,6 +188,61 @@ export const bulkUserActionSchema = z
   })
   .strict();
 
+// 관리자 감사 로그 조회 스키마 (관리자 전용)
+export const adminAuditLogQuerySchema = paginationSchema
+  .extend({
+    adminId: idSchema.optional(),
+    targetUserId: idSchema.optional(),
+    action: z
+      .enum(['change_role', 'activate', 'deactivate', 'verify', 'delete'])
+      .optional(),
+    sortOrder: sortOrderSchema,
+  })
+  .strict();
+
+// 강사 신청 스키마
+export const instructorApplicationSchema = z
+  .object({
+    bio: z
+      .string()
+      .trim()
+      .min(50, '자기소개는 최소 50자 이상 입력해주세요')
+      .max(2000, '자기소개는 2000자를 초과할 수 없습니다'),
+    expertise: z
+      .array(
+        z
+          .string()
+          .trim()
+          .min(1, '전문 분야를 입력해주세요')
+          .max(50, '전문 분야는 50자를 초과할 수 없습니다')
+      )
+      .min(1, '최소 1개의 전문 분야를 입력해주세요')
+      .max(10, '전문 분야는 최대 10개까지 입력할 수 있습니다'),
+    sampleContentUrl: z.string().url('올바른 URL 형식이 아닙니다'),
+  })
+  .strict();
+
+// 강사 신청 심사 스키마 (관리자 전용)
+export const reviewInstructorApplicationSchema = z
+  .object({
+    decision: z.enum(['approve', 'reject'], {
+      errorMap: () => ({ message: '결정은 approve 또는 reject여야 합니다' }),
+    }),
+    reason: z
+      .string()
+      .min(1, '심사 사유는 필수입니다')
+      .max(500, '사유는 500자를 초과할 수 없습니다'),
+  })
+  .strict();
+
+// 강사 신청 대기열 조회 스키마 (관리자 전용)
+export const instructorApplicationQuerySchema = paginationSchema
+  .extend({
+    status: z.enum(['pending', 'approved', 'rejected']).default('pending'),
+    sortOrder: z.enum(['asc', 'desc']).default('asc'), // 대기열은 오래된 신청부터
+  })
+  .strict();
+
 // ===================================
 // 📝 TypeScript 타입 추출
 // ===================================
@@ -200,6 +257,14 @@ export type ChangeUserRoleDto = z.infer<typeof changeUserRoleSchema>;
 export type ToggleUserStatusDto = z.infer<typeof toggleUserStatusSchema>;
 export type ResendVerificationDto = z.infer<typeof resendVerificationSchema>;
 export type BulkUserActionDto = z.infer<typeof bulkUserActionSchema>;
+export type AdminAuditLogQuery = z.infer<typeof adminAuditLogQuerySchema>;
+export type InstructorApplicationDto = z.infer<typeof instructorApplicationSchema>;
+export type ReviewInstructorApplicationDto = z.infer<
+  typeof reviewInstructorApplicationSchema
+>;
+export type InstructorApplicationQuery = z.infer<
+  typeof instructorApplicationQuerySchema
+>;
 
 // ===================================
 // 🏗️ 인터페이스 정의
@@ -213,7 +278,7 @@ export interface User {
   firstName?: string;
   lastName?: string;
   avatar?: string;
-  role: 'USER' | 'INSTRUCTOR';
+  role: 'USER' | 'INSTRUCTOR' | 'ADMIN';
   isActive: boolean;
   isVerified: boolean;
   createdAt: string;
@@ -265,6 +330,35 @@ export interface SocialAccount {
   updatedAt: string;
 }
 
+// 관리자 감사 로그 인터페이스
+export interface AdminAuditLog {
+  id: string;
+  adminId: string;
+  targetUserId: string;
+  action: 'change_role' | 'activate' | 'deactivate' | 'verify' | 'delete';
+  reason: string;
+  metadata?: Record<string, unknown>;
+  ipAddress?: string;
+  createdAt: string;
+}
+
+// 강사 신청 인터페이스
+export interface InstructorApplication {
+  id: string;
+  userId: string;
+  bio: string;
+  expertise: string[];
+  sampleContentUrl: string;
+  status: 'pending' | 'approved' | 'rejected';
+  reviewNote?: string | null;
+  reviewedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+
+  // 관리자 대기열 조회 시 포함
+  user?: Pick<User, 'id' | 'email' | 'username' | 'firstName' | 'lastName'>;
+}
+
 // 사용자 통계 인터페이스
 export interface UserStats {
   total: number;